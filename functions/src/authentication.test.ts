@@ -0,0 +1,38 @@
+import {EApiErrorCode} from "./types/api";
+import {handleLogin} from "./authentication";
+import {createMemoryStorage, setStorage} from "./storage";
+import {callHandler} from "./testUtils";
+
+/**
+ * A failed login is an API error like the errors of every other endpoint.
+ */
+
+beforeEach(() => {
+    setStorage(createMemoryStorage());
+});
+
+describe("handleLogin", () => {
+    it("rejects a login without an id or password", async () => {
+        expect(await callHandler(handleLogin, {body: {id: "alice"}})).toEqual({
+            statusCode: 400,
+            body: {code: EApiErrorCode.INVALID_REQUEST, message: "Require an id and a password"}
+        });
+    });
+
+    it("rejects an incorrect password", async () => {
+        expect((await callHandler(handleLogin, {body: {id: "alice", password: "secret"}})).statusCode).toBe(201);
+
+        expect(await callHandler(handleLogin, {body: {id: "alice", password: "wrong"}})).toEqual({
+            statusCode: 401,
+            body: {code: EApiErrorCode.UNAUTHENTICATED, message: "Incorrect password"}
+        });
+    });
+
+    it("logs in again with the correct password", async () => {
+        await callHandler(handleLogin, {body: {id: "alice", password: "secret"}});
+
+        const response = await callHandler(handleLogin, {body: {id: "alice", password: "secret"}});
+        expect(response.statusCode).toBe(200);
+        expect(response.body.personId).toBe("alice");
+    });
+});
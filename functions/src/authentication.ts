@@ -1,8 +1,85 @@
 import {ENetworkObjectType, IApiPersonsLoginPost} from "persons-game-common/lib/types/GameTypes";
 import * as admin from "firebase-admin";
-import {IPersonDatabase} from "./types/database";
-import {defaultPersonHealthObject} from "./config";
+import * as crypto from "crypto";
+import * as shajs from "sha.js";
+import {IPersonDatabase, ISessionDatabase} from "./types/database";
+import {EApiErrorCode, IApiPersonsLoginResponse} from "./types/api";
+import {defaultPersonHealthObject, defaultSpawnPosition, sessionDurationMilliseconds} from "./config";
 import {getNetworkObjectCellString} from "persons-game-common/lib/cell";
+import * as express from "express";
+import {ApiError} from "./errors";
+import {getStorage, IStorageTransaction} from "./storage";
+
+/**
+ * The prefix of a hashed password. Passwords without the prefix are legacy plaintext passwords.
+ */
+const passwordHashPrefix = "sha256";
+
+/**
+ * Compute the sha256 hash of a string.
+ * @param value The string to hash.
+ */
+const sha256 = (value: string): string => shajs("sha256").update(value).digest("hex");
+
+/**
+ * Hash a password with a random salt. The result contains the salt so it can be verified later.
+ * @param password The plaintext password.
+ * @param salt The salt to use, a new random salt is generated if not given.
+ */
+export const hashPassword = (password: string, salt: string = crypto.randomBytes(16).toString("hex")): string => {
+    return [passwordHashPrefix, salt, sha256(`${salt}${password}`)].join("$");
+};
+
+/**
+ * If the stored password is a hash or a legacy plaintext password.
+ * @param storedPassword The password stored in the database.
+ */
+const isPasswordHashed = (storedPassword: string): boolean => {
+    return storedPassword.startsWith(`${passwordHashPrefix}$`);
+};
+
+/**
+ * Check a plaintext password against the stored password. Legacy plaintext passwords are compared directly.
+ * @param password The plaintext password from the login request.
+ * @param storedPassword The password stored in the database.
+ */
+const verifyPassword = (password: string, storedPassword: string): boolean => {
+    if (isPasswordHashed(storedPassword)) {
+        const [, salt] = storedPassword.split("$");
+        const expected = Buffer.from(storedPassword);
+        const actual = Buffer.from(hashPassword(password, salt));
+        return expected.length === actual.length && crypto.timingSafeEqual(expected, actual);
+    } else {
+        return storedPassword === password;
+    }
+};
+
+/**
+ * The id of a session document. Only the hash of the token is stored.
+ * @param token The session token.
+ */
+export const getSessionId = (token: string): string => sha256(token);
+
+/**
+ * Create a new session for a person inside of a transaction.
+ * @param personId The person that logged in.
+ * @param transaction The login transaction.
+ */
+const createSession = (personId: string, transaction: IStorageTransaction): IApiPersonsLoginResponse => {
+    const token = crypto.randomBytes(32).toString("hex");
+    const now = admin.firestore.Timestamp.now();
+    const session: ISessionDatabase = {
+        personId,
+        createdAt: now,
+        expiresAt: admin.firestore.Timestamp.fromMillis(now.toMillis() + sessionDurationMilliseconds)
+    };
+    transaction.collection("sessions").create(getSessionId(token), session);
+    return {
+        personId,
+        token,
+        expiresAt: session.expiresAt.toDate().toISOString()
+    };
+};
 
 /**
  * Handle the login of a user.
@@ -12,41 +89,52 @@ import {getNetworkObjectCellString} from "persons-game-common/lib/cell";
  */
 export const handleLogin = (req: { body: IApiPersonsLoginPost; }, res: any, next: (arg0: any) => any) => {
     (async () => {
-        const { statusCode } = await admin.firestore().runTransaction(async (transaction): Promise<{
-            statusCode: number
+        const {id, password} = req.body;
+        if (typeof id !== "string" || !id || typeof password !== "string" || !password) {
+            throw new ApiError(400, EApiErrorCode.INVALID_REQUEST, "Require an id and a password");
+        }
+
+        const { statusCode, session } = await getStorage().runTransaction(async (transaction): Promise<{
+            statusCode: number,
+            session: IApiPersonsLoginResponse
         }> => {
             // check to see if person exists in the database
-            const {id, password} = req.body;
-            const person = await transaction.get(admin.firestore().collection("persons").doc(id));
-            if (person.exists) {
-                // person exist, check if logged in already
-                const data = person.data() as IPersonDatabase;
+            const data = await transaction.collection("persons").get(id);
+            if (data) {
+                // person exist, check password
+                if (!verifyPassword(password, data.password)) {
+                    // incorrect password, reject
+                    throw new ApiError(401, EApiErrorCode.UNAUTHENTICATED, "Incorrect password");
+                }
+
+                // replace a legacy plaintext password with a salted hash
+                const passwordUpdate: Partial<IPersonDatabase> = isPasswordHashed(data.password) ?
+                    {} :
+                    {password: hashPassword(password)};
+
                 if (data.lastUpdate < getThirtySecondsAgo()) {
-                    // the person is not logged in, check password
-                    if (data.password === password) {
-                        // update lastUpdate to login, keep original position
-                        transaction.update(person.ref, {
-                            carId: null,
-                            lastUpdate: admin.firestore.Timestamp.now()
-                        } as Partial<IPersonDatabase>);
-
-                        // return accepted
-                        return { statusCode: 202 };
-                    } else {
-                        // incorrect password, reject
-                        return { statusCode: 401 };
-                    }
+                    // the person is not logged in, update lastUpdate to login, keep original position
+                    transaction.collection("persons").merge(id, {
+                        ...passwordUpdate,
+                        carId: null,
+                        lastUpdate: admin.firestore.Timestamp.now()
+                    });
+
+                    // return accepted
+                    return { statusCode: 202, session: createSession(id, transaction) };
                 } else {
-                    // the person is logged in, do nothing
-                    return { statusCode: 200 };
+                    // the person is logged in, keep their position and only create a new session
+                    if (passwordUpdate.password) {
+                        transaction.collection("persons").merge(id, passwordUpdate);
+                    }
+                    return { statusCode: 200, session: createSession(id, transaction) };
                 }
             } else {
                 // person does not exist, create a new login
-                const data: IPersonDatabase = {
+                const newPersonData: IPersonDatabase = {
                     id,
-                    password,
-                    x: 50,
-                    y: 150,
+                    password: hashPassword(password),
+                    ...defaultSpawnPosition,
                     pantColor: "blue",
                     shirtColor: "grey",
                     carId: null,
@@ -55,10 +143,7 @@ export const handleLogin = (req: { body: IApiPersonsLoginPost; }, res: any, next
                     creditLimit: 1000,
                     objectType: ENetworkObjectType.PERSON,
                     health: defaultPersonHealthObject,
-                    cell: getNetworkObjectCellString({
-                        x: 50,
-                        y: 150
-                    }),
+                    cell: getNetworkObjectCellString(defaultSpawnPosition),
                     inventory: {
                         rows: 1,
                         columns: 10,
@@ -67,16 +152,67 @@ export const handleLogin = (req: { body: IApiPersonsLoginPost; }, res: any, next
                     craftingSeed: new Array(20).fill(0).map(() => Math.floor(Math.random() * 36).toString(36)).join(""),
                     craftingState: true,
                 };
-                transaction.set(admin.firestore().collection("persons").doc(id), data);
-            }
+                transaction.collection("persons").set(id, newPersonData);
 
-            // return created
-            return { statusCode: 201 };
+                // return created
+                return { statusCode: 201, session: createSession(id, transaction) };
+            }
         });
 
-        res.sendStatus(statusCode);
+        res.status(statusCode).json(session);
     })().catch((err) => next(err));
 };
+/**
+ * Get the person id of a session token. Throws a 401 [[ApiError]] if the session does not exist or has expired.
+ * @param token The session token sent by the client.
+ */
+export const getSessionPersonId = async (token: string): Promise<string> => {
+    const session = await getStorage().collection("sessions").get(getSessionId(token));
+    if (!session) {
+        throw new ApiError(401, EApiErrorCode.UNAUTHENTICATED, "Invalid session token, login again");
+    }
+    if (session.expiresAt.toMillis() < admin.firestore.Timestamp.now().toMillis()) {
+        throw new ApiError(401, EApiErrorCode.UNAUTHENTICATED, "Session expired, login again");
+    }
+    return session.personId;
+};
+
+/**
+ * Get the person id of the "Authorization: Bearer <token>" header of a request which does not require a session. Returns
+ * null without a session token and throws a 401 [[ApiError]] if the session token is invalid.
+ * @param req The request of the caller.
+ */
+export const getOptionalSessionPersonId = async (req: express.Request): Promise<string | null> => {
+    const [scheme, token] = (req.header("Authorization") || "").split(" ");
+    if (scheme !== "Bearer" || !token) {
+        return null;
+    }
+    return await getSessionPersonId(token);
+};
+
+/**
+ * Express middleware which resolves the caller from the "Authorization: Bearer <token>" header and stores the person id
+ * in res.locals.personId. Requests without a valid session are rejected with 401.
+ * @param personIdField An optional request body field which must match the caller, otherwise the request is rejected
+ * with 403. Used to stop one person from acting as another person.
+ */
+export const authenticatePerson = (personIdField?: string): express.RequestHandler => (req, res, next) => {
+    (async () => {
+        const [scheme, token] = (req.header("Authorization") || "").split(" ");
+        if (scheme !== "Bearer" || !token) {
+            throw new ApiError(401, EApiErrorCode.UNAUTHENTICATED, "Require a session token, login first");
+        }
+        const personId = await getSessionPersonId(token);
+
+        if (personIdField && req.body && req.body[personIdField] !== personId) {
+            throw new ApiError(403, EApiErrorCode.FORBIDDEN, `Cannot perform request for ${req.body[personIdField]} as ${personId}`);
+        }
+
+        res.locals.personId = personId;
+        next();
+    })().catch((err) => next(err));
+};
+
 /**
  * Compute the date from thirty seconds ago. Used for determining if tha user is logged in. If the last update was less
  * than 30 seconds ago, they are logged in. If it was greater than 30 seconds, they are logged out.
@@ -86,4 +222,4 @@ export const getThirtySecondsAgo = (): admin.firestore.Timestamp => {
     const dateThirtySecondsAgo = new Date(dateNow);
     dateThirtySecondsAgo.setSeconds(dateNow.getSeconds() - 30);
     return admin.firestore.Timestamp.fromDate(dateThirtySecondsAgo);
-};
\ No newline at end of file
+};
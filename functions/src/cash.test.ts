@@ -0,0 +1,102 @@
+import {EApiErrorCode, ELedgerReason} from "./types/api";
+import {addCashChange, addCashPayment, applyCashChanges, createCashChanges, getAvailableCash, ICashChanges} from "./cash";
+import {createMemoryStorage, getStorage, setStorage} from "./storage";
+import {IPersonDatabase} from "./types/database";
+import {createTestPerson} from "./testUtils";
+
+/**
+ * Cash changes are checked together, a transfer which one person cannot afford must not change anybody.
+ */
+
+/**
+ * Apply cash changes to the stored persons in a transaction.
+ * @param personIds The persons to read.
+ * @param buildChanges Adds the cash changes.
+ */
+const runCashChanges = async (personIds: string[], buildChanges: (changes: ICashChanges) => void) => {
+    await getStorage().runTransaction(async (transaction) => {
+        const documents = await transaction.collection("persons").getAll(personIds);
+        const persons = new Map<string, IPersonDatabase>();
+        personIds.forEach((id, index) => {
+            const personData = documents[index];
+            if (personData) {
+                persons.set(id, personData);
+            }
+        });
+        const changes = createCashChanges();
+        buildChanges(changes);
+        applyCashChanges(transaction, persons, changes);
+    });
+};
+
+describe("getAvailableCash", () => {
+    it("adds the credit limit and removes escrow and the loan balance", () => {
+        expect(getAvailableCash({cash: 100, creditLimit: 50})).toBe(150);
+        expect(getAvailableCash({cash: 100, creditLimit: 50, escrow: 30, loanBalance: 20})).toBe(100);
+        expect(getAvailableCash({cash: -10, creditLimit: 0, escrow: 5})).toBe(-15);
+    });
+});
+
+describe("applyCashChanges", () => {
+    beforeEach(async () => {
+        setStorage(createMemoryStorage());
+        await getStorage().collection("persons").set("alice", createTestPerson("alice", {cash: 100, creditLimit: 50}));
+        await getStorage().collection("persons").set("bob", createTestPerson("bob", {cash: 0}));
+    });
+
+    it("moves cash between persons and records the payment in the ledger", async () => {
+        await runCashChanges(["alice", "bob"], changes => {
+            addCashPayment(changes, {from: "alice", to: "bob", amount: 120, reason: ELedgerReason.LOT_TRADE, referenceId: "lot"});
+        });
+
+        expect((await getStorage().collection("persons").get("alice") as IPersonDatabase).cash).toBe(-20);
+        expect((await getStorage().collection("persons").get("bob") as IPersonDatabase).cash).toBe(120);
+        const entries = await getStorage().collection("ledgerEntries").query([]);
+        expect(entries.map(({data}) => data)).toEqual([expect.objectContaining({
+            from: "alice",
+            to: "bob",
+            personIds: ["alice", "bob"],
+            amount: 120,
+            reason: ELedgerReason.LOT_TRADE,
+            referenceId: "lot"
+        })]);
+    });
+
+    it("rejects spending over the credit limit without changing anybody", async () => {
+        await expect(runCashChanges(["alice", "bob"], changes => {
+            addCashPayment(changes, {from: "alice", to: "bob", amount: 151, reason: ELedgerReason.LOT_TRADE, referenceId: null});
+        })).rejects.toMatchObject({statusCode: 402, code: EApiErrorCode.INSUFFICIENT_FUNDS});
+
+        expect((await getStorage().collection("persons").get("alice") as IPersonDatabase).cash).toBe(100);
+        expect((await getStorage().collection("persons").get("bob") as IPersonDatabase).cash).toBe(0);
+        expect(await getStorage().collection("ledgerEntries").query([])).toHaveLength(0);
+    });
+
+    it("counts escrow as spent", async () => {
+        await runCashChanges(["alice"], changes => {
+            addCashChange(changes, "alice", {escrow: 100});
+        });
+        await expect(runCashChanges(["alice"], changes => {
+            addCashChange(changes, "alice", {escrow: 51});
+        })).rejects.toMatchObject({code: EApiErrorCode.INSUFFICIENT_FUNDS});
+
+        expect((await getStorage().collection("persons").get("alice") as IPersonDatabase).escrow).toBe(100);
+    });
+
+    it("always allows receiving cash and releasing escrow", async () => {
+        await getStorage().collection("persons").merge("bob", {cash: -500, escrow: 40});
+        await runCashChanges(["bob"], changes => {
+            addCashChange(changes, "bob", {cash: 10, escrow: -40});
+        });
+
+        const bob = await getStorage().collection("persons").get("bob") as IPersonDatabase;
+        expect(bob.cash).toBe(-490);
+        expect(bob.escrow).toBe(0);
+    });
+
+    it("rejects changes of a person who was not read", async () => {
+        await expect(runCashChanges(["alice"], changes => {
+            addCashChange(changes, "carol", {cash: 10});
+        })).rejects.toMatchObject({statusCode: 404, code: EApiErrorCode.NOT_FOUND});
+    });
+});
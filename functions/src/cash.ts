@@ -0,0 +1,136 @@
+import * as admin from "firebase-admin";
+import {IPersonDatabase} from "./types/database";
+import {EApiErrorCode} from "./types/api";
+import {ApiError} from "./errors";
+import {IStorageTransaction} from "./storage";
+import {addLedgerEntry, TLedgerPayment} from "./ledger";
+
+/**
+ * Move cash between persons. A person can spend their cash and their credit limit, minus the cash held in escrow for
+ * their open offers and the balance of their loan. Every change of a transaction is collected first, then checked and
+ * written together so a transfer either happens completely or not at all. Each payment is recorded in the ledger by the
+ * same transaction.
+ */
+
+/**
+ * The change to the cash and escrow of one person.
+ */
+export interface ICashChange {
+    /**
+     * The amount added to the cash of the person, negative to remove cash.
+     */
+    cash: number;
+    /**
+     * The amount added to the escrow of the person, negative to release escrow.
+     */
+    escrow: number;
+}
+
+/**
+ * The cash changes of a transaction.
+ */
+export interface ICashChanges {
+    /**
+     * The change of each person by person id.
+     */
+    persons: Map<string, ICashChange>;
+    /**
+     * The payments to record in the ledger.
+     */
+    payments: TLedgerPayment[];
+}
+
+/**
+ * Create the empty cash changes of a transaction.
+ */
+export const createCashChanges = (): ICashChanges => ({
+    persons: new Map(),
+    payments: []
+});
+
+/**
+ * Round an amount of cash to cents.
+ * @param amount The amount to round.
+ */
+export const roundCash = (amount: number): number => Math.round(amount * 100) / 100;
+
+/**
+ * The amount of cash a person can still spend or reserve.
+ * @param person The person to check.
+ */
+export const getAvailableCash = (
+    person: Pick<IPersonDatabase, "cash" | "creditLimit" | "escrow" | "loanBalance">
+): number => {
+    return person.cash + person.creditLimit - (person.escrow || 0) - (person.loanBalance || 0);
+};
+
+/**
+ * Add a change to the cash changes of a transaction.
+ * @param changes The cash changes of the transaction.
+ * @param personId The person to change.
+ * @param change The amount of cash and escrow to add.
+ */
+export const addCashChange = (changes: ICashChanges, personId: string, change: Partial<ICashChange>) => {
+    const previous = changes.persons.get(personId) || {cash: 0, escrow: 0};
+    changes.persons.set(personId, {
+        cash: previous.cash + (change.cash || 0),
+        escrow: previous.escrow + (change.escrow || 0)
+    });
+};
+
+/**
+ * Pay cash from one person to another.
+ * @param changes The cash changes of the transaction.
+ * @param payment Who pays whom, null for the city, how much and why.
+ */
+export const addCashPayment = (changes: ICashChanges, payment: TLedgerPayment) => {
+    if (payment.from) {
+        addCashChange(changes, payment.from, {cash: -payment.amount});
+    }
+    if (payment.to) {
+        addCashChange(changes, payment.to, {cash: payment.amount});
+    }
+    changes.payments.push(payment);
+};
+
+/**
+ * Check the cash changes of a transaction and write them with their ledger entries. Each changed person must be read by
+ * the transaction beforehand. A person who spends or reserves cash must not go over their credit limit, receiving cash
+ * or releasing escrow is always allowed.
+ * @param transaction The transaction to write with.
+ * @param persons The persons read by the transaction by person id.
+ * @param changes The cash changes of the transaction.
+ */
+export const applyCashChanges = (
+    transaction: IStorageTransaction,
+    persons: Map<string, IPersonDatabase>,
+    changes: ICashChanges
+) => {
+    const updates: Array<{personId: string, data: Partial<IPersonDatabase>}> = [];
+    changes.persons.forEach((change, personId) => {
+        const person = persons.get(personId);
+        if (!person) {
+            throw new ApiError(404, EApiErrorCode.NOT_FOUND, `Person ${personId} does not exist`);
+        }
+
+        const cash = person.cash + change.cash;
+        const escrow = Math.max(0, (person.escrow || 0) + change.escrow);
+        const spends = change.cash < 0 || change.escrow > 0;
+        if (spends && getAvailableCash({...person, cash, escrow}) < 0) {
+            throw new ApiError(402, EApiErrorCode.INSUFFICIENT_FUNDS, `Person ${personId} does not have enough cash or credit`);
+        }
+        updates.push({personId, data: {cash, escrow}});
+    });
+
+    // only write after every change was checked
+    const now = admin.firestore.Timestamp.now();
+    for (const {personId, data} of updates) {
+        transaction.collection("persons").merge(personId, {
+            ...data,
+            lastUpdate: now
+        });
+    }
+    for (const payment of changes.payments) {
+        addLedgerEntry(transaction, payment, now);
+    }
+};
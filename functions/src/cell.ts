@@ -1,5 +1,6 @@
 import {ILot, INetworkObjectCellPosition, IObject} from "persons-game-common/lib/types/GameTypes";
 import {getNetworkObjectWorldCellPosition, networkObjectCellPositionToCellString} from "persons-game-common/lib/cell";
+import {defaultCellRadius, maxCellRadius} from "./config";
 
 /**
  * Cells are invisible lines that divide the world space into squares. Each cell is used to quickly filter objects that
@@ -11,7 +12,7 @@ import {getNetworkObjectWorldCellPosition, networkObjectCellPositionToCellString
  * Compute the cells string of the cells that the lot is in.
  * @param lot The lot to compute multiple cells for.
  */
-export const getLotCellsString = (lot: ILot): string[] => {
+export const getLotCellsString = (lot: Pick<ILot, "x" | "y" | "width" | "height">): string[] => {
     // get two corners of the outer edge of the rectangle
     const topLeftCorner = getNetworkObjectWorldCellPosition({
         x: lot.x,
@@ -41,18 +42,34 @@ export const getLotCellsString = (lot: ILot): string[] => {
     }
     return cells;
 };
+/**
+ * Parse the cell radius requested by a client, for example a large screen or the map view. Missing or invalid values
+ * use the default radius, large values are limited to the maximum radius.
+ * @param radius The "radius" query parameter.
+ */
+export const parseCellRadius = (radius: unknown): number => {
+    const value = typeof radius === "string" ? parseInt(radius, 10) : NaN;
+    if (isNaN(value) || value < 0) {
+        return defaultCellRadius;
+    }
+    return Math.min(value, maxCellRadius);
+};
 /**
  * Get a list of relevant world cells to filter by.
  * @param networkObject The network object to filter by.
+ * @param radius The number of cells to load in each direction around the network object.
  */
-export const getRelevantNetworkObjectCells = (networkObject: IObject): INetworkObjectCellPosition[] => {
+export const getRelevantNetworkObjectCells = (
+    networkObject: IObject,
+    radius: number = defaultCellRadius
+): INetworkObjectCellPosition[] => {
     // gt network object world cell position
     const {x, y} = getNetworkObjectWorldCellPosition(networkObject);
 
-    // pick the current cell and the 3 other cells around the nearest corner, return 4 cells
+    // pick the current cell and the cells around it, return a square of cells
     const cellsToLoad: INetworkObjectCellPosition[] = [];
-    for (let i = -1; i <= 1; i++) {
-        for (let j = -1; j <= 1; j++) {
+    for (let i = -radius; i <= radius; i++) {
+        for (let j = -radius; j <= radius; j++) {
             cellsToLoad.push({
                 x: x + i,
                 y: y + j
@@ -64,7 +81,8 @@ export const getRelevantNetworkObjectCells = (networkObject: IObject): INetworkO
 /**
  * Get a list of relevant world cells to filter by.
  * @param networkObject The network object to filter by.
+ * @param radius The number of cells to load in each direction around the network object.
  */
-export const getRelevantNetworkObjectCellIds = (networkObject: IObject): string[] => {
-    return getRelevantNetworkObjectCells(networkObject).map(networkObjectCellPositionToCellString);
+export const getRelevantNetworkObjectCellIds = (networkObject: IObject, radius: number = defaultCellRadius): string[] => {
+    return getRelevantNetworkObjectCells(networkObject, radius).map(networkObjectCellPositionToCellString);
 };
@@ -1,22 +1,58 @@
-import {ILotFiller, ILotFillerLotAndObjects} from "./types/database";
+import * as admin from "firebase-admin";
+import {IGeneratedCity, ILotContents, ILotDatabase, ILotFillerLotAndObjects, IRoadDatabase} from "./types/database";
 import {
     ELotExpandType,
     ELotZone,
     ERoadDirection,
     ERoadType,
-    ICity,
     ILot,
     ILotExpandTypeAndAffectedLocations,
-    INetworkObject,
     IObject,
     IRoad,
     IWhichDirectionIsNearby
 } from "persons-game-common/lib/types/GameTypes";
+import {getNetworkObjectCellString} from "persons-game-common/lib/cell";
+import {getLotCellsString} from "./cell";
+import {
+    floorClientToDatabase,
+    houseClientToDatabase,
+    networkObjectClientToDatabase,
+    stockpileClientToDatabase,
+    stockpileTileClientToDatabase,
+    vendingMachineClientToDatabase,
+    wallClientToDatabase
+} from "./common";
+import {createLotContents, lotFillers} from "./lotFillers";
+import {markWorldReset} from "./sync";
+import {getStorage, IStorageBatch, TCollectionName, where} from "./storage";
 
 /**
  * Handle the creation of a city.
  */
 
+/**
+ * The id of the city map document and the prefix of the generated ids.
+ */
+export const cityMapId = "city1";
+
+/**
+ * The most writes Firestore allows in one batch.
+ */
+const maxBatchWrites = 500;
+
+/**
+ * The collections which the lot fillers write to.
+ */
+const cityContentCollectionNames: TCollectionName[] = [
+    "objects",
+    "houses",
+    "floors",
+    "walls",
+    "stockpiles",
+    "stockpileTiles",
+    "vendingMachines"
+];
+
 /**
  * Lot is at location and zone matches.
  * @param location The location to check.
@@ -125,7 +161,6 @@ const getLotExpandTypeAndAffectedLocations = (lot: ILot, lots: ILot[]): ILotExpa
         };
     }
 };
-const lotFillers: ILotFiller[] = [];
 /**
  * Fill a lot with rooms.
  * @param lot The lot to fill.
@@ -137,18 +172,18 @@ const fillLot = (lot: ILot): ILotFillerLotAndObjects => {
     } else {
         return {
             lot,
-            objects: [] as INetworkObject[]
+            ...createLotContents()
         };
     }
 };
-const generateLotId = (lot: ILot): string => `city1-${lot.zone}(${lot.x},${lot.y})`;
+const generateLotId = (lot: ILot): string => `${cityMapId}-${lot.zone}(${lot.x},${lot.y})`;
 /**
  * Generate lots and objects within the lots.
  * @param format The format string of the city. Lots will populate an ASCII map of the city.
  * @param x The x offset of the city.
  * @param y The y offset of the city.
  */
-export const generateLots = ({format, offset: {x, y}}: { format: string, offset: IObject }): { lots: ILot[], objects: INetworkObject[] } => {
+export const generateLots = ({format, offset: {x, y}}: { format: string, offset: IObject }): { lots: ILot[] } & ILotContents => {
     let lots = [] as ILot[];
 
     // generate a lot for each zoning character
@@ -163,14 +198,13 @@ export const generateLots = ({format, offset: {x, y}}: { format: string, offset:
                         format: null,
                         width: 500,
                         height: 300,
-                        x: x + columnIndex * 500,
-                        y: y + rowIndex * 300,
+                        x: columnIndex * 500,
+                        y: rowIndex * 300,
                         zone: ELotZone.RESIDENTIAL,
                         id: "",
                         buyOffers: null,
                         sellOffers: null
                     };
-                    lot.id = generateLotId(lot);
                     lots.push(lot);
                     break;
                 }
@@ -180,14 +214,13 @@ export const generateLots = ({format, offset: {x, y}}: { format: string, offset:
                         format: null,
                         width: 500,
                         height: 300,
-                        x: x + columnIndex * 500,
-                        y: y + rowIndex * 300,
+                        x: columnIndex * 500,
+                        y: rowIndex * 300,
                         zone: ELotZone.COMMERCIAL,
                         id: "",
                         buyOffers: null,
                         sellOffers: null
                     };
-                    lot.id = generateLotId(lot);
                     lots.push(lot);
                     break;
                 }
@@ -197,14 +230,13 @@ export const generateLots = ({format, offset: {x, y}}: { format: string, offset:
                         format: null,
                         width: 500,
                         height: 300,
-                        x: x + columnIndex * 500,
-                        y: y + rowIndex * 300,
+                        x: columnIndex * 500,
+                        y: rowIndex * 300,
                         zone: ELotZone.INDUSTRIAL,
                         id: "",
                         buyOffers: null,
                         sellOffers: null
                     };
-                    lot.id = generateLotId(lot);
                     lots.push(lot);
                     break;
                 }
@@ -245,25 +277,35 @@ export const generateLots = ({format, offset: {x, y}}: { format: string, offset:
         }
     }
 
+    // move lots to the offset after merging, the merge works on tile positions relative to the map
+    lots = lots.map((lot): ILot => {
+        const movedLot: ILot = {
+            ...lot,
+            x: lot.x + x,
+            y: lot.y + y
+        };
+        movedLot.id = generateLotId(movedLot);
+        return movedLot;
+    });
+
     // generate rooms and objects per lot
     const lotAndObjects = lots.map(fillLot);
 
-    // merge into two lists
-    const lotAndObjectsMerge = lotAndObjects.reduce(({lotArr, objectsArr}: { lotArr: ILot[], objectsArr: INetworkObject[] }, lotAndObjectsItem): { lotArr: ILot[], objectsArr: INetworkObject[] } => {
-        return {
-            lotArr: [...lotArr, lotAndObjectsItem.lot],
-            objectsArr: [...objectsArr, ...lotAndObjectsItem.objects]
-        };
-    }, {
-        lotArr: [],
-        objectsArr: []
-    });
-    lots = lotAndObjectsMerge.lotArr;
-    const objects = lotAndObjectsMerge.objectsArr;
+    // merge into one list of each kind of content
+    const contents = createLotContents();
+    for (const lotAndObjectsItem of lotAndObjects) {
+        contents.objects.push(...lotAndObjectsItem.objects);
+        contents.houses.push(...lotAndObjectsItem.houses);
+        contents.floors.push(...lotAndObjectsItem.floors);
+        contents.walls.push(...lotAndObjectsItem.walls);
+        contents.stockpiles.push(...lotAndObjectsItem.stockpiles);
+        contents.stockpileTiles.push(...lotAndObjectsItem.stockpileTiles);
+        contents.vendingMachines.push(...lotAndObjectsItem.vendingMachines);
+    }
 
     return {
-        lots,
-        objects
+        lots: lotAndObjects.map(lotAndObjectsItem => lotAndObjectsItem.lot),
+        ...contents
     };
 };
 
@@ -343,15 +385,15 @@ const generateRoads = ({format, offset: {x, y}}: {format: string, offset: IObjec
                             right: false
                         }
                     };
-                    road.id = `city1-road(${road.x},${road.y})`;
+                    road.id = `${cityMapId}-road(${road.x},${road.y})`;
                     roads.push(road);
                     break;
                 }
                 case "-": {
                     const road: IRoad = {
                         id: "",
-                        x: columnIndex * 500,
-                        y: rowIndex * 300,
+                        x: x + columnIndex * 500,
+                        y: y + rowIndex * 300,
                         type: ERoadType.TWO_LANE,
                         direction: ERoadDirection.HORIZONTAL,
                         connected: {
@@ -361,7 +403,7 @@ const generateRoads = ({format, offset: {x, y}}: {format: string, offset: IObjec
                             right: false
                         }
                     };
-                    road.id = `city1-road(${road.x},${road.y})`;
+                    road.id = `${cityMapId}-road(${road.x},${road.y})`;
                     roads.push(road);
                     break;
                 }
@@ -385,13 +427,100 @@ const generateRoads = ({format, offset: {x, y}}: {format: string, offset: IObjec
  * @param x The x offset of the city.
  * @param y The y offset of the city.
  */
-export const generateCity = ({format, offset: {x, y}}: {format: string, offset: IObject}): ICity => {
+export const generateCity = ({format, offset: {x, y}}: {format: string, offset: IObject}): IGeneratedCity => {
     const roads = generateRoads({format, offset: {x, y}});
-    const {lots, objects} = generateLots({format, offset: {x, y}});
+    const lotsAndContents = generateLots({format, offset: {x, y}});
 
     return {
         roads,
-        lots,
-        objects
+        ...lotsAndContents
     };
-};
\ No newline at end of file
+};
+
+/**
+ * Write or delete many documents, split into batches since a city can have more documents than one batch can write.
+ * @param writes The writes to perform.
+ */
+const commitInBatches = async (writes: Array<(batch: IStorageBatch) => void>) => {
+    for (let i = 0; i < writes.length; i += maxBatchWrites) {
+        const batch = getStorage().batch();
+        writes.slice(i, i + maxBatchWrites).forEach(write => write(batch));
+        await batch.commit();
+    }
+};
+
+/**
+ * Get the documents of the generated city in a collection, every document with a generated id.
+ * @param collectionName The collection to read.
+ */
+export const getCityDocuments = <K extends TCollectionName>(collectionName: K) => {
+    return getStorage().collection(collectionName).query([
+        where("id", ">=", `${cityMapId}-`),
+        where("id", "<", `${cityMapId}.`)
+    ]);
+};
+
+/**
+ * Delete the lot contents of the generated city. Other documents in the same collections, such as the items and
+ * buildings of persons, are kept.
+ */
+export const deleteCityContents = async () => {
+    for (const collectionName of cityContentCollectionNames) {
+        const documents = await getCityDocuments(collectionName);
+        await commitInBatches(documents.map(({id}) => (batch: IStorageBatch) => {
+            batch.collection(collectionName).delete(id);
+        }));
+    }
+
+    // the deleted documents have no tombstones, clients have to reload everything
+    await markWorldReset();
+};
+/**
+ * Write a generated city into the database. Generated ids are the same for the same city map, so writing a city again
+ * replaces it.
+ * @param city The city to write.
+ */
+export const saveCity = async (city: IGeneratedCity) => {
+    const {lots, roads, objects, houses, floors, walls, stockpiles, stockpileTiles, vendingMachines} = city;
+    const now = admin.firestore.Timestamp.now();
+    const writes: Array<(batch: IStorageBatch) => void> = [
+        ...lots.map(lot => (batch: IStorageBatch) => {
+            const lotData: ILotDatabase = {
+                ...lot,
+                cells: getLotCellsString(lot),
+                lastUpdate: now
+            };
+            batch.collection("lots").set(lot.id, lotData);
+        }),
+        ...roads.map(road => (batch: IStorageBatch) => {
+            const roadData: IRoadDatabase = {
+                ...road,
+                cell: getNetworkObjectCellString(road),
+                lastUpdate: now
+            };
+            batch.collection("roads").set(road.id, roadData);
+        }),
+        ...objects.map(object => (batch: IStorageBatch) => {
+            batch.collection("objects").set(object.id, networkObjectClientToDatabase(object));
+        }),
+        ...houses.map(house => (batch: IStorageBatch) => {
+            batch.collection("houses").set(house.id, houseClientToDatabase(house));
+        }),
+        ...floors.map(floor => (batch: IStorageBatch) => {
+            batch.collection("floors").set(floor.id, floorClientToDatabase(floor));
+        }),
+        ...walls.map(wall => (batch: IStorageBatch) => {
+            batch.collection("walls").set(wall.id, wallClientToDatabase(wall));
+        }),
+        ...stockpiles.map(stockpile => (batch: IStorageBatch) => {
+            batch.collection("stockpiles").merge(stockpile.id, stockpileClientToDatabase(stockpile));
+        }),
+        ...stockpileTiles.map(tile => (batch: IStorageBatch) => {
+            batch.collection("stockpileTiles").merge(tile.id, stockpileTileClientToDatabase(tile));
+        }),
+        ...vendingMachines.map(vendingMachine => (batch: IStorageBatch) => {
+            batch.collection("vendingMachines").set(vendingMachine.id, vendingMachineClientToDatabase(vendingMachine));
+        })
+    ];
+    await commitInBatches(writes);
+};
@@ -0,0 +1,156 @@
+import * as admin from "firebase-admin";
+import {EApiErrorCode, IApiCityFile} from "./types/api";
+import {ICityMapDatabase} from "./types/database";
+import {cityFileToCity, exportCity, validateCityFile, validateCityFormat} from "./cityFile";
+import {cityMapId, generateCity, saveCity} from "./city";
+import {generateCityFormat} from "./cityLayout";
+import {createMemoryStorage, getStorage, setStorage} from "./storage";
+
+/**
+ * Exporting a city and importing the file into an empty world has to reproduce the same city.
+ */
+
+/**
+ * Save a city and its map into the storage, like POST /generate/city and POST /generate/city/import.
+ * @param format The ASCII map of the city.
+ * @param offset The offset of the city.
+ */
+const saveCityWithMap = async (format: string, offset: {x: number, y: number}) => {
+    const cityMap: ICityMapDatabase = {
+        format,
+        offset,
+        createdAt: admin.firestore.Timestamp.now()
+    };
+    await getStorage().collection("cityMaps").set(cityMapId, cityMap);
+};
+
+/**
+ * Sort the documents of a city file by id, the storage does not keep the order of the documents.
+ * @param file The city file to sort.
+ */
+const sortCityFile = (file: IApiCityFile): IApiCityFile => {
+    const byId = <T extends {id: string}>(items: T[]): T[] => [...items].sort((a, b) => a.id.localeCompare(b.id));
+    return {
+        ...file,
+        roads: byId(file.roads),
+        lots: byId(file.lots),
+        objects: byId(file.objects),
+        houses: byId(file.houses),
+        floors: byId(file.floors),
+        walls: byId(file.walls),
+        stockpiles: byId(file.stockpiles),
+        stockpileTiles: byId(file.stockpileTiles),
+        vendingMachines: byId(file.vendingMachines)
+    };
+};
+
+/**
+ * Get the error thrown by a function.
+ * @param func The function which throws.
+ */
+const getError = (func: () => void): any => {
+    try {
+        func();
+    } catch (err) {
+        return err;
+    }
+    return null;
+};
+
+describe("city file", () => {
+    const format = generateCityFormat({seed: "city file", columns: 16, rows: 10});
+    const offset = {x: 1000, y: -600};
+    let file: IApiCityFile;
+
+    beforeEach(async () => {
+        setStorage(createMemoryStorage());
+        await saveCity(generateCity({format, offset}));
+        await saveCityWithMap(format, offset);
+        file = JSON.parse(JSON.stringify(await exportCity()));
+    });
+
+    it("exports the map, roads, lots and lot contents of the city", () => {
+        expect(file.format).toBe(format);
+        expect(file.offset).toEqual(offset);
+        expect(file.roads.length).toBeGreaterThan(0);
+        expect(file.lots.length).toBeGreaterThan(0);
+        expect(file.houses.length).toBeGreaterThan(0);
+        expect(() => validateCityFile(file)).not.toThrow();
+    });
+
+    it("reproduces the same city after export and import", async () => {
+        setStorage(createMemoryStorage());
+        validateCityFile(file);
+        await saveCity(cityFileToCity(file));
+        await saveCityWithMap(file.format, file.offset);
+        const reexportedFile: IApiCityFile = JSON.parse(JSON.stringify(await exportCity()));
+
+        const sortedFile = sortCityFile(file);
+        const sortedReexportedFile = sortCityFile(reexportedFile);
+        expect(sortedReexportedFile.roads).toEqual(sortedFile.roads);
+        expect(sortedReexportedFile.lots).toEqual(sortedFile.lots);
+        expect(sortedReexportedFile).toEqual(sortedFile);
+    });
+
+    it("keeps the owner of a lot", async () => {
+        const ownedFile: IApiCityFile = {
+            ...file,
+            lots: file.lots.map((lot, index) => index === 0 ? {...lot, owner: "person1"} : lot)
+        };
+        setStorage(createMemoryStorage());
+        await saveCity(cityFileToCity(ownedFile));
+        await saveCityWithMap(ownedFile.format, ownedFile.offset);
+
+        const ownedLot = await getStorage().collection("lots").get(ownedFile.lots[0].id);
+        expect(ownedLot).toMatchObject({owner: "person1", zone: ownedFile.lots[0].zone});
+    });
+
+    it("does not export without a generated city", async () => {
+        setStorage(createMemoryStorage());
+        await expect(exportCity()).rejects.toMatchObject({statusCode: 404, code: EApiErrorCode.NOT_FOUND});
+    });
+
+    it("rejects a file of another version", () => {
+        expect(getError(() => validateCityFile({...file, version: 2}))).toMatchObject({
+            statusCode: 400,
+            code: EApiErrorCode.INVALID_REQUEST
+        });
+    });
+
+    it("reports the field of each invalid road and lot", () => {
+        const invalidFile: IApiCityFile = JSON.parse(JSON.stringify(file));
+        invalidFile.roads[0].id = "road1";
+        invalidFile.lots[1].zone = "PARK" as any;
+        invalidFile.lots[2].width = -1;
+
+        const error = getError(() => validateCityFile(invalidFile));
+        expect(error).toMatchObject({statusCode: 400, code: EApiErrorCode.INVALID_REQUEST});
+        expect(error.details).toEqual([
+            {message: `roads[0].id must start with ${cityMapId}-`, field: "roads[0].id"},
+            {message: "lots[1].zone must be a lot zone", field: "lots[1].zone"},
+            {message: "lots[2].width must be a number above 0", field: "lots[2].width"}
+        ]);
+    });
+});
+
+describe("validateCityFormat", () => {
+    it("accepts zones, roads and spaces", () => {
+        expect(() => validateCityFormat("RRR|CC\n---|--\nIII|  ")).not.toThrow();
+    });
+
+    it("reports the row and column of each unexpected character", () => {
+        const error = getError(() => validateCityFormat("RR-\nRX|\n Q"));
+        expect(error).toMatchObject({statusCode: 400, code: EApiErrorCode.INVALID_REQUEST});
+        expect(error.details).toEqual([
+            {message: "Unexpected character \"X\" at row 2, column 2", field: "format", row: 2, column: 2},
+            {message: "Unexpected character \"Q\" at row 3, column 2", field: "format", row: 3, column: 2}
+        ]);
+    });
+
+    it("counts rows of windows line endings", () => {
+        const error = getError(() => validateCityFormat("RRR\r\nRR*"));
+        expect(error.details).toEqual([
+            {message: "Unexpected character \"*\" at row 2, column 3", field: "format", row: 2, column: 3}
+        ]);
+    });
+});
@@ -0,0 +1,216 @@
+import {
+    ELotZone,
+    ERoadDirection,
+    ERoadType,
+    IFloor,
+    IHouse,
+    ILot,
+    INetworkObject,
+    INetworkObjectBase,
+    IRoad,
+    IStockpileTile,
+    IWall
+} from "persons-game-common/lib/types/GameTypes";
+import {EApiErrorCode, IApiCityFile, IApiCityFileLot, IApiErrorDetail, IApiVendingMachine} from "./types/api";
+import {IGeneratedCity} from "./types/database";
+import {ApiError} from "./errors";
+import {cityFileVersion} from "./config";
+import {cityMapId, getCityDocuments} from "./city";
+import {stockpileDatabaseToClient} from "./common";
+import {getStorage, TCollectionName} from "./storage";
+
+/**
+ * Move cities in and out of the game as a JSON file. The file has the ASCII map of the city, which generateCity parses,
+ * and the roads, lots and lot contents written from it. A file can be edited outside of the game and imported again,
+ * the import checks the file and reports where each problem is, including the row and column of each bad character of
+ * the ASCII map.
+ */
+
+/**
+ * The characters of the ASCII map, R, C and I for zones, | and - for roads and a space for nothing.
+ */
+const cityFormatCharacters = ["R", "C", "I", "|", "-", " "];
+
+/**
+ * Check the ASCII map of a city.
+ * @param format The ASCII map to check.
+ * @param field The request field of the map.
+ */
+export const validateCityFormat = (format: string, field: string = "format") => {
+    const details: IApiErrorDetail[] = [];
+    format.split(/\r\n|\r|\n/).forEach((line, rowIndex) => {
+        line.split("").forEach((character, columnIndex) => {
+            if (!cityFormatCharacters.includes(character)) {
+                details.push({
+                    message: `Unexpected character ${JSON.stringify(character)} at row ${rowIndex + 1}, column ${columnIndex + 1}`,
+                    field,
+                    row: rowIndex + 1,
+                    column: columnIndex + 1
+                });
+            }
+        });
+    });
+    if (details.length > 0) {
+        throw new ApiError(400, EApiErrorCode.INVALID_REQUEST,
+            `The city format can only have the characters ${cityFormatCharacters.join("")}, ${details[0].message}`,
+            details);
+    }
+};
+
+/**
+ * Convert the lot contents of a collection into the client format.
+ * @param collectionName The collection of the lot contents.
+ */
+const getCityContents = async <T extends INetworkObjectBase>(collectionName: TCollectionName): Promise<T[]> => {
+    const documents = await getCityDocuments(collectionName);
+    return documents.map(({data: documentData}) => {
+        const {cell, ...data} = documentData as any;
+        return {
+            ...data,
+            lastUpdate: data.lastUpdate.toDate().toISOString()
+        };
+    });
+};
+
+/**
+ * Export the generated city.
+ */
+export const exportCity = async (): Promise<IApiCityFile> => {
+    const cityMap = await getStorage().collection("cityMaps").get(cityMapId);
+    if (!cityMap) {
+        throw new ApiError(404, EApiErrorCode.NOT_FOUND, "There is no generated city");
+    }
+    const roads = await getCityDocuments("roads");
+    const lots = await getCityDocuments("lots");
+    const stockpiles = await getCityDocuments("stockpiles");
+    return {
+        version: cityFileVersion,
+        format: cityMap.format,
+        offset: cityMap.offset,
+        roads: roads.map(({data: {id, x, y, type, direction, connected}}): IRoad => ({
+            id,
+            x,
+            y,
+            type,
+            direction,
+            connected
+        })),
+        lots: lots.map(({data: {id, x, y, width, height, zone, owner}}): IApiCityFileLot => ({
+            id,
+            x,
+            y,
+            width,
+            height,
+            zone,
+            owner
+        })),
+        objects: await getCityContents<INetworkObject>("objects"),
+        houses: await getCityContents<IHouse>("houses"),
+        floors: await getCityContents<IFloor>("floors"),
+        walls: await getCityContents<IWall>("walls"),
+        stockpiles: stockpiles.map(({data}) => stockpileDatabaseToClient(data)),
+        stockpileTiles: await getCityContents<IStockpileTile>("stockpileTiles"),
+        vendingMachines: await getCityContents<IApiVendingMachine>("vendingMachines")
+    };
+};
+
+/**
+ * Check a city file before it is imported.
+ * @param file The city file to check.
+ */
+export const validateCityFile = (file: IApiCityFile) => {
+    if (!file || typeof file !== "object" || file.version !== cityFileVersion) {
+        throw new ApiError(400, EApiErrorCode.INVALID_REQUEST, `Require a city file of version ${cityFileVersion}`);
+    }
+    if (typeof file.format !== "string") {
+        throw new ApiError(400, EApiErrorCode.INVALID_REQUEST, "Require the city format");
+    }
+    validateCityFormat(file.format);
+
+    const details: IApiErrorDetail[] = [];
+    const check = (isValid: boolean, field: string, message: string) => {
+        if (!isValid) {
+            details.push({message: `${field} ${message}`, field});
+        }
+    };
+    const isNumber = (value: any) => typeof value === "number" && isFinite(value);
+    const isCityId = (value: any) => typeof value === "string" && value.startsWith(`${cityMapId}-`);
+    const checkPosition = (value: any, field: string) => {
+        check(!!value && typeof value === "object", field, "must be an object");
+        if (value && typeof value === "object") {
+            check(isNumber(value.x), `${field}.x`, "must be a number");
+            check(isNumber(value.y), `${field}.y`, "must be a number");
+        }
+    };
+    const checkArray = (value: any, field: string, checkItem: (item: any, itemField: string) => void) => {
+        check(Array.isArray(value), field, "must be an array");
+        if (Array.isArray(value)) {
+            value.forEach((item, index) => {
+                const itemField = `${field}[${index}]`;
+                checkPosition(item, itemField);
+                if (item && typeof item === "object") {
+                    check(isCityId(item.id), `${itemField}.id`, `must start with ${cityMapId}-`);
+                    checkItem(item, itemField);
+                }
+            });
+        }
+    };
+
+    checkPosition(file.offset, "offset");
+    checkArray(file.roads, "roads", (road: IRoad, field) => {
+        check(Object.values(ERoadType).includes(road.type), `${field}.type`, "must be a road type");
+        check(Object.values(ERoadDirection).includes(road.direction), `${field}.direction`, "must be a road direction");
+        const connected: any = road.connected;
+        check(!!connected && ["up", "down", "left", "right"].every(side => typeof connected[side] === "boolean"),
+            `${field}.connected`, "must have an up, down, left and right boolean");
+    });
+    checkArray(file.lots, "lots", (lot: IApiCityFileLot, field) => {
+        check(isNumber(lot.width) && lot.width > 0, `${field}.width`, "must be a number above 0");
+        check(isNumber(lot.height) && lot.height > 0, `${field}.height`, "must be a number above 0");
+        check(Object.values(ELotZone).includes(lot.zone), `${field}.zone`, "must be a lot zone");
+        check(lot.owner === null || typeof lot.owner === "string", `${field}.owner`, "must be a person id or null");
+    });
+    const checkContent = (item: INetworkObjectBase, field: string) => {
+        check(typeof item.objectType === "string", `${field}.objectType`, "must be an object type");
+        check(typeof item.lastUpdate === "string" && !isNaN(Date.parse(item.lastUpdate)), `${field}.lastUpdate`,
+            "must be an ISO date");
+    };
+    checkArray(file.objects, "objects", checkContent);
+    checkArray(file.houses, "houses", checkContent);
+    checkArray(file.floors, "floors", checkContent);
+    checkArray(file.walls, "walls", checkContent);
+    checkArray(file.stockpiles, "stockpiles", checkContent);
+    checkArray(file.stockpileTiles, "stockpileTiles", checkContent);
+    checkArray(file.vendingMachines, "vendingMachines", checkContent);
+
+    if (details.length > 0) {
+        throw new ApiError(400, EApiErrorCode.INVALID_REQUEST, `Invalid city file, ${details[0].message}`, details);
+    }
+};
+
+/**
+ * Convert a city file into a city which can be saved.
+ * @param file The checked city file.
+ */
+export const cityFileToCity = (file: IApiCityFile): IGeneratedCity => ({
+    roads: file.roads,
+    lots: file.lots.map(({id, x, y, width, height, zone, owner}): ILot => ({
+        id,
+        x,
+        y,
+        width,
+        height,
+        zone,
+        owner,
+        format: null,
+        buyOffers: null,
+        sellOffers: null
+    })),
+    objects: file.objects,
+    houses: file.houses,
+    floors: file.floors,
+    walls: file.walls,
+    stockpiles: file.stockpiles,
+    stockpileTiles: file.stockpileTiles,
+    vendingMachines: file.vendingMachines
+});
@@ -0,0 +1,89 @@
+import {ELotZone} from "persons-game-common/lib/types/GameTypes";
+import {EApiErrorCode, IApiCityLayout} from "./types/api";
+import {ApiError} from "./errors";
+import {generateCityFormat, validateCityLayout} from "./cityLayout";
+
+/**
+ * The generated city maps are kept as snapshots, a change to the generator which changes the map of a seed fails here.
+ */
+
+const layouts: IApiCityLayout[] = [
+    {seed: "alpha", columns: 20, rows: 12},
+    {seed: "beta", columns: 30, rows: 20},
+    {seed: "gamma", columns: 8, rows: 5},
+    {
+        seed: "industrial",
+        columns: 24,
+        rows: 16,
+        zoning: {[ELotZone.RESIDENTIAL]: 0.2, [ELotZone.COMMERCIAL]: 0.2, [ELotZone.INDUSTRIAL]: 0.6}
+    },
+    {seed: "residential only", columns: 16, rows: 10, zoning: {[ELotZone.COMMERCIAL]: 0, [ELotZone.INDUSTRIAL]: 0}}
+];
+
+describe("generateCityFormat", () => {
+    layouts.forEach(layout => {
+        it(`generates the same map for the seed ${JSON.stringify(layout.seed)}`, () => {
+            const format = generateCityFormat(layout);
+            expect(generateCityFormat(layout)).toBe(format);
+            expect(format).toMatchSnapshot();
+        });
+    });
+
+    it("generates a map of the requested size", () => {
+        const rows = generateCityFormat({seed: "size", columns: 17, rows: 9}).split("\n");
+        expect(rows).toHaveLength(9);
+        rows.forEach(row => expect(row).toHaveLength(17));
+    });
+
+    it("generates different maps for different seeds", () => {
+        expect(generateCityFormat({seed: "one", columns: 20, rows: 12}))
+            .not.toBe(generateCityFormat({seed: "two", columns: 20, rows: 12}));
+    });
+
+    it("only zones the zones with a ratio above 0", () => {
+        const format = generateCityFormat({
+            seed: "residential only",
+            columns: 16,
+            rows: 10,
+            zoning: {[ELotZone.COMMERCIAL]: 0, [ELotZone.INDUSTRIAL]: 0}
+        });
+        expect(format).not.toMatch(/[CI]/);
+        expect(format).toMatch(/R/);
+    });
+});
+
+describe("validateCityLayout", () => {
+    it("accepts a valid layout", () => {
+        expect(() => validateCityLayout({seed: "valid", columns: 10, rows: 10})).not.toThrow();
+        expect(() => validateCityLayout({seed: "valid", columns: 100, rows: 1, zoning: {[ELotZone.INDUSTRIAL]: 2}}))
+            .not.toThrow();
+    });
+
+    const invalidLayouts: Array<[string, any]> = [
+        ["a missing layout", undefined],
+        ["a missing seed", {columns: 10, rows: 10}],
+        ["a numeric seed", {seed: 1, columns: 10, rows: 10}],
+        ["zero columns", {seed: "a", columns: 0, rows: 10}],
+        ["too many rows", {seed: "a", columns: 10, rows: 101}],
+        ["fractional columns", {seed: "a", columns: 1.5, rows: 10}],
+        ["a negative ratio", {seed: "a", columns: 10, rows: 10, zoning: {[ELotZone.RESIDENTIAL]: -1}}],
+        ["a ratio which is not a number", {seed: "a", columns: 10, rows: 10, zoning: {[ELotZone.RESIDENTIAL]: "1"}}],
+        ["a ratio of an unknown zone", {seed: "a", columns: 10, rows: 10, zoning: {PARK: 1}}],
+        ["every ratio at 0", {
+            seed: "a",
+            columns: 10,
+            rows: 10,
+            zoning: {[ELotZone.RESIDENTIAL]: 0, [ELotZone.COMMERCIAL]: 0, [ELotZone.INDUSTRIAL]: 0}
+        }]
+    ];
+    invalidLayouts.forEach(([name, layout]) => {
+        it(`rejects ${name}`, () => {
+            expect(() => validateCityLayout(layout)).toThrow(ApiError);
+            try {
+                validateCityLayout(layout);
+            } catch (err) {
+                expect(err).toMatchObject({statusCode: 400, code: EApiErrorCode.INVALID_REQUEST});
+            }
+        });
+    });
+});
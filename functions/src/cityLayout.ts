@@ -0,0 +1,193 @@
+import * as seedrandom from "seedrandom";
+import {ELotZone} from "persons-game-common/lib/types/GameTypes";
+import {EApiErrorCode, IApiCityLayout} from "./types/api";
+import {ApiError} from "./errors";
+import {defaultCityZoning, maxCityLayoutSize} from "./config";
+
+/**
+ * Procedurally generate the ASCII map of a city for generateCity. Arterial roads cross the whole map at random spacing.
+ * Side streets split the large blocks between the arterials, running from one arterial to the next. Each block between
+ * the roads is zoned so the area of each zone follows the zoning ratios. The random numbers come from the seed, so the
+ * same layout always generates the same map.
+ */
+
+/**
+ * The fewest and most tiles between two arterials.
+ */
+const arterialSpacing = {min: 6, max: 9};
+/**
+ * The chance of a side street splitting a block between arterials which is long enough.
+ */
+const sideStreetChance = 0.7;
+/**
+ * The fewest tiles on each side of a side street.
+ */
+const minBlockSize = 2;
+/**
+ * The character of each zone in the ASCII map.
+ */
+const zoneCharacters: {[zone in ELotZone]: string} = {
+    [ELotZone.RESIDENTIAL]: "R",
+    [ELotZone.COMMERCIAL]: "C",
+    [ELotZone.INDUSTRIAL]: "I"
+};
+
+/**
+ * A tile position in the ASCII map.
+ */
+interface ITile {
+    row: number;
+    column: number;
+}
+
+/**
+ * Validate the layout of a city map sent by the client.
+ * @param layout The layout to check.
+ */
+export const validateCityLayout = (layout: IApiCityLayout) => {
+    const isValidSize = (size: number) => typeof size === "number" && Number.isInteger(size) && size > 0 &&
+        size <= maxCityLayoutSize;
+    const zoning = layout && layout.zoning !== undefined ? layout.zoning : {};
+    const ratios: any[] = zoning && typeof zoning === "object" ? Object.values(zoning) : [null];
+    if (!layout || typeof layout.seed !== "string" || !isValidSize(layout.columns) || !isValidSize(layout.rows) ||
+        !ratios.every(ratio => typeof ratio === "number" && isFinite(ratio) && ratio >= 0)) {
+        throw new ApiError(400, EApiErrorCode.INVALID_REQUEST,
+            `Require a seed, columns and rows from 1 to ${maxCityLayoutSize} and zoning ratios of at least 0`);
+    }
+    const zones = Object.keys(zoning);
+    if (zones.some(zone => !Object.values(ELotZone).includes(zone as ELotZone))) {
+        throw new ApiError(400, EApiErrorCode.INVALID_REQUEST, "Zoning ratios can only be for a lot zone");
+    }
+    if (Object.values({...defaultCityZoning, ...zoning}).every(ratio => ratio === 0)) {
+        throw new ApiError(400, EApiErrorCode.INVALID_REQUEST, "Require a zoning ratio above 0");
+    }
+};
+
+/**
+ * Pick the positions of the arterials along one side of the map.
+ * @param rng The random numbers of the layout.
+ * @param length The number of tiles along the side.
+ */
+const pickArterials = (rng: seedrandom.prng, length: number): number[] => {
+    const arterials: number[] = [];
+    for (
+        let position = minBlockSize + Math.floor(rng() * arterialSpacing.min / 2);
+        position < length - minBlockSize;
+        position += arterialSpacing.min + Math.floor(rng() * (arterialSpacing.max - arterialSpacing.min + 1))
+    ) {
+        arterials.push(position);
+    }
+    return arterials;
+};
+
+/**
+ * Get the spans of tiles between the arterials along one side of the map, including the spans at the edges.
+ * @param arterials The positions of the arterials.
+ * @param length The number of tiles along the side.
+ */
+const getSpansBetween = (arterials: number[], length: number): Array<{start: number, end: number}> => {
+    return [-1, ...arterials].map((arterial, index) => ({
+        start: arterial + 1,
+        end: index < arterials.length ? arterials[index] : length
+    })).filter(({start, end}) => end > start);
+};
+
+/**
+ * Find the blocks of tiles which are not a road. Roads run in straight lines, so each block is a rectangle.
+ * @param grid The ASCII map with only the roads filled in.
+ */
+const findBlocks = (grid: string[][]): ITile[][] => {
+    const visited = grid.map(row => row.map(() => false));
+    const blocks: ITile[][] = [];
+    grid.forEach((row, rowIndex) => {
+        row.forEach((tile, columnIndex) => {
+            if (tile !== " " || visited[rowIndex][columnIndex]) {
+                return;
+            }
+
+            // flood fill the block
+            const block: ITile[] = [];
+            const queue: ITile[] = [{row: rowIndex, column: columnIndex}];
+            visited[rowIndex][columnIndex] = true;
+            while (queue.length > 0) {
+                const current = queue.shift() as ITile;
+                block.push(current);
+                const neighbors: ITile[] = [
+                    {row: current.row - 1, column: current.column},
+                    {row: current.row + 1, column: current.column},
+                    {row: current.row, column: current.column - 1},
+                    {row: current.row, column: current.column + 1}
+                ];
+                for (const neighbor of neighbors) {
+                    if (grid[neighbor.row] && grid[neighbor.row][neighbor.column] === " " &&
+                        !visited[neighbor.row][neighbor.column]) {
+                        visited[neighbor.row][neighbor.column] = true;
+                        queue.push(neighbor);
+                    }
+                }
+            }
+            blocks.push(block);
+        });
+    });
+    return blocks;
+};
+
+/**
+ * Generate the ASCII map of a city from a layout.
+ * @param layout The seed, size and zoning ratios of the city.
+ * @return The map in the format of generateCity.
+ */
+export const generateCityFormat = ({seed, columns, rows, zoning = {}}: IApiCityLayout): string => {
+    const rng = seedrandom.alea(`city(${seed})`);
+    const grid = new Array(rows).fill(0).map(() => new Array(columns).fill(" ") as string[]);
+
+    // arterials cross the whole map, intersections are drawn as vertical roads which connect in every direction
+    const verticalArterials = pickArterials(rng, columns);
+    const horizontalArterials = pickArterials(rng, rows);
+    horizontalArterials.forEach(row => grid[row].fill("-"));
+    verticalArterials.forEach(column => grid.forEach(row => {
+        row[column] = "|";
+    }));
+
+    // side streets split the long blocks between the arterials
+    for (const rowSpan of getSpansBetween(horizontalArterials, rows)) {
+        for (const columnSpan of getSpansBetween(verticalArterials, columns)) {
+            const width = columnSpan.end - columnSpan.start;
+            const height = rowSpan.end - rowSpan.start;
+            if (rng() >= sideStreetChance) {
+                continue;
+            }
+            // split the longer side of the block
+            if (width >= height && width > minBlockSize * 2) {
+                const column = columnSpan.start + minBlockSize + Math.floor(rng() * (width - minBlockSize * 2));
+                for (let row = rowSpan.start; row < rowSpan.end; row++) {
+                    grid[row][column] = "|";
+                }
+            } else if (height > minBlockSize * 2) {
+                const row = rowSpan.start + minBlockSize + Math.floor(rng() * (height - minBlockSize * 2));
+                grid[row].fill("-", columnSpan.start, columnSpan.end);
+            }
+        }
+    }
+
+    // zone the blocks in a random order, each block goes to the zone furthest below its share of the area
+    const ratios: {[zone in ELotZone]: number} = {...defaultCityZoning, ...zoning};
+    const zones = Object.values(ELotZone).filter(zone => ratios[zone] > 0);
+    const totalRatio = zones.reduce((sum, zone) => sum + ratios[zone], 0);
+    const blocks = findBlocks(grid)
+        .map(block => ({block, order: rng()}))
+        .sort((a, b) => a.order - b.order)
+        .map(({block}) => block);
+    const totalArea = blocks.reduce((sum, block) => sum + block.length, 0);
+    const zonedArea = new Map<ELotZone, number>(zones.map((zone): [ELotZone, number] => [zone, 0]));
+    for (const block of blocks) {
+        const getMissingArea = (zone: ELotZone) => ratios[zone] / totalRatio * totalArea - (zonedArea.get(zone) || 0);
+        const blockZone = zones.reduce((best, zone) => getMissingArea(zone) > getMissingArea(best) ? zone : best);
+        zonedArea.set(blockZone, (zonedArea.get(blockZone) || 0) + block.length);
+        block.forEach(({row, column}) => {
+            grid[row][column] = zoneCharacters[blockZone];
+        });
+    }
+
+    return grid.map(row => row.join("")).join("\n");
+};
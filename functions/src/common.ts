@@ -1,4 +1,6 @@
 import {
+    ENetworkObjectType,
+    ICar,
     ICellLock,
     IFloor,
     IHouse,
@@ -10,16 +12,19 @@ import {
     IWall
 } from "persons-game-common/lib/types/GameTypes";
 import {
+    ICarDatabase,
     ICellLockDatabase,
     IHouseDatabase, INetworkObjectBaseDatabase,
     INetworkObjectDatabase,
     INpcDatabase,
     IPersonDatabase,
-    IResourceDatabase, IStockpileDatabase, IStockpileTileDatabase
+    IResourceDatabase, IStockpileDatabase, IStockpileTileDatabase, IVendingMachineDatabase
 } from "./types/database";
+import {IApiVendingMachine} from "./types/api";
 import admin from "firebase-admin";
 import {getRelevantNetworkObjectCellIds} from "./cell";
 import {getNetworkObjectCellString} from "persons-game-common/lib/cell";
+import {getStorage, IQueryFilter, IStorageTransaction, TCollectionName, where} from "./storage";
 
 export const networkObjectDatabaseToClient = (networkObjectDatabase: INetworkObjectDatabase): INetworkObject => ({
     ...networkObjectDatabase,
@@ -60,6 +65,12 @@ export const resourceClientToDatabase = (resourceClient: IResource): IResourceDa
     readyTime: admin.firestore.Timestamp.fromMillis(Date.parse(resourceClient.readyTime)),
     cell: getNetworkObjectCellString(resourceClient)
 });
+export const carDatabaseToClient = (car: ICarDatabase): ICar => ({
+    path: [],
+    ...car,
+    objectType: ENetworkObjectType.CAR,
+    lastUpdate: car.lastUpdate.toDate().toISOString()
+});
 export const personDatabaseToClient = (personDatabase: IPersonDatabase): IPerson => ({
     ...personDatabase,
     lastUpdate: personDatabase.lastUpdate.toDate().toISOString(),
@@ -68,6 +79,15 @@ export const personDatabaseToClient = (personDatabase: IPersonDatabase): IPerson
         slots: personDatabase.inventory.slots.map(networkObjectDatabaseToClient)
     }
 });
+/**
+ * Convert a person into the client format without the password.
+ * @param personDatabase The person to convert.
+ */
+export const personWithoutPassword = (personDatabase: IPersonDatabase): IPerson => {
+    const person = {...personDatabaseToClient(personDatabase)} as IPerson & {password?: string};
+    delete person.password;
+    return person;
+};
 export const personClientToDatabase = (personClient: IPerson): Partial<IPersonDatabase> => ({
     ...personClient,
     lastUpdate: admin.firestore.Timestamp.fromMillis(Date.parse(personClient.lastUpdate)),
@@ -99,6 +119,11 @@ export const stockpileTileClientToDatabase = (stockpile: IStockpileTile): Partia
     lastUpdate: admin.firestore.Timestamp.fromMillis(Date.parse(stockpile.lastUpdate)),
     cell: getNetworkObjectCellString(stockpile)
 });
+export const vendingMachineClientToDatabase = (vendingMachine: IApiVendingMachine): IVendingMachineDatabase => ({
+    ...vendingMachine,
+    lastUpdate: admin.firestore.Timestamp.fromMillis(Date.parse(vendingMachine.lastUpdate)),
+    cell: getNetworkObjectCellString(vendingMachine)
+});
 export const npcDatabaseToClient = (npcDatabase: INpcDatabase): INpc => ({
     ...npcDatabase,
     lastUpdate: npcDatabase.lastUpdate.toDate().toISOString(),
@@ -144,56 +169,73 @@ export const sortNetworkObjectsByDistance = (currentPersonData: IPersonDatabase)
  * @param cellsArray If the collection uses cells string array instead of cell string.
  * @param networkObject If the collection is for network objects, or objects type network object.
  * @param transaction If the collection is using a transaction to fetch data.
+ * @param cells The cells to search, defaults to the cells relevant to the current person.
+ * @param since Only return documents which changed after this time. Network objects which were put into an inventory
+ * are included so the change can be seen.
  */
 export const getSimpleCollection = async <T extends IObject & {
     lastUpdate?: string | admin.firestore.Timestamp,
     readyTime?: string | admin.firestore.Timestamp
-}>(currentPersonData: IPersonDatabase, collectionName: string, {
+}>(currentPersonData: IPersonDatabase, collectionName: TCollectionName, {
     cellsArray,
     networkObject,
-    transaction
+    transaction,
+    cells = getRelevantNetworkObjectCellIds(currentPersonData),
+    since
 }: {
     cellsArray?: boolean,
     networkObject?: boolean,
-    transaction?: admin.firestore.Transaction | null
+    transaction?: IStorageTransaction | null,
+    cells?: string[],
+    since?: admin.firestore.Timestamp | null
 } = {
     cellsArray: false,
     networkObject: false,
     transaction: null
 }): Promise<Array<T>> => {
     const dataArrayToReturnAsJson: T[] = [];
+    const repository = transaction ? transaction.collection(collectionName) : getStorage().collection(collectionName);
 
     // list of objects near the person
-    let queryNotInInventory: admin.firestore.Query;
+    let queryNotInInventory: IQueryFilter[] | null = null;
     // list of objects in the person's inventory
-    let queryIsInInventory: admin.firestore.Query | null = null;
-    if (cellsArray) {
+    let queryIsInInventory: IQueryFilter[] | null = null;
+    if (cells.length === 0) {
+        // no cells to search, an empty "in" query is not allowed
+        queryNotInInventory = null;
+    } else if (cellsArray) {
         // using cells array, perform a search in an array of cells
         // used for objects that can be in multiple cells like lots. Lots can be larger than cellSize.
-        queryNotInInventory = admin.firestore().collection(collectionName)
-            .where("cells", "array-contains-any", getRelevantNetworkObjectCellIds(currentPersonData));
+        queryNotInInventory = [where("cells", "array-contains-any", cells)];
     } else {
         // using cell field, perform a search for a cell field
         // used for objects that are in one cell at a time. The objects are smaller than cellSize.
-        queryNotInInventory = admin.firestore().collection(collectionName)
-            .where("cell", "in", getRelevantNetworkObjectCellIds(currentPersonData));
+        queryNotInInventory = [where("cell", "in", cells)];
+    }
+    if (queryNotInInventory && since) {
+        queryNotInInventory = [...queryNotInInventory, where("lastUpdate", ">", since)];
     }
     if (networkObject) {
-        queryNotInInventory = queryNotInInventory.where("isInInventory", "==", false);
-        queryIsInInventory = admin.firestore().collection(collectionName)
-            .where("grabbedByPersonId", "==", currentPersonData ? currentPersonData.id : "");
-        queryIsInInventory = queryIsInInventory.where("isInInventory", "==", true);
+        if (queryNotInInventory && !since) {
+            queryNotInInventory = [...queryNotInInventory, where("isInInventory", "==", false)];
+        }
+        queryIsInInventory = [
+            where("grabbedByPersonId", "==", currentPersonData ? currentPersonData.id : ""),
+            where("isInInventory", "==", true)
+        ];
+    }
+    const rawQueries: IQueryFilter[][] = [];
+    if (queryNotInInventory) {
+        rawQueries.push(queryNotInInventory);
     }
-    const rawQueries: admin.firestore.Query[] = [queryNotInInventory];
     if (queryIsInInventory) {
         rawQueries.push(queryIsInInventory);
     }
-    const queries: Promise<admin.firestore.QuerySnapshot>[] = rawQueries.map(q => transaction ? transaction.get(q) : q.get());
-    const querySnapshots = await Promise.all(queries);
+    const queryResults = await Promise.all(rawQueries.map(filters => repository.query(filters)));
 
-    for (const querySnapshot of querySnapshots) {
-        for (const documentSnapshot of querySnapshot.docs) {
-            const data = documentSnapshot.data() as any;
+    for (const documents of queryResults) {
+        for (const {data: documentData} of documents) {
+            const data = documentData as any;
             const dataToReturnAsJson: T = {
                 ...data,
                 lastUpdate: data.lastUpdate ?
@@ -222,12 +264,12 @@ export const getSimpleCollection = async <T extends IObject & {
 
     return dataArrayToReturnAsJson;
 };
-export const createCellLock = (networkObjectBase: INetworkObjectBase, transaction: admin.firestore.Transaction) => {
+export const createCellLock = (networkObjectBase: INetworkObjectBase, transaction: IStorageTransaction) => {
     // add a cell lock to pause all scripts within the cell
     const cellLockId = getNetworkObjectCellString(networkObjectBase);
     const cellLock: ICellLockDatabase = {
         pauseDate: admin.firestore.Timestamp.now(),
         cell: cellLockId
     };
-    transaction.set(admin.firestore().collection("cellLocks").doc(cellLockId), cellLock, {merge: true});
+    transaction.collection("cellLocks").merge(cellLockId, cellLock);
 };
\ No newline at end of file
@@ -1,4 +1,13 @@
-import {IObjectHealth} from "persons-game-common/lib/types/GameTypes";
+import {
+    ELotZone,
+    ELotZoneIndustrialType,
+    ENetworkObjectType,
+    ICraftingRecipe,
+    IObject,
+    IObjectHealth
+} from "persons-game-common/lib/types/GameTypes";
+import {listOfRecipes} from "persons-game-common/lib/inventory";
+import {EConstructionType, IApiVendingMachineItem} from "./types/api";
 
 /**
  * Configuration settings for the game.
@@ -28,4 +37,222 @@ export const defaultObjectHealthObject: IObjectHealth = {
     max: 1,
     value: 1,
     rate: 0
-};
\ No newline at end of file
+};
+/**
+ * Where new persons, and dead persons without a house, spawn.
+ */
+export const defaultSpawnPosition: IObject = {
+    x: 50,
+    y: 150
+};
+/**
+ * How long a dead person or NPC waits before respawning. Respawns happen on the next persons tick after this time.
+ */
+export const respawnDelayMilliseconds = 60 * 1000;
+/**
+ * The amount of time a login session stays valid. After it expires, the person has to login with their password again.
+ */
+export const sessionDurationMilliseconds = 24 * 60 * 60 * 1000;
+/**
+ * The distance in pixels a person or car moves on each movement interval. Must match the frontend movement handlers.
+ */
+const movementDistancePerInterval = 10;
+/**
+ * The maximum walking speed in pixels per second. A walking person moves every 100 milliseconds, see
+ * Persons.personIntervalSpeed in the frontend.
+ */
+export const walkingSpeed = movementDistancePerInterval / 100 * 1000;
+/**
+ * The maximum driving speed in pixels per second. A person in a car moves every 33 milliseconds, see
+ * Persons.personIntervalSpeed in the frontend.
+ */
+export const drivingSpeed = movementDistancePerInterval / 33 * 1000;
+/**
+ * Extra movement time allowed since the last accepted update. Covers timer jitter and small clock differences between
+ * the client and the server. The movement time is still limited by the server time since the last accepted update.
+ */
+export const movementToleranceMilliseconds = 1000;
+/**
+ * How close in pixels a person has to be to a car to enter it.
+ */
+export const carEntryDistance = 100;
+/**
+ * How close in pixels a person has to be to an object to grab it. A grabbed object has to stay this close to the person.
+ * A person also has to be this close to a vending machine to buy from it.
+ */
+export const grabDistance = 100;
+/**
+ * How close in pixels two persons have to stay to trade with each other.
+ */
+export const tradeDistance = 200;
+/**
+ * How far back before the sync cursor changes are fetched again. Covers client and server clocks that are a little
+ * different and writes which finish after the cursor was created.
+ */
+export const syncOverlapMilliseconds = 10 * 1000;
+/**
+ * How long tombstones of removed documents are kept. A sync cursor older than this requires a full reload.
+ */
+export const tombstoneRetentionMilliseconds = 10 * 60 * 1000;
+/**
+ * How often a comment is written to an idle realtime stream. Stops proxies from closing the connection.
+ */
+export const streamHeartbeatMilliseconds = 15 * 1000;
+/**
+ * How many cells around the person are loaded when the client does not ask for a radius. A radius of 1 loads a square
+ * of 3 by 3 cells.
+ */
+export const defaultCellRadius = 1;
+/**
+ * The largest cell radius a client can ask for. Each loaded cell adds reads to every request.
+ */
+export const maxCellRadius = 4;
+/**
+ * How long a lot offer stays open when the offer does not set an expiry time.
+ */
+export const defaultLotOfferDurationMilliseconds = 24 * 60 * 60 * 1000;
+/**
+ * The longest time a lot offer can stay open.
+ */
+export const maxLotOfferDurationMilliseconds = 30 * 24 * 60 * 60 * 1000;
+/**
+ * The longest time a lot auction can run.
+ */
+export const maxLotAuctionDurationMilliseconds = 7 * 24 * 60 * 60 * 1000;
+/**
+ * The price of building a vending machine, paid to the city.
+ */
+export const vendingMachinePrice = 100;
+/**
+ * The items sold by the vending machines of the city in the shops of a generated city. The vending machine restock tick
+ * fills each item back up to this stock.
+ */
+export const cityVendingMachineInventory: IApiVendingMachineItem[] = [
+    {objectType: ENetworkObjectType.STICK, price: 2, stock: 20},
+    {objectType: ENetworkObjectType.WOOD, price: 5, stock: 10},
+    {objectType: ENetworkObjectType.SEED, price: 3, stock: 10}
+];
+/**
+ * The interest added to a loan balance once a day. The interest compounds daily, a loan without payments grows by about
+ * 35% in a month at a rate of 0.01.
+ */
+export const loanInterestRatePerDay = 0.01;
+/**
+ * The time between scheduled loan payments.
+ */
+export const loanPaymentIntervalMilliseconds = 60 * 60 * 1000;
+/**
+ * The part of the loan balance which has to be paid at least on each scheduled payment.
+ */
+export const loanMinimumPaymentRate = 0.1;
+/**
+ * The part of the credit limit which is taken away for each missed loan payment.
+ */
+export const loanMissedPaymentCreditPenalty = 0.1;
+/**
+ * The missed loan payments in a row after which a lot of the person is repossessed to settle the loan.
+ */
+export const loanRepossessionMissedPayments = 3;
+/**
+ * The tax charged on each lot tax tick for every 100 by 100 pixels of an owned lot, by the zone of the lot.
+ */
+export const lotTaxRatesPerZone: {[zone in ELotZone]: number} = {
+    [ELotZone.RESIDENTIAL]: 0.1,
+    [ELotZone.COMMERCIAL]: 0.2,
+    [ELotZone.INDUSTRIAL]: 0.15
+};
+/**
+ * The price of a lot without an owner for every 100 by 100 pixels of the lot, by the zone of the lot. The buyer pays
+ * the city, a lot is never sold by the city below this price.
+ */
+export const lotCityPricesPerZone: {[zone in ELotZone]: number} = {
+    [ELotZone.RESIDENTIAL]: 10,
+    [ELotZone.COMMERCIAL]: 20,
+    [ELotZone.INDUSTRIAL]: 15
+};
+/**
+ * How long lot tax can stay unpaid before the lot is repossessed and put back on the market without an owner.
+ */
+export const lotTaxGracePeriodMilliseconds = 24 * 60 * 60 * 1000;
+/**
+ * The lot zones where each kind of construction can be built. Houses are built on residential lots, shops on commercial
+ * lots, and workshops and stockpiles on industrial lots.
+ */
+export const constructionLotZones: {[constructionType in EConstructionType]: ELotZone[]} = {
+    [EConstructionType.HOUSE]: [ELotZone.RESIDENTIAL],
+    [EConstructionType.SHOP]: [ELotZone.COMMERCIAL],
+    [EConstructionType.WORKSHOP]: [ELotZone.INDUSTRIAL],
+    [EConstructionType.STOCKPILE]: [ELotZone.INDUSTRIAL]
+};
+/**
+ * The recipes an industrial lot crafts in its stockpile on each lot production tick, by the specialization of the lot.
+ * Every recipe takes inputs from the stockpile, nothing is produced from an empty stockpile. Primary industries process
+ * seeds and the resources harvested from rocks, manufacturing crafts the resources into goods and logistics only
+ * stores goods. The shared types have no pottery industry and no pottery item yet, so manufacturing only settles mud
+ * into clay until the shared types add them.
+ */
+export const industryRecipes: {[industryType in ELotZoneIndustrialType]: ICraftingRecipe[]} = {
+    [ELotZoneIndustrialType.FORESTRY]: [
+        {product: ENetworkObjectType.WOOD, amount: 1, items: [{item: ENetworkObjectType.SEED, quantity: 1}], byHand: false},
+        {product: ENetworkObjectType.STICK, amount: 5, items: [{item: ENetworkObjectType.WOOD, quantity: 1}], byHand: false}
+    ],
+    [ELotZoneIndustrialType.AGRICULTURE]: [
+        {product: ENetworkObjectType.WHEAT, amount: 2, items: [{item: ENetworkObjectType.SEED, quantity: 1}], byHand: false},
+        {product: ENetworkObjectType.FLOUR, amount: 1, items: [{item: ENetworkObjectType.WHEAT, quantity: 2}], byHand: false}
+    ],
+    [ELotZoneIndustrialType.MINING]: [
+        {product: ENetworkObjectType.COAL, amount: 1, items: [{item: ENetworkObjectType.STONE, quantity: 3}], byHand: false},
+        {
+            product: ENetworkObjectType.IRON,
+            amount: 1,
+            items: [{item: ENetworkObjectType.STONE, quantity: 3}, {item: ENetworkObjectType.COAL, quantity: 1}],
+            byHand: false
+        }
+    ],
+    [ELotZoneIndustrialType.PETROLEUM]: [
+        {product: ENetworkObjectType.OIL, amount: 1, items: [{item: ENetworkObjectType.COAL, quantity: 2}], byHand: false},
+        {product: ENetworkObjectType.PROPANE, amount: 1, items: [{item: ENetworkObjectType.OIL, quantity: 1}], byHand: false}
+    ],
+    [ELotZoneIndustrialType.MANUFACTURING]: [
+        ...listOfRecipes,
+        {product: ENetworkObjectType.CHAIR, amount: 1, items: [{item: ENetworkObjectType.WOOD, quantity: 2}], byHand: false},
+        {product: ENetworkObjectType.TABLE, amount: 1, items: [{item: ENetworkObjectType.WOOD, quantity: 4}], byHand: false},
+        {product: ENetworkObjectType.BOX, amount: 1, items: [{item: ENetworkObjectType.WOOD, quantity: 2}], byHand: false},
+        // mud from ponds settles into clay
+        {product: ENetworkObjectType.CLAY, amount: 1, items: [{item: ENetworkObjectType.MUD, quantity: 2}], byHand: false}
+    ],
+    [ELotZoneIndustrialType.LOGISTICS]: []
+};
+/**
+ * How many times an industrial lot crafts each of its recipes on a lot production tick, for every 500 by 300 pixels of
+ * the lot.
+ */
+export const lotProductionRunsPerTile = 1;
+/**
+ * The share of the blocks of each zone in a generated city map.
+ */
+export const defaultCityZoning: {[zone in ELotZone]: number} = {
+    [ELotZone.RESIDENTIAL]: 0.6,
+    [ELotZone.COMMERCIAL]: 0.25,
+    [ELotZone.INDUSTRIAL]: 0.15
+};
+/**
+ * The largest number of tiles across or down a generated city map.
+ */
+export const maxCityLayoutSize = 100;
+/**
+ * The version of the city file format written by the city export.
+ */
+export const cityFileVersion = 1;
+/**
+ * The number of ledger entries in a page of the cash history when the client does not ask for a page size.
+ */
+export const defaultLedgerPageSize = 20;
+/**
+ * The largest page of the cash history a client can ask for.
+ */
+export const maxLedgerPageSize = 100;
+/**
+ * The port of the plain Node server in server.ts.
+ */
+export const serverPort = Number(process.env.PORT) || 5000;
@@ -1,12 +1,10 @@
 import {
-    IApiPersonsConstructionPost,
     IApiPersonsConstructionStockpilePost,
     IFloor,
-    IHouse, IPerson, IStockpileTile,
+    IHouse, IObject, IPerson, IStockpileTile,
     IWall,
 } from "persons-game-common/lib/types/GameTypes";
 import {ConstructionController} from "persons-game-common/lib/construction";
-import admin from "firebase-admin";
 import {
     floorClientToDatabase,
     getSimpleCollection,
@@ -19,18 +17,64 @@ import {
     stockpileTileClientToDatabase,
     wallClientToDatabase
 } from "./common";
-import {IPersonDatabase, IStockpileDatabase} from "./types/database";
+import {IPersonDatabase} from "./types/database";
+import {EApiErrorCode, EConstructionType, IApiPersonsConstructionBuildingPost} from "./types/api";
 import * as express from "express";
 import {StockpileController} from "persons-game-common/lib/stockpile";
-import {getRelevantNetworkObjectCellIds} from "./cell";
+import {getLotCellsString, getRelevantNetworkObjectCellIds} from "./cell";
+import {ApiError} from "./errors";
+import {constructionLotZones} from "./config";
+import {addTombstone} from "./sync";
+import {getStorage, IStorageTransaction, where} from "./storage";
 
-const constructLocation = async ({personId, location}: IApiPersonsConstructionPost) => {
-    await admin.firestore().runTransaction(async (transaction) => {
+/**
+ * The size of a construction tile, where a floor or a stockpile tile is built.
+ */
+const constructionTileSize = {width: 200, height: 200};
+
+/**
+ * Check if a person can construct on a tile. Tiles outside of every lot are wilderness where anyone can build. Tiles on
+ * a lot can only be changed by the owner of the lot, and new construction has to be allowed by the zone of the lot.
+ * @param transaction The transaction to read the lots with.
+ * @param personId The person who is constructing.
+ * @param location The top left corner of the tile.
+ * @param constructionType The kind of construction, null if the construction only removes things.
+ */
+const checkConstructionLots = async (
+    transaction: IStorageTransaction,
+    personId: string,
+    location: IObject,
+    constructionType: EConstructionType | null
+) => {
+    const allowedZones = constructionType ? constructionLotZones[constructionType] : null;
+    const tile = {x: location.x, y: location.y, ...constructionTileSize};
+    const lotDocuments = await transaction.collection("lots")
+        .query([where("cells", "array-contains-any", getLotCellsString(tile))]);
+    const lots = lotDocuments.map(({data}) => data).filter(lot => {
+        return lot.x < tile.x + tile.width && tile.x < lot.x + lot.width &&
+            lot.y < tile.y + tile.height && tile.y < lot.y + lot.height;
+    });
+    for (const lot of lots) {
+        if (lot.owner !== personId) {
+            throw new ApiError(403, EApiErrorCode.FORBIDDEN, lot.owner ?
+                `Lot ${lot.id} belongs to another person` :
+                `Buy lot ${lot.id} before building on it`);
+        }
+        if (allowedZones && !allowedZones.includes(lot.zone)) {
+            throw new ApiError(422, EApiErrorCode.ZONING_VIOLATION,
+                `A ${(constructionType as EConstructionType).toLowerCase()} can only be built on ` +
+                `${allowedZones.map(zone => zone.toLowerCase()).join(" or ")} lots, ` +
+                `lot ${lot.id} is ${lot.zone.toLowerCase()}`);
+        }
+    }
+};
+
+const constructLocation = async ({personId, location, constructionType}: IApiPersonsConstructionBuildingPost) => {
+    await getStorage().runTransaction(async (transaction) => {
         // get current person, who is building something and will use their inventory to build with
-        const personDocument = await transaction.get(admin.firestore().collection("persons").doc(personId));
-        if (personDocument.exists) {
+        const personDatabase = await transaction.collection("persons").get(personId);
+        if (personDatabase) {
             // person exist, convert to client format for controller
-            const personDatabase: IPersonDatabase = personDocument.data() as IPersonDatabase;
             const personClient = personDatabaseToClient(personDatabase);
 
             // get relevant construction objects near person
@@ -58,44 +102,52 @@ const constructLocation = async ({personId, location}: IApiPersonsConstructionPo
                 stackableSlots
             } = controller.constructBuilding({location});
 
+            // the lot of the tile has to allow the construction
+            const isBuilding = housesToAdd.length > 0 || wallsToAdd.length > 0 || floorsToAdd.length > 0;
+            await checkConstructionLots(transaction, personId, location, isBuilding ? constructionType || EConstructionType.HOUSE : null);
+
             // convert inventory result into database format
             const newPersonData: Partial<IPersonDatabase> = personClientToDatabase({
                 ...personClient,
-                ...controller.getState().inventoryHolder as Partial<IPerson>
+                ...controller.getState().inventoryHolder as Partial<IPerson>,
+                lastUpdate: new Date().toISOString()
             });
 
             // update database with result of construction
             // update construction objects in the world
             housesToAdd.forEach(house => {
-                transaction.set(admin.firestore().collection("houses").doc(house.id), houseClientToDatabase(house), {merge: true});
+                transaction.collection("houses").merge(house.id, houseClientToDatabase(house));
             });
             housesToRemove.forEach(house => {
-                transaction.delete(admin.firestore().collection("houses").doc(house.id));
+                transaction.collection("houses").delete(house.id);
+                addTombstone("houses", house, transaction);
             });
             wallsToAdd.forEach(wall => {
-                transaction.set(admin.firestore().collection("walls").doc(wall.id), wallClientToDatabase(wall), {merge: true});
+                transaction.collection("walls").merge(wall.id, wallClientToDatabase(wall));
             });
             wallsToRemove.forEach(wall => {
-                transaction.delete(admin.firestore().collection("walls").doc(wall.id));
+                transaction.collection("walls").delete(wall.id);
+                addTombstone("walls", wall, transaction);
             });
             floorsToAdd.forEach(floor => {
-                transaction.set(admin.firestore().collection("floors").doc(floor.id), floorClientToDatabase(floor), {merge: true});
+                transaction.collection("floors").merge(floor.id, floorClientToDatabase(floor));
             });
             floorsToRemove.forEach(floor => {
-                transaction.delete(admin.firestore().collection("floors").doc(floor.id));
+                transaction.collection("floors").delete(floor.id);
+                addTombstone("floors", floor, transaction);
             });
 
             // update inventory
-            transaction.set(admin.firestore().collection("persons").doc(personId), newPersonData, {merge: true});
+            transaction.collection("persons").merge(personId, newPersonData);
             [
                 ...updatedItems,
                 ...modifiedSlots,
                 ...stackableSlots
             ].forEach(item => {
-                transaction.set(admin.firestore().collection("objects").doc(item.id), networkObjectClientToDatabase(item), {merge: true});
+                transaction.collection("objects").merge(item.id, networkObjectClientToDatabase(item));
             });
             deletedSlots.forEach(itemId => {
-                transaction.delete(admin.firestore().collection("objects").doc(itemId));
+                transaction.collection("objects").delete(itemId);
             });
         } else {
             throw new Error("Person does not exist");
@@ -107,9 +159,14 @@ export const handleConstructionRequest = (req: express.Request, res: express.Res
     (async () => {
         const {
             personId,
-            location
-        } = req.body;
-        await constructLocation({personId, location});
+            location,
+            constructionType
+        } = req.body as IApiPersonsConstructionBuildingPost;
+        if (constructionType !== undefined &&
+            ![EConstructionType.HOUSE, EConstructionType.SHOP, EConstructionType.WORKSHOP].includes(constructionType)) {
+            throw new ApiError(400, EApiErrorCode.INVALID_REQUEST, "The constructionType must be HOUSE, SHOP or WORKSHOP");
+        }
+        await constructLocation({personId, location, constructionType});
         res.sendStatus(200);
     })().catch((err) => next(err));
 };
@@ -120,18 +177,17 @@ export const handleConstructionRequest = (req: express.Request, res: express.Res
  * @param location
  */
 const constructStockpile = async ({personId, location}: IApiPersonsConstructionStockpilePost) => {
-    await admin.firestore().runTransaction(async (transaction) => {
+    await getStorage().runTransaction(async (transaction) => {
         // get current person, who is building something and will use their inventory to build with
-        const personDocument = await transaction.get(admin.firestore().collection("persons").doc(personId));
-        if (personDocument.exists) {
+        const personDatabase = await transaction.collection("persons").get(personId);
+        if (personDatabase) {
             // person exist, convert to client format for controller
-            const personDatabase: IPersonDatabase = personDocument.data() as IPersonDatabase;
             const personClient = personDatabaseToClient(personDatabase);
 
             // get relevant construction objects near person
-            const stockpileQuery = await transaction.get(admin.firestore().collection("stockpiles")
-                .where("cell", "in", getRelevantNetworkObjectCellIds(personDatabase)));
-            const stockpilesClient = stockpileQuery.docs.map(doc => stockpileDatabaseToClient(doc.data() as IStockpileDatabase));
+            const stockpileDocuments = await transaction.collection("stockpiles")
+                .query([where("cell", "in", getRelevantNetworkObjectCellIds(personDatabase))]);
+            const stockpilesClient = stockpileDocuments.map(({data}) => stockpileDatabaseToClient(data));
             const stockpileTilesClient = await getSimpleCollection<IStockpileTile>(personDatabase, "stockpileTiles", {transaction});
 
             // perform construction task
@@ -149,25 +205,31 @@ const constructStockpile = async ({personId, location}: IApiPersonsConstructionS
                 stockpilesToAdd
             } = controller.constructStockpile({location});
 
+            // the lot of the tile has to allow the construction
+            await checkConstructionLots(transaction, personId, location,
+                stockpileTilesToAdd.length > 0 ? EConstructionType.STOCKPILE : null);
+
             // update database with result of construction
             // update construction objects in the world
             [
                 ...stockpilesToAdd,
                 ...stockpilesToModify
             ].forEach(stockpile => {
-                transaction.set(admin.firestore().collection("stockpiles").doc(stockpile.id), stockpileClientToDatabase(stockpile), {merge: true});
+                transaction.collection("stockpiles").merge(stockpile.id, stockpileClientToDatabase(stockpile));
             });
             stockpilesToRemove.forEach(stockpile => {
-                transaction.delete(admin.firestore().collection("stockpiles").doc(stockpile.id));
+                transaction.collection("stockpiles").delete(stockpile.id);
+                addTombstone("stockpiles", stockpile, transaction);
             });
             [
                 ...stockpileTilesToAdd,
                 ...stockpileTilesToModify
             ].forEach(tile => {
-                transaction.set(admin.firestore().collection("stockpileTiles").doc(tile.id), stockpileTileClientToDatabase(tile), {merge: true});
+                transaction.collection("stockpileTiles").merge(tile.id, stockpileTileClientToDatabase(tile));
             });
             stockpileTilesToRemove.forEach(tile => {
-                transaction.delete(admin.firestore().collection("stockpileTiles").doc(tile.id));
+                transaction.collection("stockpileTiles").delete(tile.id);
+                addTombstone("stockpileTiles", tile, transaction);
             });
         } else {
             throw new Error("Person does not exist");
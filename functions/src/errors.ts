@@ -0,0 +1,52 @@
+import * as express from "express";
+import {EApiErrorCode, IApiErrorDetail, IApiErrorResponse} from "./types/api";
+
+/**
+ * Errors which are returned to the client as a structured JSON response. Any other error is passed along to the default
+ * express error handler.
+ */
+
+/**
+ * An error with an HTTP status code which is returned to the client.
+ */
+export class ApiError extends Error {
+    /**
+     * The HTTP status code of the response.
+     */
+    statusCode: number;
+    /**
+     * The machine readable error code.
+     */
+    code: EApiErrorCode;
+    /**
+     * Each problem of an invalid request.
+     */
+    details?: IApiErrorDetail[];
+
+    constructor(statusCode: number, code: EApiErrorCode, message: string, details?: IApiErrorDetail[]) {
+        super(message);
+        this.statusCode = statusCode;
+        this.code = code;
+        this.details = details;
+    }
+}
+
+/**
+ * Express error handler which converts an [[ApiError]] into a JSON response. Register it after all routes.
+ * @param err The error passed to next().
+ * @param req
+ * @param res
+ * @param next
+ */
+export const handleApiError = (err: any, req: express.Request, res: express.Response, next: express.NextFunction) => {
+    if (err instanceof ApiError) {
+        const body: IApiErrorResponse = {
+            code: err.code,
+            message: err.message,
+            ...(err.details ? {details: err.details} : {})
+        };
+        res.status(err.statusCode).json(body);
+    } else {
+        next(err);
+    }
+};
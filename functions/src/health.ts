@@ -1,20 +1,139 @@
-import {IObjectHealth} from "persons-game-common/lib/types/GameTypes";
 import * as admin from "firebase-admin";
-import {INetworkObjectBaseDatabase} from "./types/database";
+import {EOwnerType, INetworkObject, IObject, IObjectHealth} from "persons-game-common/lib/types/GameTypes";
+import {InventoryController} from "persons-game-common/lib/inventory";
+import {getNetworkObjectCellString} from "persons-game-common/lib/cell";
+import {INetworkObjectBaseDatabase, INpcDatabase, IPersonDatabase} from "./types/database";
+import {addTombstone, addTombstoneIfCellChanged} from "./sync";
+import {networkObjectClientToDatabase, personDatabaseToClient} from "./common";
+import {defaultSpawnPosition, respawnDelayMilliseconds} from "./config";
+import {getStorage, IRepository, where} from "./storage";
 
 /**
  * Handle all health related status.
  */
 
+/**
+ * The collections of persons which die and respawn instead of being deleted.
+ */
+type TPersonCollectionName = "persons" | "npcs";
+
+/**
+ * If the collection contains persons.
+ * @param collectionName The collection to check.
+ */
+const isPersonCollection = (collectionName: string): collectionName is TPersonCollectionName => {
+    return collectionName === "persons" || collectionName === "npcs";
+};
+
+/**
+ * Kill a person or NPC. The inventory is dropped as world objects where they died and they wait to respawn.
+ * @param collectionName The collection of the person.
+ * @param id The id of the person.
+ */
+const killPerson = async (collectionName: TPersonCollectionName, id: string) => {
+    await getStorage().runTransaction(async (transaction) => {
+        const personData: IPersonDatabase | null = await transaction.collection(collectionName).get(id);
+        if (!personData || personData.deathTime) {
+            // already dead
+            return;
+        }
+        const now = admin.firestore.Timestamp.now();
+
+        // drop each item at the death location
+        const controller = new InventoryController(personDatabaseToClient(personData));
+        for (const slot of controller.getInventory().slots) {
+            const {updatedItem} = controller.dropItem(slot);
+            const droppedItem: INetworkObject = {
+                ...updatedItem as INetworkObject,
+                x: personData.x,
+                y: personData.y
+            };
+            transaction.collection("objects").set(droppedItem.id, networkObjectClientToDatabase(droppedItem));
+        }
+
+        const newPersonData: Partial<INpcDatabase> = {
+            carId: null,
+            health: {
+                ...personData.health,
+                value: 0
+            },
+            inventory: {
+                ...personData.inventory,
+                slots: []
+            },
+            deathTime: now,
+            respawnTime: admin.firestore.Timestamp.fromMillis(now.toMillis() + respawnDelayMilliseconds),
+            lastUpdate: now
+        };
+        if (collectionName === "npcs") {
+            // stop walking the remaining path
+            newPersonData.path = [];
+        }
+        transaction.collection(collectionName).merge(id, newPersonData);
+    });
+};
+
+/**
+ * Respawn a dead person or NPC with full health. Persons respawn at a house they own and NPCs respawn at the house they
+ * live in. Without a house, they respawn at the default spawn.
+ * @param collectionName The collection of the person.
+ * @param id The id of the person.
+ */
+const respawnPerson = async (collectionName: TPersonCollectionName, id: string) => {
+    await getStorage().runTransaction(async (transaction) => {
+        const personData: IPersonDatabase | null = await transaction.collection(collectionName).get(id);
+        if (!personData || !personData.deathTime) {
+            // already alive
+            return;
+        }
+        const houseDocuments = await transaction.collection("houses").query(collectionName === "persons" ? [
+            where("ownerType", "==", EOwnerType.PERSON),
+            where("ownerId", "==", id)
+        ] : [
+            where("npcId", "==", id)
+        ], {limit: 1});
+        const spawn: IObject = houseDocuments.length > 0 ? {
+            x: houseDocuments[0].data.x,
+            y: houseDocuments[0].data.y
+        } : defaultSpawnPosition;
+
+        const newPersonData: Partial<IPersonDatabase> = {
+            ...spawn,
+            cell: getNetworkObjectCellString(spawn),
+            health: {
+                ...personData.health,
+                value: personData.health.max
+            },
+            deathTime: null,
+            respawnTime: null,
+            lastUpdate: admin.firestore.Timestamp.now()
+        };
+        transaction.collection(collectionName).merge(id, newPersonData);
+        addTombstoneIfCellChanged(collectionName, personData, spawn, transaction);
+    });
+};
+
 /**
  * Perform health updates on a database collection of [[INetworkObject]] objects.
  * @param collectionName The name of the collection to update.
  * @param defaultHealthObject The default health object of the collection.
  */
-export const performHealthTickOnCollectionOfNetworkObjects = async (collectionName: string, defaultHealthObject: IObjectHealth) => {
-    const collectionQuery = await admin.firestore().collection(collectionName).get();
-    for (const doc of collectionQuery.docs) {
-        const data = doc.data() as INetworkObjectBaseDatabase;
+export const performHealthTickOnCollectionOfNetworkObjects = async (
+    collectionName: "persons" | "npcs" | "personalCars" | "objects",
+    defaultHealthObject: IObjectHealth
+) => {
+    const repository: IRepository<INetworkObjectBaseDatabase & Pick<IPersonDatabase, "deathTime" | "respawnTime">> =
+        getStorage().collection(collectionName);
+    const documents = await repository.query([]);
+    for (const {id, data} of documents) {
+        if (isPersonCollection(collectionName) && data.deathTime) {
+            // dead persons do not heal, they respawn after a while
+            if (data.respawnTime && data.respawnTime.toMillis() <= Date.now()) {
+                await respawnPerson(collectionName, id);
+            }
+            continue;
+        }
+
         // use existing or default health object
         const healthData: IObjectHealth = data.health || defaultHealthObject;
         // compute new health value
@@ -22,19 +141,26 @@ export const performHealthTickOnCollectionOfNetworkObjects = async (collectionNa
 
         // if health object does not exist, or health value changed, or object is dead, update health object
         if (!data.health || newValue !== healthData.value || newValue === 0) {
-            if (newValue === 0) {
-                // 0 health, death of person or destruction of object
-                await doc.ref.delete();
+            if (newValue === 0 && isPersonCollection(collectionName)) {
+                // 0 health, death of person
+                await killPerson(collectionName, id);
+            } else if (newValue === 0) {
+                // 0 health, destruction of object
+                const batch = getStorage().batch();
+                batch.collection(collectionName).delete(id);
+                addTombstone(collectionName, data, batch);
+                await batch.commit();
             } else {
                 // change person or object health
                 const newData: Partial<INetworkObjectBaseDatabase> = {
                     health: {
                         ...healthData,
                         value: newValue
-                    }
+                    },
+                    lastUpdate: admin.firestore.Timestamp.now()
                 };
-                await doc.ref.set(newData, {merge: true});
+                await repository.merge(id, newData);
             }
         }
     }
-};
\ No newline at end of file
+};
@@ -10,16 +10,12 @@ import * as cors from "cors";
 import {users as usersHttp} from "./crud/users";
 import {cars as carsHttp} from "./crud/cars";
 import {
-    ENetworkObjectType,
-    IApiLotsBuyPost,
-    IApiLotsSellPost,
-    IApiPersonsGetResponse,
     IApiPersonsPut,
     ICar, ICellLock,
     IFloor,
     IHouse,
-    ILot,
     INetworkObject,
+    IObject,
     INpc,
     IPerson,
     IResource,
@@ -33,16 +29,48 @@ import {
     handleVoiceMessageOffer
 } from "./voiceMessages";
 import {
-    ICarDatabase, ICellLockDatabase, IHouseDatabase,
-    INetworkObjectDatabase,
-    INpcCellTimeDatabase,
+    ICityMapDatabase,
+    ILotDatabase,
     INpcDatabase,
-    IPersonDatabase, IStockpileDatabase
+    IPersonDatabase
 } from "./types/database";
 import {defaultCarHealthObject, defaultObjectHealthObject, defaultPersonHealthObject} from "./config";
 import {performHealthTickOnCollectionOfNetworkObjects} from "./health";
-import {getRelevantNetworkObjectCellIds, getRelevantNetworkObjectCells} from "./cell";
-import {getThirtySecondsAgo, handleLogin} from "./authentication";
+import {getRelevantNetworkObjectCellIds, getRelevantNetworkObjectCells, parseCellRadius} from "./cell";
+import {authenticatePerson, getOptionalSessionPersonId, getThirtySecondsAgo, handleLogin} from "./authentication";
+import {ApiError, handleApiError} from "./errors";
+import {handleLedgerHistory} from "./ledger";
+import {
+    handlePersonsVend,
+    handleVendingMachineBuild,
+    handleVendingMachinePrice,
+    handleVendingMachineRestock,
+    handleVendingMachineWithdraw,
+    restockCityVendingMachines
+} from "./vending";
+import {
+    cancelTradesOutOfRange,
+    getTradeOfPerson,
+    handleTradeCancel,
+    handleTradeConfirm,
+    handleTradeOffer,
+    handleTradePropose
+} from "./trading";
+import {getLoanOfPerson, handleLoanBorrow, handleLoanGet, handleLoanRepay, performLoanTick} from "./loans";
+import {getTaxWarningOfPerson, performLotTaxTick} from "./taxes";
+import {getLotProductionsOfPerson, handleLotIndustry, performLotProductionTick} from "./production";
+import {
+    EApiErrorCode,
+    IApiCityFile,
+    IApiGenerateCityPost,
+    IApiLot,
+    IApiPersonsGetSyncResponse,
+    IApiVendingMachine
+} from "./types/api";
+import {cityMapId, deleteCityContents, generateCity, saveCity} from "./city";
+import {generateCityFormat, validateCityLayout} from "./cityLayout";
+import {cityFileToCity, exportCity, validateCityFile, validateCityFormat} from "./cityFile";
+import {handleRoadRoute} from "./roadGraph";
 import {handleGenerateTerrainTile, handleHarvestResource, updateTerrain} from "./terrain";
 import {
     handleCraftObject,
@@ -53,15 +81,35 @@ import {
 } from "./inventory";
 import {
     cellLockDatabaseToClient,
-    getSimpleCollection,
     networkObjectDatabaseToClient, npcClientToDatabase,
     npcDatabaseToClient,
     sortNetworkObjectsByDistance
 } from "./common";
 import {handleConstructionRequest, handleStockpileConstructionRequest} from "./construction";
 import {handleSetNpcJob, simulateCell} from "./pathfinding";
+import {applyMovementUpdate} from "./movement";
+import {handlePersonsStream} from "./stream";
+import {getSyncedCollection, getSyncedDocuments, getSyncWindow, getTombstones, markWorldReset, purgeTombstones} from "./sync";
+import {getStorage, IQueryFilter, IStoredDocument, TCollectionName, where} from "./storage";
+import {
+    closeAllLotTrades,
+    getAuctionsByLotId,
+    getLotCityPrice,
+    getOffersByLotId,
+    handleLotAuction,
+    handleLotAuctionBid,
+    handleLotBuy,
+    handleLotBuyAccept,
+    handleLotBuyCancel,
+    handleLotBuyReject,
+    handleLotOffers,
+    handleLotSell,
+    handleLotSellAccept,
+    handleLotSellCancel,
+    purgeExpiredLotOffers,
+    settleLotAuctions
+} from "./lots";
 import {applyPathToNpc} from "persons-game-common/lib/npc";
-import {getNetworkObjectCellString} from "persons-game-common/lib/cell";
 import {getTerrainTilePosition, terrainTilesThatShouldBeLoaded, terrainTileToId} from "persons-game-common/lib/terrain";
 
 const matchAll = require("string.prototype.matchall");
@@ -81,48 +129,69 @@ const personsApp = express();
 personsApp.use(cors({origin: true}));
 
 /**
- * Get a list of persons.
+ * Get a list of persons. The optional "radius" query parameter sets how many cells around the person are loaded.
  */
 personsApp.get("/data", (req: express.Request, res: express.Response, next: express.NextFunction) => {
     (async () => {
         // json response data
         const personsToReturnAsJson: IPerson[] = [];
         const npcsToReturnAsJson: INpc[] = [];
-        const lotsToReturnAsJson: ILot[] = [];
+        const lotsToReturnAsJson: IApiLot[] = [];
         const stockpilesToReturnAsJson: IStockpile[] = [];
 
-        const {id = null} = req.query as {id: string};
+        const {id = null, since, radius} = req.query as {id: string, since?: string, radius?: string};
+        const cellRadius = parseCellRadius(radius);
+        // voice messages are deleted once read and trades, loans, tax warnings and lot productions are private, only give
+        // them to the person of the session
+        const sessionPersonId = await getOptionalSessionPersonId(req);
 
         // get current person or current npc, render data relative to person or npc position
-        const currentPerson = id ? await admin.firestore().collection("persons").doc(id).get() : null;
-        const currentNpcQuery = await admin.firestore().collection("npcs").limit(1).get();
-        const currentNpc: admin.firestore.DocumentSnapshot | null = currentNpcQuery.docs.length > 0 ? currentNpcQuery.docs[0] : null;
-        const currentNpcData: INpcDatabase | null = currentNpc ? currentNpc.data() as INpcDatabase : null;
+        const currentPerson = id ? await getStorage().collection("persons").get(id) : null;
+        const currentNpcQuery = await getStorage().collection("npcs").query([], {limit: 1});
+        const currentNpc: IStoredDocument<INpcDatabase> | null = currentNpcQuery.length > 0 ? currentNpcQuery[0] : null;
+        const currentNpcData: INpcDatabase | null = currentNpc ? currentNpc.data : null;
         const updatedNpcDataClient: INpc | null = currentNpcData ? applyPathToNpc(npcDatabaseToClient(currentNpcData)) : null;
         const updatedNpcData: INpcDatabase | null = updatedNpcDataClient ? npcClientToDatabase(updatedNpcDataClient) : null;
-        const currentPersonData: IPersonDatabase = currentPerson && currentPerson.exists ?
-            currentPerson.data() as IPersonDatabase :
+        const currentPersonData: IPersonDatabase = currentPerson ?
+            currentPerson :
             currentNpcData ?
                 updatedNpcData as IPersonDatabase :
                 {id, x: 0, y: 0} as IPersonDatabase;
 
-        const currentPersonId = currentPerson && currentPerson.exists ? currentPerson.id : null;
-        const currentNpcId = !(currentPerson && currentPerson.exists) && currentNpc && currentNpc.exists ? currentNpc.id : null;
+        const currentPersonId = currentPerson && id ? id : null;
+        const currentNpcId = !currentPerson && currentNpc ? currentNpc.id : null;
 
         // begin terrain update
         await updateTerrain({currentPerson: currentPersonData});
 
+        // only fetch changes in cells the client already has
+        const relevantCells = getRelevantNetworkObjectCellIds(currentPersonData, cellRadius);
+        const syncWindow = await getSyncWindow(since, relevantCells);
+
         // get persons
         {
-            // get a list of all people who have updated within the last thirty seconds
-            const querySnapshot = await admin.firestore().collection("persons")
-                .where("lastUpdate", ">=", getThirtySecondsAgo())
-                .where("cell", "in", getRelevantNetworkObjectCellIds(currentPersonData))
-                .get();
+            // get a list of all people who have updated within the last thirty seconds, or since the sync cursor
+            const thirtySecondsAgo = getThirtySecondsAgo();
+            const queries: IQueryFilter[][] = [];
+            if (syncWindow.fullCells.length > 0) {
+                queries.push([
+                    where("lastUpdate", ">=", thirtySecondsAgo),
+                    where("cell", "in", syncWindow.fullCells)
+                ]);
+            }
+            if (syncWindow.since && syncWindow.deltaCells.length > 0) {
+                queries.push([
+                    where("lastUpdate", ">", syncWindow.since.toMillis() > thirtySecondsAgo.toMillis() ? syncWindow.since : thirtySecondsAgo),
+                    where("cell", "in", syncWindow.deltaCells)
+                ]);
+            }
+            const queryResults = await Promise.all(queries.map(filters => getStorage().collection("persons").query(filters)));
+            const documents = queryResults.reduce((acc: Array<IStoredDocument<IPersonDatabase>>, queryResult) => {
+                return [...acc, ...queryResult];
+            }, []);
 
             // add to json list
-            for (const documentSnapshot of querySnapshot.docs) {
-                const data = documentSnapshot.data() as IPersonDatabase;
+            for (const {data} of documents) {
 
                 // delete password so it does not reach the frontend
                 const dataWithoutPassword = {...data};
@@ -147,14 +216,11 @@ personsApp.get("/data", (req: express.Request, res: express.Response, next: expr
         }
         // get stockpiles
         {
-            // get a list of all people who have updated within the last thirty seconds
-            const querySnapshot = await admin.firestore().collection("stockpiles")
-                .where("cell", "in", getRelevantNetworkObjectCellIds(currentPersonData))
-                .get();
+            // get a list of all stockpiles nearby, or the stockpiles that changed since the sync cursor
+            const documents = await getSyncedDocuments("stockpiles", syncWindow);
 
             // add to json list
-            for (const documentSnapshot of querySnapshot.docs) {
-                const data = documentSnapshot.data() as IStockpileDatabase;
+            for (const {data} of documents) {
 
                 // save database record into json array
                 const stockpileToReturnAsJson: IStockpile = {
@@ -179,40 +245,34 @@ personsApp.get("/data", (req: express.Request, res: express.Response, next: expr
             // get a list of traveling npcs nearby the current person
             // must use a separate collection with npc schedule to gather traveling npcs
             // more complicated query involving one npc to many time and cell records
-            const querySnapshot = await admin.firestore().collection("npcTimes")
-                .where("startTime", "<=", admin.firestore.Timestamp.now())
-                .where("cell", "in", getRelevantNetworkObjectCellIds(currentPersonData))
-                .where("expired", "==", false)
-                .get();
+            const timeCells = await getStorage().collection("npcTimes").query([
+                where("startTime", "<=", admin.firestore.Timestamp.now()),
+                where("cell", "in", relevantCells),
+                where("expired", "==", false)
+            ]);
 
             // set old time cells expired
-            const expiredTimeCells = querySnapshot.docs.filter(document => {
+            const expiredTimeCells = timeCells.filter(({data}) => {
                 // select time cells that ended before now
-                const data = document.data() as INpcCellTimeDatabase;
                 return +new Date() >= data.endTime.toMillis();
             });
             // update time cells by deleting expired cell times, should reduce read load over time
             await Promise.all(expiredTimeCells.map(timeCell => {
-                return timeCell.ref.delete();
+                return getStorage().collection("npcTimes").delete(timeCell.id);
             }));
 
             // get npc ids
-            const npcIds = [...new Set(querySnapshot.docs.map(document => {
-                return document.data() as INpcCellTimeDatabase;
-            }).filter(data => +new Date() < data.endTime.toMillis()) // only dates that have not happened yet
+            const npcIds = [...new Set(timeCells.map(({data}) => data)
+                .filter(data => +new Date() < data.endTime.toMillis()) // only dates that have not happened yet
                 .map((data) => data.npcId))];
 
-            // concurrently fetch documents
-            const documents = await Promise.all(npcIds.map(npcId => {
-                return admin.firestore().collection("npcs").doc(npcId).get();
-            }));
+            // fetch documents together
+            const documents = await getStorage().collection("npcs").getAll(npcIds);
 
             // add to json list
-            for (const documentSnapshot of documents) {
+            for (const data of documents) {
                 // for npcs that exist
-                if (documentSnapshot.exists) {
-                    // get npc data
-                    const data = documentSnapshot.data() as INpcDatabase;
+                if (data) {
 
                     // delete password so it does not reach the frontend
                     const dataWithoutPassword = {...data};
@@ -246,30 +306,27 @@ personsApp.get("/data", (req: express.Request, res: express.Response, next: expr
 
         // get lots
         {
-            const querySnapshot = await admin.firestore().collection("lots")
-                .where("cells", "array-contains-any", getRelevantNetworkObjectCellIds(currentPersonData))
-                .get();
-
-            for (const documentSnapshot of querySnapshot.docs) {
-                const data = documentSnapshot.data() as ILot;
-                let dataToReturnAsJson: ILot = {
-                    ...data
-                };
-
-                const buyOffersQuery = await admin.firestore().collection("buyOffers")
-                    .where("lotId", "==", data.id)
-                    .get();
-                const buyOffers: IApiLotsBuyPost[] = buyOffersQuery.docs.map(offer => offer.data() as IApiLotsBuyPost);
+            const lotsData = await getSyncedCollection<ILotDatabase>(currentPersonData, "lots", syncWindow, {
+                cellsArray: true
+            });
 
-                const sellOffersQuery = await admin.firestore().collection("sellOffers")
-                    .where("lotId", "==", data.id)
-                    .get();
-                const sellOffers: IApiLotsSellPost[] = sellOffersQuery.docs.map(offer => offer.data() as IApiLotsSellPost);
+            // fetch the offers and auctions of every visible lot together instead of three queries per lot
+            const lotIds = lotsData.map(data => data.id);
+            const [buyOffersByLotId, sellOffersByLotId, auctionsByLotId] = await Promise.all([
+                getOffersByLotId("buyOffers", lotIds),
+                getOffersByLotId("sellOffers", lotIds),
+                getAuctionsByLotId(lotIds)
+            ]);
 
-                dataToReturnAsJson = {
-                    ...dataToReturnAsJson,
-                    buyOffers,
-                    sellOffers
+            for (const {taxUnpaidSince, industryType, ...data} of lotsData) {
+                const dataToReturnAsJson: IApiLot = {
+                    ...data,
+                    buyOffers: buyOffersByLotId.get(data.id) || [],
+                    sellOffers: sellOffersByLotId.get(data.id) || [],
+                    auction: auctionsByLotId.get(data.id) || null,
+                    taxUnpaidSince: taxUnpaidSince ? taxUnpaidSince.toDate().toISOString() : null,
+                    industryType: industryType || null,
+                    cityPrice: getLotCityPrice(data)
                 };
 
                 lotsToReturnAsJson.push(dataToReturnAsJson);
@@ -282,55 +339,73 @@ personsApp.get("/data", (req: express.Request, res: express.Response, next: expr
         const loadedTerrainTiles: ITerrainTilePosition[] = [];
         {
             const shouldBeLoaded = terrainTilesThatShouldBeLoaded(getTerrainTilePosition(currentPersonData));
-            const documents = await Promise.all(
-                shouldBeLoaded.map((tilePosition) => {
-                    return admin.firestore().collection("terrainTiles").doc(terrainTileToId(tilePosition)).get();
-                })
-            );
+            const documents = await getStorage().collection("terrainTiles").getAll(shouldBeLoaded.map(terrainTileToId));
             for (const document of documents) {
-                if (document.exists) {
-                    loadedTerrainTiles.push(document.data() as ITerrainTilePosition);
+                if (document) {
+                    loadedTerrainTiles.push(document);
                 }
             }
         }
 
         const cellLocks: ICellLock[] = [];
         {
-            const relevantCells = getRelevantNetworkObjectCellIds(currentPersonData);
-            const documents = await Promise.all(
-                relevantCells.map((cellId) => {
-                    return admin.firestore().collection("cellLocks").doc(cellId).get()
-                })
-            );
+            const documents = await getStorage().collection("cellLocks").getAll(relevantCells);
             for (const document of documents) {
-                if (document.exists) {
-                    cellLocks.push(cellLockDatabaseToClient(document.data() as ICellLockDatabase));
+                if (document) {
+                    cellLocks.push(cellLockDatabaseToClient(document));
                 }
             }
         }
 
+        // objects which were picked up by someone else are no longer in the world, send them as tombstones
+        const tombstones = await getTombstones(syncWindow);
+        const objects: INetworkObject[] = [];
+        for (const networkObject of await getSyncedCollection<INetworkObject>(currentPersonData, "objects", syncWindow, {
+            networkObject: true
+        })) {
+            if (networkObject.isInInventory && networkObject.grabbedByPersonId !== currentPersonId) {
+                tombstones.push({
+                    id: networkObject.id,
+                    collectionName: "objects",
+                    deletedAt: networkObject.lastUpdate
+                });
+            } else {
+                objects.push(networkObject);
+            }
+        }
+
         // return both persons and cars since both can move and both are network objects
-        const jsonData: IApiPersonsGetResponse = {
+        const jsonData: IApiPersonsGetSyncResponse = {
             currentPersonId,
             currentNpcId,
             persons: personsToReturnAsJson,
             npcs: npcsToReturnAsJson,
             lots: lotsToReturnAsJson,
-            cars: await getSimpleCollection<ICar>(currentPersonData, "personalCars"),
-            objects: await getSimpleCollection<INetworkObject>(currentPersonData, "objects", {
-                networkObject: true
-            }),
-            roads: await getSimpleCollection<IRoad>(currentPersonData, "roads"),
-            houses: await getSimpleCollection<IHouse>(currentPersonData, "houses"),
-            floors: await getSimpleCollection<IFloor>(currentPersonData, "floors"),
-            walls: await getSimpleCollection<IWall>(currentPersonData, "walls"),
-            resources: await getSimpleCollection<IResource>(currentPersonData, "resources"),
+            cars: await getSyncedCollection<ICar>(currentPersonData, "personalCars", syncWindow),
+            objects,
+            roads: await getSyncedCollection<IRoad>(currentPersonData, "roads", syncWindow),
+            houses: await getSyncedCollection<IHouse>(currentPersonData, "houses", syncWindow),
+            floors: await getSyncedCollection<IFloor>(currentPersonData, "floors", syncWindow),
+            walls: await getSyncedCollection<IWall>(currentPersonData, "walls", syncWindow),
+            resources: await getSyncedCollection<IResource>(currentPersonData, "resources", syncWindow),
             stockpiles: stockpilesToReturnAsJson,
-            stockpileTiles: await getSimpleCollection<IStockpileTile>(currentPersonData, "stockpileTiles"),
-            voiceMessages: await getVoiceMessages(id),
-            loadedCells: getRelevantNetworkObjectCells(currentPersonData),
+            stockpileTiles: await getSyncedCollection<IStockpileTile>(currentPersonData, "stockpileTiles", syncWindow),
+            vendingMachines: await getSyncedCollection<IApiVendingMachine>(currentPersonData, "vendingMachines", syncWindow),
+            trade: sessionPersonId ? await getTradeOfPerson(sessionPersonId) : null,
+            loan: sessionPersonId ? await getLoanOfPerson(sessionPersonId) : null,
+            taxWarning: sessionPersonId ? await getTaxWarningOfPerson(sessionPersonId) : null,
+            lotProductions: sessionPersonId ? await getLotProductionsOfPerson(sessionPersonId) : [],
+            voiceMessages: await getVoiceMessages(sessionPersonId),
+            loadedCells: getRelevantNetworkObjectCells(currentPersonData, cellRadius),
             loadedTerrainTiles,
-            cellLocks
+            cellLocks,
+            cursor: syncWindow.cursor,
+            full: !syncWindow.since,
+            tombstones,
+            death: currentPerson && currentPerson.deathTime ? {
+                diedAt: currentPerson.deathTime.toDate().toISOString(),
+                respawnAt: (currentPerson.respawnTime || currentPerson.deathTime).toDate().toISOString()
+            } : null
         };
         res.json(jsonData);
     })().catch((err) => next(err));
@@ -344,127 +419,157 @@ personsApp.post("/login", handleLogin);
 /**
  * Add a WebRTC ICE candidate message for another user.
  */
-personsApp.post("/voice/candidate", handleVoiceMessageCandidate);
+personsApp.post("/voice/candidate", authenticatePerson("from"), handleVoiceMessageCandidate);
 
 /**
  * Add a WebRTC offer message for another user.
  */
-personsApp.post("/voice/offer", handleVoiceMessageOffer);
+personsApp.post("/voice/offer", authenticatePerson("from"), handleVoiceMessageOffer);
 
 /**
  * Add a WebRTC answer message for another user.
  */
-personsApp.post("/voice/answer", handleVoiceMessageAnswer);
+personsApp.post("/voice/answer", authenticatePerson("from"), handleVoiceMessageAnswer);
+
+/**
+ * Push changes around the person in realtime with Server-Sent Events.
+ */
+personsApp.get("/stream", handlePersonsStream);
 
 /**
  * Harvest a resource.
  */
-personsApp.post("/resource/harvest", handleHarvestResource);
+personsApp.post("/resource/harvest", authenticatePerson(), handleHarvestResource);
 
 /**
  * Pick an object up into the inventory.
  */
-personsApp.post("/object/pickup", handlePickUpObject);
+personsApp.post("/object/pickup", authenticatePerson("personId"), handlePickUpObject);
 
 /**
  * Withdraw an object from a stockpile into the inventory.
  */
-personsApp.post("/stockpile/withdraw", handleWithdrawObjectFromStockpile);
+personsApp.post("/stockpile/withdraw", authenticatePerson("personId"), handleWithdrawObjectFromStockpile);
 
 /**
  * Deposit an object from the inventory to the stockpile.
  */
-personsApp.post("/stockpile/deposit", handleDepositObjectIntoStockpile);
+personsApp.post("/stockpile/deposit", authenticatePerson("personId"), handleDepositObjectIntoStockpile);
 
 /**
  * Construct a building using inventory items.
  */
-personsApp.post("/construction", handleConstructionRequest);
+personsApp.post("/construction", authenticatePerson("personId"), handleConstructionRequest);
 
 /**
  * Construct a stockpile.
  */
-personsApp.post("/construction/stockpile", handleStockpileConstructionRequest);
+personsApp.post("/construction/stockpile", authenticatePerson("personId"), handleStockpileConstructionRequest);
 
 /**
  * Drop an object from the inventory.
  */
-personsApp.post("/object/drop", handleDropObject);
+personsApp.post("/object/drop", authenticatePerson("personId"), handleDropObject);
 
 /**
  * Craft an object in the inventory
  */
-personsApp.post("/object/craft", handleCraftObject);
+personsApp.post("/object/craft", authenticatePerson("personId"), handleCraftObject);
 
 /**
  * Handle setting npc job.
  */
-personsApp.post("/npc/job", handleSetNpcJob);
+personsApp.post("/npc/job", authenticatePerson("personId"), handleSetNpcJob);
 
 /**
- * Update game state.
+ * Update game state. The server checks the movement and returns the authoritative state of anything it corrected.
  */
-personsApp.put("/data", (req: { body: IApiPersonsPut; }, res: any, next: (arg0: any) => any) => {
+personsApp.put("/data", authenticatePerson(), (req: { body: IApiPersonsPut; }, res: any, next: (arg0: any) => any) => {
     (async () => {
-        // convert data into database format
-        const personsToSaveIntoDatabase = req.body.persons.map((person: IPerson): Partial<IPersonDatabase> => {
-            // remove cash and credit limit information from person before updating database
-            // do not want the client to set their own cash or credit limit
-            const personWithoutSensitiveInformation = {
-                id: person.id,
-                x: person.x,
-                y: person.y
-            };
-
-            return {
-                ...personWithoutSensitiveInformation,
-                // convert ISO string date into firebase firestore Timestamp
-                lastUpdate: person.lastUpdate ? admin.firestore.Timestamp.fromDate(new Date(person.lastUpdate)) : admin.firestore.Timestamp.now(),
-                cell: getNetworkObjectCellString({
-                    ...personWithoutSensitiveInformation
-                })
-            };
-        });
-        const carsToSaveIntoDatabase = req.body.cars.map((car: ICar): Partial<ICarDatabase> => {
-            return {
-                ...car,
-                // convert ISO string date into firebase firestore Timestamp
-                lastUpdate: car.lastUpdate ? admin.firestore.Timestamp.fromDate(new Date(car.lastUpdate)) : admin.firestore.Timestamp.now(),
-                objectType: ENetworkObjectType.CAR,
-                cell: getNetworkObjectCellString({
-                    ...car
-                })
-            };
+        const response = await applyMovementUpdate(res.locals.personId, {
+            persons: req.body.persons || [],
+            cars: req.body.cars || [],
+            objects: req.body.objects || []
         });
-        const objectsToSaveIntoDatabase = req.body.objects.map((networkObject: INetworkObject): Partial<INetworkObjectDatabase> => {
-            return {
-                ...networkObject,
-                // convert ISO string date into firebase firestore Timestamp
-                lastUpdate: networkObject.lastUpdate ? admin.firestore.Timestamp.fromDate(new Date(networkObject.lastUpdate)) : admin.firestore.Timestamp.now(),
-                cell: getNetworkObjectCellString({
-                    ...networkObject
-                })
-            };
-        });
-
-        // save all data objects to the database simultaneously
-        const writeBatch = admin.firestore().batch();
-        personsToSaveIntoDatabase.forEach((person) => {
-            writeBatch.set(admin.firestore().collection("persons").doc(person.id as string), person, {merge: true});
-        });
-        carsToSaveIntoDatabase.forEach((car) => {
-            writeBatch.set(admin.firestore().collection("personalCars").doc(car.id as string), car, {merge: true});
-        });
-        objectsToSaveIntoDatabase.forEach((networkObject) => {
-            writeBatch.set(admin.firestore().collection("objects").doc(networkObject.id as string), networkObject, {merge: true});
-        });
-        await writeBatch.commit();
-
-        // end request
-        res.sendStatus(200);
+        // walking away from a trade cancels it
+        await cancelTradesOutOfRange(res.locals.personId);
+        res.status(200).json(response);
     })().catch((err) => next(err));
 });
 
+/**
+ * Buy an item from a vending machine.
+ */
+personsApp.post("/vend", authenticatePerson("personId"), handlePersonsVend);
+
+/**
+ * Build a vending machine owned by the current person.
+ */
+personsApp.post("/vending/build", authenticatePerson("personId"), handleVendingMachineBuild);
+
+/**
+ * Load items into a vending machine of the current person.
+ */
+personsApp.post("/vending/restock", authenticatePerson("personId"), handleVendingMachineRestock);
+
+/**
+ * Change the price of an item in a vending machine of the current person.
+ */
+personsApp.post("/vending/price", authenticatePerson("personId"), handleVendingMachinePrice);
+
+/**
+ * Collect the revenue of a vending machine of the current person.
+ */
+personsApp.post("/vending/withdraw", authenticatePerson("personId"), handleVendingMachineWithdraw);
+
+/**
+ * Propose a trade to a nearby person.
+ */
+personsApp.post("/trade/propose", authenticatePerson("personId"), handleTradePropose);
+
+/**
+ * Change the items and cash the current person gives in a trade.
+ */
+personsApp.post("/trade/offer", authenticatePerson("personId"), handleTradeOffer);
+
+/**
+ * Accept a trade, the trade completes when both persons accept.
+ */
+personsApp.post("/trade/confirm", authenticatePerson("personId"), handleTradeConfirm);
+
+/**
+ * Cancel a trade.
+ */
+personsApp.post("/trade/cancel", authenticatePerson("personId"), handleTradeCancel);
+
+/**
+ * Show the loan and credit of the current person.
+ */
+personsApp.get("/loan", authenticatePerson(), handleLoanGet);
+
+/**
+ * Borrow cash from the city.
+ */
+personsApp.post("/loan/borrow", authenticatePerson("personId"), handleLoanBorrow);
+
+/**
+ * Pay back part of the loan of the current person.
+ */
+personsApp.post("/loan/repay", authenticatePerson("personId"), handleLoanRepay);
+
+/**
+ * Plan a route along the roads between two world points.
+ */
+personsApp.get("/route", authenticatePerson(), handleRoadRoute);
+
+/**
+ * Page through the cash history of the current person.
+ */
+personsApp.get("/ledger", authenticatePerson(), handleLedgerHistory);
+
+// return authentication and authorization errors as JSON
+personsApp.use(handleApiError);
+
 // export the express app as a firebase function
 export const persons = functions.https.onRequest(personsApp);
 
@@ -473,9 +578,8 @@ export const persons = functions.https.onRequest(personsApp);
  */
 const performNpcTick = async () => {
     // get cellStrings from houses
-    const houseDocuments = await admin.firestore().collection("houses").get();
-    const cellStrings = Array.from(new Set(houseDocuments.docs.map((houseDocument): string => {
-        const houseData = houseDocument.data() as IHouseDatabase;
+    const houseDocuments = await getStorage().collection("houses").query([]);
+    const cellStrings = Array.from(new Set(houseDocuments.map(({data: houseData}): string => {
         return houseData.cell;
     })));
 
@@ -491,30 +595,53 @@ const performNpcTick = async () => {
  * Delete a large collection of documents using pagination.
  * @param collectionName The collection name to delete.
  */
-const deleteAllFromCollection = async (collectionName: string) => {
-    // the previous document in the query, used for pagination large collections of more than 100 documents
-    let previousDocumentSnapshot: admin.firestore.DocumentSnapshot | undefined = undefined;
+const deleteAllFromCollection = async (collectionName: TCollectionName) => {
+    const repository = getStorage().collection(collectionName);
     while (true) {
-        // paginate 100 documents, starting off from the previous document
-        const documentQuery = admin.firestore().collection(collectionName)
-            .limit(100);
-        if (previousDocumentSnapshot) {
-            documentQuery.startAfter(previousDocumentSnapshot);
-        }
-
-        // get documents
-        const documents = await documentQuery.get();
-        if (documents.docs.length === 0) {
+        // paginate 100 documents, each page is deleted so the next query starts at the remaining documents
+        const documents = await repository.query([], {limit: 100});
+        if (documents.length === 0) {
             // no more documents, stop deletion
             break;
         }
 
         // delete documents
-        await Promise.all(documents.docs.map(doc => doc.ref.delete()));
-
-        // store a copy of the last previous document to continue pagination
-        previousDocumentSnapshot = documents.docs[documents.docs.length - 1];
+        await Promise.all(documents.map(({id}) => repository.delete(id)));
     }
+
+    // the deleted documents have no tombstones, clients have to reload everything
+    await markWorldReset();
+};
+
+/**
+ * Delete the roads, lots, lot contents and map of the generated city. The offers and auctions on the lots are closed
+ * first so their escrow goes back to the buyers, the tax warnings and productions of the lots are deleted with the lots.
+ */
+const deleteCity = async () => {
+    await closeAllLotTrades();
+    await Promise.all([
+        deleteAllFromCollection("roads"),
+        deleteAllFromCollection("lots"),
+        deleteAllFromCollection("taxWarnings"),
+        deleteAllFromCollection("lotProductions"),
+        deleteAllFromCollection("rooms"),
+        deleteAllFromCollection("cityMaps"),
+        deleteCityContents()
+    ]);
+};
+
+/**
+ * Save the map of the generated city, so the city can be regenerated or exported.
+ * @param format The ASCII map of the city.
+ * @param offset The offset of the city.
+ */
+const saveCityMap = async (format: string, offset: IObject) => {
+    const cityMap: ICityMapDatabase = {
+        format,
+        offset: {x: offset.x, y: offset.y},
+        createdAt: admin.firestore.Timestamp.now()
+    };
+    await getStorage().collection("cityMaps").set(cityMapId, cityMap);
 };
 
 /**
@@ -524,13 +651,55 @@ const generateApp = express();
 generateApp.use(cors({origin: true}));
 generateApp.post("/city", (req, res, next) => {
     (async () => {
+        // use the posted city map, generate a city map from the layout or regenerate the stored city map
+        const {format, layout, offset} = req.body as IApiGenerateCityPost;
+        if (format === undefined && layout !== undefined) {
+            validateCityLayout(layout);
+        }
+        const isNewCityMap = format !== undefined || layout !== undefined;
+        const previousCityMap = await getStorage().collection("cityMaps").get(cityMapId);
+        const cityFormat = format !== undefined ? format :
+            layout !== undefined ? generateCityFormat(layout) :
+            previousCityMap && previousCityMap.format;
+        const cityOffset = offset || (!isNewCityMap && previousCityMap ? previousCityMap.offset : {x: 0, y: 0});
+        if (typeof cityFormat !== "string" || !cityFormat ||
+            typeof cityOffset.x !== "number" || !isFinite(cityOffset.x) ||
+            typeof cityOffset.y !== "number" || !isFinite(cityOffset.y)) {
+            throw new ApiError(400, EApiErrorCode.INVALID_REQUEST, "Require a city format, or a stored city map, and an offset with a numeric x and y");
+        }
+        validateCityFormat(cityFormat);
+
         // delete old city data
-        await Promise.all([
-            deleteAllFromCollection("roads"),
-            deleteAllFromCollection("lots"),
-            deleteAllFromCollection("rooms"),
-            deleteAllFromCollection("cityMaps")
-        ]);
+        await deleteCity();
+
+        // generate the new city and keep its map
+        const city = generateCity({format: cityFormat, offset: {x: cityOffset.x, y: cityOffset.y}});
+        await saveCity(city);
+        await saveCityMap(cityFormat, cityOffset);
+
+        res.sendStatus(200);
+    })().catch((err) => next(err));
+});
+/**
+ * Export the generated city as a city file.
+ */
+generateApp.get("/city/export", (req, res, next) => {
+    (async () => {
+        const cityFile: IApiCityFile = await exportCity();
+        res.json(cityFile);
+    })().catch((err) => next(err));
+});
+/**
+ * Replace the generated city with the city of a city file.
+ */
+generateApp.post("/city/import", (req, res, next) => {
+    (async () => {
+        const cityFile = req.body as IApiCityFile;
+        validateCityFile(cityFile);
+
+        await deleteCity();
+        await saveCity(cityFileToCity(cityFile));
+        await saveCityMap(cityFile.format, cityFile.offset);
 
         res.sendStatus(200);
     })().catch((err) => next(err));
@@ -586,92 +755,61 @@ generateApp.post("/terrain", (req, res, next) => {
         res.sendStatus(200);
     })().catch((err) => next(err));
 });
+// return invalid requests as JSON
+generateApp.use(handleApiError);
+
 export const generate = functions.https.onRequest(generateApp);
 
 /**
  * Lot data.
  */
 const lotsApp = express();
-const acceptBuyOffer = async (offer: IApiLotsBuyPost) => {
-    await admin.firestore().runTransaction(async (transaction) => {
-        const lotDocument = await transaction.get(admin.firestore().collection("lots").doc(offer.lotId));
-        const personDocument = await transaction.get(admin.firestore().collection("persons").doc(offer.personId));
-        if (lotDocument.exists && personDocument.exists) {
-            const oldBuyOffers = await transaction.get(admin.firestore().collection("buyOffers")
-                .where("lotId", "==", offer.lotId));
-            const oldSellOffers = await transaction.get(admin.firestore().collection("sellOffers")
-                .where("lotId", "==", offer.lotId));
-
-            const lotData: Partial<ILot> = {
-                owner: offer.personId
-            };
-            const personData = personDocument.data() as IPersonDatabase;
-            const newPersonData: Partial<IPersonDatabase> = {
-                cash: personData.cash - offer.price,
-                lastUpdate: admin.firestore.Timestamp.now()
-            };
-
-            transaction.set(lotDocument.ref, lotData, {merge: true});
-            transaction.set(personDocument.ref, newPersonData, {merge: true});
-            [
-                ...oldBuyOffers.docs,
-                ...oldSellOffers.docs
-            ].forEach(o => {
-                transaction.delete(o.ref);
-            });
-        }
-    })
-};
 lotsApp.use(cors({origin: true}));
-lotsApp.post("/buy", (req, res, next) => {
-    (async () => {
-        const bodyData: IApiLotsBuyPost = req.body;
-
-        // find lot in database
-        const lotDocument = await admin.firestore().collection("lots").doc(bodyData.lotId).get();
-        if (lotDocument.exists) {
-            // lot exists, get data
-            const lotData = lotDocument.data() as ILot;
-
-            if (!lotData.owner) {
-                // lot has no owner, automatically accept offer
-                await acceptBuyOffer(bodyData);
-            } else {
-                // lot has an owner, create a buy offer
-                await admin.firestore().collection("buyOffers").add({
-                    ...req.body
-                });
-            }
-        }
-
-        res.sendStatus(200);
-    })().catch((err) => next(err));
-});
-// accept a buy offer
-lotsApp.post("/buy/accept", (req, res, next) => {
-    (async () => {
-        const bodyData: IApiLotsBuyPost = req.body;
-        await acceptBuyOffer(bodyData);
-        res.sendStatus(200);
-    })().catch((err) => next(err));
-});
-// accept a buy offer
-lotsApp.post("/sell/accept", (req, res, next) => {
-    (async () => {
-        const bodyData: IApiLotsBuyPost = req.body;
-        await acceptBuyOffer(bodyData);
-        res.sendStatus(200);
-    })().catch((err) => next(err));
-});
-lotsApp.post("/sell", (req, res, next) => {
-    (async () => {
-        await admin.firestore().collection("sellOffers").add({
-            ...req.body
-        });
-
-        res.sendStatus(200);
-    })().catch((err) => next(err));
-});
+/**
+ * List the open buy and sell offers of the current person.
+ */
+lotsApp.get("/offers", authenticatePerson(), handleLotOffers);
+/**
+ * Buy a lot without an owner at the city price, or make a buy offer.
+ */
+lotsApp.post("/buy", authenticatePerson("personId"), handleLotBuy);
+/**
+ * Accept a buy offer on an owned lot.
+ */
+lotsApp.post("/buy/accept", authenticatePerson(), handleLotBuyAccept);
+/**
+ * Cancel your own buy offer and release its escrow.
+ */
+lotsApp.post("/buy/cancel", authenticatePerson(), handleLotBuyCancel);
+/**
+ * Reject a buy offer on an owned lot.
+ */
+lotsApp.post("/buy/reject", authenticatePerson(), handleLotBuyReject);
+/**
+ * Buy a lot by accepting its sell offer.
+ */
+lotsApp.post("/sell/accept", authenticatePerson(), handleLotSellAccept);
+/**
+ * Cancel your own sell offer.
+ */
+lotsApp.post("/sell/cancel", authenticatePerson(), handleLotSellCancel);
+/**
+ * Put an owned lot up for sale.
+ */
+lotsApp.post("/sell", authenticatePerson("personId"), handleLotSell);
+/**
+ * Put an owned lot up for auction.
+ */
+lotsApp.post("/auction", authenticatePerson(), handleLotAuction);
+/**
+ * Bid on a running lot auction.
+ */
+lotsApp.post("/auction/bid", authenticatePerson(), handleLotAuctionBid);
+/**
+ * Choose what an owned industrial lot produces.
+ */
+lotsApp.post("/industry", authenticatePerson(), handleLotIndustry);
+lotsApp.use(handleApiError);
 export const lots = functions.https.onRequest(lotsApp);
 
 // handle the npc using a pubsub topic
@@ -691,11 +829,57 @@ export const personsTick = functions.pubsub.schedule("every 1 minutes").onRun(()
     return (async () => {
         // health regeneration or object depreciation
         await performHealthTickOnCollectionOfNetworkObjects("persons", defaultPersonHealthObject);
+        await performHealthTickOnCollectionOfNetworkObjects("npcs", defaultPersonHealthObject);
         await performHealthTickOnCollectionOfNetworkObjects("personalCars", defaultCarHealthObject);
         await performHealthTickOnCollectionOfNetworkObjects("objects", defaultObjectHealthObject);
 
         // handle each npc
         await performNpcTick();
+
+        // remove tombstones which are older than any valid sync cursor
+        await purgeTombstones();
+
+        // close expired lot offers and release their escrow
+        await purgeExpiredLotOffers();
+
+        // add loan interest and collect scheduled loan payments
+        await performLoanTick();
+    })().catch((err) => {
+        throw err;
+    });
+});
+
+// every minute, settle the lot auctions which ended
+export const lotAuctionsTick = functions.pubsub.schedule("every 1 minutes").onRun(() => {
+    return (async () => {
+        await settleLotAuctions();
+    })().catch((err) => {
+        throw err;
+    });
+});
+
+// every hour, charge the property tax of owned lots and repossess lots with unpaid tax
+export const lotTaxTick = functions.pubsub.schedule("every 1 hours").onRun(() => {
+    return (async () => {
+        await performLotTaxTick();
+    })().catch((err) => {
+        throw err;
+    });
+});
+
+// every 10 minutes, craft the products of the industrial lots
+export const lotProductionTick = functions.pubsub.schedule("every 10 minutes").onRun(() => {
+    return (async () => {
+        await performLotProductionTick();
+    })().catch((err) => {
+        throw err;
+    });
+});
+
+// every hour, restock the vending machines of the city
+export const vendingMachineRestockTick = functions.pubsub.schedule("every 1 hours").onRun(() => {
+    return (async () => {
+        await restockCityVendingMachines();
     })().catch((err) => {
         throw err;
     });
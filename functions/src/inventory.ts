@@ -1,5 +1,4 @@
 import express from "express";
-import admin from "firebase-admin";
 import {INetworkObjectDatabase, IPersonDatabase, IStockpileDatabase} from "./types/database";
 import {
     ENetworkObjectType,
@@ -20,6 +19,8 @@ import {
 } from "./common";
 import {PubSub} from "@google-cloud/pubsub";
 import {getNetworkObjectCellString} from "persons-game-common/lib/cell";
+import {addTombstone} from "./sync";
+import {getStorage} from "./storage";
 
 /**
  * Pick an object up.
@@ -27,14 +28,11 @@ import {getNetworkObjectCellString} from "persons-game-common/lib/cell";
  * @param personId The person which will pick up the object.
  */
 const pickUpObject = async ({objectId, personId}: {objectId: string, personId: string}) => {
-    await admin.firestore().runTransaction(async (transaction) => {
+    await getStorage().runTransaction(async (transaction) => {
         // check to see that both the person and object exists
-        const objectDocument = await transaction.get(admin.firestore().collection("objects").doc(objectId));
-        const personDocument = await transaction.get(admin.firestore().collection("persons").doc(personId));
-        if (objectDocument.exists && personDocument.exists) {
-            // they both exist, get the data
-            const objectData = objectDocument.data() as INetworkObjectDatabase;
-            const personData = personDocument.data() as IPersonDatabase;
+        const objectData = await transaction.collection("objects").get(objectId);
+        const personData = await transaction.collection("persons").get(personId);
+        if (objectData && personData) {
 
             // convert from database to client format so controller can use it
             const objectDataClient = networkObjectDatabaseToClient(objectData);
@@ -51,22 +49,24 @@ const pickUpObject = async ({objectId, personId}: {objectId: string, personId: s
             const updatedItem: INetworkObjectDatabase | null = updatedItemClient ? networkObjectClientToDatabase(updatedItemClient) : null;
             const newPersonData: Partial<IPersonDatabase> = personClientToDatabase({
                 ...personDataClient,
-                inventory: controller.getInventory()
+                inventory: controller.getInventory(),
+                lastUpdate: new Date().toISOString()
             });
             const stackableSlot: INetworkObjectDatabase | null = stackableSlotsClient[0] ? networkObjectClientToDatabase(stackableSlotsClient[0]) : null;
 
             // update both the person and the object
             // update person's inventory
-            transaction.set(admin.firestore().collection("persons").doc(personId), newPersonData, {merge: true});
+            transaction.collection("persons").merge(personId, newPersonData);
             // update or delete the picked up item. If there was a stackable slot, delete old item, else, update old item
             if (updatedItem) {
-                transaction.set(admin.firestore().collection("objects").doc(updatedItem.id), updatedItem, {merge: true});
+                transaction.collection("objects").merge(updatedItem.id, updatedItem);
             } else {
-                transaction.delete(admin.firestore().collection("objects").doc(objectId));
+                transaction.collection("objects").delete(objectId);
+                addTombstone("objects", objectData, transaction);
             }
             // update a stackable slot if there was a stackable slot update
             if (stackableSlot) {
-                transaction.set(admin.firestore().collection("objects").doc(stackableSlot.id), stackableSlot, {merge: true});
+                transaction.collection("objects").merge(stackableSlot.id, stackableSlot);
             }
         }
     });
@@ -78,14 +78,11 @@ const pickUpObject = async ({objectId, personId}: {objectId: string, personId: s
  * @param personId The person which will drop the object.
  */
 const dropObject = async ({objectId, personId}: {objectId: string, personId: string}) => {
-    await admin.firestore().runTransaction(async (transaction) => {
+    await getStorage().runTransaction(async (transaction) => {
         // check to see that both the person and object exists
-        const objectDocument = await transaction.get(admin.firestore().collection("objects").doc(objectId));
-        const personDocument = await transaction.get(admin.firestore().collection("persons").doc(personId));
-        if (objectDocument.exists && personDocument.exists) {
-            // they both exist, get the data
-            const objectData = objectDocument.data() as INetworkObjectDatabase;
-            const personData = personDocument.data() as IPersonDatabase;
+        const objectData = await transaction.collection("objects").get(objectId);
+        const personData = await transaction.collection("persons").get(personId);
+        if (objectData && personData) {
 
             // convert database into client for use in controller
             const objectDataClient: INetworkObject = networkObjectDatabaseToClient(objectData);
@@ -101,12 +98,13 @@ const dropObject = async ({objectId, personId}: {objectId: string, personId: str
             const updatedItem: INetworkObjectDatabase = networkObjectClientToDatabase(updatedItemClient as INetworkObject);
             const newPersonData: Partial<IPersonDatabase> = personClientToDatabase({
                 ...personDataClient,
-                inventory: controller.getInventory()
+                inventory: controller.getInventory(),
+                lastUpdate: new Date().toISOString()
             });
 
             // update both the person and the object
-            transaction.set(admin.firestore().collection("persons").doc(personId), newPersonData, {merge: true});
-            transaction.set(admin.firestore().collection("objects").doc(updatedItem.id), updatedItem, {merge: true});
+            transaction.collection("persons").merge(personId, newPersonData);
+            transaction.collection("objects").merge(updatedItem.id, updatedItem);
         }
     });
 };
@@ -117,12 +115,10 @@ const dropObject = async ({objectId, personId}: {objectId: string, personId: str
  * @param personId The person which will pick up the object.
  */
 const craftObject = async ({personId, recipeProduct}: {personId: string, recipeProduct: ENetworkObjectType}) => {
-    await admin.firestore().runTransaction(async (transaction) => {
+    await getStorage().runTransaction(async (transaction) => {
         // check to see that the person exists
-        const personDocument = await transaction.get(admin.firestore().collection("persons").doc(personId));
-        if (personDocument.exists) {
-            // get the data
-            const personData = personDocument.data() as IPersonDatabase;
+        const personData = await transaction.collection("persons").get(personId);
+        if (personData) {
 
             // convert from database to client format so controller can use it
             const personDataClient = personDatabaseToClient(personData);
@@ -143,29 +139,30 @@ const craftObject = async ({personId, recipeProduct}: {personId: string, recipeP
             const updatedItem: INetworkObjectDatabase | null = updatedItemClient ? networkObjectClientToDatabase(updatedItemClient) : null;
             const newPersonData: Partial<IPersonDatabase> = personClientToDatabase({
                 ...personDataClient,
-                ...controller.getState()
+                ...controller.getState(),
+                lastUpdate: new Date().toISOString()
             });
             const stackableSlot: INetworkObjectDatabase | null = stackableSlotsClient[0] ? networkObjectClientToDatabase(stackableSlotsClient[0]) : null;
             const modifiedSlots: INetworkObjectDatabase[] = modifiedSlotsClient.map(m => networkObjectClientToDatabase(m));
 
             // update both the person and the object
             // update person's inventory
-            transaction.set(admin.firestore().collection("persons").doc(personId), newPersonData, {merge: true});
+            transaction.collection("persons").merge(personId, newPersonData);
             // update or delete the picked up item. If there was a stackable slot, delete old item, else, update old item
             if (updatedItem) {
-                transaction.set(admin.firestore().collection("objects").doc(updatedItem.id), updatedItem, {merge: true});
+                transaction.collection("objects").merge(updatedItem.id, updatedItem);
             }
             // update a stackable slot if there was a stackable slot update
             if (stackableSlot) {
-                transaction.set(admin.firestore().collection("objects").doc(stackableSlot.id), stackableSlot, {merge: true});
+                transaction.collection("objects").merge(stackableSlot.id, stackableSlot);
             }
             // update modified slots
             modifiedSlots.forEach(m => {
-                transaction.set(admin.firestore().collection("objects").doc(m.id), m, {merge: true});
+                transaction.collection("objects").merge(m.id, m);
             });
             // delete items used during crafting
             deletedSlots.forEach(deleteId => {
-                transaction.delete(admin.firestore().collection("objects").doc(deleteId));
+                transaction.collection("objects").delete(deleteId);
             });
         }
     });
@@ -184,16 +181,12 @@ const withdrawObject = async ({
     stockpileId,
     amount
 }: {objectId: string, personId: string, stockpileId: string, amount: number}) => {
-    const cellString = await admin.firestore().runTransaction(async (transaction): Promise<string | null> => {
+    const cellString = await getStorage().runTransaction(async (transaction): Promise<string | null> => {
         // check to see that both the person and object exists
-        const objectDocument = await transaction.get(admin.firestore().collection("objects").doc(objectId));
-        const personDocument = await transaction.get(admin.firestore().collection("persons").doc(personId));
-        const stockpileDocument = await transaction.get(admin.firestore().collection("stockpiles").doc(stockpileId));
-        if (objectDocument.exists && personDocument.exists && stockpileDocument.exists) {
-            // they both exist, get the data
-            const objectData = objectDocument.data() as INetworkObjectDatabase;
-            const personData = personDocument.data() as IPersonDatabase;
-            const stockpileData = stockpileDocument.data() as IStockpileDatabase;
+        const objectData = await transaction.collection("objects").get(objectId);
+        const personData = await transaction.collection("persons").get(personId);
+        const stockpileData = await transaction.collection("stockpiles").get(stockpileId);
+        if (objectData && personData && stockpileData) {
 
             // convert from database to client format so controller can use it
             const objectDataClient = networkObjectDatabaseToClient(objectData);
@@ -218,28 +211,30 @@ const withdrawObject = async ({
             const updatedItem: INetworkObjectDatabase | null = updatedItemClient ? networkObjectClientToDatabase(updatedItemClient) : null;
             const newPersonData: Partial<IPersonDatabase> = personClientToDatabase({
                 ...personDataClient,
-                inventory: personController.getInventory()
+                inventory: personController.getInventory(),
+                lastUpdate: new Date().toISOString()
             });
             const newStockpileData: Partial<IStockpileDatabase> = stockpileClientToDatabase({
                 ...stockpileDataClient,
-                inventory: stockpileController.getInventory()
+                inventory: stockpileController.getInventory(),
+                lastUpdate: new Date().toISOString()
             });
             const stackableSlot: INetworkObjectDatabase | null = stackableSlotsClient[0] ? networkObjectClientToDatabase(stackableSlotsClient[0]) : null;
 
             // update both the person, stockpile and the object
             // update person's inventory
-            transaction.set(admin.firestore().collection("persons").doc(personId), newPersonData, {merge: true});
+            transaction.collection("persons").merge(personId, newPersonData);
             // update stockpile's inventory
-            transaction.set(admin.firestore().collection("stockpiles").doc(stockpileId), newStockpileData, {merge: true});
+            transaction.collection("stockpiles").merge(stockpileId, newStockpileData);
             // update or delete the picked up item. If there was a stackable slot, delete old item, else, update old item
             if (updatedItem) {
-                transaction.set(admin.firestore().collection("objects").doc(updatedItem.id), updatedItem, {merge: true});
+                transaction.collection("objects").merge(updatedItem.id, updatedItem);
             } else {
-                transaction.delete(admin.firestore().collection("objects").doc(objectId));
+                transaction.collection("objects").delete(objectId);
             }
             // update a stackable slot if there was a stackable slot update
             if (stackableSlot) {
-                transaction.set(admin.firestore().collection("objects").doc(stackableSlot.id), stackableSlot, {merge: true});
+                transaction.collection("objects").merge(stackableSlot.id, stackableSlot);
             }
 
             createCellLock(stockpileDataClient, transaction);
@@ -268,16 +263,12 @@ const depositObject = async ({
     personId,
     stockpileId,
 }: {objectId: string, personId: string, stockpileId: string}) => {
-    await admin.firestore().runTransaction(async (transaction) => {
+    await getStorage().runTransaction(async (transaction) => {
         // check to see that both the person and object exists
-        const objectDocument = await transaction.get(admin.firestore().collection("objects").doc(objectId));
-        const personDocument = await transaction.get(admin.firestore().collection("persons").doc(personId));
-        const stockpileDocument = await transaction.get(admin.firestore().collection("stockpiles").doc(stockpileId));
-        if (objectDocument.exists && personDocument.exists && stockpileDocument.exists) {
-            // they both exist, get the data
-            const objectData = objectDocument.data() as INetworkObjectDatabase;
-            const personData = personDocument.data() as IPersonDatabase;
-            const stockpileData = stockpileDocument.data() as IStockpileDatabase;
+        const objectData = await transaction.collection("objects").get(objectId);
+        const personData = await transaction.collection("persons").get(personId);
+        const stockpileData = await transaction.collection("stockpiles").get(stockpileId);
+        if (objectData && personData && stockpileData) {
 
             // convert from database to client format so controller can use it
             const objectDataClient = networkObjectDatabaseToClient(objectData);
@@ -302,28 +293,30 @@ const depositObject = async ({
             const updatedItem: INetworkObjectDatabase | null = updatedItemClient ? networkObjectClientToDatabase(updatedItemClient) : null;
             const newPersonData: Partial<IPersonDatabase> = personClientToDatabase({
                 ...personDataClient,
-                inventory: personController.getInventory()
+                inventory: personController.getInventory(),
+                lastUpdate: new Date().toISOString()
             });
             const newStockpileData: Partial<IStockpileDatabase> = stockpileClientToDatabase({
                 ...stockpileDataClient,
-                inventory: stockpileController.getInventory()
+                inventory: stockpileController.getInventory(),
+                lastUpdate: new Date().toISOString()
             });
             const stackableSlot: INetworkObjectDatabase | null = stackableSlotsClient[0] ? networkObjectClientToDatabase(stackableSlotsClient[0]) : null;
 
             // update both the person, stockpile and the object
             // update person's inventory
-            transaction.set(admin.firestore().collection("persons").doc(personId), newPersonData, {merge: true});
+            transaction.collection("persons").merge(personId, newPersonData);
             // update stockpile's inventory
-            transaction.set(admin.firestore().collection("stockpiles").doc(stockpileId), newStockpileData, {merge: true});
+            transaction.collection("stockpiles").merge(stockpileId, newStockpileData);
             // update or delete the picked up item. If there was a stackable slot, delete old item, else, update old item
             if (updatedItem) {
-                transaction.set(admin.firestore().collection("objects").doc(updatedItem.id), updatedItem, {merge: true});
+                transaction.collection("objects").merge(updatedItem.id, updatedItem);
             } else {
-                transaction.delete(admin.firestore().collection("objects").doc(objectId));
+                transaction.collection("objects").delete(objectId);
             }
             // update a stackable slot if there was a stackable slot update
             if (stackableSlot) {
-                transaction.set(admin.firestore().collection("objects").doc(stackableSlot.id), stackableSlot, {merge: true});
+                transaction.collection("objects").merge(stackableSlot.id, stackableSlot);
             }
         }
     });
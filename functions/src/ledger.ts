@@ -0,0 +1,100 @@
+import * as admin from "firebase-admin";
+import * as express from "express";
+import {ILedgerEntryDatabase} from "./types/database";
+import {EApiErrorCode, IApiLedgerEntry, IApiPersonsLedgerResponse} from "./types/api";
+import {ApiError} from "./errors";
+import {defaultLedgerPageSize, maxLedgerPageSize} from "./config";
+import {getStorage, IStorageWriter, IStoredDocument, where} from "./storage";
+
+/**
+ * The cash ledger. Every cash movement is recorded as an immutable ledger entry, written by the same transaction which
+ * changes the cash, so a person can look up why their cash changed.
+ */
+
+/**
+ * A cash movement before it is recorded.
+ */
+export type TLedgerPayment = Pick<ILedgerEntryDatabase, "from" | "to" | "amount" | "reason" | "referenceId">;
+
+/**
+ * Record a cash movement in the ledger.
+ * @param writer The transaction which moves the cash.
+ * @param payment The cash movement.
+ * @param createdAt When the cash moved.
+ */
+export const addLedgerEntry = (
+    writer: IStorageWriter,
+    payment: TLedgerPayment,
+    createdAt: admin.firestore.Timestamp = admin.firestore.Timestamp.now()
+) => {
+    writer.collection("ledgerEntries").add({
+        ...payment,
+        personIds: [payment.from, payment.to].filter((id): id is string => !!id),
+        createdAt
+    });
+};
+
+/**
+ * Convert a ledger entry into the client format.
+ * @param entry The stored ledger entry.
+ */
+const ledgerEntryDatabaseToClient = ({id, data}: IStoredDocument<ILedgerEntryDatabase>): IApiLedgerEntry => ({
+    id,
+    from: data.from,
+    to: data.to,
+    amount: data.amount,
+    reason: data.reason,
+    referenceId: data.referenceId,
+    createdAt: data.createdAt.toDate().toISOString()
+});
+
+/**
+ * Handle GET /persons/ledger. Page through the cash history of the current person, newest first. The optional "after"
+ * query parameter is the cursor of the previous page and the optional "limit" query parameter is the page size.
+ * @param req
+ * @param res
+ * @param next
+ */
+export const handleLedgerHistory = (req: express.Request, res: express.Response, next: express.NextFunction) => {
+    (async () => {
+        const {after, limit} = req.query as {after?: string, limit?: string};
+        const personId: string = res.locals.personId;
+
+        const pageSize = limit === undefined ? defaultLedgerPageSize : Number(limit);
+        if (!Number.isInteger(pageSize) || pageSize < 1 || pageSize > maxLedgerPageSize) {
+            throw new ApiError(400, EApiErrorCode.INVALID_REQUEST, `The limit must be between 1 and ${maxLedgerPageSize}`);
+        }
+
+        // the cursor is the last entry of the previous page
+        let startAfter: {value: admin.firestore.Timestamp, id: string} | undefined;
+        if (after) {
+            const cursor = await getStorage().collection("ledgerEntries").get(after);
+            if (!cursor || !cursor.personIds.includes(personId)) {
+                throw new ApiError(400, EApiErrorCode.INVALID_REQUEST, "Invalid ledger cursor");
+            }
+            startAfter = {
+                value: cursor.createdAt,
+                id: after
+            };
+        }
+
+        // read one extra entry to know if there is a next page
+        const entries = await getStorage().collection("ledgerEntries").query([
+            where("personIds", "array-contains", personId)
+        ], {
+            orderBy: {
+                field: "createdAt",
+                direction: "desc"
+            },
+            startAfter,
+            limit: pageSize + 1
+        });
+
+        const page = entries.slice(0, pageSize);
+        const response: IApiPersonsLedgerResponse = {
+            entries: page.map(ledgerEntryDatabaseToClient),
+            nextCursor: entries.length > pageSize ? page[page.length - 1].id : null
+        };
+        res.json(response);
+    })().catch((err) => next(err));
+};
@@ -0,0 +1,80 @@
+import {ELedgerReason} from "./types/api";
+import {ILoanDatabase, ILotDatabase, IPersonDatabase} from "./types/database";
+import {loanInterestRatePerDay, loanPaymentIntervalMilliseconds, loanRepossessionMissedPayments} from "./config";
+import {handleLoanBorrow, handleLoanRepay, performLoanTick} from "./loans";
+import {createMemoryStorage, getStorage, setStorage} from "./storage";
+import {callHandler, createTestLot, createTestPerson} from "./testUtils";
+
+/**
+ * Interest is owed for every day of a loan, however the loan is paid.
+ */
+
+/**
+ * The current time of the tests, Date.now() returns it.
+ */
+let now: number;
+
+const day = 24 * 60 * 60 * 1000;
+const getPerson = async (id: string) => await getStorage().collection("persons").get(id) as IPersonDatabase;
+const getLoan = async (id: string) => await getStorage().collection("loans").get(id) as ILoanDatabase;
+
+beforeEach(async () => {
+    now = Date.now();
+    jest.spyOn(Date, "now").mockImplementation(() => now);
+    setStorage(createMemoryStorage());
+    await getStorage().collection("persons").set("alice", createTestPerson("alice", {cash: 1000, creditLimit: 500}));
+    await callHandler(handleLoanBorrow, {personId: "alice", body: {personId: "alice", amount: 100}});
+});
+
+afterEach(() => {
+    jest.restoreAllMocks();
+});
+
+describe("handleLoanRepay", () => {
+    it("adds the interest since it was last added before the repayment", async () => {
+        const {interestAccruedAt} = await getLoan("alice");
+        now += 2 * day + 1000;
+
+        expect(await callHandler(handleLoanRepay, {personId: "alice", body: {personId: "alice", amount: 50}}))
+            .toEqual({statusCode: 200});
+        const balance = Math.round((100 * Math.pow(1 + loanInterestRatePerDay, 2) - 50) * 100) / 100;
+        const loan = await getLoan("alice");
+        expect(loan.balance).toBe(balance);
+        expect(loan.interestAccruedAt.toMillis()).toBe(interestAccruedAt.toMillis() + 2 * day);
+        expect(await getPerson("alice")).toMatchObject({cash: 1050, loanBalance: balance});
+    });
+
+    it("repays the balance with its interest", async () => {
+        now += day;
+        await callHandler(handleLoanRepay, {personId: "alice", body: {personId: "alice", amount: 1000}});
+
+        const balance = 100 * (1 + loanInterestRatePerDay);
+        expect(await getStorage().collection("loans").get("alice")).toBeNull();
+        expect(await getPerson("alice")).toMatchObject({cash: 1100 - balance, loanBalance: 0});
+    });
+});
+
+describe("performLoanTick", () => {
+    it("records the part of the loan paid by a repossessed lot in the ledger", async () => {
+        await getStorage().collection("persons").merge("alice", {cash: 0});
+        await getStorage().collection("lots").set("lot", createTestLot("lot", {owner: "alice"}));
+
+        for (let i = 0; i < loanRepossessionMissedPayments; i++) {
+            now += loanPaymentIntervalMilliseconds;
+            await performLoanTick();
+        }
+
+        // the residential lot of 100 by 100 pixels pays 10 of the loan
+        expect((await getStorage().collection("lots").get("lot") as ILotDatabase).owner).toBeNull();
+        expect(await getLoan("alice")).toMatchObject({balance: 90, missedPayments: 0});
+        expect(await getPerson("alice")).toMatchObject({cash: 0, loanBalance: 90});
+        const entries = await getStorage().collection("ledgerEntries").query([]);
+        expect(entries.map(({data}) => data)).toContainEqual(expect.objectContaining({
+            from: "alice",
+            to: null,
+            amount: 10,
+            reason: ELedgerReason.LOAN_REPOSSESSION,
+            referenceId: "lot"
+        }));
+    });
+});
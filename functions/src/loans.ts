@@ -0,0 +1,351 @@
+import * as admin from "firebase-admin";
+import * as express from "express";
+import {ILoanDatabase, IPersonDatabase} from "./types/database";
+import {
+    EApiErrorCode,
+    ELedgerReason,
+    IApiLoan,
+    IApiPersonsLoanBorrowPost,
+    IApiPersonsLoanRepayPost,
+    IApiPersonsLoanResponse
+} from "./types/api";
+import {ApiError} from "./errors";
+import {addCashPayment, applyCashChanges, createCashChanges, roundCash} from "./cash";
+import {
+    loanInterestRatePerDay,
+    loanMinimumPaymentRate,
+    loanMissedPaymentCreditPenalty,
+    loanPaymentIntervalMilliseconds,
+    loanRepossessionMissedPayments
+} from "./config";
+import {getLotCityPrice, repossessLotOfPerson} from "./lots";
+import {addLedgerEntry} from "./ledger";
+import {getStorage, IStorageTransaction} from "./storage";
+
+/**
+ * Loans of the city to persons. A person can borrow up to their credit limit, the balance of the loan uses up the
+ * credit limit until it is repaid. Interest is added once a day and a payment is collected from the cash of the person
+ * on a schedule. Each missed payment lowers the credit limit and after too many missed payments in a row a lot of the
+ * person is repossessed. The city price of the lot pays off part of the loan, the rest of the balance stays a debt.
+ */
+
+/**
+ * The time between two additions of interest to a loan.
+ */
+const loanInterestIntervalMilliseconds = 24 * 60 * 60 * 1000;
+
+/**
+ * The amount the next scheduled payment of a loan collects.
+ * @param loan The loan to pay.
+ */
+const getNextPaymentAmount = (loan: Pick<ILoanDatabase, "balance" | "paymentAmount">): number => {
+    const minimumPayment = roundCash(Math.max(1, loan.balance * loanMinimumPaymentRate));
+    return Math.min(loan.balance, Math.max(loan.paymentAmount, minimumPayment));
+};
+
+/**
+ * Add the interest of each day since interest was last added to a loan.
+ * @param loan The loan to add interest to.
+ * @param now The current time.
+ * @return The loan with the added interest and the number of days of interest.
+ */
+const accrueLoanInterest = (
+    loan: ILoanDatabase,
+    now: admin.firestore.Timestamp
+): {accruedLoan: ILoanDatabase, elapsedDays: number} => {
+    const elapsedDays = Math.floor((now.toMillis() - loan.interestAccruedAt.toMillis()) / loanInterestIntervalMilliseconds);
+    const accruedLoan: ILoanDatabase = {
+        ...loan,
+        balance: roundCash(loan.balance * Math.pow(1 + loanInterestRatePerDay, elapsedDays)),
+        interestAccruedAt: admin.firestore.Timestamp.fromMillis(
+            loan.interestAccruedAt.toMillis() + elapsedDays * loanInterestIntervalMilliseconds
+        )
+    };
+    return {accruedLoan, elapsedDays};
+};
+
+/**
+ * Convert a loan from the database into the API format.
+ * @param loan The loan to convert.
+ */
+const loanDatabaseToClient = (loan: ILoanDatabase): IApiLoan => ({
+    personId: loan.personId,
+    balance: loan.balance,
+    nextPaymentAmount: getNextPaymentAmount(loan),
+    nextPaymentAt: loan.nextPaymentAt.toDate().toISOString(),
+    missedPayments: loan.missedPayments,
+    createdAt: loan.createdAt.toDate().toISOString()
+});
+
+/**
+ * Get the loan of a person.
+ * @param personId The person to find the loan of.
+ */
+export const getLoanOfPerson = async (personId: string): Promise<IApiLoan | null> => {
+    const loan = await getStorage().collection("loans").get(personId);
+    return loan ? loanDatabaseToClient(loan) : null;
+};
+
+/**
+ * Read a person inside a transaction.
+ * @param transaction The transaction to read with.
+ * @param personId The person to read.
+ */
+const getPerson = async (transaction: IStorageTransaction, personId: string): Promise<IPersonDatabase> => {
+    const personData = await transaction.collection("persons").get(personId);
+    if (!personData) {
+        throw new ApiError(404, EApiErrorCode.NOT_FOUND, `Person ${personId} does not exist`);
+    }
+    return personData;
+};
+
+/**
+ * Pay part of a loan from the cash of the person. The loan is deleted once it is repaid.
+ * @param transaction The transaction paying the loan.
+ * @param personData The person paying, read by the transaction.
+ * @param loan The loan to pay, read by the transaction.
+ * @param amount The amount to pay, at most the balance.
+ * @param loanUpdate Other changes to the loan.
+ */
+const payLoan = (
+    transaction: IStorageTransaction,
+    personData: IPersonDatabase,
+    loan: ILoanDatabase,
+    amount: number,
+    loanUpdate: Partial<ILoanDatabase> = {}
+) => {
+    const balance = roundCash(loan.balance - amount);
+    const changes = createCashChanges();
+    addCashPayment(changes, {
+        from: loan.personId,
+        to: null,
+        amount,
+        reason: ELedgerReason.LOAN_REPAYMENT,
+        referenceId: loan.personId
+    });
+    applyCashChanges(transaction, new Map([[loan.personId, {...personData, loanBalance: balance}]]), changes);
+
+    const newPersonData: Partial<IPersonDatabase> = {
+        loanBalance: balance
+    };
+    transaction.collection("persons").merge(loan.personId, newPersonData);
+    if (balance <= 0) {
+        transaction.collection("loans").delete(loan.personId);
+    } else {
+        const newLoanData: Partial<ILoanDatabase> = {
+            ...loanUpdate,
+            balance
+        };
+        transaction.collection("loans").merge(loan.personId, newLoanData);
+    }
+};
+
+/**
+ * Handle POST /persons/loan/borrow. Borrow cash from the city, up to the credit limit of the person.
+ * @param req
+ * @param res
+ * @param next
+ */
+export const handleLoanBorrow = (req: express.Request, res: express.Response, next: express.NextFunction) => {
+    (async () => {
+        const {personId, amount, paymentAmount} = req.body as IApiPersonsLoanBorrowPost;
+        if (typeof amount !== "number" || !isFinite(amount) || amount <= 0 ||
+            (paymentAmount !== undefined && (typeof paymentAmount !== "number" || !isFinite(paymentAmount) || paymentAmount < 0))) {
+            throw new ApiError(400, EApiErrorCode.INVALID_REQUEST, "Require an amount above 0 and an optional paymentAmount of at least 0");
+        }
+        await getStorage().runTransaction(async (transaction) => {
+            const personData = await getPerson(transaction, personId);
+            const loan = await transaction.collection("loans").get(personId);
+            const balance = roundCash((loan ? loan.balance : 0) + amount);
+            if (balance > personData.creditLimit) {
+                throw new ApiError(402, EApiErrorCode.INSUFFICIENT_FUNDS, `Person ${personId} cannot borrow more than their credit limit`);
+            }
+
+            const changes = createCashChanges();
+            addCashPayment(changes, {
+                from: null,
+                to: personId,
+                amount,
+                reason: ELedgerReason.LOAN,
+                referenceId: personId
+            });
+            applyCashChanges(transaction, new Map([[personId, {...personData, loanBalance: balance}]]), changes);
+
+            const newPersonData: Partial<IPersonDatabase> = {
+                loanBalance: balance
+            };
+            transaction.collection("persons").merge(personId, newPersonData);
+            const now = admin.firestore.Timestamp.now();
+            if (loan) {
+                const newLoanData: Partial<ILoanDatabase> = {
+                    balance,
+                    paymentAmount: paymentAmount === undefined ? loan.paymentAmount : paymentAmount
+                };
+                transaction.collection("loans").merge(personId, newLoanData);
+            } else {
+                const newLoan: ILoanDatabase = {
+                    personId,
+                    balance,
+                    paymentAmount: paymentAmount || 0,
+                    nextPaymentAt: admin.firestore.Timestamp.fromMillis(now.toMillis() + loanPaymentIntervalMilliseconds),
+                    missedPayments: 0,
+                    interestAccruedAt: now,
+                    createdAt: now
+                };
+                transaction.collection("loans").set(personId, newLoan);
+            }
+        });
+        res.sendStatus(200);
+    })().catch((err) => next(err));
+};
+
+/**
+ * Handle POST /persons/loan/repay. Pay back part of the loan from the cash of the person. Credit cannot be used to
+ * repay a loan.
+ * @param req
+ * @param res
+ * @param next
+ */
+export const handleLoanRepay = (req: express.Request, res: express.Response, next: express.NextFunction) => {
+    (async () => {
+        const {personId, amount} = req.body as IApiPersonsLoanRepayPost;
+        if (typeof amount !== "number" || !isFinite(amount) || amount <= 0) {
+            throw new ApiError(400, EApiErrorCode.INVALID_REQUEST, "Require an amount above 0");
+        }
+        await getStorage().runTransaction(async (transaction) => {
+            const personData = await getPerson(transaction, personId);
+            const loan = await transaction.collection("loans").get(personId);
+            if (!loan) {
+                throw new ApiError(404, EApiErrorCode.NOT_FOUND, `Person ${personId} has no loan`);
+            }
+            // the interest since the last tick is owed before the repayment
+            const {accruedLoan} = accrueLoanInterest(loan, admin.firestore.Timestamp.now());
+            const payment = Math.min(amount, accruedLoan.balance);
+            if (personData.cash - (personData.escrow || 0) < payment) {
+                throw new ApiError(402, EApiErrorCode.INSUFFICIENT_FUNDS, `Person ${personId} does not have enough cash`);
+            }
+            payLoan(transaction, personData, accruedLoan, payment, {
+                interestAccruedAt: accruedLoan.interestAccruedAt,
+                missedPayments: 0
+            });
+        });
+        res.sendStatus(200);
+    })().catch((err) => next(err));
+};
+
+/**
+ * Handle GET /persons/loan. Show the loan and credit of the current person.
+ * @param req
+ * @param res
+ * @param next
+ */
+export const handleLoanGet = (req: express.Request, res: express.Response, next: express.NextFunction) => {
+    (async () => {
+        const personId: string = res.locals.personId;
+        const personData = await getStorage().collection("persons").get(personId);
+        if (!personData) {
+            throw new ApiError(404, EApiErrorCode.NOT_FOUND, `Person ${personId} does not exist`);
+        }
+        const response: IApiPersonsLoanResponse = {
+            loan: await getLoanOfPerson(personId),
+            creditLimit: personData.creditLimit,
+            availableCredit: Math.max(0, personData.creditLimit - (personData.loanBalance || 0))
+        };
+        res.json(response);
+    })().catch((err) => next(err));
+};
+
+/**
+ * Add interest to a loan and collect its scheduled payment when it is due. A payment which the cash of the person
+ * cannot cover is missed.
+ * @param personId The person of the loan.
+ */
+const performLoanTickOnLoan = async (personId: string) => {
+    await getStorage().runTransaction(async (transaction) => {
+        const loan = await transaction.collection("loans").get(personId);
+        const personData = await transaction.collection("persons").get(personId);
+        if (!loan || !personData) {
+            return;
+        }
+        const now = admin.firestore.Timestamp.now();
+
+        // add the interest of each day since interest was last added
+        const {accruedLoan, elapsedDays} = accrueLoanInterest(loan, now);
+        const {interestAccruedAt} = accruedLoan;
+        if (loan.nextPaymentAt.toMillis() > now.toMillis()) {
+            if (elapsedDays > 0) {
+                const newLoanData: Partial<ILoanDatabase> = {
+                    balance: accruedLoan.balance,
+                    interestAccruedAt
+                };
+                const accruedPersonData: Partial<IPersonDatabase> = {
+                    loanBalance: accruedLoan.balance,
+                    lastUpdate: now
+                };
+                transaction.collection("loans").merge(personId, newLoanData);
+                transaction.collection("persons").merge(personId, accruedPersonData);
+            }
+            return;
+        }
+
+        // collect the scheduled payment
+        const payment = getNextPaymentAmount(accruedLoan);
+        const nextPaymentAt = admin.firestore.Timestamp.fromMillis(now.toMillis() + loanPaymentIntervalMilliseconds);
+        if (personData.cash - (personData.escrow || 0) >= payment) {
+            payLoan(transaction, personData, accruedLoan, payment, {
+                interestAccruedAt,
+                nextPaymentAt,
+                missedPayments: 0
+            });
+            return;
+        }
+
+        // missed payment, lower the credit limit and repossess a lot after too many missed payments
+        const missedPayments = loan.missedPayments + 1;
+        const repossessedLot = missedPayments >= loanRepossessionMissedPayments ?
+            await repossessLotOfPerson(transaction, personId) :
+            null;
+        // the city price of the repossessed lot pays off the loan, up to the balance
+        const repossessionPayment = repossessedLot ?
+            Math.min(accruedLoan.balance, getLotCityPrice(repossessedLot.data)) :
+            0;
+        const balance = roundCash(accruedLoan.balance - repossessionPayment);
+        if (repossessedLot && repossessionPayment > 0) {
+            addLedgerEntry(transaction, {
+                from: personId,
+                to: null,
+                amount: repossessionPayment,
+                reason: ELedgerReason.LOAN_REPOSSESSION,
+                referenceId: repossessedLot.id
+            }, now);
+        }
+        const newPersonData: Partial<IPersonDatabase> = {
+            creditLimit: roundCash(personData.creditLimit * (1 - loanMissedPaymentCreditPenalty)),
+            loanBalance: balance,
+            lastUpdate: now
+        };
+        transaction.collection("persons").merge(personId, newPersonData);
+        if (balance <= 0) {
+            transaction.collection("loans").delete(personId);
+        } else {
+            const newLoanData: Partial<ILoanDatabase> = {
+                balance,
+                interestAccruedAt,
+                nextPaymentAt,
+                // the count of missed payments starts again after a repossession
+                missedPayments: repossessedLot ? 0 : missedPayments
+            };
+            transaction.collection("loans").merge(personId, newLoanData);
+        }
+    });
+};
+
+/**
+ * Add interest to every loan and collect the scheduled payments which are due.
+ */
+export const performLoanTick = async () => {
+    const loans = await getStorage().collection("loans").query([]);
+    for (const {id} of loans) {
+        await performLoanTickOnLoan(id);
+    }
+};
@@ -0,0 +1,359 @@
+import * as seedrandom from "seedrandom";
+import {
+    EFloorPattern,
+    ELotZone,
+    ENetworkObjectType,
+    EOwnerType,
+    EWallDirection,
+    EWallPattern,
+    IFloor,
+    IHouse,
+    ILot,
+    INetworkObject,
+    IObject,
+    IStockpile,
+    IStockpileTile,
+    IWall
+} from "persons-game-common/lib/types/GameTypes";
+import {StockpileController} from "persons-game-common/lib/stockpile";
+import {ILotContents, ILotFiller, ILotFillerLotAndObjects} from "./types/database";
+import {IApiVendingMachine} from "./types/api";
+import {cityVendingMachineInventory, defaultObjectHealthObject} from "./config";
+
+/**
+ * Fill the lots of a generated city. A lot is made of 500 by 300 pixel tiles and each tile gets one building with the
+ * zone of the lot. Residential tiles get a furnished house, commercial tiles get a shop with a counter and a vending
+ * machine, industrial tiles get a workshop with a stockpile and a work area. Every building is a house with an NPC who
+ * lives or works there. The random numbers come from the lot id, so a lot is filled the same way every time.
+ */
+
+/**
+ * The size of a tile of a lot.
+ */
+const lotTileSize = {width: 500, height: 300};
+/**
+ * The most tiles a lot can grow to in each direction when generateLots merges lots.
+ */
+const maxLotTiles = 5;
+/**
+ * The size of a floor tile.
+ */
+const floorSize = 200;
+/**
+ * The space between the edge of a tile and its building.
+ */
+const buildingMargin = 50;
+/**
+ * The furniture of a house.
+ */
+const furnitureTypes = [ENetworkObjectType.CHAIR, ENetworkObjectType.TABLE, ENetworkObjectType.BOX];
+/**
+ * The tools and materials lying around a work area.
+ */
+const workAreaTypes = [
+    ENetworkObjectType.AXE,
+    ENetworkObjectType.HOE,
+    ENetworkObjectType.WOOD,
+    ENetworkObjectType.STONE,
+    ENetworkObjectType.STICK
+];
+/**
+ * The empty contents of a lot.
+ */
+export const createLotContents = (): ILotContents => ({
+    objects: [],
+    houses: [],
+    floors: [],
+    walls: [],
+    stockpiles: [],
+    stockpileTiles: [],
+    vendingMachines: []
+});
+
+/**
+ * Create an object lying on the ground.
+ * @param id The id of the object.
+ * @param objectType The type of object.
+ * @param location The location of the object.
+ */
+const createObject = (id: string, objectType: ENetworkObjectType, location: IObject): INetworkObject => ({
+    id,
+    objectType,
+    x: Math.round(location.x),
+    y: Math.round(location.y),
+    lastUpdate: new Date().toISOString(),
+    health: defaultObjectHealthObject,
+    amount: 1,
+    exist: true,
+    state: [],
+    grabbedByPersonId: null,
+    grabbedByNpcId: null,
+    insideStockpile: null,
+    isInInventory: false
+});
+
+/**
+ * Pick a random location inside a floor tile, away from its walls.
+ * @param rng The random numbers of the lot.
+ * @param floor The floor tile to place something on.
+ */
+const pickLocationOnFloor = (rng: seedrandom.prng, floor: IObject): IObject => ({
+    x: floor.x + 40 + rng() * (floorSize - 80),
+    y: floor.y + 40 + rng() * (floorSize - 80)
+});
+
+/**
+ * Build a house of floor tiles with walls around it and a door on the south side. The walls and floors match the ones
+ * built by the construction controller.
+ * @param contents The contents of the lot to add the house to.
+ * @param rng The random numbers of the lot.
+ * @param houseId The id of the house.
+ * @param location The top left corner of the house.
+ * @param columns The number of floor tiles across the house.
+ * @param rows The number of floor tiles down the house.
+ * @return The floors of the house.
+ */
+const buildHouse = (
+    contents: ILotContents,
+    rng: seedrandom.prng,
+    houseId: string,
+    location: IObject,
+    columns: number,
+    rows: number
+): IFloor[] => {
+    const npcId = `${houseId}-npc`;
+    const owner = {
+        ownerType: EOwnerType.NPC,
+        ownerId: npcId
+    };
+    const lastUpdate = new Date().toISOString();
+    const health = defaultObjectHealthObject;
+    const house: IHouse = {
+        id: houseId,
+        ...owner,
+        x: location.x,
+        y: location.y,
+        objectType: ENetworkObjectType.POND,
+        health,
+        lastUpdate,
+        npcId
+    };
+    const floors = new Array(columns * rows).fill(0).map((v, i): IFloor => {
+        const x = location.x + (i % columns) * floorSize;
+        const y = location.y + Math.floor(i / columns) * floorSize;
+        return {
+            id: `${houseId}-floor(${x},${y})`,
+            ...owner,
+            houseId,
+            x,
+            y,
+            floorPattern: EFloorPattern.DIRT,
+            objectType: ENetworkObjectType.POND,
+            lastUpdate,
+            health
+        };
+    });
+    const createWall = (l: IObject, direction: EWallDirection): IWall => ({
+        id: `${houseId}-wall-${direction}(${l.x},${l.y})`,
+        ...owner,
+        x: l.x,
+        y: l.y,
+        wallPattern: EWallPattern.WATTLE,
+        direction,
+        objectType: ENetworkObjectType.POND,
+        lastUpdate,
+        health
+    });
+
+    // walls on the outer edges of the floors, except for the door
+    const doorColumn = Math.floor(rng() * columns);
+    const walls = floors.reduce((arr: IWall[], floor, i): IWall[] => {
+        const column = i % columns;
+        const row = Math.floor(i / columns);
+        return [
+            ...arr,
+            ...(column === 0 ? [createWall({x: floor.x, y: floor.y}, EWallDirection.VERTICAL)] : []),
+            ...(column === columns - 1 ? [createWall({x: floor.x + floorSize, y: floor.y}, EWallDirection.VERTICAL)] : []),
+            ...(row === 0 ? [createWall({x: floor.x, y: floor.y}, EWallDirection.HORIZONTAL)] : []),
+            ...(row === rows - 1 && column !== doorColumn ?
+                [createWall({x: floor.x, y: floor.y + floorSize}, EWallDirection.HORIZONTAL)] :
+                [])
+        ];
+    }, []);
+
+    contents.houses.push(house);
+    contents.floors.push(...floors);
+    contents.walls.push(...walls);
+    return floors;
+};
+
+/**
+ * Fill a residential tile with a house and its furniture.
+ * @param contents The contents of the lot.
+ * @param rng The random numbers of the lot.
+ * @param tileId The id prefix of the tile.
+ * @param tile The top left corner of the tile.
+ */
+const fillResidentialTile = (contents: ILotContents, rng: seedrandom.prng, tileId: string, tile: IObject) => {
+    const floors = buildHouse(contents, rng, `${tileId}-house`, {
+        x: tile.x + buildingMargin,
+        y: tile.y + buildingMargin
+    }, 2, 1);
+
+    // one to four pieces of furniture spread across the floors
+    const furnitureCount = 1 + Math.floor(rng() * 4);
+    for (let i = 0; i < furnitureCount; i++) {
+        const objectType = furnitureTypes[Math.floor(rng() * furnitureTypes.length)];
+        const floor = floors[Math.floor(rng() * floors.length)];
+        contents.objects.push(createObject(`${tileId}-furniture-${i}`, objectType, pickLocationOnFloor(rng, floor)));
+    }
+};
+
+/**
+ * Fill a commercial tile with a shop. The shop has a counter of tables and a vending machine of the city outside.
+ * @param contents The contents of the lot.
+ * @param rng The random numbers of the lot.
+ * @param tileId The id prefix of the tile.
+ * @param tile The top left corner of the tile.
+ */
+const fillCommercialTile = (contents: ILotContents, rng: seedrandom.prng, tileId: string, tile: IObject) => {
+    const floors = buildHouse(contents, rng, `${tileId}-shop`, {
+        x: tile.x + buildingMargin,
+        y: tile.y + buildingMargin
+    }, 2, 1);
+
+    // a counter across the middle of the shop
+    const counterY = floors[0].y + floorSize / 2;
+    for (let i = 0; i < 3; i++) {
+        const x = floors[0].x + floorSize / 2 + i * floorSize / 2;
+        contents.objects.push(createObject(`${tileId}-counter-${i}`, ENetworkObjectType.TABLE, {x, y: counterY}));
+    }
+
+    // a vending machine between the shop and the street
+    const vendingMachine: IApiVendingMachine = {
+        id: `${tileId}-vending-machine`,
+        x: Math.round(tile.x + buildingMargin + rng() * floorSize * 2),
+        y: tile.y + lotTileSize.height - buildingMargin / 2,
+        objectType: ENetworkObjectType.VENDING_MACHINE,
+        lastUpdate: new Date().toISOString(),
+        health: defaultObjectHealthObject,
+        ownerId: null,
+        inventory: cityVendingMachineInventory.map(item => ({...item})),
+        revenue: 0
+    };
+    contents.vendingMachines.push(vendingMachine);
+};
+
+/**
+ * Fill an industrial tile with a workshop, a stockpile owned by the worker of the workshop and a work area of tools and
+ * materials.
+ * @param contents The contents of the lot.
+ * @param rng The random numbers of the lot.
+ * @param tileId The id prefix of the tile.
+ * @param tile The top left corner of the tile.
+ */
+const fillIndustrialTile = (contents: ILotContents, rng: seedrandom.prng, tileId: string, tile: IObject) => {
+    const [workshopFloor] = buildHouse(contents, rng, `${tileId}-workshop`, {
+        x: tile.x + buildingMargin,
+        y: tile.y + buildingMargin
+    }, 1, 1);
+    contents.objects.push(createObject(`${tileId}-workbench`, ENetworkObjectType.TABLE, pickLocationOnFloor(rng, workshopFloor)));
+
+    // the stockpile next to the workshop
+    const stockpileId = `${tileId}-stockpile`;
+    const owner = {
+        ownerType: EOwnerType.NPC,
+        ownerId: `${tileId}-workshop-npc`
+    };
+    const stockpileLocation: IObject = {
+        x: workshopFloor.x + floorSize,
+        y: workshopFloor.y
+    };
+    const stockpile: IStockpile = {
+        id: stockpileId,
+        ...owner,
+        ...stockpileLocation,
+        objectType: ENetworkObjectType.STOCKPILE,
+        health: defaultObjectHealthObject,
+        lastUpdate: new Date().toISOString(),
+        inventory: {
+            rows: StockpileController.NUMBER_OF_ROWS_PER_STOCKPILE_TILE,
+            columns: StockpileController.NUMBER_OF_COLUMNS_PER_STOCKPILE_TILE,
+            slots: []
+        },
+        craftingSeed: stockpileId,
+        craftingState: true,
+        inventoryState: []
+    };
+    const stockpileTile: IStockpileTile = {
+        id: `${stockpileId}-tile(${stockpileLocation.x},${stockpileLocation.y})`,
+        ...owner,
+        ...stockpileLocation,
+        stockpileId,
+        objectType: ENetworkObjectType.STOCKPILE,
+        lastUpdate: new Date().toISOString(),
+        health: defaultObjectHealthObject,
+        stockpileIndex: 0
+    };
+    contents.stockpiles.push(stockpile);
+    contents.stockpileTiles.push(stockpileTile);
+
+    // tools and materials in front of the workshop and the stockpile
+    const workAreaCount = 2 + Math.floor(rng() * 3);
+    for (let i = 0; i < workAreaCount; i++) {
+        const objectType = workAreaTypes[Math.floor(rng() * workAreaTypes.length)];
+        contents.objects.push(createObject(`${tileId}-work-area-${i}`, objectType, {
+            x: tile.x + buildingMargin + rng() * floorSize * 2,
+            y: tile.y + lotTileSize.height - buildingMargin / 2
+        }));
+    }
+};
+
+/**
+ * The way each zone fills a tile.
+ */
+const tileFillers: {[zone in ELotZone]: typeof fillResidentialTile} = {
+    [ELotZone.RESIDENTIAL]: fillResidentialTile,
+    [ELotZone.COMMERCIAL]: fillCommercialTile,
+    [ELotZone.INDUSTRIAL]: fillIndustrialTile
+};
+
+/**
+ * Create the lot filler of a zone and lot size.
+ * @param zone The zone of the lots.
+ * @param columns The number of tiles across the lots.
+ * @param rows The number of tiles down the lots.
+ */
+const createLotFiller = (zone: ELotZone, columns: number, rows: number): ILotFiller => ({
+    width: columns * lotTileSize.width,
+    height: rows * lotTileSize.height,
+    zone,
+    fillLot(lot: ILot): ILotFillerLotAndObjects {
+        const rng = seedrandom.alea(`lotFiller(${lot.id})`);
+        const contents = createLotContents();
+        for (let row = 0; row < rows; row++) {
+            for (let column = 0; column < columns; column++) {
+                tileFillers[zone](contents, rng, `${lot.id}-tile(${column},${row})`, {
+                    x: lot.x + column * lotTileSize.width,
+                    y: lot.y + row * lotTileSize.height
+                });
+            }
+        }
+        return {
+            lot,
+            ...contents
+        };
+    }
+});
+
+/**
+ * A lot filler for every zone and every lot size generateLots can make.
+ */
+export const lotFillers: ILotFiller[] = Object.values(ELotZone).reduce((arr: ILotFiller[], zone): ILotFiller[] => {
+    for (let columns = 1; columns <= maxLotTiles; columns++) {
+        for (let rows = 1; rows <= maxLotTiles; rows++) {
+            arr.push(createLotFiller(zone, columns, rows));
+        }
+    }
+    return arr;
+}, []);
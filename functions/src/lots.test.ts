@@ -0,0 +1,411 @@
+import {EApiErrorCode, ELedgerReason} from "./types/api";
+import {ILotDatabase, IPersonDatabase} from "./types/database";
+import {createMemoryStorage, getStorage, setStorage, where} from "./storage";
+import {callHandler, createTestLot, createTestPerson} from "./testUtils";
+import {
+    closeAllLotTrades,
+    handleLotAuction,
+    handleLotAuctionBid,
+    handleLotBuy,
+    handleLotBuyAccept,
+    handleLotBuyCancel,
+    handleLotBuyReject,
+    handleLotSell,
+    handleLotSellAccept,
+    handleLotSellCancel,
+    purgeExpiredLotOffers,
+    settleLotAuctions
+} from "./lots";
+
+/**
+ * Lot trades move cash between persons. Every path which closes an offer has to give the escrow back exactly once.
+ */
+
+/**
+ * The current time of the tests, Date.now() returns it.
+ */
+let now: number;
+
+const getPerson = async (id: string) => await getStorage().collection("persons").get(id) as IPersonDatabase;
+const getLot = async (id: string) => await getStorage().collection("lots").get(id) as ILotDatabase;
+const getBuyOffers = async () => await getStorage().collection("buyOffers").query([]);
+
+beforeEach(async () => {
+    now = Date.now();
+    jest.spyOn(Date, "now").mockImplementation(() => now);
+    setStorage(createMemoryStorage());
+    await getStorage().collection("persons").set("owner", createTestPerson("owner", {cash: 100}));
+    await getStorage().collection("persons").set("alice", createTestPerson("alice", {cash: 500, creditLimit: 100}));
+    await getStorage().collection("persons").set("bob", createTestPerson("bob", {cash: 300}));
+    await getStorage().collection("lots").set("city", createTestLot("city"));
+    await getStorage().collection("lots").set("owned", createTestLot("owned", {owner: "owner"}));
+});
+
+afterEach(() => {
+    jest.restoreAllMocks();
+});
+
+describe("buying a lot from the city", () => {
+    it("sells the lot for at least the city price", async () => {
+        const response = await callHandler(handleLotBuy, {personId: "alice", body: {lotId: "city", price: 9}});
+        expect(response).toMatchObject({statusCode: 400, body: {code: EApiErrorCode.INVALID_REQUEST}});
+
+        expect(await callHandler(handleLotBuy, {personId: "alice", body: {lotId: "city", price: 10}}))
+            .toEqual({statusCode: 200});
+        expect((await getLot("city")).owner).toBe("alice");
+        expect((await getPerson("alice")).cash).toBe(490);
+        const entries = await getStorage().collection("ledgerEntries").query([]);
+        expect(entries.map(({data}) => data)).toEqual([expect.objectContaining({
+            from: "alice",
+            to: null,
+            amount: 10,
+            reason: ELedgerReason.LOT_TRADE,
+            referenceId: "city"
+        })]);
+    });
+
+    it("rejects a buyer without enough cash and credit", async () => {
+        const response = await callHandler(handleLotBuy, {personId: "alice", body: {lotId: "city", price: 601}});
+        expect(response).toMatchObject({statusCode: 402, body: {code: EApiErrorCode.INSUFFICIENT_FUNDS}});
+        expect((await getLot("city")).owner).toBeNull();
+        expect((await getPerson("alice")).cash).toBe(500);
+    });
+
+    it("rejects a lot which does not exist", async () => {
+        const response = await callHandler(handleLotBuy, {personId: "alice", body: {lotId: "missing", price: 10}});
+        expect(response).toMatchObject({statusCode: 404, body: {code: EApiErrorCode.NOT_FOUND}});
+    });
+});
+
+describe("buy offers", () => {
+    it("holds the price in escrow and replaces the previous offer", async () => {
+        await callHandler(handleLotBuy, {personId: "alice", body: {lotId: "owned", price: 200}});
+        expect((await getPerson("alice")).escrow).toBe(200);
+
+        await callHandler(handleLotBuy, {personId: "alice", body: {lotId: "owned", price: 300}});
+        const alice = await getPerson("alice");
+        expect(alice.escrow).toBe(300);
+        expect(alice.cash).toBe(500);
+        expect((await getBuyOffers()).map(({data}) => data.price)).toEqual([300]);
+    });
+
+    it("rejects an offer over the cash and credit which is not in escrow", async () => {
+        await callHandler(handleLotBuy, {personId: "alice", body: {lotId: "owned", price: 400}});
+        await getStorage().collection("lots").set("other", createTestLot("other", {owner: "owner"}));
+
+        const response = await callHandler(handleLotBuy, {personId: "alice", body: {lotId: "other", price: 201}});
+        expect(response).toMatchObject({statusCode: 402, body: {code: EApiErrorCode.INSUFFICIENT_FUNDS}});
+        expect((await getPerson("alice")).escrow).toBe(400);
+        expect(await getBuyOffers()).toHaveLength(1);
+    });
+
+    it("pays the owner from the escrow and releases the other offers when accepted", async () => {
+        await callHandler(handleLotBuy, {personId: "alice", body: {lotId: "owned", price: 200}});
+        await callHandler(handleLotBuy, {personId: "bob", body: {lotId: "owned", price: 150}});
+
+        const response = await callHandler(handleLotBuyAccept, {
+            personId: "owner",
+            body: {lotId: "owned", personId: "alice", price: 200}
+        });
+        expect(response).toEqual({statusCode: 200});
+        expect((await getLot("owned")).owner).toBe("alice");
+        expect(await getPerson("owner")).toMatchObject({cash: 300});
+        expect(await getPerson("alice")).toMatchObject({cash: 300, escrow: 0});
+        expect(await getPerson("bob")).toMatchObject({cash: 300, escrow: 0});
+        expect(await getBuyOffers()).toHaveLength(0);
+    });
+
+    it("only accepts an offer once", async () => {
+        await callHandler(handleLotBuy, {personId: "alice", body: {lotId: "owned", price: 200}});
+        const accept = {personId: "owner", body: {lotId: "owned", personId: "alice", price: 200}};
+
+        expect(await callHandler(handleLotBuyAccept, accept)).toEqual({statusCode: 200});
+        expect(await callHandler(handleLotBuyAccept, accept)).toMatchObject({statusCode: 403});
+        expect(await getPerson("owner")).toMatchObject({cash: 300});
+        expect(await getPerson("alice")).toMatchObject({cash: 300, escrow: 0});
+    });
+
+    it("only accepts one of two accepts running at the same time", async () => {
+        await callHandler(handleLotBuy, {personId: "alice", body: {lotId: "owned", price: 200}});
+        const accept = {personId: "owner", body: {lotId: "owned", personId: "alice", price: 200}};
+
+        const responses = await Promise.all([callHandler(handleLotBuyAccept, accept), callHandler(handleLotBuyAccept, accept)]);
+        expect(responses.map(({statusCode}) => statusCode).sort()).toEqual([200, 403]);
+        expect(await getPerson("owner")).toMatchObject({cash: 300});
+        expect(await getPerson("alice")).toMatchObject({cash: 300, escrow: 0});
+    });
+
+    it("does not accept an offer which changed its price", async () => {
+        await callHandler(handleLotBuy, {personId: "alice", body: {lotId: "owned", price: 200}});
+        const response = await callHandler(handleLotBuyAccept, {
+            personId: "owner",
+            body: {lotId: "owned", personId: "alice", price: 100}
+        });
+        expect(response).toMatchObject({statusCode: 409, body: {code: EApiErrorCode.CONFLICT}});
+        expect((await getLot("owned")).owner).toBe("owner");
+    });
+
+    it("releases the escrow when the buyer cancels", async () => {
+        await callHandler(handleLotBuy, {personId: "alice", body: {lotId: "owned", price: 200}});
+        const [offer] = await getBuyOffers();
+
+        expect(await callHandler(handleLotBuyCancel, {personId: "bob", body: {offerId: offer.id}}))
+            .toMatchObject({statusCode: 403});
+        expect(await callHandler(handleLotBuyCancel, {personId: "alice", body: {offerId: offer.id}}))
+            .toEqual({statusCode: 200});
+        expect(await getPerson("alice")).toMatchObject({cash: 500, escrow: 0});
+        expect(await getBuyOffers()).toHaveLength(0);
+
+        // the escrow is only released once
+        expect(await callHandler(handleLotBuyCancel, {personId: "alice", body: {offerId: offer.id}}))
+            .toMatchObject({statusCode: 404});
+        expect((await getPerson("alice")).escrow).toBe(0);
+    });
+
+    it("releases the escrow when the owner rejects", async () => {
+        await callHandler(handleLotBuy, {personId: "alice", body: {lotId: "owned", price: 200}});
+        const [offer] = await getBuyOffers();
+
+        expect(await callHandler(handleLotBuyReject, {personId: "alice", body: {offerId: offer.id}}))
+            .toMatchObject({statusCode: 403});
+        expect(await callHandler(handleLotBuyReject, {personId: "owner", body: {offerId: offer.id}}))
+            .toEqual({statusCode: 200});
+        expect(await getPerson("alice")).toMatchObject({cash: 500, escrow: 0});
+        expect((await getLot("owned")).owner).toBe("owner");
+    });
+});
+
+describe("sell offers", () => {
+    it("sells the lot to the first buyer who accepts", async () => {
+        expect(await callHandler(handleLotSell, {personId: "alice", body: {lotId: "owned", price: 250}}))
+            .toMatchObject({statusCode: 403});
+        expect(await callHandler(handleLotSell, {personId: "owner", body: {lotId: "owned", price: 250}}))
+            .toEqual({statusCode: 200});
+
+        const accept = {body: {lotId: "owned", personId: "owner", price: 250}};
+        const responses = await Promise.all([
+            callHandler(handleLotSellAccept, {...accept, personId: "alice"}),
+            callHandler(handleLotSellAccept, {...accept, personId: "bob"})
+        ]);
+        expect(responses.map(({statusCode}) => statusCode).sort()).toEqual([200, 404]);
+
+        const newOwner = (await getLot("owned")).owner as string;
+        expect(["alice", "bob"]).toContain(newOwner);
+        expect(await getPerson("owner")).toMatchObject({cash: 350});
+        expect((await getPerson("alice")).cash + (await getPerson("bob")).cash).toBe(550);
+        expect(await getStorage().collection("sellOffers").query([])).toHaveLength(0);
+    });
+
+    it("rejects a buyer without enough cash and credit", async () => {
+        await callHandler(handleLotSell, {personId: "owner", body: {lotId: "owned", price: 301}});
+        const response = await callHandler(handleLotSellAccept, {
+            personId: "bob",
+            body: {lotId: "owned", personId: "owner", price: 301}
+        });
+        expect(response).toMatchObject({statusCode: 402, body: {code: EApiErrorCode.INSUFFICIENT_FUNDS}});
+        expect((await getLot("owned")).owner).toBe("owner");
+        expect(await getPerson("bob")).toMatchObject({cash: 300});
+    });
+
+    it("takes the lot off the market when the seller cancels", async () => {
+        await callHandler(handleLotSell, {personId: "owner", body: {lotId: "owned", price: 250}});
+        const [offer] = await getStorage().collection("sellOffers").query([]);
+        expect(await callHandler(handleLotSellCancel, {personId: "owner", body: {offerId: offer.id}}))
+            .toEqual({statusCode: 200});
+
+        const response = await callHandler(handleLotSellAccept, {
+            personId: "bob",
+            body: {lotId: "owned", personId: "owner", price: 250}
+        });
+        expect(response).toMatchObject({statusCode: 404});
+    });
+});
+
+describe("expired offers", () => {
+    it("cannot be accepted and release their escrow when purged", async () => {
+        const expiresAt = new Date(now + 60 * 1000).toISOString();
+        await callHandler(handleLotBuy, {personId: "alice", body: {lotId: "owned", price: 200, expiresAt}});
+        await callHandler(handleLotBuy, {personId: "bob", body: {lotId: "owned", price: 100}});
+        await callHandler(handleLotSell, {personId: "owner", body: {lotId: "owned", price: 250, expiresAt}});
+        now += 2 * 60 * 1000;
+
+        expect(await callHandler(handleLotBuyAccept, {
+            personId: "owner",
+            body: {lotId: "owned", personId: "alice", price: 200}
+        })).toMatchObject({statusCode: 409, body: {code: EApiErrorCode.CONFLICT}});
+        expect(await callHandler(handleLotSellAccept, {
+            personId: "bob",
+            body: {lotId: "owned", personId: "owner", price: 250}
+        })).toMatchObject({statusCode: 409, body: {code: EApiErrorCode.CONFLICT}});
+
+        await purgeExpiredLotOffers();
+        expect(await getPerson("alice")).toMatchObject({cash: 500, escrow: 0});
+        // the offer which did not expire keeps its escrow
+        expect(await getPerson("bob")).toMatchObject({escrow: 100});
+        expect((await getBuyOffers()).map(({data}) => data.personId)).toEqual(["bob"]);
+        expect(await getStorage().collection("sellOffers").query([where("lotId", "==", "owned")])).toHaveLength(0);
+
+        // purging again does not release the escrow twice
+        await purgeExpiredLotOffers();
+        expect(await getPerson("alice")).toMatchObject({escrow: 0});
+        expect(await getPerson("bob")).toMatchObject({escrow: 100});
+    });
+
+    it("rejects an expiry in the past", async () => {
+        const expiresAt = new Date(now - 1000).toISOString();
+        const response = await callHandler(handleLotBuy, {personId: "alice", body: {lotId: "owned", price: 200, expiresAt}});
+        expect(response).toMatchObject({statusCode: 400});
+        expect((await getPerson("alice")).escrow).toBeUndefined();
+    });
+});
+
+describe("auctions", () => {
+    /**
+     * Put the owned lot up for auction for an hour.
+     * @param reservePrice The lowest bid which can win.
+     * @return The id of the auction.
+     */
+    const startAuction = async (reservePrice: number = 50): Promise<string> => {
+        const endTime = new Date(now + 60 * 60 * 1000).toISOString();
+        const response = await callHandler(handleLotAuction, {
+            personId: "owner",
+            body: {lotId: "owned", reservePrice, endTime}
+        });
+        expect(response).toEqual({statusCode: 200});
+        const [auction] = await getStorage().collection("lotAuctions").query([]);
+        return auction.id;
+    };
+    const bid = (personId: string, auctionId: string, amount: number) => {
+        return callHandler(handleLotAuctionBid, {personId, body: {auctionId, amount}});
+    };
+
+    it("replaces the sell offer of the owner", async () => {
+        await callHandler(handleLotSell, {personId: "owner", body: {lotId: "owned", price: 250}});
+        await startAuction();
+        expect(await getStorage().collection("sellOffers").query([])).toHaveLength(0);
+        expect(await callHandler(handleLotSell, {personId: "owner", body: {lotId: "owned", price: 250}}))
+            .toMatchObject({statusCode: 409});
+    });
+
+    it("holds the highest bid in escrow and refunds the outbid person", async () => {
+        const auctionId = await startAuction();
+        expect(await bid("alice", auctionId, 49)).toMatchObject({statusCode: 400});
+        expect(await bid("owner", auctionId, 60)).toMatchObject({statusCode: 400});
+
+        expect(await bid("alice", auctionId, 100)).toEqual({statusCode: 200});
+        expect(await getPerson("alice")).toMatchObject({cash: 500, escrow: 100});
+
+        expect(await bid("bob", auctionId, 100)).toMatchObject({statusCode: 409});
+        expect(await bid("bob", auctionId, 150)).toEqual({statusCode: 200});
+        expect(await getPerson("alice")).toMatchObject({cash: 500, escrow: 0});
+        expect(await getPerson("bob")).toMatchObject({cash: 300, escrow: 150});
+
+        // raising the own bid only holds the difference
+        expect(await bid("bob", auctionId, 200)).toEqual({statusCode: 200});
+        expect(await getPerson("bob")).toMatchObject({escrow: 200});
+    });
+
+    it("rejects a bid over the cash and credit of the bidder", async () => {
+        const auctionId = await startAuction();
+        expect(await bid("bob", auctionId, 301)).toMatchObject({
+            statusCode: 402,
+            body: {code: EApiErrorCode.INSUFFICIENT_FUNDS}
+        });
+        const [auction] = await getStorage().collection("lotAuctions").query([]);
+        expect(auction.data.highBid).toBeNull();
+    });
+
+    it("rejects bids after the end time", async () => {
+        const auctionId = await startAuction();
+        now += 2 * 60 * 60 * 1000;
+        expect(await bid("alice", auctionId, 100)).toMatchObject({statusCode: 409});
+    });
+
+    it("rejects bids on an auction of a deleted lot without creating the lot again", async () => {
+        const auctionId = await startAuction();
+        await getStorage().collection("lots").delete("owned");
+
+        expect(await bid("alice", auctionId, 100)).toMatchObject({statusCode: 404});
+        expect(await getStorage().collection("lots").get("owned")).toBeNull();
+        expect((await getPerson("alice")).escrow).toBeUndefined();
+    });
+
+    it("sells the lot to the highest bidder when it ends", async () => {
+        const auctionId = await startAuction();
+        await bid("alice", auctionId, 100);
+        await bid("bob", auctionId, 150);
+        await callHandler(handleLotBuy, {personId: "alice", body: {lotId: "owned", price: 120}});
+
+        // a running auction does not settle
+        await settleLotAuctions();
+        expect((await getLot("owned")).owner).toBe("owner");
+
+        now += 2 * 60 * 60 * 1000;
+        await settleLotAuctions();
+        expect((await getLot("owned")).owner).toBe("bob");
+        expect(await getPerson("owner")).toMatchObject({cash: 250});
+        expect(await getPerson("bob")).toMatchObject({cash: 150, escrow: 0});
+        // the buy offer on the sold lot closes too
+        expect(await getPerson("alice")).toMatchObject({cash: 500, escrow: 0});
+        expect(await getStorage().collection("lotAuctions").query([])).toHaveLength(0);
+        expect(await getBuyOffers()).toHaveLength(0);
+    });
+
+    it("closes without a sale when nobody bid", async () => {
+        await startAuction();
+        now += 2 * 60 * 60 * 1000;
+        await settleLotAuctions();
+        expect((await getLot("owned")).owner).toBe("owner");
+        expect(await getStorage().collection("lotAuctions").query([])).toHaveLength(0);
+    });
+
+    it("refunds the highest bidder when the lot was deleted", async () => {
+        const auctionId = await startAuction();
+        await bid("alice", auctionId, 100);
+        await getStorage().collection("lots").delete("owned");
+        now += 2 * 60 * 60 * 1000;
+
+        await settleLotAuctions();
+        expect(await getPerson("alice")).toMatchObject({cash: 500, escrow: 0});
+        expect(await getStorage().collection("lotAuctions").query([])).toHaveLength(0);
+        expect(await getStorage().collection("lots").get("owned")).toBeNull();
+    });
+
+    it("refunds the highest bidder when they cannot pay", async () => {
+        jest.spyOn(console, "error").mockImplementation(() => undefined);
+        const auctionId = await startAuction();
+        await bid("bob", auctionId, 150);
+        // a loan taken after the bid leaves bob without enough cash and credit
+        await getStorage().collection("persons").merge("bob", {loanBalance: 1000});
+        now += 2 * 60 * 60 * 1000;
+
+        await settleLotAuctions();
+        expect((await getLot("owned")).owner).toBe("owner");
+        expect(await getPerson("owner")).toMatchObject({cash: 100});
+        expect(await getPerson("bob")).toMatchObject({cash: 300, escrow: 0});
+        expect(await getStorage().collection("lotAuctions").query([])).toHaveLength(0);
+    });
+});
+
+describe("closeAllLotTrades", () => {
+    it("closes every offer and auction and releases their escrow", async () => {
+        const endTime = new Date(now + 60 * 60 * 1000).toISOString();
+        await callHandler(handleLotBuy, {personId: "alice", body: {lotId: "owned", price: 200}});
+        await getStorage().collection("lots").set("auctioned", createTestLot("auctioned", {owner: "owner"}));
+        await callHandler(handleLotAuction, {
+            personId: "owner",
+            body: {lotId: "auctioned", reservePrice: 10, endTime}
+        });
+        const [auction] = await getStorage().collection("lotAuctions").query([]);
+        await callHandler(handleLotAuctionBid, {personId: "bob", body: {auctionId: auction.id, amount: 100}});
+        await callHandler(handleLotSell, {personId: "owner", body: {lotId: "owned", price: 250}});
+
+        await closeAllLotTrades();
+        expect(await getPerson("alice")).toMatchObject({cash: 500, escrow: 0});
+        expect(await getPerson("bob")).toMatchObject({cash: 300, escrow: 0});
+        expect(await getBuyOffers()).toHaveLength(0);
+        expect(await getStorage().collection("sellOffers").query([])).toHaveLength(0);
+        expect(await getStorage().collection("lotAuctions").query([])).toHaveLength(0);
+        expect((await getLot("owned")).owner).toBe("owner");
+    });
+});
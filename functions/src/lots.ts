@@ -0,0 +1,883 @@
+import * as admin from "firebase-admin";
+import * as express from "express";
+import {ILotAuctionDatabase, ILotDatabase, ILotOfferDatabase, IPersonDatabase} from "./types/database";
+import {
+    EApiErrorCode,
+    ELedgerReason,
+    IApiLotAuction,
+    IApiLotOffer,
+    IApiLotsAuctionPost,
+    IApiLotsBidPost,
+    IApiLotsOfferIdPost,
+    IApiLotsOfferPost,
+    IApiLotsOffersResponse
+} from "./types/api";
+import {ApiError} from "./errors";
+import {addCashChange, addCashPayment, applyCashChanges, createCashChanges, ICashChanges, roundCash} from "./cash";
+import {
+    defaultLotOfferDurationMilliseconds,
+    lotCityPricesPerZone,
+    maxLotAuctionDurationMilliseconds,
+    maxLotOfferDurationMilliseconds
+} from "./config";
+import {getStorage, IQueryFilter, IStorageTransaction, IStorageWriter, IStoredDocument, where} from "./storage";
+
+/**
+ * Buying and selling lots. A person buys a lot without an owner from the city right away. A lot with an owner is
+ * bought with offers. A buy offer holds its price in escrow on the buyer until the offer closes, so the owner can
+ * always be paid when they accept it. A sell offer is accepted by any buyer with enough cash and credit.
+ *
+ * An offer closes when it is accepted, cancelled by the person who made it, rejected by the owner of the lot, when the
+ * lot is sold, or when it expires. Expired offers cannot be accepted and are purged by the persons tick.
+ *
+ * An owner can also put a lot up for auction with a reserve price and an end time. The highest bid is held in escrow
+ * like a buy offer and released when the bidder is outbid. The auction settles after the end time, selling the lot to
+ * the highest bidder.
+ */
+
+/**
+ * The collections of lot offers.
+ */
+type TLotOfferCollectionName = "buyOffers" | "sellOffers";
+
+/**
+ * If an offer is still open. Offers without an expiry time stay open.
+ * @param offer The offer to check.
+ * @param now The current time in milliseconds.
+ */
+const isOfferOpen = (offer: ILotOfferDatabase, now: number = Date.now()): boolean => {
+    return !offer.expiresAt || offer.expiresAt.toMillis() > now;
+};
+
+/**
+ * Convert a lot offer into the client format.
+ * @param offer The stored offer.
+ */
+const lotOfferDatabaseToClient = ({id, data}: IStoredDocument<ILotOfferDatabase>): IApiLotOffer => ({
+    id,
+    lotId: data.lotId,
+    price: data.price,
+    personId: data.personId,
+    expiresAt: data.expiresAt ? data.expiresAt.toDate().toISOString() : null
+});
+
+/**
+ * Get the open offers of many lots at once with one "in" query. The storage splits long lists of lot ids into chunks
+ * which run together, so the number of lots does not change the number of round trips.
+ * @param collectionName The offer collection to read.
+ * @param lotIds The lots to get offers for.
+ * @return The offers grouped by lot id.
+ */
+export const getOffersByLotId = async (
+    collectionName: TLotOfferCollectionName,
+    lotIds: string[]
+): Promise<Map<string, IApiLotOffer[]>> => {
+    const offers = await getStorage().collection(collectionName).query([where("lotId", "in", lotIds)]);
+
+    const offersByLotId = new Map<string, IApiLotOffer[]>();
+    for (const offer of offers) {
+        if (isOfferOpen(offer.data)) {
+            const {lotId} = offer.data;
+            offersByLotId.set(lotId, [...(offersByLotId.get(lotId) || []), lotOfferDatabaseToClient(offer)]);
+        }
+    }
+    return offersByLotId;
+};
+
+/**
+ * Convert a lot auction into the client format.
+ * @param auction The stored auction.
+ */
+const lotAuctionDatabaseToClient = ({id, data}: IStoredDocument<ILotAuctionDatabase>): IApiLotAuction => ({
+    id,
+    lotId: data.lotId,
+    personId: data.personId,
+    reservePrice: data.reservePrice,
+    endTime: data.endTime.toDate().toISOString(),
+    highBid: data.highBid,
+    highBidderId: data.highBidderId
+});
+
+/**
+ * Get the running auctions of many lots at once with one "in" query.
+ * @param lotIds The lots to get auctions for.
+ * @return The auction of each lot by lot id.
+ */
+export const getAuctionsByLotId = async (lotIds: string[]): Promise<Map<string, IApiLotAuction>> => {
+    const auctions = await getStorage().collection("lotAuctions").query([where("lotId", "in", lotIds)]);
+
+    const auctionsByLotId = new Map<string, IApiLotAuction>();
+    for (const auction of auctions) {
+        auctionsByLotId.set(auction.data.lotId, lotAuctionDatabaseToClient(auction));
+    }
+    return auctionsByLotId;
+};
+
+/**
+ * A lot and everything a lot trade can change, read at the beginning of a transaction.
+ */
+interface ILotTradeState {
+    lotId: string;
+    lot: ILotDatabase;
+    buyOffers: Array<IStoredDocument<ILotOfferDatabase>>;
+    sellOffers: Array<IStoredDocument<ILotOfferDatabase>>;
+    auctions: Array<IStoredDocument<ILotAuctionDatabase>>;
+    /**
+     * The persons who can pay or receive cash in the trade by person id.
+     */
+    persons: Map<string, IPersonDatabase>;
+}
+
+/**
+ * The price of a lot without an owner, paid to the city. The price grows with the size of the lot and depends on the
+ * zone of the lot.
+ * @param lot The lot to price.
+ */
+export const getLotCityPrice = (lot: Pick<ILotDatabase, "width" | "height" | "zone">): number => {
+    return roundCash(lot.width * lot.height / (100 * 100) * lotCityPricesPerZone[lot.zone]);
+};
+
+/**
+ * Check the lot and price of an offer sent by a client.
+ * @param offer The offer to check.
+ */
+const validateOffer = (offer: IApiLotsOfferPost) => {
+    if (!offer || typeof offer.lotId !== "string" || typeof offer.price !== "number" || !isFinite(offer.price) ||
+        offer.price < 0) {
+        throw new ApiError(400, EApiErrorCode.INVALID_REQUEST, "Require a lotId and a price of at least 0");
+    }
+};
+
+/**
+ * Get the expiry time of a new offer.
+ * @param offer The offer sent by the client.
+ */
+const getOfferExpiry = (offer: IApiLotsOfferPost): admin.firestore.Timestamp => {
+    const now = Date.now();
+    if (offer.expiresAt === undefined) {
+        return admin.firestore.Timestamp.fromMillis(now + defaultLotOfferDurationMilliseconds);
+    }
+    const expiresAt = typeof offer.expiresAt === "string" ? Date.parse(offer.expiresAt) : NaN;
+    if (isNaN(expiresAt) || expiresAt <= now || expiresAt > now + maxLotOfferDurationMilliseconds) {
+        throw new ApiError(400, EApiErrorCode.INVALID_REQUEST, "The offer must expire in the future and within 30 days");
+    }
+    return admin.firestore.Timestamp.fromMillis(expiresAt);
+};
+
+/**
+ * Create a new offer.
+ * @param offer The offer sent by the client.
+ * @param personId The person making the offer.
+ */
+const createOffer = (offer: IApiLotsOfferPost, personId: string): ILotOfferDatabase => ({
+    lotId: offer.lotId,
+    price: offer.price,
+    personId,
+    createdAt: admin.firestore.Timestamp.now(),
+    expiresAt: getOfferExpiry(offer)
+});
+
+/**
+ * Mark a lot as changed so syncing clients fetch the lot and the offers on the lot again.
+ * @param writer The transaction which changes the lot.
+ * @param lotId The lot that changed.
+ */
+const markLotChanged = (writer: IStorageWriter, lotId: string) => {
+    const lotData: Partial<ILotDatabase> = {
+        lastUpdate: admin.firestore.Timestamp.now()
+    };
+    writer.collection("lots").merge(lotId, lotData);
+};
+
+/**
+ * Read a lot, its offers and auctions, the owner and every buyer with an offer or bid. Must be called before the
+ * transaction writes.
+ * @param transaction The trade transaction.
+ * @param lotId The lot to trade.
+ * @param personIds Other persons taking part in the trade.
+ */
+const readLotTradeState = async (
+    transaction: IStorageTransaction,
+    lotId: string,
+    personIds: string[]
+): Promise<ILotTradeState> => {
+    const lot = await transaction.collection("lots").get(lotId);
+    if (!lot) {
+        throw new ApiError(404, EApiErrorCode.NOT_FOUND, `Lot ${lotId} does not exist`);
+    }
+    const buyOffers = await transaction.collection("buyOffers").query([where("lotId", "==", lotId)]);
+    const sellOffers = await transaction.collection("sellOffers").query([where("lotId", "==", lotId)]);
+    const auctions = await transaction.collection("lotAuctions").query([where("lotId", "==", lotId)]);
+
+    const ids = Array.from(new Set([
+        ...personIds,
+        lot.owner,
+        ...buyOffers.map(({data}) => data.personId),
+        ...auctions.map(({data}) => data.highBidderId)
+    ].filter((id): id is string => !!id)));
+    const personDocuments = await transaction.collection("persons").getAll(ids);
+    const persons = new Map<string, IPersonDatabase>();
+    ids.forEach((id, index) => {
+        const personData = personDocuments[index];
+        if (personData) {
+            persons.set(id, personData);
+        }
+    });
+
+    return {
+        lotId,
+        lot,
+        buyOffers,
+        sellOffers,
+        auctions,
+        persons
+    };
+};
+
+/**
+ * Close a buy offer and release the escrow of the buyer.
+ * @param transaction The trade transaction.
+ * @param offer The buy offer to close.
+ * @param changes The cash changes of the transaction.
+ */
+const closeBuyOffer = (
+    transaction: IStorageTransaction,
+    offer: IStoredDocument<ILotOfferDatabase>,
+    changes: ICashChanges
+) => {
+    addCashChange(changes, offer.data.personId, {escrow: -offer.data.price});
+    transaction.collection("buyOffers").delete(offer.id);
+};
+
+/**
+ * Close an auction and release the escrow of the highest bidder.
+ * @param transaction The trade transaction.
+ * @param auction The auction to close.
+ * @param changes The cash changes of the transaction.
+ */
+const closeAuction = (
+    transaction: IStorageTransaction,
+    auction: IStoredDocument<ILotAuctionDatabase>,
+    changes: ICashChanges
+) => {
+    if (auction.data.highBidderId && auction.data.highBid !== null) {
+        addCashChange(changes, auction.data.highBidderId, {escrow: -auction.data.highBid});
+    }
+    transaction.collection("lotAuctions").delete(auction.id);
+};
+
+/**
+ * Sell a lot to a buyer. The buyer pays the owner, or the city if the lot has no owner. Every offer and auction on the
+ * lot closes.
+ * @param transaction The trade transaction.
+ * @param state The lot read by the transaction.
+ * @param buyerId The person buying the lot.
+ * @param price The price of the lot.
+ */
+const transferLot = (transaction: IStorageTransaction, state: ILotTradeState, buyerId: string, price: number) => {
+    const {lotId, lot, buyOffers, sellOffers, auctions, persons} = state;
+    if (lot.owner === buyerId) {
+        throw new ApiError(400, EApiErrorCode.INVALID_REQUEST, "The person already owns the lot");
+    }
+
+    const changes = createCashChanges();
+    addCashPayment(changes, {
+        from: buyerId,
+        to: lot.owner,
+        amount: price,
+        reason: ELedgerReason.LOT_TRADE,
+        referenceId: lotId
+    });
+    buyOffers.forEach(offer => closeBuyOffer(transaction, offer, changes));
+    sellOffers.forEach(({id}) => {
+        transaction.collection("sellOffers").delete(id);
+    });
+    auctions.forEach(auction => closeAuction(transaction, auction, changes));
+    applyCashChanges(transaction, persons, changes);
+
+    const lotData: Partial<ILotDatabase> = {
+        owner: buyerId,
+        taxUnpaidSince: null,
+        lastUpdate: admin.firestore.Timestamp.now()
+    };
+    transaction.collection("lots").merge(lotId, lotData);
+};
+
+/**
+ * Repossess a lot for the city and put it back on the market without an owner. Every offer and auction on the lot closes
+ * and releases its escrow. Must be called before the transaction writes.
+ * @param transaction The transaction repossessing the lot.
+ * @param lotId The lot to repossess.
+ */
+export const repossessLot = async (transaction: IStorageTransaction, lotId: string) => {
+    const {buyOffers, sellOffers, auctions, persons} = await readLotTradeState(transaction, lotId, []);
+
+    const changes = createCashChanges();
+    buyOffers.forEach(offer => closeBuyOffer(transaction, offer, changes));
+    sellOffers.forEach(({id}) => {
+        transaction.collection("sellOffers").delete(id);
+    });
+    auctions.forEach(auction => closeAuction(transaction, auction, changes));
+    applyCashChanges(transaction, persons, changes);
+
+    const lotData: Partial<ILotDatabase> = {
+        owner: null,
+        taxUnpaidSince: null,
+        lastUpdate: admin.firestore.Timestamp.now()
+    };
+    transaction.collection("lots").merge(lotId, lotData);
+};
+
+/**
+ * Repossess a lot of a person for the city, such as to pay off a loan which is not repaid. Must be called before the
+ * transaction writes.
+ * @param transaction The transaction repossessing the lot.
+ * @param personId The person losing a lot.
+ * @return The repossessed lot, null if the person owns no lot.
+ */
+export const repossessLotOfPerson = async (
+    transaction: IStorageTransaction,
+    personId: string
+): Promise<IStoredDocument<ILotDatabase> | null> => {
+    const ownedLots = await transaction.collection("lots").query([where("owner", "==", personId)], {limit: 1});
+    if (ownedLots.length === 0) {
+        return null;
+    }
+    await repossessLot(transaction, ownedLots[0].id);
+    return ownedLots[0];
+};
+
+/**
+ * Handle POST /lots/buy. Buy a lot without an owner, or make a buy offer on a lot with an owner. The price of the offer
+ * is held in escrow and replaces the previous buy offer of the person on the lot.
+ * @param req
+ * @param res
+ * @param next
+ */
+export const handleLotBuy = (req: express.Request, res: express.Response, next: express.NextFunction) => {
+    (async () => {
+        const offer = req.body as IApiLotsOfferPost;
+        validateOffer(offer);
+        const buyerId: string = res.locals.personId;
+        const newOffer = createOffer(offer, buyerId);
+
+        await getStorage().runTransaction(async (transaction) => {
+            const state = await readLotTradeState(transaction, offer.lotId, [buyerId]);
+            if (!state.lot.owner) {
+                // lot has no owner, automatically accept an offer of at least the city price
+                const cityPrice = getLotCityPrice(state.lot);
+                if (offer.price < cityPrice) {
+                    throw new ApiError(400, EApiErrorCode.INVALID_REQUEST,
+                        `Lot ${offer.lotId} has no owner, the city sells it for at least ${cityPrice}`);
+                }
+                transferLot(transaction, state, buyerId, offer.price);
+                return;
+            }
+            if (state.lot.owner === buyerId) {
+                throw new ApiError(400, EApiErrorCode.INVALID_REQUEST, "The person already owns the lot");
+            }
+
+            // lot has an owner, create a buy offer
+            const changes = createCashChanges();
+            state.buyOffers.filter(({data}) => data.personId === buyerId).forEach(previousOffer => {
+                closeBuyOffer(transaction, previousOffer, changes);
+            });
+            addCashChange(changes, buyerId, {escrow: offer.price});
+            applyCashChanges(transaction, state.persons, changes);
+            transaction.collection("buyOffers").add(newOffer);
+            markLotChanged(transaction, offer.lotId);
+        });
+
+        res.sendStatus(200);
+    })().catch((err) => next(err));
+};
+
+/**
+ * Handle POST /lots/buy/accept. The owner of a lot accepts a buy offer, the escrow of the buyer pays the owner.
+ * @param req
+ * @param res
+ * @param next
+ */
+export const handleLotBuyAccept = (req: express.Request, res: express.Response, next: express.NextFunction) => {
+    (async () => {
+        const offer = req.body as IApiLotsOfferPost;
+        validateOffer(offer);
+        const ownerId: string = res.locals.personId;
+
+        await getStorage().runTransaction(async (transaction) => {
+            const state = await readLotTradeState(transaction, offer.lotId, [ownerId]);
+
+            // only the owner of the lot can accept a buy offer
+            if (state.lot.owner !== ownerId) {
+                throw new ApiError(403, EApiErrorCode.FORBIDDEN, "Only the owner of the lot can accept a buy offer");
+            }
+            const acceptedOffer = state.buyOffers.find(({data}) => data.personId === offer.personId);
+            if (!acceptedOffer) {
+                throw new ApiError(404, EApiErrorCode.NOT_FOUND, "The buy offer does not exist");
+            }
+            if (!isOfferOpen(acceptedOffer.data)) {
+                throw new ApiError(409, EApiErrorCode.CONFLICT, "The buy offer expired");
+            }
+            if (acceptedOffer.data.price !== offer.price) {
+                throw new ApiError(409, EApiErrorCode.CONFLICT, "The buy offer changed its price");
+            }
+
+            transferLot(transaction, state, acceptedOffer.data.personId, acceptedOffer.data.price);
+        });
+
+        res.sendStatus(200);
+    })().catch((err) => next(err));
+};
+
+/**
+ * Handle POST /lots/sell. The owner of a lot puts it up for sale, replacing their previous sell offer.
+ * @param req
+ * @param res
+ * @param next
+ */
+export const handleLotSell = (req: express.Request, res: express.Response, next: express.NextFunction) => {
+    (async () => {
+        const offer = req.body as IApiLotsOfferPost;
+        validateOffer(offer);
+        const ownerId: string = res.locals.personId;
+        const newOffer = createOffer(offer, ownerId);
+
+        await getStorage().runTransaction(async (transaction) => {
+            const state = await readLotTradeState(transaction, offer.lotId, []);
+            if (state.lot.owner !== ownerId) {
+                throw new ApiError(403, EApiErrorCode.FORBIDDEN, "Only the owner of the lot can sell the lot");
+            }
+            if (state.auctions.length > 0) {
+                throw new ApiError(409, EApiErrorCode.CONFLICT, "The lot is up for auction");
+            }
+
+            state.sellOffers.forEach(({id}) => {
+                transaction.collection("sellOffers").delete(id);
+            });
+            transaction.collection("sellOffers").add(newOffer);
+            markLotChanged(transaction, offer.lotId);
+        });
+
+        res.sendStatus(200);
+    })().catch((err) => next(err));
+};
+
+/**
+ * Handle POST /lots/sell/accept. A buyer accepts the sell offer of the owner and pays the owner.
+ * @param req
+ * @param res
+ * @param next
+ */
+export const handleLotSellAccept = (req: express.Request, res: express.Response, next: express.NextFunction) => {
+    (async () => {
+        const offer = req.body as IApiLotsOfferPost;
+        validateOffer(offer);
+        const buyerId: string = res.locals.personId;
+
+        await getStorage().runTransaction(async (transaction) => {
+            const state = await readLotTradeState(transaction, offer.lotId, [buyerId]);
+
+            // only a sell offer of the current owner sells the lot
+            const acceptedOffer = state.sellOffers.find(({data}) => !!state.lot.owner && data.personId === state.lot.owner);
+            if (!acceptedOffer) {
+                throw new ApiError(404, EApiErrorCode.NOT_FOUND, "The lot is not for sale");
+            }
+            if (!isOfferOpen(acceptedOffer.data)) {
+                throw new ApiError(409, EApiErrorCode.CONFLICT, "The sell offer expired");
+            }
+            if (acceptedOffer.data.price !== offer.price) {
+                throw new ApiError(409, EApiErrorCode.CONFLICT, "The sell offer changed its price");
+            }
+
+            transferLot(transaction, state, buyerId, acceptedOffer.data.price);
+        });
+
+        res.sendStatus(200);
+    })().catch((err) => next(err));
+};
+
+/**
+ * Close one offer, releasing the escrow of a buy offer.
+ * @param collectionName The collection of the offer.
+ * @param offerId The offer to close.
+ * @param checkPermission Throws if the offer cannot be closed, given the offer and its lot.
+ * @return If the offer existed.
+ */
+const closeOffer = async (
+    collectionName: TLotOfferCollectionName,
+    offerId: string,
+    checkPermission: (offer: ILotOfferDatabase, lot: ILotDatabase | null) => void
+): Promise<boolean> => {
+    return await getStorage().runTransaction(async (transaction): Promise<boolean> => {
+        const offer = await transaction.collection(collectionName).get(offerId);
+        if (!offer) {
+            return false;
+        }
+        const lot = await transaction.collection("lots").get(offer.lotId);
+        checkPermission(offer, lot);
+        const personData = collectionName === "buyOffers" ?
+            await transaction.collection("persons").get(offer.personId) :
+            null;
+
+        if (personData) {
+            const changes = createCashChanges();
+            closeBuyOffer(transaction, {id: offerId, data: offer}, changes);
+            applyCashChanges(transaction, new Map([[offer.personId, personData]]), changes);
+        } else {
+            transaction.collection(collectionName).delete(offerId);
+        }
+        if (lot) {
+            markLotChanged(transaction, offer.lotId);
+        }
+        return true;
+    });
+};
+
+/**
+ * Get the offer id of a cancel or reject request.
+ * @param req The request.
+ */
+const getOfferId = (req: express.Request): string => {
+    const {offerId} = req.body as IApiLotsOfferIdPost;
+    if (typeof offerId !== "string" || !offerId) {
+        throw new ApiError(400, EApiErrorCode.INVALID_REQUEST, "Require an offerId");
+    }
+    return offerId;
+};
+
+/**
+ * Handle GET /lots/offers. List the open offers of the current person.
+ * @param req
+ * @param res
+ * @param next
+ */
+export const handleLotOffers = (req: express.Request, res: express.Response, next: express.NextFunction) => {
+    (async () => {
+        const personId: string = res.locals.personId;
+        const [buyOffers, sellOffers] = await Promise.all([
+            getStorage().collection("buyOffers").query([where("personId", "==", personId)]),
+            getStorage().collection("sellOffers").query([where("personId", "==", personId)])
+        ]);
+
+        const response: IApiLotsOffersResponse = {
+            buyOffers: buyOffers.filter(({data}) => isOfferOpen(data)).map(lotOfferDatabaseToClient),
+            sellOffers: sellOffers.filter(({data}) => isOfferOpen(data)).map(lotOfferDatabaseToClient)
+        };
+        res.json(response);
+    })().catch((err) => next(err));
+};
+
+/**
+ * Create a handler which closes an offer.
+ * @param collectionName The collection of the offer.
+ * @param checkPermission Throws if the current person cannot close the offer.
+ */
+const createCloseOfferHandler = (
+    collectionName: TLotOfferCollectionName,
+    checkPermission: (personId: string, offer: ILotOfferDatabase, lot: ILotDatabase | null) => void
+) => (req: express.Request, res: express.Response, next: express.NextFunction) => {
+    (async () => {
+        const offerId = getOfferId(req);
+        const personId: string = res.locals.personId;
+        const closed = await closeOffer(collectionName, offerId, (offer, lot) => checkPermission(personId, offer, lot));
+        if (!closed) {
+            throw new ApiError(404, EApiErrorCode.NOT_FOUND, "The offer does not exist");
+        }
+        res.sendStatus(200);
+    })().catch((err) => next(err));
+};
+
+/**
+ * Handle POST /lots/buy/cancel. The buyer cancels their buy offer and gets the escrow back.
+ */
+export const handleLotBuyCancel = createCloseOfferHandler("buyOffers", (personId, offer) => {
+    if (offer.personId !== personId) {
+        throw new ApiError(403, EApiErrorCode.FORBIDDEN, "Only the buyer can cancel a buy offer");
+    }
+});
+
+/**
+ * Handle POST /lots/buy/reject. The owner of the lot rejects a buy offer, the buyer gets the escrow back.
+ */
+export const handleLotBuyReject = createCloseOfferHandler("buyOffers", (personId, offer, lot) => {
+    if (!lot || lot.owner !== personId) {
+        throw new ApiError(403, EApiErrorCode.FORBIDDEN, "Only the owner of the lot can reject a buy offer");
+    }
+});
+
+/**
+ * Handle POST /lots/sell/cancel. The owner takes the lot off the market.
+ */
+export const handleLotSellCancel = createCloseOfferHandler("sellOffers", (personId, offer) => {
+    if (offer.personId !== personId) {
+        throw new ApiError(403, EApiErrorCode.FORBIDDEN, "Only the seller can cancel a sell offer");
+    }
+});
+
+/**
+ * Delete an expired offer which could not be closed. The escrow of a buy offer is released without checking the cash
+ * of the buyer, so the offer does not fail again on every tick.
+ * @param collectionName The collection of the offer.
+ * @param offerId The offer to delete.
+ */
+const deleteFailedOffer = async (collectionName: TLotOfferCollectionName, offerId: string) => {
+    await getStorage().runTransaction(async (transaction) => {
+        const offer = await transaction.collection(collectionName).get(offerId);
+        if (!offer) {
+            return;
+        }
+        const personData = collectionName === "buyOffers" ?
+            await transaction.collection("persons").get(offer.personId) :
+            null;
+        const lot = await transaction.collection("lots").get(offer.lotId);
+
+        transaction.collection(collectionName).delete(offerId);
+        if (personData) {
+            const newPersonData: Partial<IPersonDatabase> = {
+                escrow: Math.max(0, (personData.escrow || 0) - offer.price),
+                lastUpdate: admin.firestore.Timestamp.now()
+            };
+            transaction.collection("persons").merge(offer.personId, newPersonData);
+        }
+        if (lot) {
+            markLotChanged(transaction, offer.lotId);
+        }
+    });
+};
+
+/**
+ * Close many offers and release the escrow of buy offers.
+ * @param filters The offers to close.
+ */
+const closeLotOffers = async (filters: IQueryFilter[]) => {
+    for (const collectionName of ["buyOffers", "sellOffers"] as TLotOfferCollectionName[]) {
+        const offers = await getStorage().collection(collectionName).query(filters);
+        for (const {id} of offers) {
+            // one offer which cannot be closed does not stop the other offers
+            try {
+                await closeOffer(collectionName, id, () => undefined);
+            } catch (err) {
+                console.error(`Could not close lot offer ${id}, deleting it`, err);
+                await deleteFailedOffer(collectionName, id);
+            }
+        }
+    }
+};
+
+/**
+ * Close every expired offer and release the escrow of expired buy offers.
+ */
+export const purgeExpiredLotOffers = async () => {
+    await closeLotOffers([where("expiresAt", "<=", admin.firestore.Timestamp.now())]);
+};
+
+/**
+ * Handle POST /lots/auction. The owner of a lot puts it up for auction, replacing their sell offer.
+ * @param req
+ * @param res
+ * @param next
+ */
+export const handleLotAuction = (req: express.Request, res: express.Response, next: express.NextFunction) => {
+    (async () => {
+        const {lotId, reservePrice, endTime} = req.body as IApiLotsAuctionPost;
+        if (typeof lotId !== "string" || typeof reservePrice !== "number" || !isFinite(reservePrice) || reservePrice < 0) {
+            throw new ApiError(400, EApiErrorCode.INVALID_REQUEST, "Require a lotId and a reserve price of at least 0");
+        }
+        const now = Date.now();
+        const endTimeMillis = typeof endTime === "string" ? Date.parse(endTime) : NaN;
+        if (isNaN(endTimeMillis) || endTimeMillis <= now || endTimeMillis > now + maxLotAuctionDurationMilliseconds) {
+            throw new ApiError(400, EApiErrorCode.INVALID_REQUEST, "The auction must end in the future and within 7 days");
+        }
+        const ownerId: string = res.locals.personId;
+
+        await getStorage().runTransaction(async (transaction) => {
+            const state = await readLotTradeState(transaction, lotId, []);
+            if (state.lot.owner !== ownerId) {
+                throw new ApiError(403, EApiErrorCode.FORBIDDEN, "Only the owner of the lot can auction the lot");
+            }
+            if (state.auctions.length > 0) {
+                throw new ApiError(409, EApiErrorCode.CONFLICT, "The lot is already up for auction");
+            }
+
+            state.sellOffers.forEach(({id}) => {
+                transaction.collection("sellOffers").delete(id);
+            });
+            transaction.collection("lotAuctions").add({
+                lotId,
+                personId: ownerId,
+                reservePrice,
+                createdAt: admin.firestore.Timestamp.fromMillis(now),
+                endTime: admin.firestore.Timestamp.fromMillis(endTimeMillis),
+                highBid: null,
+                highBidderId: null
+            });
+            markLotChanged(transaction, lotId);
+        });
+
+        res.sendStatus(200);
+    })().catch((err) => next(err));
+};
+
+/**
+ * Handle POST /lots/auction/bid. Bid on a running auction. The bid is held in escrow and the previous highest bidder
+ * gets their escrow back.
+ * @param req
+ * @param res
+ * @param next
+ */
+export const handleLotAuctionBid = (req: express.Request, res: express.Response, next: express.NextFunction) => {
+    (async () => {
+        const {auctionId, amount} = req.body as IApiLotsBidPost;
+        if (typeof auctionId !== "string" || typeof amount !== "number" || !isFinite(amount) || amount < 0) {
+            throw new ApiError(400, EApiErrorCode.INVALID_REQUEST, "Require an auctionId and an amount of at least 0");
+        }
+        const bidderId: string = res.locals.personId;
+
+        await getStorage().runTransaction(async (transaction) => {
+            const auction = await transaction.collection("lotAuctions").get(auctionId);
+            if (!auction) {
+                throw new ApiError(404, EApiErrorCode.NOT_FOUND, "The auction does not exist");
+            }
+            if (auction.endTime.toMillis() <= Date.now()) {
+                throw new ApiError(409, EApiErrorCode.CONFLICT, "The auction ended");
+            }
+            if (auction.personId === bidderId) {
+                throw new ApiError(400, EApiErrorCode.INVALID_REQUEST, "The owner cannot bid on their own lot");
+            }
+            if (amount < auction.reservePrice) {
+                throw new ApiError(400, EApiErrorCode.INVALID_REQUEST, "The bid is below the reserve price");
+            }
+            if (auction.highBid !== null && amount <= auction.highBid) {
+                throw new ApiError(409, EApiErrorCode.CONFLICT, "The bid must be higher than the highest bid");
+            }
+            // the lot is deleted when the city is generated again, the auction then closes without a sale when it ends
+            const lot = await transaction.collection("lots").get(auction.lotId);
+            if (!lot) {
+                throw new ApiError(404, EApiErrorCode.NOT_FOUND, `Lot ${auction.lotId} does not exist`);
+            }
+
+            const ids = Array.from(new Set([bidderId, auction.highBidderId].filter((id): id is string => !!id)));
+            const personDocuments = await transaction.collection("persons").getAll(ids);
+            const persons = new Map<string, IPersonDatabase>();
+            ids.forEach((id, index) => {
+                const personData = personDocuments[index];
+                if (personData) {
+                    persons.set(id, personData);
+                }
+            });
+
+            // refund the outbid person and hold the new bid in escrow
+            const changes = createCashChanges();
+            if (auction.highBidderId && auction.highBid !== null) {
+                addCashChange(changes, auction.highBidderId, {escrow: -auction.highBid});
+            }
+            addCashChange(changes, bidderId, {escrow: amount});
+            applyCashChanges(transaction, persons, changes);
+
+            const auctionData: Partial<ILotAuctionDatabase> = {
+                highBid: amount,
+                highBidderId: bidderId
+            };
+            transaction.collection("lotAuctions").merge(auctionId, auctionData);
+            markLotChanged(transaction, auction.lotId);
+        });
+
+        res.sendStatus(200);
+    })().catch((err) => next(err));
+};
+
+/**
+ * Close an auction without selling the lot and release the escrow of the highest bidder.
+ * @param transaction The transaction closing the auction.
+ * @param auctionId The auction to close.
+ * @param auction The auction read by the transaction.
+ * @param lot The lot of the auction, null if the lot was deleted.
+ */
+const closeLotAuctionWithoutSale = async (
+    transaction: IStorageTransaction,
+    auctionId: string,
+    auction: ILotAuctionDatabase,
+    lot: ILotDatabase | null
+) => {
+    const bidderData = auction.highBidderId ?
+        await transaction.collection("persons").get(auction.highBidderId) :
+        null;
+    const changes = createCashChanges();
+    closeAuction(transaction, {id: auctionId, data: auction}, changes);
+    if (auction.highBidderId && bidderData) {
+        applyCashChanges(transaction, new Map([[auction.highBidderId, bidderData]]), changes);
+    }
+    if (lot) {
+        markLotChanged(transaction, auction.lotId);
+    }
+};
+
+/**
+ * Settle an auction which ended. The highest bidder buys the lot with their escrow, without bids the auction closes.
+ * @param auctionId The auction to settle.
+ */
+const settleLotAuction = async (auctionId: string) => {
+    await getStorage().runTransaction(async (transaction) => {
+        const auction = await transaction.collection("lotAuctions").get(auctionId);
+        if (!auction || auction.endTime.toMillis() > Date.now()) {
+            // already settled or still running
+            return;
+        }
+        const lot = await transaction.collection("lots").get(auction.lotId);
+        if (lot && auction.highBidderId && auction.highBid !== null) {
+            // the lot transfer closes the auction, which releases the escrow of the winner before they pay
+            const state = await readLotTradeState(transaction, auction.lotId, [auction.highBidderId]);
+            transferLot(transaction, state, auction.highBidderId, auction.highBid);
+            return;
+        }
+
+        // no bids, or the lot was deleted
+        await closeLotAuctionWithoutSale(transaction, auctionId, auction, lot);
+    });
+};
+
+/**
+ * Close an auction without a sale, such as when the winner cannot pay or the lots are deleted. The lot stays with the
+ * owner and the highest bidder gets their escrow back, so a failed auction does not fail again on every tick.
+ * @param auctionId The auction to close.
+ */
+const cancelLotAuction = async (auctionId: string) => {
+    await getStorage().runTransaction(async (transaction) => {
+        const auction = await transaction.collection("lotAuctions").get(auctionId);
+        if (!auction) {
+            return;
+        }
+        const lot = await transaction.collection("lots").get(auction.lotId);
+        await closeLotAuctionWithoutSale(transaction, auctionId, auction, lot);
+    });
+};
+
+/**
+ * Settle every auction which ended.
+ */
+export const settleLotAuctions = async () => {
+    const endedAuctions = await getStorage().collection("lotAuctions").query([
+        where("endTime", "<=", admin.firestore.Timestamp.now())
+    ]);
+    for (const {id} of endedAuctions) {
+        // one auction which cannot be settled does not stop the other auctions
+        try {
+            await settleLotAuction(id);
+        } catch (err) {
+            console.error(`Could not settle lot auction ${id}, closing it without a sale`, err);
+            await cancelLotAuction(id);
+        }
+    }
+};
+
+/**
+ * Close every offer and auction without selling a lot and release their escrow. Used before the lots of the city are
+ * deleted, so no cash stays in escrow for a lot which does not exist.
+ */
+export const closeAllLotTrades = async () => {
+    await closeLotOffers([]);
+    const auctions = await getStorage().collection("lotAuctions").query([]);
+    for (const {id} of auctions) {
+        await cancelLotAuction(id);
+    }
+};
@@ -0,0 +1,231 @@
+import * as admin from "firebase-admin";
+import {ECarDirection, ENetworkObjectType, IApiPersonsPut} from "persons-game-common/lib/types/GameTypes";
+import {getNetworkObjectCellString} from "persons-game-common/lib/cell";
+import {ICarDatabase, INetworkObjectDatabase, IPersonDatabase} from "./types/database";
+import {movementToleranceMilliseconds, walkingSpeed} from "./config";
+import {applyMovementUpdate, getMovementTime, limitMovement} from "./movement";
+import {carDatabaseToClient, networkObjectDatabaseToClient, personDatabaseToClient} from "./common";
+import {createMemoryStorage, getStorage, setStorage} from "./storage";
+import {createTestPerson} from "./testUtils";
+
+/**
+ * The server decides where things are. A client which claims more time or moves things it does not control is corrected.
+ */
+
+const timestamp = (millis: number) => admin.firestore.Timestamp.fromMillis(millis);
+
+describe("getMovementTime", () => {
+    it("adds the tolerance to the client time but not past the server time", () => {
+        expect(getMovementTime(timestamp(10000), new Date(10100).toISOString(), timestamp(20000))).toEqual({
+            lastUpdate: timestamp(10100 + movementToleranceMilliseconds),
+            elapsedMilliseconds: 100 + movementToleranceMilliseconds
+        });
+        expect(getMovementTime(timestamp(10000), new Date(10100).toISOString(), timestamp(10300))).toEqual({
+            lastUpdate: timestamp(10300),
+            elapsedMilliseconds: 300
+        });
+    });
+
+    it("limits the client time to after the previous update and not in the future", () => {
+        expect(getMovementTime(timestamp(10000), new Date(5000).toISOString(), timestamp(20000)).elapsedMilliseconds)
+            .toBe(movementToleranceMilliseconds);
+        expect(getMovementTime(timestamp(10000), new Date(90000).toISOString(), timestamp(10500)).elapsedMilliseconds)
+            .toBe(500);
+        expect(getMovementTime(timestamp(10000), "not a date", timestamp(10500)).elapsedMilliseconds).toBe(500);
+        expect(getMovementTime(timestamp(10000), undefined, timestamp(10500)).elapsedMilliseconds).toBe(500);
+    });
+
+    it("gives no time when the previous update is in the future", () => {
+        expect(getMovementTime(timestamp(30000), new Date(40000).toISOString(), timestamp(20000))).toEqual({
+            lastUpdate: timestamp(20000),
+            elapsedMilliseconds: 0
+        });
+    });
+
+    it("does not add tolerance for each of many quick updates", () => {
+        let lastUpdate = timestamp(10000);
+        let totalMilliseconds = 0;
+        for (let now = 10100; now <= 12000; now += 100) {
+            // the client claims more time than passed with each update
+            const result = getMovementTime(lastUpdate, new Date(now + 500).toISOString(), timestamp(now));
+            lastUpdate = result.lastUpdate;
+            totalMilliseconds += result.elapsedMilliseconds;
+        }
+        expect(totalMilliseconds).toBe(2000);
+        expect(lastUpdate).toEqual(timestamp(12000));
+    });
+});
+
+describe("limitMovement", () => {
+    it("limits each axis to the distance of the speed", () => {
+        expect(limitMovement({x: 0, y: 0}, {x: 150, y: -30}, 100, 1000)).toEqual({
+            position: {x: 100, y: -30},
+            corrected: true
+        });
+        expect(limitMovement({x: 0, y: 0}, {x: -150, y: 500}, 100, 2000)).toEqual({
+            position: {x: -150, y: 200},
+            corrected: true
+        });
+    });
+
+    it("accepts movement within the distance", () => {
+        expect(limitMovement({x: 0, y: 0}, {x: 100, y: 100}, 100, 1000)).toEqual({
+            position: {x: 100, y: 100},
+            corrected: false
+        });
+    });
+});
+
+describe("applyMovementUpdate", () => {
+    /**
+     * The current time of the tests, Date.now() returns it.
+     */
+    let now: number;
+    const getPerson = async (id: string) => await getStorage().collection("persons").get(id) as IPersonDatabase;
+    const getCar = async (id: string) => await getStorage().collection("personalCars").get(id) as ICarDatabase;
+    const getObject = async (id: string) => await getStorage().collection("objects").get(id) as INetworkObjectDatabase;
+
+    /**
+     * Create an update which sends the stored state of a person, car or object with some changes.
+     */
+    const movePerson = async (id: string, data: object) => ({
+        ...personDatabaseToClient(await getPerson(id)),
+        lastUpdate: new Date(now).toISOString(),
+        ...data
+    });
+    const moveCar = async (id: string, data: object) => ({
+        ...carDatabaseToClient(await getCar(id)),
+        lastUpdate: new Date(now).toISOString(),
+        ...data
+    });
+    const moveObject = async (id: string, data: object) => ({
+        ...networkObjectDatabaseToClient(await getObject(id)),
+        ...data
+    });
+    const update = (data: Partial<IApiPersonsPut>): IApiPersonsPut => ({persons: [], cars: [], objects: [], ...data});
+
+    beforeEach(async () => {
+        now = Date.now();
+        jest.spyOn(Date, "now").mockImplementation(() => now);
+        setStorage(createMemoryStorage());
+
+        const lastUpdate = timestamp(now);
+        await getStorage().collection("persons").set("alice", createTestPerson("alice", {lastUpdate}));
+        await getStorage().collection("persons").set("bob", createTestPerson("bob", {x: 500, lastUpdate}));
+        const car: ICarDatabase = {
+            id: "car",
+            x: 50,
+            y: 0,
+            objectType: ENetworkObjectType.CAR,
+            direction: ECarDirection.RIGHT,
+            lastUpdate,
+            health: {max: 10, value: 10, rate: 0},
+            cell: getNetworkObjectCellString({x: 50, y: 0})
+        };
+        await getStorage().collection("personalCars").set("car", car);
+        await getStorage().collection("personalCars").set("far car", {...car, id: "far car", x: 1000});
+        const box: INetworkObjectDatabase = {
+            id: "box",
+            x: 60,
+            y: 0,
+            objectType: ENetworkObjectType.BOX,
+            lastUpdate,
+            health: {max: 10, value: 10, rate: 0},
+            cell: getNetworkObjectCellString({x: 60, y: 0}),
+            insideStockpile: null,
+            grabbedByPersonId: null,
+            grabbedByNpcId: null,
+            isInInventory: false,
+            amount: 1,
+            exist: true,
+            state: []
+        };
+        await getStorage().collection("objects").set("box", box);
+        await getStorage().collection("objects").set("far box", {...box, id: "far box", x: 1000});
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it("limits a person walking too fast and returns the corrected person", async () => {
+        now += 1000;
+        const response = await applyMovementUpdate("alice", update({
+            persons: [await movePerson("alice", {x: 10000, y: 50})]
+        }));
+
+        // the tolerance does not give more time than passed on the server
+        const maxDistance = walkingSpeed * 1000 / 1000;
+        expect(response.persons).toEqual([expect.objectContaining({id: "alice", x: maxDistance, y: 50})]);
+        expect(response.persons[0]).not.toHaveProperty("password");
+        expect(await getPerson("alice")).toMatchObject({x: maxDistance, y: 50});
+    });
+
+    it("does not move a dead person", async () => {
+        await getStorage().collection("persons").merge("alice", {deathTime: timestamp(now)});
+        now += 1000;
+        const response = await applyMovementUpdate("alice", update({
+            persons: [await movePerson("alice", {x: 10, y: 10})]
+        }));
+
+        expect(response.persons).toEqual([expect.objectContaining({id: "alice", x: 0, y: 0})]);
+        expect(await getPerson("alice")).toMatchObject({x: 0, y: 0});
+    });
+
+    it("drives the car the person entered and moves the passengers with it", async () => {
+        await getStorage().collection("persons").merge("bob", {x: 50, carId: "car"});
+        now += 1000;
+        await applyMovementUpdate("alice", update({
+            persons: [await movePerson("alice", {carId: "car"})]
+        }));
+        expect((await getPerson("alice")).carId).toBe("car");
+
+        now += 1000;
+        const response = await applyMovementUpdate("alice", update({
+            persons: [await movePerson("alice", {x: 200})],
+            cars: [await moveCar("car", {x: 250})]
+        }));
+        expect(response.cars).toEqual([]);
+        expect(await getCar("car")).toMatchObject({x: 250, y: 0});
+        expect(await getPerson("alice")).toMatchObject({x: 200, carId: "car"});
+        expect(await getPerson("bob")).toMatchObject({x: 250});
+    });
+
+    it("does not let a person enter a far car or move a car they are not in", async () => {
+        now += 1000;
+        const response = await applyMovementUpdate("alice", update({
+            persons: [await movePerson("alice", {carId: "far car"})],
+            cars: [await moveCar("car", {x: 100})]
+        }));
+
+        expect(response.persons).toEqual([expect.objectContaining({id: "alice", carId: null})]);
+        expect(response.cars).toEqual([expect.objectContaining({id: "car", x: 50})]);
+        expect(await getPerson("alice")).toMatchObject({carId: null});
+        expect(await getCar("car")).toMatchObject({x: 50});
+    });
+
+    it("grabs a nearby object and moves it with the person", async () => {
+        now += 1000;
+        const response = await applyMovementUpdate("alice", update({
+            persons: [await movePerson("alice", {x: 40})],
+            objects: [
+                await moveObject("box", {x: 100, grabbedByPersonId: "alice"}),
+                await moveObject("far box", {x: 100, grabbedByPersonId: "alice"})
+            ]
+        }));
+
+        expect(await getObject("box")).toMatchObject({x: 100, grabbedByPersonId: "alice"});
+        expect(await getObject("far box")).toMatchObject({x: 1000, grabbedByPersonId: null});
+        expect(response.objects).toEqual([expect.objectContaining({id: "far box", x: 1000, grabbedByPersonId: null})]);
+    });
+
+    it("does not write an object which did not change", async () => {
+        const {lastUpdate} = await getObject("box");
+        now += 1000;
+        await applyMovementUpdate("alice", update({
+            objects: [await moveObject("box", {})]
+        }));
+
+        expect((await getObject("box")).lastUpdate).toEqual(lastUpdate);
+    });
+});
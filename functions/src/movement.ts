@@ -0,0 +1,291 @@
+import * as admin from "firebase-admin";
+import {IApiPersonsPut, IObject} from "persons-game-common/lib/types/GameTypes";
+import {getNetworkObjectCellString} from "persons-game-common/lib/cell";
+import {ICarDatabase, INetworkObjectDatabase, IPersonDatabase} from "./types/database";
+import {IApiPersonsPutResponse} from "./types/api";
+import {
+    carEntryDistance,
+    drivingSpeed,
+    grabDistance,
+    movementToleranceMilliseconds,
+    walkingSpeed
+} from "./config";
+import {carDatabaseToClient, networkObjectDatabaseToClient, personWithoutPassword} from "./common";
+import {addTombstoneIfCellChanged} from "./sync";
+import {getStorage, where} from "./storage";
+
+/**
+ * Server authoritative movement. The client moves persons, cars and objects locally and sends the result to the server.
+ * The server compares each update against the stored record and only accepts movement which is possible at walking or
+ * driving speed. A person can only move themselves, the car they are in, the passengers of that car, and objects
+ * grabbed by them or their passengers.
+ */
+
+/**
+ * If two objects are within a distance of each other on both axis.
+ * @param a The first object.
+ * @param b The second object.
+ * @param distance The maximum distance on each axis.
+ */
+const isWithinDistance = (a: IObject, b: IObject, distance: number): boolean => {
+    return Math.abs(a.x - b.x) <= distance && Math.abs(a.y - b.y) <= distance;
+};
+
+/**
+ * Compute the time of a movement update. The client time is limited to be after the previous update and not in the
+ * future so a client cannot claim extra movement time. The movement tolerance is added to the elapsed time but the
+ * movement time never passes the server time, and the update time is moved forward by the tolerance that was used. The
+ * movement of many updates is limited by the server time since the last accepted update, sending updates quickly does
+ * not add more tolerance.
+ * @param previousUpdate The last update stored in the database.
+ * @param requestedUpdate The ISO date string of the update sent by the client.
+ * @param now The current server time.
+ */
+export const getMovementTime = (
+    previousUpdate: admin.firestore.Timestamp,
+    requestedUpdate: string | undefined,
+    now: admin.firestore.Timestamp
+): {lastUpdate: admin.firestore.Timestamp, elapsedMilliseconds: number} => {
+    const requestedMillis = requestedUpdate ? Date.parse(requestedUpdate) : NaN;
+    const previousMillis = Math.min(previousUpdate.toMillis(), now.toMillis());
+    const millis = Math.max(
+        previousMillis,
+        Math.min(isNaN(requestedMillis) ? now.toMillis() : requestedMillis, now.toMillis())
+    );
+    const elapsedMilliseconds = Math.min(
+        millis - previousMillis + movementToleranceMilliseconds,
+        now.toMillis() - previousMillis
+    );
+    return {
+        lastUpdate: admin.firestore.Timestamp.fromMillis(previousMillis + elapsedMilliseconds),
+        elapsedMilliseconds
+    };
+};
+
+/**
+ * Limit a movement to the distance that can be travelled at a speed. Each axis is limited separately because movement
+ * keys move each axis separately.
+ * @param from The stored position.
+ * @param to The requested position.
+ * @param speed The speed in pixels per second.
+ * @param elapsedMilliseconds The movement time since the stored position, including the tolerance.
+ */
+export const limitMovement = (from: IObject, to: IObject, speed: number, elapsedMilliseconds: number): {
+    position: IObject,
+    corrected: boolean
+} => {
+    const maxDistance = speed * elapsedMilliseconds / 1000;
+    const limitAxis = (start: number, end: number) => Math.max(start - maxDistance, Math.min(end, start + maxDistance));
+    const position = {
+        x: limitAxis(from.x, to.x),
+        y: limitAxis(from.y, to.y)
+    };
+    return {
+        position,
+        corrected: position.x !== to.x || position.y !== to.y
+    };
+};
+
+/**
+ * Apply a PUT /persons/data update from a person. Movement that is too fast is limited, movement of things the person
+ * does not control is ignored. Returns the authoritative state of everything that was corrected.
+ * @param personId The person making the update.
+ * @param update The persons, cars and objects sent by the client.
+ */
+export const applyMovementUpdate = async (personId: string, update: IApiPersonsPut): Promise<IApiPersonsPutResponse> => {
+    return await getStorage().runTransaction(async (transaction): Promise<IApiPersonsPutResponse> => {
+        const now = admin.firestore.Timestamp.now();
+        const response: IApiPersonsPutResponse = {
+            persons: [],
+            cars: [],
+            objects: []
+        };
+
+        // get the person making the update
+        const personData = await transaction.collection("persons").get(personId);
+        if (!personData) {
+            return response;
+        }
+        if (personData.deathTime) {
+            // a dead person cannot move until they respawn, return where they died
+            response.persons.push(personWithoutPassword(personData));
+            return response;
+        }
+        const requestedPerson = update.persons.find(p => p.id === personId);
+
+        // get the cars the person is leaving, entering, or has moved
+        const requestedCarId = requestedPerson ? requestedPerson.carId : personData.carId;
+        const carIds = Array.from(new Set([
+            personData.carId,
+            requestedCarId,
+            ...update.cars.map(c => c.id)
+        ].filter((id): id is string => !!id)));
+        const carDocuments = await transaction.collection("personalCars").getAll(carIds);
+        const findCarData = (id: string | null): ICarDatabase | null => {
+            const index = id ? carIds.indexOf(id) : -1;
+            return index >= 0 ? carDocuments[index] : null;
+        };
+
+        // get the objects the client has moved
+        const objectDocuments = await transaction.collection("objects").getAll(update.objects.map(o => o.id));
+
+        // a person can enter a nearby car or leave their current car
+        let carId = personData.carId;
+        let personCorrected = false;
+        if (requestedCarId !== personData.carId) {
+            const requestedCarData = findCarData(requestedCarId);
+            if (!requestedCarId || (requestedCarData && isWithinDistance(requestedCarData, personData, carEntryDistance))) {
+                carId = requestedCarId;
+            } else {
+                personCorrected = true;
+            }
+        }
+        const carData = findCarData(carId);
+
+        // get the passengers of the car, they move with the car
+        const passengerDocuments = carData ?
+            (await transaction.collection("persons").query([where("carId", "==", carId)]))
+                .filter(d => d.id !== personId) :
+            [];
+
+        // move the car the person is in
+        let carDelta: IObject = {x: 0, y: 0};
+        if (carData) {
+            const requestedCar = update.cars.find(c => c.id === carId);
+            if (requestedCar) {
+                const {lastUpdate, elapsedMilliseconds} = getMovementTime(carData.lastUpdate, requestedCar.lastUpdate, now);
+                const {position, corrected} = limitMovement(carData, requestedCar, drivingSpeed, elapsedMilliseconds);
+                carDelta = {
+                    x: position.x - carData.x,
+                    y: position.y - carData.y
+                };
+                const newCarData: Partial<ICarDatabase> = {
+                    ...position,
+                    direction: requestedCar.direction,
+                    path: requestedCar.path || [],
+                    lastUpdate,
+                    cell: getNetworkObjectCellString(position)
+                };
+                transaction.collection("personalCars").merge(carId as string, newCarData);
+                addTombstoneIfCellChanged("personalCars", carData, position, transaction);
+                if (corrected) {
+                    response.cars.push(carDatabaseToClient({...carData, ...newCarData} as ICarDatabase));
+                }
+            }
+        }
+        // cars the person is not in cannot be moved by the person
+        update.cars.filter(c => c.id !== carId).forEach(car => {
+            const otherCarData = findCarData(car.id);
+            if (otherCarData) {
+                response.cars.push(carDatabaseToClient(otherCarData));
+            }
+        });
+
+        // move the person
+        const personPositions: {[id: string]: IObject} = {};
+        if (requestedPerson) {
+            const {lastUpdate, elapsedMilliseconds} = getMovementTime(personData.lastUpdate, requestedPerson.lastUpdate, now);
+            const {position, corrected} = limitMovement(
+                personData,
+                requestedPerson,
+                carData ? drivingSpeed : walkingSpeed,
+                elapsedMilliseconds
+            );
+            const newPersonData: Partial<IPersonDatabase> = {
+                ...position,
+                carId,
+                lastUpdate,
+                cell: getNetworkObjectCellString(position)
+            };
+            transaction.collection("persons").merge(personId, newPersonData);
+            addTombstoneIfCellChanged("persons", personData, position, transaction);
+            personPositions[personId] = position;
+            if (corrected || personCorrected) {
+                response.persons.push(personWithoutPassword({...personData, ...newPersonData}));
+            }
+        } else {
+            personPositions[personId] = personData;
+        }
+
+        // move the passengers with the car
+        for (const passengerDocument of passengerDocuments) {
+            const passengerData = passengerDocument.data;
+            const position = {
+                x: passengerData.x + carDelta.x,
+                y: passengerData.y + carDelta.y
+            };
+            personPositions[passengerDocument.id] = position;
+            if (carDelta.x !== 0 || carDelta.y !== 0) {
+                transaction.collection("persons").merge(passengerDocument.id, {
+                    ...position,
+                    lastUpdate: now,
+                    cell: getNetworkObjectCellString(position)
+                });
+                addTombstoneIfCellChanged("persons", passengerData, position, transaction);
+            }
+        }
+
+        // move objects grabbed by the person or the passengers
+        update.objects.forEach((requestedObject, index) => {
+            const objectData = objectDocuments[index];
+            if (!objectData) {
+                return;
+            }
+
+            // objects inside of an inventory or stockpile are moved with the inventory and stockpile routes
+            if (objectData.isInInventory || objectData.insideStockpile) {
+                response.objects.push(networkObjectDatabaseToClient(objectData));
+                return;
+            }
+
+            // the person can grab a nearby object which is not grabbed, or let go of an object they are grabbing
+            let grabbedByPersonId = objectData.grabbedByPersonId;
+            let corrected = false;
+            if (requestedObject.grabbedByPersonId !== objectData.grabbedByPersonId) {
+                const canGrab = !objectData.grabbedByPersonId && !objectData.grabbedByNpcId &&
+                    requestedObject.grabbedByPersonId === personId &&
+                    isWithinDistance(objectData, personPositions[personId], grabDistance);
+                const canLetGo = objectData.grabbedByPersonId === personId && !requestedObject.grabbedByPersonId;
+                if (canGrab || canLetGo) {
+                    grabbedByPersonId = requestedObject.grabbedByPersonId;
+                } else {
+                    corrected = true;
+                }
+            }
+
+            // the object can only move with the person or passenger grabbing it
+            const grabberPosition = grabbedByPersonId ? personPositions[grabbedByPersonId] : undefined;
+            let position: IObject = {
+                x: objectData.x,
+                y: objectData.y
+            };
+            if (grabberPosition && isWithinDistance(requestedObject, grabberPosition, grabDistance)) {
+                position = {
+                    x: requestedObject.x,
+                    y: requestedObject.y
+                };
+            } else if (requestedObject.x !== objectData.x || requestedObject.y !== objectData.y) {
+                corrected = true;
+            }
+
+            const newObjectData: Partial<INetworkObjectDatabase> = {
+                ...position,
+                grabbedByPersonId,
+                lastUpdate: now,
+                cell: getNetworkObjectCellString(position)
+            };
+            // an object sent back unchanged is not written, so it is not sent again to every syncing client
+            const changed = position.x !== objectData.x || position.y !== objectData.y ||
+                grabbedByPersonId !== objectData.grabbedByPersonId;
+            if (changed) {
+                transaction.collection("objects").merge(requestedObject.id, newObjectData);
+                addTombstoneIfCellChanged("objects", objectData, position, transaction);
+            }
+            if (corrected) {
+                response.objects.push(networkObjectDatabaseToClient({...objectData, ...newObjectData}));
+            }
+        });
+
+        return response;
+    });
+};
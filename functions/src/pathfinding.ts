@@ -6,15 +6,7 @@ import {
     INpc,
     INpcPathPoint
 } from "persons-game-common/lib/types/GameTypes";
-import {
-    ICellLockDatabase,
-    IHouseDatabase,
-    INetworkObjectDatabase,
-    INpcCellTimeDatabase,
-    INpcDatabase,
-    IResourceDatabase,
-    IStockpileDatabase
-} from "./types/database";
+import {INpcCellTimeDatabase, INpcDatabase} from "./types/database";
 import * as admin from "firebase-admin";
 import {applyStateToNetworkObject, CellController} from "persons-game-common/lib/npc";
 import {
@@ -31,6 +23,8 @@ import {
 } from "./common";
 import * as express from "express";
 import {cellSize, getNetworkObjectCellString} from "persons-game-common/lib/cell";
+import {addTombstone} from "./sync";
+import {getStorage, where} from "./storage";
 
 /**
  * Handle pathfinding AI for each NPC.
@@ -192,21 +186,20 @@ const findCellTimesInPath = (npc: INpcDatabase, path: INpcPathPoint[]): INpcCell
  * @param milliseconds The amount of time to animate.
  */
 export const simulateCell = async (cellString: string, milliseconds: number) => {
-    await admin.firestore().runTransaction(async (transaction) => {
-        const cellLockDocument = await transaction.get(admin.firestore().collection("cellLocks").doc(cellString));
-        const houseQuery = await transaction.get(admin.firestore().collection("houses").where("cell", "==", cellString));
-        const objectQuery = await transaction.get(admin.firestore().collection("objects").where("cell", "==", cellString));
-        const resourceQuery = await transaction.get(admin.firestore().collection("resources").where("cell", "==", cellString));
-        const stockpileQuery = await transaction.get(admin.firestore().collection("stockpiles").where("cell", "==", cellString));
-        const npcTimeQuery = await transaction.get(admin.firestore().collection("npcTimes").where("cell", "==", cellString));
-        const expiredNpcTimeIds = npcTimeQuery.docs.filter(doc => {
-            const cellTime = doc.data() as INpcCellTimeDatabase;
+    await getStorage().runTransaction(async (transaction) => {
+        const cellLockData = await transaction.collection("cellLocks").get(cellString);
+        const houseDocuments = await transaction.collection("houses").query([where("cell", "==", cellString)]);
+        const objectDocuments = await transaction.collection("objects").query([where("cell", "==", cellString)]);
+        const resourceDocuments = await transaction.collection("resources").query([where("cell", "==", cellString)]);
+        const stockpileDocuments = await transaction.collection("stockpiles").query([where("cell", "==", cellString)]);
+        const npcTimeDocuments = await transaction.collection("npcTimes").query([where("cell", "==", cellString)]);
+        const expiredNpcTimeIds = npcTimeDocuments.filter(({data: cellTime}) => {
             return +new Date() > cellTime.endTime.toMillis();
-        }).map(doc => doc.id);
+        }).map(({id}) => id);
 
-        const cellLock: ICellLock | null = cellLockDocument.exists ? cellLockDatabaseToClient(cellLockDocument.data() as ICellLockDatabase) : null;
-        const houses = houseQuery.docs.map(doc => houseDatabaseToClient(doc.data() as IHouseDatabase));
-        const allObjects = objectQuery.docs.map(doc => networkObjectDatabaseToClient(doc.data() as INetworkObjectDatabase));
+        const cellLock: ICellLock | null = cellLockData ? cellLockDatabaseToClient(cellLockData) : null;
+        const houses = houseDocuments.map(({data}) => houseDatabaseToClient(data));
+        const allObjects = objectDocuments.map(({data}) => networkObjectDatabaseToClient(data));
         const {objects, objectsThatNoLongerExist} = allObjects.reduce((acc: {
             objects: INetworkObject[],
             objectsThatNoLongerExist: INetworkObject[]
@@ -227,19 +220,22 @@ export const simulateCell = async (cellString: string, milliseconds: number) =>
             objects: [],
             objectsThatNoLongerExist: []
         });
-        const resources = resourceQuery.docs.map(doc => {
-            return resourceDatabaseToClient(doc.data() as IResourceDatabase);
+        const resources = resourceDocuments.map(({data}) => {
+            return resourceDatabaseToClient(data);
         });
-        const stockpiles = stockpileQuery.docs.map(doc => {
-            return stockpileDatabaseToClient(doc.data() as IStockpileDatabase);
+        const stockpiles = stockpileDocuments.map(({data}) => {
+            return stockpileDatabaseToClient(data);
         });
 
         const npcs: INpc[] = [];
         for (const house of houses) {
             const npcId = house.npcId;
-            const doc = await admin.firestore().collection("npcs").doc(npcId).get();
-            if (doc.exists) {
-                npcs.push(npcDatabaseToClient(doc.data() as INpcDatabase));
+            const npcData = await transaction.collection("npcs").get(npcId);
+            if (npcData && npcData.deathTime) {
+                // dead npcs do nothing until they respawn
+                continue;
+            } else if (npcData) {
+                npcs.push(npcDatabaseToClient(npcData));
             } else {
                 const newNpc: INpc = {
                     id: npcId,
@@ -290,43 +286,32 @@ export const simulateCell = async (cellString: string, milliseconds: number) =>
 
         finalState.npcs.forEach((npc: INpc) => {
             const npcDatabase: INpcDatabase = npcClientToDatabase(npc);
-            transaction.set(admin.firestore().collection("npcs").doc(npc.id), npcDatabase, {merge: true});
+            transaction.collection("npcs").merge(npc.id, npcDatabase);
 
             findCellTimesInPath(npcDatabase, npcDatabase.path).forEach(cellTime => {
-                transaction.create(admin.firestore().collection("npcTimes").doc(), cellTime);
+                transaction.collection("npcTimes").add(cellTime);
             });
         });
         finalState.objects.forEach(obj => {
-            transaction.set(
-                admin.firestore().collection("objects").doc(obj.id),
-                networkObjectClientToDatabase(obj),
-                {merge: true}
-            );
+            transaction.collection("objects").merge(obj.id, networkObjectClientToDatabase(obj));
         });
         finalState.resources.forEach(resource => {
-            transaction.set(
-                admin.firestore().collection("resources").doc(resource.id),
-                resourceClientToDatabase(resource),
-                {merge: true}
-            );
+            transaction.collection("resources").merge(resource.id, resourceClientToDatabase(resource));
         });
         finalState.stockpiles.forEach(stockpile => {
-            transaction.set(
-                admin.firestore().collection("stockpiles").doc(stockpile.id),
-                stockpileClientToDatabase(stockpile),
-                {merge: true}
-            );
+            transaction.collection("stockpiles").merge(stockpile.id, stockpileClientToDatabase(stockpile));
         });
         expiredNpcTimeIds.forEach(id => {
-            transaction.delete(admin.firestore().collection("npcTimes").doc(id));
+            transaction.collection("npcTimes").delete(id);
         });
         objectsThatNoLongerExist.forEach(obj => {
-            transaction.delete(admin.firestore().collection("objects").doc(obj.id));
+            transaction.collection("objects").delete(obj.id);
+            addTombstone("objects", obj, transaction);
         });
 
         // remove cell lock to resume npc action
         if (cellLock) {
-            transaction.delete(admin.firestore().collection("cellLocks").doc(cellLock.cell));
+            transaction.collection("cellLocks").delete(cellLock.cell);
         }
     });
 };
@@ -339,16 +324,16 @@ export const handleSetNpcJob = (req: express.Request, res: express.Response, nex
             job
         } = req.body as IApiPersonsNpcJobPost;
 
-        const personDocument = await admin.firestore().collection("persons").doc(personId).get();
-        const npcDocument = await admin.firestore().collection("npcs").doc(npcId).get();
-        const houseQuery = await admin.firestore().collection("houses")
-            .where("npcId", "==", npcId).limit(1).get();
-        if (personDocument.exists && npcDocument.exists && !houseQuery.empty) {
+        const personData = await getStorage().collection("persons").get(personId);
+        const npcData = await getStorage().collection("npcs").get(npcId);
+        const houseDocuments = await getStorage().collection("houses")
+            .query([where("npcId", "==", npcId)], {limit: 1});
+        if (personData && npcData && houseDocuments.length > 0) {
             // objects exist in database
-            const houseDatabase = houseQuery.docs[0].data() as IHouseDatabase;
+            const houseDatabase = houseDocuments[0].data;
             if (houseDatabase.ownerType === EOwnerType.PERSON && houseDatabase.ownerId === personId) {
                 // person has permission to edit npc
-                await npcDocument.ref.set({job}, {merge: true});
+                await getStorage().collection("npcs").merge(npcId, {job});
             } else {
                 throw new Error("Person does not have permission to edit the npc");
             }
@@ -0,0 +1,233 @@
+import * as admin from "firebase-admin";
+import * as express from "express";
+import {
+    ELotZone,
+    ELotZoneIndustrialType,
+    ENetworkObjectType,
+    ICraftingRecipeItem,
+    ILot,
+    IStockpile
+} from "persons-game-common/lib/types/GameTypes";
+import {InventoryController} from "persons-game-common/lib/inventory";
+import {ILotDatabase, ILotProductionDatabase, IStockpileDatabase} from "./types/database";
+import {EApiErrorCode, IApiLotProduction, IApiLotsIndustryPost} from "./types/api";
+import {ApiError} from "./errors";
+import {industryRecipes, lotProductionRunsPerTile} from "./config";
+import {networkObjectClientToDatabase, stockpileClientToDatabase, stockpileDatabaseToClient} from "./common";
+import {getStorage, IStorageTransaction, where} from "./storage";
+
+/**
+ * Production of industrial lots. The owner of an industrial lot gives it a specialization such as forestry or
+ * manufacturing. On each lot production tick the lot crafts the recipes of its specialization in the stockpile on the
+ * lot, taking the inputs out of the stockpile and depositing the outputs back into it. The owner is shown what the lot
+ * produced and which inputs it ran short of.
+ */
+
+/**
+ * The area of a city tile, the production rate grows with each city tile of the lot.
+ */
+const lotTileArea = 500 * 300;
+
+/**
+ * How many times a lot crafts each of its recipes on a lot production tick.
+ * @param lot The industrial lot.
+ */
+export const getLotProductionRate = (lot: Pick<ILot, "width" | "height">): number => {
+    return Math.max(1, Math.floor(lot.width * lot.height / lotTileArea)) * lotProductionRunsPerTile;
+};
+
+/**
+ * Convert the production of a lot from the database into the API format.
+ * @param production The production to convert.
+ */
+const lotProductionDatabaseToClient = (production: ILotProductionDatabase): IApiLotProduction => ({
+    lotId: production.lotId,
+    industryType: production.industryType,
+    stockpileId: production.stockpileId,
+    rate: production.rate,
+    produced: production.produced,
+    shortages: production.shortages,
+    isStockpileFull: production.isStockpileFull,
+    updatedAt: production.updatedAt.toDate().toISOString()
+});
+
+/**
+ * Get the production of every lot of a person.
+ * @param personId The owner of the lots.
+ */
+export const getLotProductionsOfPerson = async (personId: string): Promise<IApiLotProduction[]> => {
+    const productions = await getStorage().collection("lotProductions").query([where("ownerId", "==", personId)]);
+    return productions.map(({data}) => lotProductionDatabaseToClient(data));
+};
+
+/**
+ * Add a quantity of an item to a list of items, combining it with the same item.
+ * @param items The list of items.
+ * @param item The item to add.
+ * @param quantity The quantity to add.
+ */
+const addRecipeItem = (items: ICraftingRecipeItem[], item: ENetworkObjectType, quantity: number) => {
+    const existingItem = items.find(i => i.item === item);
+    if (existingItem) {
+        existingItem.quantity += quantity;
+    } else {
+        items.push({item, quantity});
+    }
+};
+
+/**
+ * Find the stockpile of a lot, the stockpile with the lowest id inside of the lot.
+ * @param transaction The production transaction.
+ * @param lot The lot to find the stockpile of.
+ */
+const findLotStockpile = async (transaction: IStorageTransaction, lot: ILotDatabase): Promise<IStockpileDatabase | null> => {
+    const stockpiles = await transaction.collection("stockpiles").query([where("cell", "in", lot.cells)]);
+    const lotStockpiles = stockpiles.map(({data}) => data).filter(stockpile => {
+        return stockpile.x >= lot.x && stockpile.x < lot.x + lot.width &&
+            stockpile.y >= lot.y && stockpile.y < lot.y + lot.height;
+    }).sort((a, b) => a.id.localeCompare(b.id));
+    return lotStockpiles[0] || null;
+};
+
+/**
+ * Craft the recipes of a lot in its stockpile and save the production for the owner.
+ * @param lotId The industrial lot.
+ */
+const performLotProductionOnLot = async (lotId: string) => {
+    await getStorage().runTransaction(async (transaction) => {
+        const lot = await transaction.collection("lots").get(lotId);
+        if (!lot || !lot.owner || lot.zone !== ELotZone.INDUSTRIAL || !lot.industryType) {
+            // the lot was sold or stopped producing since the tick started
+            return;
+        }
+        const stockpileData = await findLotStockpile(transaction, lot);
+        const rate = getLotProductionRate(lot);
+        const produced: ICraftingRecipeItem[] = [];
+        const shortages: ICraftingRecipeItem[] = [];
+        let isStockpileFull = false;
+
+        if (stockpileData) {
+            const stockpile = stockpileDatabaseToClient(stockpileData);
+            const controller = new InventoryController(stockpile);
+            const getQuantity = (item: ENetworkObjectType) => controller.getInventory().slots
+                .filter(slot => slot.objectType === item)
+                .reduce((sum, slot) => sum + slot.amount, 0);
+
+            // craft each recipe until the rate is reached or the stockpile runs out of inputs
+            for (const recipe of industryRecipes[lot.industryType]) {
+                for (let run = 0; run < rate; run++) {
+                    if (recipe.items.some(({item, quantity}) => getQuantity(item) < quantity)) {
+                        // report the inputs missing for the remaining runs
+                        recipe.items.forEach(({item, quantity}) => {
+                            const missingQuantity = quantity * (rate - run) - getQuantity(item);
+                            if (missingQuantity > 0) {
+                                addRecipeItem(shortages, item, missingQuantity);
+                            }
+                        });
+                        break;
+                    }
+                    try {
+                        controller.craftItem(recipe);
+                    } catch (err) {
+                        // no room for the output
+                        isStockpileFull = true;
+                        break;
+                    }
+                    addRecipeItem(produced, recipe.product, recipe.amount);
+                }
+            }
+
+            // deposit the outputs, remove the used up inputs
+            if (produced.length > 0) {
+                const newStockpile: IStockpile = {
+                    ...stockpile,
+                    ...controller.getState(),
+                    lastUpdate: new Date().toISOString()
+                };
+                transaction.collection("stockpiles").merge(stockpile.id, stockpileClientToDatabase(newStockpile));
+                newStockpile.inventory.slots.forEach(slot => {
+                    transaction.collection("objects").merge(slot.id, networkObjectClientToDatabase(slot));
+                });
+                stockpile.inventory.slots.filter(slot => !newStockpile.inventory.slots.some(s => s.id === slot.id))
+                    .forEach(slot => {
+                        transaction.collection("objects").delete(slot.id);
+                    });
+            }
+        }
+
+        const production: ILotProductionDatabase = {
+            lotId,
+            ownerId: lot.owner,
+            industryType: lot.industryType,
+            stockpileId: stockpileData ? stockpileData.id : null,
+            rate,
+            produced,
+            shortages,
+            isStockpileFull,
+            updatedAt: admin.firestore.Timestamp.now()
+        };
+        transaction.collection("lotProductions").set(lotId, production);
+    });
+};
+
+/**
+ * Run the production of every owned industrial lot with a specialization and remove the production of lots which
+ * stopped producing.
+ */
+export const performLotProductionTick = async () => {
+    const lots = await getStorage().collection("lots").query([where("zone", "==", ELotZone.INDUSTRIAL)]);
+    const producingLotIds = lots.filter(({data}) => !!data.owner && !!data.industryType).map(({id}) => id);
+    for (const lotId of producingLotIds) {
+        await performLotProductionOnLot(lotId);
+    }
+
+    const productions = await getStorage().collection("lotProductions").query([]);
+    for (const {id} of productions) {
+        if (!producingLotIds.includes(id)) {
+            await getStorage().collection("lotProductions").delete(id);
+        }
+    }
+};
+
+/**
+ * Handle POST /lots/industry. The owner of an industrial lot chooses what the lot produces, or stops the production.
+ * @param req
+ * @param res
+ * @param next
+ */
+export const handleLotIndustry = (req: express.Request, res: express.Response, next: express.NextFunction) => {
+    (async () => {
+        const {lotId, industryType} = req.body as IApiLotsIndustryPost;
+        if (typeof lotId !== "string" ||
+            (industryType !== null && !Object.values(ELotZoneIndustrialType).includes(industryType))) {
+            throw new ApiError(400, EApiErrorCode.INVALID_REQUEST, "Require a lotId and an industry type or null");
+        }
+        const ownerId: string = res.locals.personId;
+
+        await getStorage().runTransaction(async (transaction) => {
+            const lot = await transaction.collection("lots").get(lotId);
+            if (!lot) {
+                throw new ApiError(404, EApiErrorCode.NOT_FOUND, `Lot ${lotId} does not exist`);
+            }
+            if (lot.owner !== ownerId) {
+                throw new ApiError(403, EApiErrorCode.FORBIDDEN, "Only the owner of the lot can choose its industry");
+            }
+            if (lot.zone !== ELotZone.INDUSTRIAL) {
+                throw new ApiError(422, EApiErrorCode.ZONING_VIOLATION,
+                    `Only industrial lots have an industry, lot ${lotId} is ${lot.zone.toLowerCase()}`);
+            }
+
+            const lotData: Partial<ILotDatabase> = {
+                industryType,
+                lastUpdate: admin.firestore.Timestamp.now()
+            };
+            transaction.collection("lots").merge(lotId, lotData);
+            if (industryType !== lot.industryType) {
+                // the production of the previous industry no longer applies
+                transaction.collection("lotProductions").delete(lotId);
+            }
+        });
+
+        res.sendStatus(200);
+    })().catch((err) => next(err));
+};
@@ -0,0 +1,349 @@
+import * as express from "express";
+import {ERoadDirection, IObject, IRoad} from "persons-game-common/lib/types/GameTypes";
+import {EApiErrorCode, ERouteTurn, IApiPersonsRouteResponse, IApiRouteStep} from "./types/api";
+import {ApiError} from "./errors";
+import {cityMapId} from "./city";
+import {getStorage} from "./storage";
+
+/**
+ * The road network of the city. Each road tile is a node of the graph and the connected sides of a road are the edges
+ * to the neighboring road tiles. The graph is built once for each generated city. Routes between two world points snap
+ * both points to the nearest road and use A* over the graph, then the path is turned into turn by turn directions for
+ * drivers and the map.
+ */
+
+/**
+ * The size of a road tile.
+ */
+const roadTileSize = {width: 500, height: 300};
+
+/**
+ * A road tile in the road graph.
+ */
+export interface IRoadGraphNode {
+    road: IRoad;
+    /**
+     * The center of the road tile, where routes pass through.
+     */
+    center: IObject;
+    /**
+     * The keys of the connected road tiles.
+     */
+    neighbors: string[];
+}
+
+/**
+ * The road graph, the road tiles by the key of their position.
+ */
+export type TRoadGraph = Map<string, IRoadGraphNode>;
+
+/**
+ * A route along the road graph.
+ */
+export interface IRoadRoute {
+    /**
+     * The road tiles from the start to the end.
+     */
+    nodes: IRoadGraphNode[];
+    /**
+     * The length of the route in pixels, from the first to the last road tile.
+     */
+    distance: number;
+}
+
+/**
+ * The key of a road tile position in the road graph.
+ * @param position The top left corner of the road tile.
+ */
+const getRoadKey = ({x, y}: IObject): string => `${Math.round(x)},${Math.round(y)}`;
+
+/**
+ * The distance between two points.
+ * @param a The first point.
+ * @param b The second point.
+ */
+const getDistance = (a: IObject, b: IObject): number => Math.hypot(a.x - b.x, a.y - b.y);
+
+/**
+ * Build the road graph from the roads and their connected sides. A side only connects if the neighboring road exists.
+ * @param roads The roads of the city.
+ */
+export const buildRoadGraph = (roads: IRoad[]): TRoadGraph => {
+    const graph: TRoadGraph = new Map();
+    for (const road of roads) {
+        graph.set(getRoadKey(road), {
+            road,
+            center: {
+                x: road.x + roadTileSize.width / 2,
+                y: road.y + roadTileSize.height / 2
+            },
+            neighbors: []
+        });
+    }
+
+    graph.forEach(node => {
+        const {x, y, connected} = node.road;
+        const sides: Array<{isConnected: boolean, position: IObject}> = [
+            {isConnected: connected.up, position: {x, y: y - roadTileSize.height}},
+            {isConnected: connected.down, position: {x, y: y + roadTileSize.height}},
+            {isConnected: connected.left, position: {x: x - roadTileSize.width, y}},
+            {isConnected: connected.right, position: {x: x + roadTileSize.width, y}}
+        ];
+        node.neighbors = sides.filter(({isConnected, position}) => isConnected && graph.has(getRoadKey(position)))
+            .map(({position}) => getRoadKey(position));
+    });
+    return graph;
+};
+
+/**
+ * The road graph of the generated city and the creation time of the city map it was built for.
+ */
+let cachedRoadGraph: {cityMapCreatedAt: number, graph: TRoadGraph} | null = null;
+
+/**
+ * Get the road graph of the generated city. The roads only change when a city is generated or imported, which writes a
+ * new city map, so the graph is built once for each city map.
+ */
+const getRoadGraph = async (): Promise<TRoadGraph> => {
+    const cityMap = await getStorage().collection("cityMaps").get(cityMapId);
+    const cityMapCreatedAt = cityMap ? cityMap.createdAt.toMillis() : null;
+    if (cachedRoadGraph && cachedRoadGraph.cityMapCreatedAt === cityMapCreatedAt) {
+        return cachedRoadGraph.graph;
+    }
+
+    const roads = await getStorage().collection("roads").query([]);
+    const graph = buildRoadGraph(roads.map(({data}) => data));
+    // roads without a city map are not cached, there is no version to tell when they change
+    cachedRoadGraph = cityMapCreatedAt === null ? null : {cityMapCreatedAt, graph};
+    return graph;
+};
+
+/**
+ * Find the road tile nearest to a world point.
+ * @param graph The road graph.
+ * @param point The world point to snap to a road.
+ * @return The nearest road tile, null if there are no roads.
+ */
+export const findNearestRoad = (graph: TRoadGraph, point: IObject): IRoadGraphNode | null => {
+    let nearest: IRoadGraphNode | null = null;
+    graph.forEach(node => {
+        if (!nearest || getDistance(node.center, point) < getDistance(nearest.center, point)) {
+            nearest = node;
+        }
+    });
+    return nearest;
+};
+
+/**
+ * An open road tile of A* with the estimated length of the route through it.
+ */
+interface IOpenRoad {
+    key: string;
+    estimate: number;
+}
+
+/**
+ * Add an open road tile to a binary min heap ordered by the estimate.
+ * @param heap The heap of open road tiles.
+ * @param item The open road tile to add.
+ */
+const pushOpenRoad = (heap: IOpenRoad[], item: IOpenRoad) => {
+    heap.push(item);
+    let index = heap.length - 1;
+    while (index > 0) {
+        const parentIndex = Math.floor((index - 1) / 2);
+        if (heap[parentIndex].estimate <= heap[index].estimate) {
+            break;
+        }
+        [heap[parentIndex], heap[index]] = [heap[index], heap[parentIndex]];
+        index = parentIndex;
+    }
+};
+
+/**
+ * Remove the open road tile with the lowest estimate from a binary min heap.
+ * @param heap The heap of open road tiles.
+ */
+const popOpenRoad = (heap: IOpenRoad[]): IOpenRoad | undefined => {
+    const top = heap[0];
+    const last = heap.pop();
+    if (heap.length > 0 && last) {
+        heap[0] = last;
+        let index = 0;
+        while (true) {
+            const leftIndex = index * 2 + 1;
+            const rightIndex = leftIndex + 1;
+            let smallestIndex = index;
+            if (leftIndex < heap.length && heap[leftIndex].estimate < heap[smallestIndex].estimate) {
+                smallestIndex = leftIndex;
+            }
+            if (rightIndex < heap.length && heap[rightIndex].estimate < heap[smallestIndex].estimate) {
+                smallestIndex = rightIndex;
+            }
+            if (smallestIndex === index) {
+                break;
+            }
+            [heap[smallestIndex], heap[index]] = [heap[index], heap[smallestIndex]];
+            index = smallestIndex;
+        }
+    }
+    return top;
+};
+
+/**
+ * Find the shortest route between two road tiles with A*, using the straight line distance as the estimate.
+ * @param graph The road graph.
+ * @param start The road tile to start from.
+ * @param end The road tile to arrive at.
+ * @return The route, null if the road tiles are not connected.
+ */
+export const findRoadRoute = (graph: TRoadGraph, start: IRoadGraphNode, end: IRoadGraphNode): IRoadRoute | null => {
+    const startKey = getRoadKey(start.road);
+    const endKey = getRoadKey(end.road);
+    const distances = new Map<string, number>([[startKey, 0]]);
+    const previousKeys = new Map<string, string>();
+    // a road tile can be in the heap more than once, the entries after the first one which is expanded are skipped
+    const openRoads: IOpenRoad[] = [{key: startKey, estimate: getDistance(start.center, end.center)}];
+    const closedKeys = new Set<string>();
+
+    while (openRoads.length > 0) {
+        // expand the open road tile with the lowest estimate
+        const {key: currentKey} = popOpenRoad(openRoads) as IOpenRoad;
+        if (closedKeys.has(currentKey)) {
+            continue;
+        }
+        const current = graph.get(currentKey) as IRoadGraphNode;
+        if (currentKey === endKey) {
+            // walk back from the end to the start
+            const nodes: IRoadGraphNode[] = [current];
+            for (let key = previousKeys.get(currentKey); key !== undefined; key = previousKeys.get(key)) {
+                nodes.unshift(graph.get(key) as IRoadGraphNode);
+            }
+            return {
+                nodes,
+                distance: distances.get(currentKey) as number
+            };
+        }
+        closedKeys.add(currentKey);
+
+        for (const neighborKey of current.neighbors) {
+            if (closedKeys.has(neighborKey)) {
+                continue;
+            }
+            const neighbor = graph.get(neighborKey) as IRoadGraphNode;
+            const distance = (distances.get(currentKey) as number) + getDistance(current.center, neighbor.center);
+            const previousDistance = distances.get(neighborKey);
+            if (previousDistance === undefined || distance < previousDistance) {
+                distances.set(neighborKey, distance);
+                previousKeys.set(neighborKey, currentKey);
+                pushOpenRoad(openRoads, {key: neighborKey, estimate: distance + getDistance(neighbor.center, end.center)});
+            }
+        }
+    }
+    return null;
+};
+
+/**
+ * The heading when driving from one road tile to the next.
+ * @param from The road tile to drive from.
+ * @param to The next road tile.
+ */
+const getHeading = (from: IRoadGraphNode, to: IRoadGraphNode): ERoadDirection => {
+    if (to.center.x > from.center.x) {
+        return ERoadDirection.EAST;
+    } else if (to.center.x < from.center.x) {
+        return ERoadDirection.WEST;
+    } else if (to.center.y > from.center.y) {
+        return ERoadDirection.SOUTH;
+    } else {
+        return ERoadDirection.NORTH;
+    }
+};
+
+/**
+ * The headings in clockwise order, used to tell left from right turns.
+ */
+const clockwiseHeadings = [ERoadDirection.NORTH, ERoadDirection.EAST, ERoadDirection.SOUTH, ERoadDirection.WEST];
+
+/**
+ * Turn a route into turn by turn directions. A step is added where the route starts, at each turn and where it arrives.
+ * The distance of a step is how far to drive until the next step.
+ * @param route The route to describe.
+ */
+export const getRouteSteps = ({nodes}: IRoadRoute): IApiRouteStep[] => {
+    const first = nodes[0];
+    const last = nodes[nodes.length - 1];
+    const steps: IApiRouteStep[] = [{
+        turn: ERouteTurn.DEPART,
+        heading: nodes.length > 1 ? getHeading(first, nodes[1]) : null,
+        location: first.center,
+        roadId: first.road.id,
+        distance: 0
+    }];
+    for (let i = 1; i < nodes.length; i++) {
+        const step = steps[steps.length - 1];
+        step.distance += getDistance(nodes[i - 1].center, nodes[i].center);
+        if (i === nodes.length - 1) {
+            break;
+        }
+
+        // add a step when the heading changes, shortest routes never turn back
+        const heading = getHeading(nodes[i], nodes[i + 1]);
+        if (heading !== step.heading) {
+            const turns = (clockwiseHeadings.indexOf(heading) - clockwiseHeadings.indexOf(step.heading as ERoadDirection) + 4) % 4;
+            steps.push({
+                turn: turns === 1 ? ERouteTurn.RIGHT : ERouteTurn.LEFT,
+                heading,
+                location: nodes[i].center,
+                roadId: nodes[i].road.id,
+                distance: 0
+            });
+        }
+    }
+    steps.push({
+        turn: ERouteTurn.ARRIVE,
+        heading: null,
+        location: last.center,
+        roadId: last.road.id,
+        distance: 0
+    });
+    return steps;
+};
+
+/**
+ * Handle GET /persons/route. Plan a route along the roads between two world points, given by the fromX, fromY, toX and
+ * toY query parameters. Both points snap to their nearest road.
+ * @param req
+ * @param res
+ * @param next
+ */
+export const handleRoadRoute = (req: express.Request, res: express.Response, next: express.NextFunction) => {
+    (async () => {
+        const {fromX, fromY, toX, toY} = req.query as {fromX?: string, fromY?: string, toX?: string, toY?: string};
+        const [from, to] = [[fromX, fromY], [toX, toY]].map(([x, y]): IObject => ({
+            x: x === undefined || x === "" ? NaN : Number(x),
+            y: y === undefined || y === "" ? NaN : Number(y)
+        }));
+        if (![from.x, from.y, to.x, to.y].every(isFinite)) {
+            throw new ApiError(400, EApiErrorCode.INVALID_REQUEST, "Require numeric fromX, fromY, toX and toY");
+        }
+
+        const graph = await getRoadGraph();
+        const start = findNearestRoad(graph, from);
+        const end = findNearestRoad(graph, to);
+        if (!start || !end) {
+            throw new ApiError(404, EApiErrorCode.NOT_FOUND, "There are no roads");
+        }
+        const route = findRoadRoute(graph, start, end);
+        if (!route) {
+            throw new ApiError(404, EApiErrorCode.NOT_FOUND, "The roads near the two points are not connected");
+        }
+
+        const response: IApiPersonsRouteResponse = {
+            distance: route.distance,
+            path: [from, ...route.nodes.map(node => node.center), to],
+            steps: getRouteSteps(route)
+        };
+        res.json(response);
+    })().catch((err) => next(err));
+};
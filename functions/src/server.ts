@@ -0,0 +1,28 @@
+/**
+ * A plain Node server which serves the same HTTP functions as Firebase. Cloud Functions buffer HTTP responses, use this
+ * server to push GET /persons/stream in realtime or to run the API offline. Start it with "npm run server". Set
+ * GCLOUD_PROJECT and FIRESTORE_EMULATOR_HOST to use the Firestore emulator instead of the real database, or set
+ * STORAGE=memory to keep the whole world in memory without any database.
+ */
+import * as express from "express";
+import {cars, generate, lots, persons, users} from "./index";
+import {serverPort} from "./config";
+import {createMemoryStorage, setStorage} from "./storage";
+
+if (process.env.STORAGE === "memory") {
+    // the world only lasts as long as the process
+    setStorage(createMemoryStorage());
+}
+
+const app = express();
+
+// mount each function at the same path as the Firebase function url
+app.use("/users", users);
+app.use("/cars", cars);
+app.use("/persons", persons);
+app.use("/generate", generate);
+app.use("/lots", lots);
+
+app.listen(serverPort, () => {
+    console.log(`Persons server listening on http://localhost:${serverPort}`);
+});
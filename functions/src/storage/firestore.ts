@@ -0,0 +1,308 @@
+import * as admin from "firebase-admin";
+import {
+    IDocumentChange,
+    IQueryFilter,
+    IQueryOptions,
+    IQueryOrder,
+    IRepository,
+    IRepositoryWriter,
+    IStorage,
+    IStorageBatch,
+    IStorageCollections,
+    IStorageTransaction,
+    IStoredDocument,
+    ITransactionRepository,
+    TCollectionName
+} from "./types";
+
+/**
+ * The Firestore implementation of the storage layer.
+ */
+
+/**
+ * The most values Firestore allows in an "in" or "array-contains-any" filter.
+ */
+const maxDisjunctionValues = 10;
+
+/**
+ * Split a query with a long "in" or "array-contains-any" filter into queries which Firestore accepts. Firestore allows
+ * one such filter per query, its values are split into chunks of the largest allowed size. An empty list of values
+ * matches nothing so it returns no queries.
+ * @param filters The filters of the query.
+ * @return The filters of each chunk.
+ */
+const chunkFilters = (filters: IQueryFilter[]): IQueryFilter[][] => {
+    const index = filters.findIndex(({operator}) => operator === "in" || operator === "array-contains-any");
+    if (index < 0) {
+        return [filters];
+    }
+
+    const {value} = filters[index];
+    const values: unknown[] = Array.isArray(value) ? value : [value];
+    const chunks: IQueryFilter[][] = [];
+    for (let i = 0; i < values.length; i += maxDisjunctionValues) {
+        chunks.push(filters.map((filter, filterIndex) => filterIndex === index ?
+            {...filter, value: values.slice(i, i + maxDisjunctionValues)} :
+            filter
+        ));
+    }
+    return chunks;
+};
+
+/**
+ * Compare two documents by the order of a query, the same way Firestore sorts them.
+ * @param orderBy The order of the query.
+ */
+const compareByOrder = <T>({field, direction}: IQueryOrder) => (a: IStoredDocument<T>, b: IStoredDocument<T>): number => {
+    const comparable = (value: any) => value instanceof admin.firestore.Timestamp ? value.toMillis() : value;
+    const valueA = comparable((a.data as any)[field]);
+    const valueB = comparable((b.data as any)[field]);
+    const result = valueA < valueB ? -1 : valueA > valueB ? 1 : a.id < b.id ? -1 : a.id > b.id ? 1 : 0;
+    return direction === "desc" ? -result : result;
+};
+
+/**
+ * Merge the results of chunked queries, removing documents which matched more than one chunk.
+ * @param results The documents of each chunk.
+ * @param limit The limit of the whole query.
+ * @param orderBy The order of the whole query, each chunk is sorted on its own.
+ */
+const mergeChunks = <T>(
+    results: Array<Array<IStoredDocument<T>>>,
+    {limit, orderBy}: IQueryOptions = {}
+): Array<IStoredDocument<T>> => {
+    const ids = new Set<string>();
+    const documents: Array<IStoredDocument<T>> = [];
+    for (const result of results) {
+        for (const document of result) {
+            if (!ids.has(document.id)) {
+                ids.add(document.id);
+                documents.push(document);
+            }
+        }
+    }
+    if (orderBy && results.length > 1) {
+        documents.sort(compareByOrder(orderBy));
+    }
+    return typeof limit === "number" ? documents.slice(0, limit) : documents;
+};
+
+/**
+ * Build a Firestore query from filters.
+ * @param collection The collection to query.
+ * @param filters The filters of the query.
+ * @param options The limit, order and start of the query.
+ */
+const buildQuery = (
+    collection: admin.firestore.CollectionReference,
+    filters: IQueryFilter[],
+    {limit, orderBy, startAfter}: IQueryOptions = {}
+): admin.firestore.Query => {
+    let query: admin.firestore.Query = filters.reduce((q: admin.firestore.Query, {field, operator, value}) => {
+        return q.where(field, operator, value);
+    }, collection);
+    if (orderBy) {
+        // break ties by id so paging never skips documents with the same value
+        query = query.orderBy(orderBy.field, orderBy.direction)
+            .orderBy(admin.firestore.FieldPath.documentId(), orderBy.direction);
+        if (startAfter) {
+            query = query.startAfter(startAfter.value, startAfter.id);
+        }
+    }
+    if (typeof limit === "number") {
+        query = query.limit(limit);
+    }
+    return query;
+};
+
+/**
+ * Convert Firestore documents into stored documents.
+ * @param documents The Firestore documents.
+ */
+const toStoredDocuments = <T>(documents: admin.firestore.QueryDocumentSnapshot[]): Array<IStoredDocument<T>> => {
+    return documents.map(document => ({
+        id: document.id,
+        data: document.data() as T
+    }));
+};
+
+/**
+ * Convert a document snapshot into its data, null if it does not exist.
+ * @param document The Firestore document.
+ */
+const toData = <T>(document: admin.firestore.DocumentSnapshot): T | null => {
+    return document.exists ? document.data() as T : null;
+};
+
+/**
+ * The write methods shared by a Firestore transaction and write batch.
+ */
+interface IFirestoreWriter {
+    set(documentRef: admin.firestore.DocumentReference, data: admin.firestore.DocumentData, options?: {merge: boolean}): unknown;
+    create(documentRef: admin.firestore.DocumentReference, data: admin.firestore.DocumentData): unknown;
+    delete(documentRef: admin.firestore.DocumentReference): unknown;
+}
+
+/**
+ * Write documents with a Firestore transaction or write batch.
+ * @param collection The collection to write.
+ * @param writer The transaction or write batch.
+ */
+const createFirestoreWriter = <T>(
+    collection: admin.firestore.CollectionReference,
+    writer: IFirestoreWriter
+): IRepositoryWriter<T> => ({
+    set(id: string, data: T) {
+        writer.set(collection.doc(id), data);
+    },
+    merge(id: string, data: Partial<T>) {
+        writer.set(collection.doc(id), data, {merge: true});
+    },
+    create(id: string, data: T) {
+        writer.create(collection.doc(id), data);
+    },
+    add(data: T): string {
+        const documentReference = collection.doc();
+        writer.set(documentReference, data);
+        return documentReference.id;
+    },
+    delete(id: string) {
+        writer.delete(collection.doc(id));
+    }
+});
+
+/**
+ * Create a repository of a Firestore collection.
+ * @param collection The collection of the repository.
+ */
+const createFirestoreRepository = <T>(collection: admin.firestore.CollectionReference): IRepository<T> => ({
+    async get(id: string) {
+        return toData<T>(await collection.doc(id).get());
+    },
+    async getAll(ids: string[]) {
+        if (ids.length === 0) {
+            return [];
+        }
+        const documents = await collection.firestore.getAll(...ids.map(id => collection.doc(id)));
+        return documents.map(document => toData<T>(document));
+    },
+    async query(filters: IQueryFilter[], options?: IQueryOptions) {
+        const results = await Promise.all(chunkFilters(filters).map(async (chunk) => {
+            return toStoredDocuments<T>((await buildQuery(collection, chunk, options).get()).docs);
+        }));
+        return mergeChunks(results, options);
+    },
+    async set(id: string, data: T) {
+        await collection.doc(id).set(data);
+    },
+    async merge(id: string, data: Partial<T>) {
+        await collection.doc(id).set(data, {merge: true});
+    },
+    async create(id: string, data: T) {
+        await collection.doc(id).create(data);
+    },
+    async add(data: T) {
+        return (await collection.add(data)).id;
+    },
+    async delete(id: string) {
+        await collection.doc(id).delete();
+    },
+    listen(filters, onChange, onError) {
+        // each chunk is a separate listener, the full result is the latest result of every chunk
+        const chunks = chunkFilters(filters);
+        const chunkResults: Array<Array<IStoredDocument<T>> | null> = chunks.map(() => null);
+        // the first call waits for every chunk so it contains every matching document
+        let firstChanges: Array<IDocumentChange<T>> | null = [];
+        let failed = false;
+        const unsubscribes = chunks.map((chunk, chunkIndex) => {
+            return buildQuery(collection, chunk).onSnapshot((querySnapshot) => {
+                chunkResults[chunkIndex] = toStoredDocuments<T>(querySnapshot.docs);
+                const documents = mergeChunks(chunkResults.map(result => result || []));
+                const changes = querySnapshot.docChanges().map((change): IDocumentChange<T> => ({
+                    type: change.type,
+                    id: change.doc.id,
+                    data: change.doc.data() as T
+                })).filter(change => {
+                    // a document which moved into another chunk was not removed from the whole result
+                    return change.type !== "removed" || !documents.some(({id}) => id === change.id);
+                });
+
+                if (firstChanges) {
+                    firstChanges.push(...changes);
+                    if (chunkResults.every(result => result !== null)) {
+                        const allChanges = firstChanges;
+                        firstChanges = null;
+                        onChange(allChanges, documents);
+                    }
+                } else {
+                    onChange(changes, documents);
+                }
+            }, (err) => {
+                if (!failed) {
+                    failed = true;
+                    onError(err);
+                }
+            });
+        });
+        return () => unsubscribes.forEach(unsubscribe => unsubscribe());
+    }
+});
+
+/**
+ * Create a repository of a Firestore collection inside of a transaction.
+ * @param collection The collection of the repository.
+ * @param transaction The Firestore transaction.
+ */
+const createFirestoreTransactionRepository = <T>(
+    collection: admin.firestore.CollectionReference,
+    transaction: admin.firestore.Transaction
+): ITransactionRepository<T> => ({
+    ...createFirestoreWriter<T>(collection, transaction),
+    async get(id: string) {
+        return toData<T>(await transaction.get(collection.doc(id)));
+    },
+    async getAll(ids: string[]) {
+        if (ids.length === 0) {
+            return [];
+        }
+        const documents = await transaction.getAll(...ids.map(id => collection.doc(id)));
+        return documents.map(document => toData<T>(document as admin.firestore.DocumentSnapshot));
+    },
+    async query(filters: IQueryFilter[], options?: IQueryOptions) {
+        const results = await Promise.all(chunkFilters(filters).map(async (chunk) => {
+            return toStoredDocuments<T>((await transaction.get(buildQuery(collection, chunk, options))).docs);
+        }));
+        return mergeChunks(results, options);
+    }
+});
+
+/**
+ * Create a storage which uses Firestore.
+ * @param firestore The Firestore instance, defaults to the Firestore of the initialized firebase app.
+ */
+export const createFirestoreStorage = (firestore: admin.firestore.Firestore = admin.firestore()): IStorage => ({
+    collection<K extends TCollectionName>(collectionName: K) {
+        return createFirestoreRepository<IStorageCollections[K]>(firestore.collection(collectionName));
+    },
+    runTransaction<R>(updateFunction: (transaction: IStorageTransaction) => Promise<R>) {
+        return firestore.runTransaction((transaction) => updateFunction({
+            collection<K extends TCollectionName>(collectionName: K) {
+                return createFirestoreTransactionRepository<IStorageCollections[K]>(
+                    firestore.collection(collectionName),
+                    transaction
+                );
+            }
+        }));
+    },
+    batch(): IStorageBatch {
+        const writeBatch = firestore.batch();
+        return {
+            collection<K extends TCollectionName>(collectionName: K) {
+                return createFirestoreWriter<IStorageCollections[K]>(firestore.collection(collectionName), writeBatch);
+            },
+            async commit() {
+                await writeBatch.commit();
+            }
+        };
+    }
+});
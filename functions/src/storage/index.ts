@@ -0,0 +1,29 @@
+import {IStorage} from "./types";
+import {createFirestoreStorage} from "./firestore";
+
+export * from "./types";
+export {createFirestoreStorage} from "./firestore";
+export {createMemoryStorage} from "./memory";
+
+/**
+ * The storage used by the request handlers. Firestore is used unless another storage is set.
+ */
+let currentStorage: IStorage | null = null;
+
+/**
+ * Get the storage used by the request handlers.
+ */
+export const getStorage = (): IStorage => {
+    if (!currentStorage) {
+        currentStorage = createFirestoreStorage();
+    }
+    return currentStorage;
+};
+
+/**
+ * Replace the storage used by the request handlers, for example with a memory storage in tests or the dev server.
+ * @param storage The storage to use.
+ */
+export const setStorage = (storage: IStorage) => {
+    currentStorage = storage;
+};
@@ -0,0 +1,247 @@
+import * as admin from "firebase-admin";
+import {createMemoryStorage, getStorage, IQueryFilter, IQueryOptions, IRepository, IStorage, setStorage, where} from "./index";
+import {callHandler} from "../testUtils";
+import {handleLogin} from "../authentication";
+
+/**
+ * The memory storage has to follow the Firestore rules the handlers depend on, otherwise a handler which passes its
+ * tests could fail in production.
+ */
+
+/**
+ * The document type used by the tests, stored in the persons collection.
+ */
+interface ITestDocument {
+    name: string;
+    cash?: number;
+    tags?: string[];
+    nested?: {
+        a?: number;
+        b?: number;
+    };
+    lastUpdate?: admin.firestore.Timestamp;
+}
+
+/**
+ * Get the collection used by the tests. The memory storage does not check the document type.
+ * @param storage The storage to use.
+ */
+const testCollection = (storage: IStorage) => storage.collection("persons") as any as IRepository<ITestDocument>;
+
+describe("memory storage", () => {
+    let storage: IStorage;
+    beforeEach(() => {
+        storage = createMemoryStorage();
+    });
+
+    describe("writes", () => {
+        it("replaces the document on set and merges nested fields on merge", async () => {
+            await testCollection(storage).set("a", {name: "a", cash: 1, nested: {a: 1, b: 2}});
+            await testCollection(storage).merge("a", {cash: 2, nested: {b: 3}});
+            expect(await testCollection(storage).get("a")).toEqual({name: "a", cash: 2, nested: {a: 1, b: 3}});
+
+            await testCollection(storage).set("a", {name: "b", nested: {b: 4}});
+            expect(await testCollection(storage).get("a")).toEqual({name: "b", nested: {b: 4}});
+        });
+
+        it("creates a document on merge if it does not exist", async () => {
+            await testCollection(storage).merge("a", {cash: 5});
+            expect(await testCollection(storage).get("a")).toEqual({cash: 5});
+        });
+
+        it("fails to create a document which exists", async () => {
+            await testCollection(storage).create("a", {name: "a"});
+            await expect(testCollection(storage).create("a", {name: "b"})).rejects.toThrow("Document already exists");
+            expect(await testCollection(storage).get("a")).toEqual({name: "a"});
+        });
+
+        it("does not share the stored document with the caller", async () => {
+            const data: ITestDocument = {name: "a", tags: ["x"]};
+            await testCollection(storage).set("a", data);
+            (data.tags as string[]).push("y");
+            const stored = await testCollection(storage).get("a") as ITestDocument;
+            (stored.tags as string[]).push("z");
+            expect(await testCollection(storage).get("a")).toEqual({name: "a", tags: ["x"]});
+        });
+    });
+
+    describe("transactions", () => {
+        it("applies the writes together when the transaction finishes", async () => {
+            await storage.runTransaction(async (transaction) => {
+                transaction.collection("persons").merge("a", {cash: 1});
+                transaction.collection("persons").merge("b", {cash: 2});
+                expect(await testCollection(storage).get("a")).toBeNull();
+            });
+            expect(await testCollection(storage).get("a")).toEqual({cash: 1});
+            expect(await testCollection(storage).get("b")).toEqual({cash: 2});
+        });
+
+        it("does not apply any write if the transaction throws", async () => {
+            await expect(storage.runTransaction(async (transaction) => {
+                transaction.collection("persons").merge("a", {cash: 1});
+                throw new Error("failed");
+            })).rejects.toThrow("failed");
+            expect(await testCollection(storage).get("a")).toBeNull();
+        });
+
+        it("requires all reads to happen before the first write", async () => {
+            await expect(storage.runTransaction(async (transaction) => {
+                transaction.collection("persons").merge("a", {cash: 1});
+                await transaction.collection("persons").get("b");
+            })).rejects.toThrow("Transactions require all reads to be executed before all writes");
+            await expect(storage.runTransaction(async (transaction) => {
+                transaction.collection("persons").merge("a", {cash: 1});
+                await transaction.collection("persons").query([]);
+            })).rejects.toThrow("Transactions require all reads to be executed before all writes");
+            expect(await testCollection(storage).get("a")).toBeNull();
+        });
+
+        it("retries when a document it read was changed by another write", async () => {
+            await testCollection(storage).set("a", {name: "a", cash: 10});
+            let attempts = 0;
+            await storage.runTransaction(async (transaction) => {
+                attempts += 1;
+                const data = await transaction.collection("persons").get("a") as any as ITestDocument;
+                if (attempts === 1) {
+                    // another request spends some of the cash while this transaction runs
+                    await testCollection(storage).merge("a", {cash: 4});
+                }
+                transaction.collection("persons").merge("a", {cash: (data.cash as number) - 3});
+            });
+            expect(attempts).toBe(2);
+            expect((await testCollection(storage).get("a") as ITestDocument).cash).toBe(1);
+        });
+
+        it("retries when a document read by a query was changed", async () => {
+            await testCollection(storage).set("a", {name: "a", cash: 10});
+            let attempts = 0;
+            await storage.runTransaction(async (transaction) => {
+                attempts += 1;
+                await transaction.collection("persons").query([where("cash", ">", 5)]);
+                if (attempts === 1) {
+                    await testCollection(storage).merge("a", {cash: 11});
+                }
+            });
+            expect(attempts).toBe(2);
+        });
+
+        it("does not retry when an unrelated document was changed", async () => {
+            await testCollection(storage).set("a", {name: "a"});
+            let attempts = 0;
+            await storage.runTransaction(async (transaction) => {
+                attempts += 1;
+                await transaction.collection("persons").get("a");
+                await testCollection(storage).set("b", {name: "b"});
+            });
+            expect(attempts).toBe(1);
+        });
+
+        it("fails after too many conflicts", async () => {
+            await testCollection(storage).set("a", {name: "a", cash: 0});
+            let attempts = 0;
+            await expect(storage.runTransaction(async (transaction) => {
+                attempts += 1;
+                await transaction.collection("persons").get("a");
+                await testCollection(storage).merge("a", {cash: attempts});
+                transaction.collection("persons").merge("a", {name: "b"} as any);
+            })).rejects.toThrow("Transaction failed because of too much contention");
+            expect(attempts).toBe(5);
+            expect(await testCollection(storage).get("a")).toEqual({name: "a", cash: 5});
+        });
+
+        it("fails the whole transaction if a created document exists", async () => {
+            await testCollection(storage).set("a", {name: "a"});
+            await expect(storage.runTransaction(async (transaction) => {
+                transaction.collection("persons").merge("b", {cash: 1});
+                transaction.collection("persons").create("a", {name: "b"} as any);
+            })).rejects.toThrow("Document already exists");
+            expect(await testCollection(storage).get("b")).toBeNull();
+        });
+    });
+
+    describe("queries", () => {
+        beforeEach(async () => {
+            await testCollection(storage).set("a", {
+                name: "a",
+                cash: 10,
+                tags: ["red"],
+                nested: {a: 1},
+                lastUpdate: admin.firestore.Timestamp.fromMillis(1000)
+            });
+            await testCollection(storage).set("b", {
+                name: "b",
+                cash: 20,
+                tags: ["green", "blue"],
+                lastUpdate: admin.firestore.Timestamp.fromMillis(2000)
+            });
+            await testCollection(storage).set("c", {
+                name: "c",
+                cash: 30,
+                tags: [],
+                nested: {a: 2},
+                lastUpdate: admin.firestore.Timestamp.fromMillis(3000)
+            });
+            await testCollection(storage).set("d", {name: "d"});
+        });
+
+        const queryIds = async (filters: IQueryFilter[], options?: IQueryOptions): Promise<string[]> => {
+            return (await testCollection(storage).query(filters, options)).map(({id}) => id);
+        };
+
+        it("compares numbers and timestamps with range filters", async () => {
+            expect(await queryIds([where("cash", ">", 10)])).toEqual(["b", "c"]);
+            expect(await queryIds([where("cash", ">=", 10), where("cash", "<", 30)])).toEqual(["a", "b"]);
+            expect(await queryIds([where("cash", "<=", 10)])).toEqual(["a"]);
+            expect(await queryIds([
+                where("lastUpdate", ">", admin.firestore.Timestamp.fromMillis(1000))
+            ])).toEqual(["b", "c"]);
+        });
+
+        it("only matches values of the same type with range filters", async () => {
+            // like Firestore, a string filter does not match numbers and a missing field never matches
+            expect(await queryIds([where("cash", ">", "")])).toEqual([]);
+            expect(await queryIds([where("name", ">", "")])).toEqual(["a", "b", "c", "d"]);
+        });
+
+        it("matches any of the values with in", async () => {
+            expect(await queryIds([where("name", "in", ["a", "c", "e"])])).toEqual(["a", "c"]);
+            expect(await queryIds([where("cash", "in", [])])).toEqual([]);
+            expect(await queryIds([where("nested.a", "in", [2])])).toEqual(["c"]);
+        });
+
+        it("matches arrays containing a value or any of the values", async () => {
+            expect(await queryIds([where("tags", "array-contains", "blue")])).toEqual(["b"]);
+            expect(await queryIds([where("tags", "array-contains-any", ["red", "blue", "yellow"])])).toEqual(["a", "b"]);
+            expect(await queryIds([where("tags", "array-contains-any", ["yellow"])])).toEqual([]);
+        });
+
+        it("sorts, limits and pages the results", async () => {
+            const orderBy = {field: "cash", direction: "desc" as "desc"};
+            expect(await queryIds([], {orderBy})).toEqual(["c", "b", "a"]);
+            expect(await queryIds([], {orderBy, limit: 2})).toEqual(["c", "b"]);
+            expect(await queryIds([], {orderBy, startAfter: {value: 20, id: "b"}})).toEqual(["a"]);
+        });
+    });
+});
+
+describe("setStorage", () => {
+    beforeEach(() => {
+        setStorage(createMemoryStorage());
+    });
+
+    it("runs a handler against the memory storage", async () => {
+        const response = await callHandler(handleLogin, {body: {id: "alice", password: "secret"}});
+        expect(response.statusCode).toBe(201);
+        expect(response.body.personId).toBe("alice");
+
+        const person = await getStorage().collection("persons").get("alice");
+        expect(person).not.toBeNull();
+        expect((person as any).password).not.toBe("secret");
+        const sessions = await getStorage().collection("sessions").query([where("personId", "==", "alice")]);
+        expect(sessions).toHaveLength(1);
+    });
+
+    it("gives each test an empty database", async () => {
+        expect(await getStorage().collection("persons").get("alice")).toBeNull();
+    });
+});
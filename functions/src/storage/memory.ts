@@ -0,0 +1,437 @@
+import * as admin from "firebase-admin";
+import * as crypto from "crypto";
+import {
+    IDocumentChange,
+    IQueryFilter,
+    IQueryOptions,
+    IQueryOrder,
+    IRepository,
+    IRepositoryWriter,
+    IStorage,
+    IStorageBatch,
+    IStorageCollections,
+    IStorageTransaction,
+    IStoredDocument,
+    ITransactionRepository,
+    TCollectionName
+} from "./types";
+
+/**
+ * An in memory implementation of the storage layer. Used by tests and the single process dev server so the game can
+ * run without Firestore. It follows the Firestore rules that matter to the game: writes of a transaction or batch are
+ * applied together, transactions are retried when a document they read was changed, transaction reads must happen
+ * before writes, and nested fields are merged.
+ */
+
+/**
+ * A single write of a transaction or batch.
+ */
+interface IWriteOperation {
+    type: "set" | "merge" | "create" | "delete";
+    collectionName: string;
+    id: string;
+    data?: any;
+}
+
+/**
+ * A query which is listened to.
+ */
+interface IListener {
+    collectionName: string;
+    filters: IQueryFilter[];
+    /**
+     * The result of the query the last time the listener was called.
+     */
+    documents: Map<string, any>;
+    onChange: (changes: Array<IDocumentChange<any>>, documents: Array<IStoredDocument<any>>) => void;
+}
+
+/**
+ * How many times a conflicting transaction is attempted before failing, the same as Firestore.
+ */
+const maxTransactionAttempts = 5;
+
+/**
+ * If a value is a plain object which should be copied and merged field by field.
+ * @param value The value to check.
+ */
+const isPlainObject = (value: any): boolean => {
+    return typeof value === "object" && value !== null && Object.getPrototypeOf(value) === Object.prototype;
+};
+
+/**
+ * Copy a document so the stored copy cannot be changed by the caller. Class instances such as timestamps are immutable
+ * and are shared.
+ * @param value The value to copy.
+ */
+const copy = (value: any): any => {
+    if (Array.isArray(value)) {
+        return value.map(copy);
+    } else if (isPlainObject(value)) {
+        return Object.keys(value).reduce((acc: any, key: string) => {
+            if (value[key] !== undefined) {
+                acc[key] = copy(value[key]);
+            }
+            return acc;
+        }, {});
+    } else {
+        return value;
+    }
+};
+
+/**
+ * Merge fields into a document. Nested objects are merged, everything else is replaced.
+ * @param target The stored document.
+ * @param data The fields to merge.
+ */
+const mergeFields = (target: any, data: any): any => {
+    return Object.keys(data).reduce((acc: any, key: string) => {
+        if (data[key] === undefined) {
+            return acc;
+        }
+        acc[key] = isPlainObject(data[key]) && isPlainObject(acc[key]) ?
+            mergeFields(acc[key], data[key]) :
+            copy(data[key]);
+        return acc;
+    }, {...target});
+};
+
+/**
+ * Convert a field value into something that can be compared with the built in operators.
+ * @param value The field value.
+ */
+const comparable = (value: any): any => {
+    if (value instanceof admin.firestore.Timestamp) {
+        return value.toMillis();
+    } else if (value instanceof Date) {
+        return value.getTime();
+    } else {
+        return value;
+    }
+};
+
+/**
+ * If two field values are equal.
+ * @param a The first value.
+ * @param b The second value.
+ */
+const isEqual = (a: any, b: any): boolean => {
+    const comparableA = comparable(a);
+    const comparableB = comparable(b);
+    if (typeof comparableA === "object" && comparableA !== null) {
+        return JSON.stringify(comparableA) === JSON.stringify(comparableB);
+    }
+    return comparableA === comparableB;
+};
+
+/**
+ * Get a field of a document, nested fields are separated by dots.
+ * @param data The document.
+ * @param field The field path.
+ */
+const getField = (data: any, field: string): any => {
+    return field.split(".").reduce((value: any, key: string) => {
+        return value !== null && typeof value === "object" ? value[key] : undefined;
+    }, data);
+};
+
+/**
+ * If a document matches a query filter.
+ * @param data The document.
+ * @param filter The query filter.
+ */
+const matchesFilter = (data: any, {field, operator, value}: IQueryFilter): boolean => {
+    const fieldValue = getField(data, field);
+    if (fieldValue === undefined) {
+        return false;
+    }
+    const a = comparable(fieldValue);
+    const b = comparable(value);
+    // range comparisons only match values of the same type
+    const sameType = typeof a === typeof b && a !== null && b !== null;
+    switch (operator) {
+        case "==":
+            return isEqual(fieldValue, value);
+        case "<":
+            return sameType && a < b;
+        case "<=":
+            return sameType && a <= b;
+        case ">":
+            return sameType && a > b;
+        case ">=":
+            return sameType && a >= b;
+        case "in":
+            return (value as any[]).some(v => isEqual(fieldValue, v));
+        case "array-contains":
+            return Array.isArray(fieldValue) && fieldValue.some(v => isEqual(v, value));
+        case "array-contains-any":
+            return Array.isArray(fieldValue) && fieldValue.some(v => (value as any[]).some(w => isEqual(v, w)));
+        default:
+            return false;
+    }
+};
+
+/**
+ * Compare two documents by the order of a query. Documents with the same value are sorted by id.
+ * @param orderBy The order of the query.
+ * @return A compare function, the value of the second document can be given directly for comparing with a cursor.
+ */
+const compareByOrder = ({field, direction}: IQueryOrder) => (
+    a: IStoredDocument<any>,
+    b: IStoredDocument<any>,
+    valueB: any = getField(b.data, field)
+): number => {
+    const comparableA = comparable(getField(a.data, field));
+    const comparableB = comparable(valueB);
+    const result = comparableA < comparableB ? -1 : comparableA > comparableB ? 1 : a.id < b.id ? -1 : a.id > b.id ? 1 : 0;
+    return direction === "desc" ? -result : result;
+};
+
+/**
+ * Create a storage which keeps every document in memory. Each call creates an empty database.
+ */
+export const createMemoryStorage = (): IStorage => {
+    // documents of each collection
+    const collections = new Map<string, Map<string, any>>();
+    // the number of writes to each document, used to detect conflicting transactions
+    const versions = new Map<string, number>();
+    const listeners = new Set<IListener>();
+
+    const getCollection = (collectionName: string): Map<string, any> => {
+        let collection = collections.get(collectionName);
+        if (!collection) {
+            collection = new Map<string, any>();
+            collections.set(collectionName, collection);
+        }
+        return collection;
+    };
+    const getVersion = (collectionName: string, id: string): number => versions.get(`${collectionName}/${id}`) || 0;
+    const newId = (): string => crypto.randomBytes(10).toString("hex");
+
+    const readDocument = (collectionName: string, id: string): any | null => {
+        const data = getCollection(collectionName).get(id);
+        return data === undefined ? null : copy(data);
+    };
+    const runQuery = (
+        collectionName: string,
+        filters: IQueryFilter[],
+        {limit, orderBy, startAfter}: IQueryOptions = {}
+    ): Array<IStoredDocument<any>> => {
+        // sort by id like Firestore
+        const ids = Array.from(getCollection(collectionName).keys()).sort();
+        let documents: Array<IStoredDocument<any>> = ids.map(id => ({id, data: getCollection(collectionName).get(id)}))
+            .filter(({data}) => filters.every(filter => matchesFilter(data, filter)));
+        if (orderBy) {
+            // documents without the order field are left out like Firestore, ties are sorted by id
+            const compare = compareByOrder(orderBy);
+            documents = documents.filter(({data}) => getField(data, orderBy.field) !== undefined).sort(compare);
+            if (startAfter) {
+                const cursor = {id: startAfter.id, data: {}};
+                documents = documents.filter(document => compare(document, cursor, startAfter.value) > 0);
+            }
+        }
+        if (typeof limit === "number") {
+            documents = documents.slice(0, limit);
+        }
+        return documents.map(({id, data}) => ({id, data: copy(data)}));
+    };
+
+    /**
+     * Send the changed query results to the listeners of the collections.
+     * @param collectionNames The collections which were written.
+     */
+    const notifyListeners = (collectionNames: Set<string>) => {
+        listeners.forEach(listener => {
+            if (!collectionNames.has(listener.collectionName)) {
+                return;
+            }
+            const documents = runQuery(listener.collectionName, listener.filters);
+            const changes: Array<IDocumentChange<any>> = [];
+            const ids = new Set<string>();
+            for (const {id, data} of documents) {
+                ids.add(id);
+                const previous = listener.documents.get(id);
+                if (previous === undefined) {
+                    changes.push({type: "added", id, data});
+                } else if (JSON.stringify(previous) !== JSON.stringify(data)) {
+                    changes.push({type: "modified", id, data});
+                }
+            }
+            listener.documents.forEach((data, id) => {
+                if (!ids.has(id)) {
+                    changes.push({type: "removed", id, data});
+                }
+            });
+            listener.documents = new Map(documents.map(({id, data}): [string, any] => [id, data]));
+            if (changes.length > 0) {
+                // listeners are called asynchronously like Firestore
+                setImmediate(() => listener.onChange(changes, documents));
+            }
+        });
+    };
+
+    /**
+     * Apply the writes of a transaction, batch or direct write at once.
+     * @param operations The writes to apply.
+     */
+    const commit = (operations: IWriteOperation[]) => {
+        for (const operation of operations) {
+            if (operation.type === "create" && getCollection(operation.collectionName).has(operation.id)) {
+                throw new Error(`Document already exists: ${operation.collectionName}/${operation.id}`);
+            }
+        }
+        const collectionNames = new Set<string>();
+        for (const {type, collectionName, id, data} of operations) {
+            const collection = getCollection(collectionName);
+            if (type === "delete") {
+                collection.delete(id);
+            } else if (type === "merge") {
+                collection.set(id, mergeFields(collection.get(id) || {}, data));
+            } else {
+                collection.set(id, copy(data));
+            }
+            versions.set(`${collectionName}/${id}`, getVersion(collectionName, id) + 1);
+            collectionNames.add(collectionName);
+        }
+        notifyListeners(collectionNames);
+    };
+
+    /**
+     * Create a writer which records write operations.
+     * @param collectionName The collection to write.
+     * @param operations The list to record the writes into.
+     */
+    const createWriter = <T>(collectionName: string, operations: IWriteOperation[]): IRepositoryWriter<T> => ({
+        set(id: string, data: T) {
+            operations.push({type: "set", collectionName, id, data: copy(data)});
+        },
+        merge(id: string, data: Partial<T>) {
+            operations.push({type: "merge", collectionName, id, data: copy(data)});
+        },
+        create(id: string, data: T) {
+            operations.push({type: "create", collectionName, id, data: copy(data)});
+        },
+        add(data: T): string {
+            const id = newId();
+            operations.push({type: "create", collectionName, id, data: copy(data)});
+            return id;
+        },
+        delete(id: string) {
+            operations.push({type: "delete", collectionName, id});
+        }
+    });
+
+    const createRepository = <T>(collectionName: string): IRepository<T> => ({
+        async get(id: string) {
+            return readDocument(collectionName, id);
+        },
+        async getAll(ids: string[]) {
+            return ids.map(id => readDocument(collectionName, id));
+        },
+        async query(filters: IQueryFilter[], options?: IQueryOptions) {
+            return runQuery(collectionName, filters, options);
+        },
+        async set(id: string, data: T) {
+            commit([{type: "set", collectionName, id, data}]);
+        },
+        async merge(id: string, data: Partial<T>) {
+            commit([{type: "merge", collectionName, id, data}]);
+        },
+        async create(id: string, data: T) {
+            commit([{type: "create", collectionName, id, data}]);
+        },
+        async add(data: T) {
+            const id = newId();
+            commit([{type: "create", collectionName, id, data}]);
+            return id;
+        },
+        async delete(id: string) {
+            commit([{type: "delete", collectionName, id}]);
+        },
+        listen(filters, onChange) {
+            const listener: IListener = {
+                collectionName,
+                filters,
+                documents: new Map<string, any>(),
+                onChange
+            };
+            listeners.add(listener);
+            notifyListeners(new Set([collectionName]));
+            return () => {
+                listeners.delete(listener);
+            };
+        }
+    });
+
+    return {
+        collection<K extends TCollectionName>(collectionName: K) {
+            return createRepository<IStorageCollections[K]>(collectionName);
+        },
+        async runTransaction<R>(updateFunction: (transaction: IStorageTransaction) => Promise<R>): Promise<R> {
+            for (let attempt = 1; ; attempt++) {
+                const operations: IWriteOperation[] = [];
+                // the version of each document read by the transaction
+                const readVersions = new Map<string, number>();
+                const checkReadBeforeWrites = () => {
+                    if (operations.length > 0) {
+                        throw new Error("Transactions require all reads to be executed before all writes");
+                    }
+                };
+                const recordRead = (collectionName: string, id: string) => {
+                    checkReadBeforeWrites();
+                    readVersions.set(`${collectionName}/${id}`, getVersion(collectionName, id));
+                };
+                const transaction: IStorageTransaction = {
+                    collection<K extends TCollectionName>(collectionName: K): ITransactionRepository<IStorageCollections[K]> {
+                        return {
+                            ...createWriter<IStorageCollections[K]>(collectionName, operations),
+                            async get(id: string) {
+                                recordRead(collectionName, id);
+                                return readDocument(collectionName, id);
+                            },
+                            async getAll(ids: string[]) {
+                                ids.forEach(id => recordRead(collectionName, id));
+                                return ids.map(id => readDocument(collectionName, id));
+                            },
+                            async query(filters: IQueryFilter[], options?: IQueryOptions) {
+                                // a query without results is still a read
+                                checkReadBeforeWrites();
+                                const documents = runQuery(collectionName, filters, options);
+                                documents.forEach(({id}) => recordRead(collectionName, id));
+                                return documents;
+                            }
+                        };
+                    }
+                };
+
+                const result = await updateFunction(transaction);
+
+                // retry if another write changed a document this transaction read
+                let conflict = false;
+                readVersions.forEach((version, path) => {
+                    if ((versions.get(path) || 0) !== version) {
+                        conflict = true;
+                    }
+                });
+                if (!conflict) {
+                    commit(operations);
+                    return result;
+                }
+                if (attempt >= maxTransactionAttempts) {
+                    throw new Error("Transaction failed because of too much contention");
+                }
+            }
+        },
+        batch(): IStorageBatch {
+            const operations: IWriteOperation[] = [];
+            return {
+                collection<K extends TCollectionName>(collectionName: K) {
+                    return createWriter<IStorageCollections[K]>(collectionName, operations);
+                },
+                async commit() {
+                    commit(operations);
+                }
+            };
+        }
+    };
+};
@@ -0,0 +1,278 @@
+import {
+    IApiPersonsVoiceAnswerMessage,
+    IApiPersonsVoiceCandidateMessage,
+    IApiPersonsVoiceOfferMessage,
+    ITerrainTilePosition
+} from "persons-game-common/lib/types/GameTypes";
+import {
+    ICarDatabase,
+    ICellLockDatabase,
+    ICityMapDatabase,
+    IHouseDatabase,
+    ILedgerEntryDatabase,
+    ILoanDatabase,
+    ILotAuctionDatabase,
+    ILotDatabase,
+    ILotOfferDatabase,
+    ILotProductionDatabase,
+    INetworkObjectBaseDatabase,
+    INetworkObjectDatabase,
+    INpcCellTimeDatabase,
+    INpcDatabase,
+    IPersonDatabase,
+    IResourceDatabase,
+    IRoadDatabase,
+    ISessionDatabase,
+    IStockpileDatabase,
+    IStockpileTileDatabase,
+    ISyncStateDatabase,
+    ITaxWarningDatabase,
+    ITombstoneDatabase,
+    ITradeDatabase,
+    IVendingMachineDatabase
+} from "../types/database";
+
+/**
+ * The storage layer hides the database behind typed repositories. Each collection is a repository of documents with a
+ * known type. A repository can be read and written directly, inside of a transaction, or written with a batch. The
+ * Firestore storage is used in production, the memory storage is used by tests and the single process dev server.
+ */
+
+/**
+ * The document type of each collection.
+ */
+export interface IStorageCollections {
+    persons: IPersonDatabase;
+    npcs: INpcDatabase;
+    npcTimes: INpcCellTimeDatabase;
+    personalCars: ICarDatabase;
+    objects: INetworkObjectDatabase;
+    resources: IResourceDatabase;
+    stockpiles: IStockpileDatabase;
+    stockpileTiles: IStockpileTileDatabase;
+    houses: IHouseDatabase;
+    floors: INetworkObjectBaseDatabase;
+    walls: INetworkObjectBaseDatabase;
+    roads: IRoadDatabase;
+    lots: ILotDatabase;
+    buyOffers: ILotOfferDatabase;
+    sellOffers: ILotOfferDatabase;
+    lotAuctions: ILotAuctionDatabase;
+    ledgerEntries: ILedgerEntryDatabase;
+    vendingMachines: IVendingMachineDatabase;
+    trades: ITradeDatabase;
+    loans: ILoanDatabase;
+    taxWarnings: ITaxWarningDatabase;
+    lotProductions: ILotProductionDatabase;
+    cellLocks: ICellLockDatabase;
+    terrainTiles: ITerrainTilePosition;
+    voiceCandidates: IApiPersonsVoiceCandidateMessage;
+    voiceOffers: IApiPersonsVoiceOfferMessage;
+    voiceAnswers: IApiPersonsVoiceAnswerMessage;
+    sessions: ISessionDatabase;
+    tombstones: ITombstoneDatabase;
+    syncState: ISyncStateDatabase;
+    cityMaps: ICityMapDatabase;
+    /**
+     * Legacy collection of the old city generator, it is only deleted.
+     */
+    rooms: object;
+}
+
+/**
+ * The name of a collection.
+ */
+export type TCollectionName = keyof IStorageCollections;
+
+/**
+ * The comparisons supported by a query filter. They match the Firestore where clause operators. A query may have one
+ * "in" or "array-contains-any" filter with any number of values, the Firestore storage splits it into chunks which
+ * Firestore accepts.
+ */
+export type TQueryOperator = "==" | "<" | "<=" | ">" | ">=" | "in" | "array-contains" | "array-contains-any";
+
+/**
+ * A single condition of a query.
+ */
+export interface IQueryFilter {
+    /**
+     * The document field to compare.
+     */
+    field: string;
+    /**
+     * How to compare the field.
+     */
+    operator: TQueryOperator;
+    /**
+     * The value to compare against.
+     */
+    value: any;
+}
+
+/**
+ * The sort order of a query.
+ */
+export interface IQueryOrder {
+    /**
+     * The document field to sort by. Documents with the same value are sorted by id in the same direction.
+     */
+    field: string;
+    direction: "asc" | "desc";
+}
+
+/**
+ * Options of a query besides the filters.
+ */
+export interface IQueryOptions {
+    /**
+     * The maximum number of documents to return.
+     */
+    limit?: number;
+    /**
+     * The sort order of the documents. Without an order documents are sorted by id.
+     */
+    orderBy?: IQueryOrder;
+    /**
+     * Only return documents after the document with this order field value and id, used to page through a query.
+     * Requires an order.
+     */
+    startAfter?: {
+        value: any;
+        id: string;
+    };
+}
+
+/**
+ * A document and its id.
+ */
+export interface IStoredDocument<T> {
+    id: string;
+    data: T;
+}
+
+/**
+ * A change to the result of a query, used by [[IRepository.listen]].
+ */
+export interface IDocumentChange<T> extends IStoredDocument<T> {
+    /**
+     * If the document was added to, modified in, or removed from the query result.
+     */
+    type: "added" | "modified" | "removed";
+}
+
+/**
+ * Write documents of one collection. Writes inside of a transaction or batch are applied when it commits.
+ */
+export interface IRepositoryWriter<T> {
+    /**
+     * Replace a document.
+     */
+    set(id: string, data: T): void;
+    /**
+     * Merge fields into a document, creating it if it does not exist.
+     */
+    merge(id: string, data: Partial<T>): void;
+    /**
+     * Create a document, the commit fails if it already exists.
+     */
+    create(id: string, data: T): void;
+    /**
+     * Create a document with a new random id.
+     * @return The id of the new document.
+     */
+    add(data: T): string;
+    /**
+     * Delete a document.
+     */
+    delete(id: string): void;
+}
+
+/**
+ * Read and write documents of one collection inside of a transaction. All reads must happen before the first write.
+ */
+export interface ITransactionRepository<T> extends IRepositoryWriter<T> {
+    /**
+     * Get a document, null if it does not exist.
+     */
+    get(id: string): Promise<T | null>;
+    /**
+     * Get many documents in the order of the ids, null for each document that does not exist.
+     */
+    getAll(ids: string[]): Promise<Array<T | null>>;
+    /**
+     * Get every document matching all of the filters.
+     */
+    query(filters: IQueryFilter[], options?: IQueryOptions): Promise<Array<IStoredDocument<T>>>;
+}
+
+/**
+ * Read and write documents of one collection directly.
+ */
+export interface IRepository<T> {
+    get(id: string): Promise<T | null>;
+    getAll(ids: string[]): Promise<Array<T | null>>;
+    query(filters: IQueryFilter[], options?: IQueryOptions): Promise<Array<IStoredDocument<T>>>;
+    set(id: string, data: T): Promise<void>;
+    merge(id: string, data: Partial<T>): Promise<void>;
+    create(id: string, data: T): Promise<void>;
+    add(data: T): Promise<string>;
+    delete(id: string): Promise<void>;
+    /**
+     * Listen to the changes of a query. The first call contains every matching document as added.
+     * @param filters The query to listen to.
+     * @param onChange Called with the changes and the full result each time the result changes.
+     * @param onError Called once if the listener fails, no more changes are sent afterwards.
+     * @return A function which stops listening.
+     */
+    listen(
+        filters: IQueryFilter[],
+        onChange: (changes: Array<IDocumentChange<T>>, documents: Array<IStoredDocument<T>>) => void,
+        onError: (err: Error) => void
+    ): () => void;
+}
+
+/**
+ * A transaction across collections.
+ */
+export interface IStorageTransaction {
+    collection<K extends TCollectionName>(collectionName: K): ITransactionRepository<IStorageCollections[K]>;
+}
+
+/**
+ * Something that can write documents, either a transaction or a batch.
+ */
+export interface IStorageWriter {
+    collection<K extends TCollectionName>(collectionName: K): IRepositoryWriter<IStorageCollections[K]>;
+}
+
+/**
+ * A group of writes which are applied together without reading.
+ */
+export interface IStorageBatch extends IStorageWriter {
+    commit(): Promise<void>;
+}
+
+/**
+ * The database.
+ */
+export interface IStorage {
+    collection<K extends TCollectionName>(collectionName: K): IRepository<IStorageCollections[K]>;
+    /**
+     * Run a function inside of a transaction. The function may be called again if the transaction conflicts with
+     * another transaction, so it should not have side effects.
+     */
+    runTransaction<R>(updateFunction: (transaction: IStorageTransaction) => Promise<R>): Promise<R>;
+    batch(): IStorageBatch;
+}
+
+/**
+ * Create a query filter.
+ * @param field The document field to compare.
+ * @param operator How to compare the field.
+ * @param value The value to compare against.
+ */
+export const where = (field: string, operator: TQueryOperator, value: any): IQueryFilter => ({
+    field,
+    operator,
+    value
+});
@@ -0,0 +1,225 @@
+import * as express from "express";
+import {INetworkObject, INpc, IPerson} from "persons-game-common/lib/types/GameTypes";
+import {INpcDatabase, IPersonDatabase} from "./types/database";
+import {
+    EApiErrorCode,
+    EApiStreamEvent,
+    IApiPersonsStreamSubscribed,
+    IApiPersonsStreamUpdate,
+    IApiTombstone
+} from "./types/api";
+import {ApiError} from "./errors";
+import {getSessionPersonId} from "./authentication";
+import {getRelevantNetworkObjectCellIds, parseCellRadius} from "./cell";
+import {
+    cellLockDatabaseToClient,
+    networkObjectDatabaseToClient,
+    npcDatabaseToClient,
+    personWithoutPassword
+} from "./common";
+import {claimVoiceMessage, TVoiceMessageCollectionName} from "./voiceMessages";
+import {streamHeartbeatMilliseconds} from "./config";
+import {
+    getStorage,
+    IDocumentChange,
+    IQueryFilter,
+    IStorageCollections,
+    IStoredDocument,
+    TCollectionName,
+    where
+} from "./storage";
+
+/**
+ * Realtime push of world changes with Server-Sent Events. The client opens GET /persons/stream and receives changes to
+ * persons, objects, NPC paths and cell locks in the cells around the person, and voice chat signaling messages for the
+ * person, as soon as they are written. Polling GET /persons/data is still used for everything else and as a fallback
+ * when the stream is not available.
+ *
+ * Cloud Functions buffer HTTP responses, so the stream only pushes in realtime under the functions emulator or the plain
+ * Node server in server.ts.
+ */
+
+/**
+ * Convert a tombstone for a document which left the subscribed cells.
+ * @param collectionName The collection of the document.
+ * @param id The id of the document.
+ */
+const leftCellTombstone = (collectionName: string, id: string): IApiTombstone => ({
+    id,
+    collectionName,
+    deletedAt: new Date().toISOString()
+});
+
+/**
+ * Convert an npc into the client format without the password and schedule.
+ * @param npcDatabase The npc to convert.
+ */
+const npcWithoutSecrets = (npcDatabase: INpcDatabase): INpc => {
+    const npc = {...npcDatabaseToClient(npcDatabase)} as INpc & {password?: string, schedule?: unknown};
+    delete npc.password;
+    delete npc.schedule;
+    return npc;
+};
+
+/**
+ * Handle GET /persons/stream. The session token is passed in the "token" query parameter because EventSource cannot
+ * set request headers. The optional "radius" query parameter sets how many cells around the person are streamed.
+ * @param req
+ * @param res
+ * @param next
+ */
+export const handlePersonsStream = (req: express.Request, res: express.Response, next: express.NextFunction) => {
+    (async () => {
+        const {token, radius} = req.query as {token?: string, radius?: string};
+        if (typeof token !== "string" || !token) {
+            throw new ApiError(401, EApiErrorCode.UNAUTHENTICATED, "Require a session token, login first");
+        }
+        const personId = await getSessionPersonId(token);
+        const personData = await getStorage().collection("persons").get(personId) ||
+            {id: personId, x: 0, y: 0} as IPersonDatabase;
+        const cells = getRelevantNetworkObjectCellIds(personData, parseCellRadius(radius));
+
+        // begin the event stream
+        res.status(200);
+        res.set({
+            "Content-Type": "text/event-stream",
+            "Cache-Control": "no-cache",
+            "Connection": "keep-alive"
+        });
+        res.flushHeaders();
+
+        let closed = false;
+        const sendEvent = (event: EApiStreamEvent, data: IApiPersonsStreamSubscribed | IApiPersonsStreamUpdate) => {
+            if (!closed) {
+                res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+            }
+        };
+        const sendUpdate = (update: IApiPersonsStreamUpdate) => sendEvent(EApiStreamEvent.UPDATE, update);
+        const unsubscribes: Array<() => void> = [];
+        const heartbeat = setInterval(() => {
+            if (!closed) {
+                res.write(": heartbeat\n\n");
+            }
+        }, streamHeartbeatMilliseconds);
+        const close = () => {
+            if (closed) {
+                return;
+            }
+            closed = true;
+            clearInterval(heartbeat);
+            unsubscribes.forEach(unsubscribe => unsubscribe());
+            res.end();
+        };
+        req.on("close", close);
+
+        /**
+         * Listen to a query. The first snapshot is skipped unless requested because the client already loaded the
+         * current data with GET /persons/data.
+         * @param collectionName The collection to listen to.
+         * @param filters The query to listen to.
+         * @param onChange Handle the changes of a snapshot.
+         * @param includeFirstSnapshot If the documents which exist when the stream opens should be sent.
+         */
+        const listen = <K extends TCollectionName>(
+            collectionName: K,
+            filters: IQueryFilter[],
+            onChange: (
+                changes: Array<IDocumentChange<IStorageCollections[K]>>,
+                documents: Array<IStoredDocument<IStorageCollections[K]>>
+            ) => void | Promise<void>,
+            includeFirstSnapshot: boolean = false
+        ) => {
+            let isFirstSnapshot = true;
+            unsubscribes.push(getStorage().collection(collectionName).listen(filters, (changes, documents) => {
+                if (isFirstSnapshot && !includeFirstSnapshot) {
+                    isFirstSnapshot = false;
+                    return;
+                }
+                isFirstSnapshot = false;
+                Promise.resolve(onChange(changes, documents)).catch((err) => {
+                    console.error(err);
+                    close();
+                });
+            }, (err) => {
+                // the client falls back to polling when the stream ends
+                console.error(err);
+                close();
+            }));
+        };
+
+        sendEvent(EApiStreamEvent.SUBSCRIBED, {
+            personId,
+            cells
+        });
+
+        // persons moving inside of the cells
+        listen("persons", [where("cell", "in", cells)], (changes) => {
+            const persons: IPerson[] = [];
+            const tombstones: IApiTombstone[] = [];
+            for (const change of changes) {
+                if (change.type === "removed") {
+                    tombstones.push(leftCellTombstone("persons", change.id));
+                } else {
+                    persons.push(personWithoutPassword(change.data));
+                }
+            }
+            sendUpdate({persons, tombstones});
+        });
+
+        // objects inside of the cells, objects picked up by someone else are no longer in the world
+        listen("objects", [where("cell", "in", cells)], (changes) => {
+            const objects: INetworkObject[] = [];
+            const tombstones: IApiTombstone[] = [];
+            for (const {type, id, data} of changes) {
+                if (type === "removed" || (data.isInInventory && data.grabbedByPersonId !== personId)) {
+                    tombstones.push(leftCellTombstone("objects", id));
+                } else {
+                    objects.push(networkObjectDatabaseToClient(data));
+                }
+            }
+            sendUpdate({objects, tombstones});
+        });
+
+        // npcs with a new path through the cells
+        listen("npcTimes", [where("cell", "in", cells), where("expired", "==", false)], async (changes) => {
+            const npcIds = [...new Set(changes
+                .filter(change => change.type !== "removed")
+                .map(change => change.data.npcId))];
+            if (npcIds.length === 0) {
+                return;
+            }
+            const npcs = (await getStorage().collection("npcs").getAll(npcIds))
+                .filter((npc): npc is INpcDatabase => !!npc)
+                .map(npcWithoutSecrets);
+            sendUpdate({npcs});
+        });
+
+        // cell locks are sent as a whole list
+        listen("cellLocks", [where("cell", "in", cells)], (changes, documents) => {
+            sendUpdate({
+                cellLocks: documents.map(({data}) => cellLockDatabaseToClient(data))
+            });
+        });
+
+        // voice chat signaling messages for the person, pending messages are sent right away
+        const listenForVoiceMessages = <K extends TVoiceMessageCollectionName>(
+            collectionName: K,
+            toVoiceMessages: (messages: Array<IStorageCollections[K]>) => IApiPersonsStreamUpdate["voiceMessages"]
+        ) => {
+            listen(collectionName, [where("to", "==", personId)], async (changes) => {
+                const messages: Array<IStorageCollections[K]> = [];
+                for (const change of changes) {
+                    if (change.type === "added" && await claimVoiceMessage(collectionName, change.id)) {
+                        messages.push(change.data);
+                    }
+                }
+                if (messages.length > 0) {
+                    sendUpdate({voiceMessages: toVoiceMessages(messages)});
+                }
+            }, true);
+        };
+        listenForVoiceMessages("voiceCandidates", candidates => ({candidates, offers: [], answers: []}));
+        listenForVoiceMessages("voiceOffers", offers => ({candidates: [], offers, answers: []}));
+        listenForVoiceMessages("voiceAnswers", answers => ({candidates: [], offers: [], answers}));
+    })().catch((err) => next(err));
+};
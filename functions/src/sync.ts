@@ -0,0 +1,273 @@
+import * as admin from "firebase-admin";
+import {IObject} from "persons-game-common/lib/types/GameTypes";
+import {IPersonDatabase, ITombstoneDatabase} from "./types/database";
+import {IApiTombstone} from "./types/api";
+import {syncOverlapMilliseconds, tombstoneRetentionMilliseconds} from "./config";
+import {getSimpleCollection} from "./common";
+import {getNetworkObjectCellString} from "persons-game-common/lib/cell";
+import {
+    getStorage,
+    IQueryFilter,
+    IStorageCollections,
+    IStorageWriter,
+    IStoredDocument,
+    TCollectionName,
+    where
+} from "./storage";
+
+/**
+ * Delta sync for GET /persons/data. Each response includes a cursor with the time of the response and the cells that
+ * were loaded. The next request sends the cursor back and only receives documents which changed since the cursor in
+ * the cells it already has, plus every document in newly loaded cells. Removed documents are sent as tombstones.
+ */
+
+/**
+ * The data inside of a sync cursor.
+ */
+interface ISyncCursor {
+    /**
+     * The server time in milliseconds when the cursor was created.
+     */
+    time: number;
+    /**
+     * The cells loaded by the client when the cursor was created.
+     */
+    cells: string[];
+}
+
+/**
+ * Which cells should be fully loaded and which cells only need changes.
+ */
+export interface ISyncWindow {
+    /**
+     * The cells that should be fully loaded.
+     */
+    fullCells: string[];
+    /**
+     * The cells that only need changes since [[since]].
+     */
+    deltaCells: string[];
+    /**
+     * The time to fetch changes from, null for a full load.
+     */
+    since: admin.firestore.Timestamp | null;
+    /**
+     * The cursor to return to the client for the next request.
+     */
+    cursor: string;
+}
+
+/**
+ * Encode a sync cursor into an opaque string.
+ * @param cursor The cursor to encode.
+ */
+const encodeSyncCursor = (cursor: ISyncCursor): string => {
+    return Buffer.from(JSON.stringify(cursor)).toString("base64");
+};
+
+/**
+ * Decode a sync cursor sent by the client. Returns null if the cursor is missing or invalid.
+ * @param since The cursor string from the "since" query parameter.
+ */
+const decodeSyncCursor = (since: unknown): ISyncCursor | null => {
+    if (typeof since !== "string" || !since) {
+        return null;
+    }
+    try {
+        const cursor = JSON.parse(Buffer.from(since, "base64").toString());
+        if (typeof cursor.time === "number" && Array.isArray(cursor.cells)) {
+            return cursor as ISyncCursor;
+        }
+        return null;
+    } catch (e) {
+        return null;
+    }
+};
+
+/**
+ * Record that the world was reset by deleting whole collections. Cursors created before the reset require a full reload
+ * because the deletes do not create tombstones.
+ */
+export const markWorldReset = async () => {
+    await getStorage().collection("syncState").set("reset", {
+        resetAt: admin.firestore.Timestamp.now()
+    });
+};
+
+/**
+ * Compute which cells to fully load and which cells only need changes.
+ * @param since The cursor string from the "since" query parameter.
+ * @param cells The cells relevant to the current person.
+ */
+export const getSyncWindow = async (since: unknown, cells: string[]): Promise<ISyncWindow> => {
+    const now = admin.firestore.Timestamp.now();
+    const cursor = decodeSyncCursor(since);
+    const nextCursor = encodeSyncCursor({
+        time: now.toMillis(),
+        cells
+    });
+
+    // the cursor must be newer than the oldest tombstone and the last world reset
+    let cursorIsValid = false;
+    if (cursor && cursor.time - syncOverlapMilliseconds > now.toMillis() - tombstoneRetentionMilliseconds) {
+        const syncState = await getStorage().collection("syncState").get("reset");
+        cursorIsValid = !syncState || cursor.time > syncState.resetAt.toMillis();
+    }
+
+    if (cursor && cursorIsValid) {
+        return {
+            fullCells: cells.filter(cell => !cursor.cells.includes(cell)),
+            deltaCells: cells.filter(cell => cursor.cells.includes(cell)),
+            since: admin.firestore.Timestamp.fromMillis(cursor.time - syncOverlapMilliseconds),
+            cursor: nextCursor
+        };
+    } else {
+        return {
+            fullCells: cells,
+            deltaCells: [],
+            since: null,
+            cursor: nextCursor
+        };
+    }
+};
+
+/**
+ * Get every document in the full cells and changed documents in the delta cells of a collection.
+ * @param currentPersonData The current person the collection fetch is relative to.
+ * @param collectionName The name of the collection.
+ * @param syncWindow The cells to load.
+ * @param cellsArray If the collection uses cells string array instead of cell string.
+ * @param networkObject If the collection is for network objects, or objects type network object.
+ */
+export const getSyncedCollection = async <T extends IObject & {id: string}>(
+    currentPersonData: IPersonDatabase,
+    collectionName: TCollectionName,
+    syncWindow: ISyncWindow,
+    {cellsArray, networkObject}: {cellsArray?: boolean, networkObject?: boolean} = {}
+): Promise<T[]> => {
+    const [fullData, deltaData] = await Promise.all([
+        getSimpleCollection<T>(currentPersonData, collectionName, {
+            cellsArray,
+            networkObject,
+            cells: syncWindow.fullCells
+        }),
+        syncWindow.since ?
+            getSimpleCollection<T>(currentPersonData, collectionName, {
+                cellsArray,
+                networkObject,
+                cells: syncWindow.deltaCells,
+                since: syncWindow.since
+            }) :
+            Promise.resolve([] as T[])
+    ]);
+
+    // remove duplicates, such as inventory items which are returned by both queries
+    const ids = new Set<string>();
+    return [...fullData, ...deltaData].filter(item => {
+        if (ids.has(item.id)) {
+            return false;
+        }
+        ids.add(item.id);
+        return true;
+    });
+};
+
+/**
+ * Get every document in the full cells and changed documents in the delta cells of a collection which uses a cell field.
+ * Used for collections which need their own conversion from the database format.
+ * @param collectionName The name of the collection.
+ * @param syncWindow The cells to load.
+ */
+export const getSyncedDocuments = async <K extends TCollectionName>(
+    collectionName: K,
+    syncWindow: ISyncWindow
+): Promise<Array<IStoredDocument<IStorageCollections[K]>>> => {
+    const queries: IQueryFilter[][] = [];
+    if (syncWindow.fullCells.length > 0) {
+        queries.push([where("cell", "in", syncWindow.fullCells)]);
+    }
+    if (syncWindow.since && syncWindow.deltaCells.length > 0) {
+        queries.push([
+            where("cell", "in", syncWindow.deltaCells),
+            where("lastUpdate", ">", syncWindow.since)
+        ]);
+    }
+    const results = await Promise.all(queries.map(filters => getStorage().collection(collectionName).query(filters)));
+    return results.reduce((acc: Array<IStoredDocument<IStorageCollections[K]>>, documents) => {
+        return [...acc, ...documents];
+    }, []);
+};
+
+/**
+ * Record that a document was removed from a cell so syncing clients can remove their copy.
+ * @param collectionName The collection of the removed document.
+ * @param networkObject The removed document.
+ * @param writer The transaction or write batch which removes the document.
+ */
+export const addTombstone = (collectionName: TCollectionName, networkObject: IObject & {id: string}, writer: IStorageWriter) => {
+    const tombstone: ITombstoneDatabase = {
+        id: networkObject.id,
+        collectionName,
+        cell: getNetworkObjectCellString(networkObject),
+        deletedAt: admin.firestore.Timestamp.now()
+    };
+    writer.collection("tombstones").add(tombstone);
+};
+
+/**
+ * Leave a tombstone in the previous cell of a document which moved into another cell. Clients syncing the previous cell
+ * remove their copy, clients syncing the new cell receive the moved document.
+ * @param collectionName The collection of the document.
+ * @param previous The stored document before the movement.
+ * @param position The new position of the document.
+ * @param writer The transaction or write batch which moves the document.
+ */
+export const addTombstoneIfCellChanged = (
+    collectionName: TCollectionName,
+    previous: IObject & {id: string},
+    position: IObject,
+    writer: IStorageWriter
+) => {
+    if (getNetworkObjectCellString(previous) !== getNetworkObjectCellString(position)) {
+        addTombstone(collectionName, previous, writer);
+    }
+};
+
+/**
+ * Get the tombstones in the delta cells since the sync window.
+ * @param syncWindow The cells to load.
+ */
+export const getTombstones = async (syncWindow: ISyncWindow): Promise<IApiTombstone[]> => {
+    if (!syncWindow.since || syncWindow.deltaCells.length === 0) {
+        return [];
+    }
+    const documents = await getStorage().collection("tombstones").query([
+        where("cell", "in", syncWindow.deltaCells),
+        where("deletedAt", ">", syncWindow.since)
+    ]);
+    return documents.map(({data}): IApiTombstone => {
+        return {
+            id: data.id,
+            collectionName: data.collectionName,
+            deletedAt: data.deletedAt.toDate().toISOString()
+        };
+    });
+};
+
+/**
+ * Delete tombstones which are older than any valid sync cursor.
+ */
+export const purgeTombstones = async () => {
+    const expiredTime = admin.firestore.Timestamp.fromMillis(Date.now() - tombstoneRetentionMilliseconds);
+    while (true) {
+        const documents = await getStorage().collection("tombstones").query([
+            where("deletedAt", "<", expiredTime)
+        ], {limit: 500});
+        if (documents.length === 0) {
+            break;
+        }
+        const batch = getStorage().batch();
+        documents.forEach(({id}) => batch.collection("tombstones").delete(id));
+        await batch.commit();
+    }
+};
@@ -0,0 +1,111 @@
+import * as admin from "firebase-admin";
+import {ELedgerReason} from "./types/api";
+import {ILotDatabase, IPersonDatabase, ITaxWarningDatabase} from "./types/database";
+import {lotTaxGracePeriodMilliseconds} from "./config";
+import {getLotTax, performLotTaxTick} from "./taxes";
+import {createMemoryStorage, getStorage, setStorage} from "./storage";
+import {createTestLot, createTestPerson} from "./testUtils";
+
+/**
+ * An owner who cannot pay their tax is warned first and loses the lot only after the grace period.
+ */
+
+/**
+ * The current time of the tests, Date.now() returns it.
+ */
+let now: number;
+
+const getPerson = async (id: string) => await getStorage().collection("persons").get(id) as IPersonDatabase;
+const getLot = async (id: string) => await getStorage().collection("lots").get(id) as ILotDatabase;
+const getWarning = async (id: string) => await getStorage().collection("taxWarnings").get(id) as ITaxWarningDatabase;
+
+beforeEach(async () => {
+    now = Date.now();
+    jest.spyOn(Date, "now").mockImplementation(() => now);
+    setStorage(createMemoryStorage());
+    await getStorage().collection("persons").set("alice", createTestPerson("alice"));
+    await getStorage().collection("lots").set("lot", createTestLot("lot", {owner: "alice"}));
+    await getStorage().collection("lots").set("city lot", createTestLot("city lot", {x: 100}));
+});
+
+afterEach(() => {
+    jest.restoreAllMocks();
+});
+
+describe("getLotTax", () => {
+    it("charges each zone by the size of the lot", () => {
+        expect(getLotTax(createTestLot("lot"))).toBe(0.1);
+        expect(getLotTax(createTestLot("lot", {width: 200, height: 300}))).toBe(0.6);
+    });
+});
+
+describe("performLotTaxTick", () => {
+    it("charges the owner of each lot and records the tax in the ledger", async () => {
+        await performLotTaxTick();
+
+        expect((await getPerson("alice")).cash).toBe(999.9);
+        expect(await getStorage().collection("taxWarnings").get("alice")).toBeNull();
+        const entries = await getStorage().collection("ledgerEntries").query([]);
+        expect(entries.map(({data}) => data)).toEqual([expect.objectContaining({
+            from: "alice",
+            to: null,
+            amount: 0.1,
+            reason: ELedgerReason.LOT_TAX,
+            referenceId: "lot"
+        })]);
+    });
+
+    it("warns an owner who can pay this tax but not the next", async () => {
+        await getStorage().collection("persons").merge("alice", {cash: 0.15});
+        await performLotTaxTick();
+
+        expect((await getPerson("alice")).cash).toBeCloseTo(0.05);
+        expect(await getWarning("alice")).toMatchObject({amountDue: 0.1, unpaidLotIds: [], repossessAt: null});
+        expect((await getLot("lot")).taxUnpaidSince).toBeFalsy();
+    });
+
+    it("marks the lot unpaid and removes the warning once the tax is paid", async () => {
+        await getStorage().collection("persons").merge("alice", {cash: 0});
+        await performLotTaxTick();
+
+        expect((await getLot("lot")).taxUnpaidSince).toEqual(admin.firestore.Timestamp.fromMillis(now));
+        expect(await getWarning("alice")).toMatchObject({
+            amountDue: 0.1,
+            unpaidLotIds: ["lot"],
+            repossessAt: admin.firestore.Timestamp.fromMillis(now + lotTaxGracePeriodMilliseconds)
+        });
+
+        await getStorage().collection("persons").merge("alice", {cash: 10});
+        now += 1000;
+        await performLotTaxTick();
+
+        expect((await getPerson("alice")).cash).toBe(9.9);
+        expect((await getLot("lot")).taxUnpaidSince).toBeNull();
+        expect(await getStorage().collection("taxWarnings").get("alice")).toBeNull();
+    });
+
+    it("repossesses a lot which is unpaid for the grace period", async () => {
+        await getStorage().collection("persons").merge("alice", {cash: 0});
+        await performLotTaxTick();
+
+        now += lotTaxGracePeriodMilliseconds - 1;
+        await performLotTaxTick();
+        expect((await getLot("lot")).owner).toBe("alice");
+
+        now += 1;
+        await performLotTaxTick();
+        expect(await getLot("lot")).toMatchObject({owner: null, taxUnpaidSince: null});
+        expect(await getStorage().collection("taxWarnings").get("alice")).toBeNull();
+        expect((await getPerson("alice")).cash).toBe(0);
+    });
+
+    it("removes the warning of a person who no longer owns a lot", async () => {
+        await getStorage().collection("persons").merge("alice", {cash: 0});
+        await performLotTaxTick();
+        expect(await getStorage().collection("taxWarnings").get("alice")).not.toBeNull();
+
+        await getStorage().collection("lots").merge("lot", {owner: null});
+        await performLotTaxTick();
+        expect(await getStorage().collection("taxWarnings").get("alice")).toBeNull();
+    });
+});
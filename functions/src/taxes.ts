@@ -0,0 +1,170 @@
+import * as admin from "firebase-admin";
+import {ILot} from "persons-game-common/lib/types/GameTypes";
+import {ILotDatabase, ITaxWarningDatabase} from "./types/database";
+import {ELedgerReason, IApiTaxWarning} from "./types/api";
+import {addCashPayment, applyCashChanges, createCashChanges, getAvailableCash, roundCash} from "./cash";
+import {lotTaxGracePeriodMilliseconds, lotTaxRatesPerZone} from "./config";
+import {repossessLot} from "./lots";
+import {getStorage, IStoredDocument, where} from "./storage";
+
+/**
+ * Property tax on owned lots. The lot tax tick charges every owner a tax for each of their lots by the size and zone of
+ * the lot. A lot whose tax the owner cannot pay is marked unpaid until a later tick can charge it again, and an owner
+ * who cannot pay their next tax is warned. A lot which stays unpaid for the grace period is repossessed and put back on
+ * the market without an owner.
+ */
+
+/**
+ * The tax of a lot on each lot tax tick.
+ * @param lot The lot to tax.
+ */
+export const getLotTax = (lot: Pick<ILot, "width" | "height" | "zone">): number => {
+    return roundCash(lot.width * lot.height / (100 * 100) * lotTaxRatesPerZone[lot.zone]);
+};
+
+/**
+ * Convert a tax warning from the database into the API format.
+ * @param warning The warning to convert.
+ */
+const taxWarningDatabaseToClient = (warning: ITaxWarningDatabase): IApiTaxWarning => ({
+    amountDue: warning.amountDue,
+    unpaidLotIds: warning.unpaidLotIds,
+    repossessAt: warning.repossessAt ? warning.repossessAt.toDate().toISOString() : null
+});
+
+/**
+ * Get the tax warning of a person.
+ * @param personId The person to find the tax warning of.
+ */
+export const getTaxWarningOfPerson = async (personId: string): Promise<IApiTaxWarning | null> => {
+    const warning = await getStorage().collection("taxWarnings").get(personId);
+    return warning ? taxWarningDatabaseToClient(warning) : null;
+};
+
+/**
+ * Charge the tax of every lot of an owner. Lots which were unpaid the longest are paid first, lots the owner cannot pay
+ * for are marked unpaid. The warning of the owner is updated or removed.
+ * @param personId The owner of the lots.
+ * @param lotIds The lots of the owner.
+ * @return The lots which were unpaid for longer than the grace period.
+ */
+const performLotTaxTickOnOwner = async (personId: string, lotIds: string[]): Promise<string[]> => {
+    return await getStorage().runTransaction(async (transaction) => {
+        const personData = await transaction.collection("persons").get(personId);
+        const lotsData = await transaction.collection("lots").getAll(lotIds);
+        const warning = await transaction.collection("taxWarnings").get(personId);
+        if (!personData) {
+            return [];
+        }
+        const now = admin.firestore.Timestamp.now();
+        const getUnpaidSince = (lot: ILotDatabase) => lot.taxUnpaidSince ? lot.taxUnpaidSince.toMillis() : Infinity;
+        const lots = lotsData.filter((lot): lot is ILotDatabase => !!lot && lot.owner === personId)
+            .sort((a, b) => getUnpaidSince(a) - getUnpaidSince(b));
+
+        // pay the tax of each lot while the owner has the cash
+        const changes = createCashChanges();
+        let availableCash = getAvailableCash(personData);
+        const unpaidLots: ILotDatabase[] = [];
+        const overdueLotIds: string[] = [];
+        for (const lot of lots) {
+            const tax = getLotTax(lot);
+            if (availableCash >= tax) {
+                availableCash -= tax;
+                if (tax > 0) {
+                    addCashPayment(changes, {
+                        from: personId,
+                        to: null,
+                        amount: tax,
+                        reason: ELedgerReason.LOT_TAX,
+                        referenceId: lot.id
+                    });
+                }
+                if (lot.taxUnpaidSince) {
+                    const lotData: Partial<ILotDatabase> = {
+                        taxUnpaidSince: null,
+                        lastUpdate: now
+                    };
+                    transaction.collection("lots").merge(lot.id, lotData);
+                }
+            } else if (lot.taxUnpaidSince && now.toMillis() - lot.taxUnpaidSince.toMillis() >= lotTaxGracePeriodMilliseconds) {
+                overdueLotIds.push(lot.id);
+            } else {
+                if (!lot.taxUnpaidSince) {
+                    const lotData: Partial<ILotDatabase> = {
+                        taxUnpaidSince: now,
+                        lastUpdate: now
+                    };
+                    transaction.collection("lots").merge(lot.id, lotData);
+                }
+                unpaidLots.push({...lot, taxUnpaidSince: lot.taxUnpaidSince || now});
+            }
+        }
+        applyCashChanges(transaction, new Map([[personId, personData]]), changes);
+
+        // warn the owner if they cannot pay the next tax of the lots they keep
+        const amountDue = roundCash(lots.filter(lot => !overdueLotIds.includes(lot.id))
+            .reduce((sum, lot) => sum + getLotTax(lot), 0));
+        if (unpaidLots.length > 0 || (amountDue > 0 && availableCash < amountDue)) {
+            const firstUnpaidLot = unpaidLots[0];
+            const newWarning: ITaxWarningDatabase = {
+                personId,
+                amountDue,
+                unpaidLotIds: unpaidLots.map(lot => lot.id),
+                repossessAt: firstUnpaidLot && firstUnpaidLot.taxUnpaidSince ?
+                    admin.firestore.Timestamp.fromMillis(firstUnpaidLot.taxUnpaidSince.toMillis() + lotTaxGracePeriodMilliseconds) :
+                    null,
+                createdAt: warning ? warning.createdAt : now
+            };
+            transaction.collection("taxWarnings").set(personId, newWarning);
+        } else if (warning) {
+            transaction.collection("taxWarnings").delete(personId);
+        }
+        return overdueLotIds;
+    });
+};
+
+/**
+ * Repossess a lot whose tax is still unpaid after the grace period.
+ * @param lotId The lot to repossess.
+ */
+const repossessOverdueLot = async (lotId: string) => {
+    await getStorage().runTransaction(async (transaction) => {
+        const lot = await transaction.collection("lots").get(lotId);
+        const now = admin.firestore.Timestamp.now();
+        if (!lot || !lot.owner || !lot.taxUnpaidSince ||
+            now.toMillis() - lot.taxUnpaidSince.toMillis() < lotTaxGracePeriodMilliseconds) {
+            // the lot was sold or its tax was paid since it was charged
+            return;
+        }
+        await repossessLot(transaction, lotId);
+    });
+};
+
+/**
+ * Charge the tax of every owned lot, repossess lots which are unpaid for too long and remove the warnings of persons who
+ * no longer own a lot.
+ */
+export const performLotTaxTick = async () => {
+    // every owner id is a string above "", lots without an owner are skipped
+    const lots = await getStorage().collection("lots").query([where("owner", ">", "")]);
+    const lotIdsByOwner = lots.reduce((acc: Map<string, string[]>, {id, data}: IStoredDocument<ILotDatabase>) => {
+        if (data.owner) {
+            acc.set(data.owner, [...(acc.get(data.owner) || []), id]);
+        }
+        return acc;
+    }, new Map<string, string[]>());
+
+    for (const [personId, lotIds] of Array.from(lotIdsByOwner.entries())) {
+        const overdueLotIds = await performLotTaxTickOnOwner(personId, lotIds);
+        for (const lotId of overdueLotIds) {
+            await repossessOverdueLot(lotId);
+        }
+    }
+
+    const warnings = await getStorage().collection("taxWarnings").query([]);
+    for (const {id} of warnings) {
+        if (!lotIdsByOwner.has(id)) {
+            await getStorage().collection("taxWarnings").delete(id);
+        }
+    }
+};
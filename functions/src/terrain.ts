@@ -16,6 +16,7 @@ import {
     terrainTileToId
 } from "persons-game-common/lib/terrain";
 import {getNetworkObjectCellString} from "persons-game-common/lib/cell";
+import {getStorage} from "./storage";
 
 /**
  * Update the terrain, loading and unloading trees and rocks around the player. It should generate an infinite terrain effect.
@@ -28,16 +29,10 @@ export const updateTerrain = async ({currentPerson}: {currentPerson: IPersonData
 
     // get terrain tiles that should be loaded
     const terrainTilesToLoad: ITerrainTilePosition[] = terrainTilesThatShouldBeLoaded(tilePosition);
-    const newTerrainTiles: ITerrainTilePosition[] = (await Promise.all(terrainTilesToLoad.map((terrainTile) => {
-        return admin.firestore().collection("terrainTiles").doc(terrainTileToId(terrainTile)).get().then((documentSnapshot) => {
-            return {
-                terrainTile,
-                documentSnapshot
-            };
-        });
-    }))).filter(({documentSnapshot}) => {
-        return !documentSnapshot.exists;
-    }).map(({terrainTile}) => terrainTile);
+    const existingTerrainTiles = await getStorage().collection("terrainTiles").getAll(terrainTilesToLoad.map(terrainTileToId));
+    const newTerrainTiles: ITerrainTilePosition[] = terrainTilesToLoad.filter((terrainTile, index) => {
+        return !existingTerrainTiles[index];
+    });
 
     // send messages to pub sub to concurrently generate terrain tiles
     const pubSub = new PubSub();
@@ -49,18 +44,18 @@ export const updateTerrain = async ({currentPerson}: {currentPerson: IPersonData
 
 const saveTerrainTileWithResources = async (terrainTile: ITerrainTilePosition, resources: IResource[]) => {
     // run a transaction to lock specific terrain tiles to save, do not save the same terrain tile twice
-    await admin.firestore().runTransaction(async (transaction) => {
+    await getStorage().runTransaction(async (transaction) => {
         // only if terrain tile does not exist
-        const terrainTileDoc = await transaction.get(admin.firestore().collection("terrainTiles").doc(terrainTileToId(terrainTile)));
+        const terrainTileData = await transaction.collection("terrainTiles").get(terrainTileToId(terrainTile));
 
-        if (!terrainTileDoc.exists) {
+        if (!terrainTileData) {
             // add all new resources
             for (const resource of resources) {
-                transaction.set(admin.firestore().collection("resources").doc(resource.id), resourceClientToDatabase(resource), {merge: true});
+                transaction.collection("resources").merge(resource.id, resourceClientToDatabase(resource));
             }
 
             // add new terrain tile
-            transaction.create(terrainTileDoc.ref, terrainTile);
+            transaction.collection("terrainTiles").create(terrainTileToId(terrainTile), terrainTile);
         }
     });
 };
@@ -90,11 +85,10 @@ export const handleGenerateTerrainTile = async (terrainTile: ITerrainTilePositio
 };
 
 const harvestResource = async (resourceId: string) => {
-    const cellString = await admin.firestore().runTransaction(async (transaction): Promise<string | null> => {
+    const cellString = await getStorage().runTransaction(async (transaction): Promise<string | null> => {
         // check to see if resource exists
-        const resourceDocument = await transaction.get(admin.firestore().collection("resources").doc(resourceId));
-        if (resourceDocument.exists) {
-            const resource = resourceDocument.data() as IResourceDatabase;
+        const resource = await transaction.collection("resources").get(resourceId);
+        if (resource) {
             // resource is ready to be harvested
             if (!resource.depleted || resource.readyTime.toMillis() <= +new Date()) {
                 const controller = new HarvestResourceController(resource as any);
@@ -116,8 +110,8 @@ const harvestResource = async (resourceId: string) => {
                         readyTime: admin.firestore.Timestamp.fromMillis(+new Date() + respawnTime)
                     };
 
-                    transaction.set(admin.firestore().collection("objects").doc(spawnData.id), spawnData, {merge: true});
-                    transaction.set(admin.firestore().collection("resources").doc(resourceId), resourceUpdate, {merge: true});
+                    transaction.collection("objects").merge(spawnData.id, spawnData);
+                    transaction.collection("resources").merge(resourceId, resourceUpdate);
                     createCellLock(resourceDatabaseToClient(resource), transaction);
 
                     return getNetworkObjectCellString(resource);
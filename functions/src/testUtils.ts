@@ -0,0 +1,139 @@
+import * as admin from "firebase-admin";
+import * as express from "express";
+import {ELotZone, ENetworkObjectType} from "persons-game-common/lib/types/GameTypes";
+import {getNetworkObjectCellString} from "persons-game-common/lib/cell";
+import {handleApiError} from "./errors";
+import {ILotDatabase, IPersonDatabase} from "./types/database";
+import {defaultPersonHealthObject} from "./config";
+
+/**
+ * Helpers for tests which call the request handlers directly, without an HTTP server. Use them together with
+ * setStorage(createMemoryStorage()) so each test runs against an empty database.
+ */
+
+/**
+ * The request given to a handler.
+ */
+export interface ITestRequest {
+    /**
+     * The JSON body of the request.
+     */
+    body?: any;
+    /**
+     * The query parameters of the request.
+     */
+    query?: {[key: string]: string};
+    /**
+     * The headers of the request.
+     */
+    headers?: {[key: string]: string};
+    /**
+     * The person of the session, set by the authenticatePerson middleware in the app.
+     */
+    personId?: string;
+}
+
+/**
+ * The response returned by a handler.
+ */
+export interface ITestResponse {
+    statusCode: number;
+    /**
+     * The JSON body of the response, undefined if the handler only sent a status.
+     */
+    body?: any;
+}
+
+/**
+ * Call a request handler and wait for its response. An [[ApiError]] passed to next() is converted into a response like
+ * the app does, any other error rejects.
+ * @param handler The request handler.
+ * @param request The request to give the handler.
+ */
+export const callHandler = (handler: express.RequestHandler, request: ITestRequest = {}): Promise<ITestResponse> => {
+    return new Promise<ITestResponse>((resolve, reject) => {
+        const headers = Object.keys(request.headers || {}).reduce((acc: {[key: string]: string}, key: string) => {
+            acc[key.toLowerCase()] = (request.headers as {[key: string]: string})[key];
+            return acc;
+        }, {});
+        const req = {
+            body: request.body || {},
+            query: request.query || {},
+            header: (name: string) => headers[name.toLowerCase()]
+        } as unknown as express.Request;
+        let statusCode = 200;
+        const res = {
+            locals: {personId: request.personId},
+            status(code: number) {
+                statusCode = code;
+                return res;
+            },
+            json(body: any) {
+                resolve({statusCode, body});
+                return res;
+            },
+            sendStatus(code: number) {
+                resolve({statusCode: code});
+                return res;
+            }
+        } as unknown as express.Response;
+        const next = (err?: any) => {
+            if (!err) {
+                reject(new Error("The handler did not send a response"));
+                return;
+            }
+            handleApiError(err, req, res, reject);
+        };
+        handler(req, res, next);
+    });
+};
+
+/**
+ * Create a person for a test, at the origin with 1000 cash, no credit and an empty inventory.
+ * @param id The id of the person.
+ * @param data Fields which replace the defaults.
+ */
+export const createTestPerson = (id: string, data: Partial<IPersonDatabase> = {}): IPersonDatabase => ({
+    id,
+    x: 0,
+    y: 0,
+    password: "",
+    pantColor: "blue",
+    shirtColor: "grey",
+    carId: null,
+    lastUpdate: admin.firestore.Timestamp.now(),
+    cash: 1000,
+    creditLimit: 0,
+    objectType: ENetworkObjectType.PERSON,
+    health: defaultPersonHealthObject,
+    cell: getNetworkObjectCellString({x: data.x || 0, y: data.y || 0}),
+    inventory: {
+        rows: 1,
+        columns: 10,
+        slots: []
+    },
+    craftingSeed: "",
+    craftingState: true,
+    ...data
+});
+
+/**
+ * Create a residential lot of 100 by 100 pixels for a test.
+ * @param id The id of the lot.
+ * @param data Fields which replace the defaults.
+ */
+export const createTestLot = (id: string, data: Partial<ILotDatabase> = {}): ILotDatabase => ({
+    id,
+    x: 0,
+    y: 0,
+    owner: null,
+    format: null,
+    width: 100,
+    height: 100,
+    zone: ELotZone.RESIDENTIAL,
+    buyOffers: null,
+    sellOffers: null,
+    cells: [getNetworkObjectCellString({x: data.x || 0, y: data.y || 0})],
+    lastUpdate: admin.firestore.Timestamp.now(),
+    ...data
+});
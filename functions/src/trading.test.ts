@@ -0,0 +1,154 @@
+import * as admin from "firebase-admin";
+import {ENetworkObjectType} from "persons-game-common/lib/types/GameTypes";
+import {getNetworkObjectCellString} from "persons-game-common/lib/cell";
+import {ELedgerReason} from "./types/api";
+import {INetworkObjectDatabase, IPersonDatabase, ITradeDatabase} from "./types/database";
+import {tradeDistance} from "./config";
+import {cancelTradesOutOfRange, handleTradeConfirm, handleTradeOffer, handleTradePropose} from "./trading";
+import {createMemoryStorage, getStorage, setStorage} from "./storage";
+import {callHandler, createTestPerson} from "./testUtils";
+
+/**
+ * Both sides see and confirm the final offers before anything changes hands.
+ */
+
+const getPerson = async (id: string) => await getStorage().collection("persons").get(id) as IPersonDatabase;
+const getTrade = async (id: string) => await getStorage().collection("trades").get(id) as ITradeDatabase;
+
+/**
+ * Create an item in the inventory of a person.
+ * @param id The id of the item.
+ * @param personId The person holding the item.
+ * @param objectType The type of the item.
+ */
+const createInventoryItem = (
+    id: string,
+    personId: string,
+    objectType: ENetworkObjectType
+): INetworkObjectDatabase => ({
+    id,
+    x: 0,
+    y: 0,
+    objectType,
+    lastUpdate: admin.firestore.Timestamp.now(),
+    health: {max: 10, value: 10, rate: 0},
+    cell: getNetworkObjectCellString({x: 0, y: 0}),
+    insideStockpile: null,
+    grabbedByPersonId: personId,
+    grabbedByNpcId: null,
+    isInInventory: true,
+    amount: 1,
+    exist: true,
+    state: []
+});
+
+const propose = async (): Promise<string> => {
+    const response = await callHandler(handleTradePropose, {
+        personId: "alice",
+        body: {personId: "alice", otherPersonId: "bob"}
+    });
+    expect(response.statusCode).toBe(201);
+    return response.body.tradeId;
+};
+const offer = (personId: string, tradeId: string, objectIds: string[], cash: number) => callHandler(handleTradeOffer, {
+    personId,
+    body: {personId, tradeId, objectIds, cash}
+});
+const confirm = (personId: string, tradeId: string) => callHandler(handleTradeConfirm, {
+    personId,
+    body: {personId, tradeId}
+});
+
+beforeEach(async () => {
+    setStorage(createMemoryStorage());
+    const stick = createInventoryItem("stick", "alice", ENetworkObjectType.STICK);
+    const wood = createInventoryItem("wood", "bob", ENetworkObjectType.WOOD);
+    await getStorage().collection("persons").set("alice", createTestPerson("alice", {
+        inventory: {rows: 1, columns: 10, slots: [stick]}
+    }));
+    await getStorage().collection("persons").set("bob", createTestPerson("bob", {
+        x: 50,
+        inventory: {rows: 1, columns: 10, slots: [wood]}
+    }));
+    await getStorage().collection("objects").set("stick", stick);
+    await getStorage().collection("objects").set("wood", wood);
+});
+
+describe("handleTradeConfirm", () => {
+    it("swaps the items and cash once both sides confirmed", async () => {
+        const tradeId = await propose();
+        expect(await offer("alice", tradeId, ["stick"], 100)).toEqual({statusCode: 200});
+        expect(await offer("bob", tradeId, ["wood"], 0)).toEqual({statusCode: 200});
+
+        expect(await confirm("alice", tradeId)).toEqual({statusCode: 200, body: {completed: false}});
+        expect(await getPerson("alice")).toMatchObject({cash: 1000});
+        expect(await confirm("bob", tradeId)).toEqual({statusCode: 200, body: {completed: true}});
+
+        const alice = await getPerson("alice");
+        const bob = await getPerson("bob");
+        expect(alice.cash).toBe(900);
+        expect(bob.cash).toBe(1100);
+        expect(alice.inventory.slots).toEqual([expect.objectContaining({id: "wood", grabbedByPersonId: "alice"})]);
+        expect(bob.inventory.slots).toEqual([expect.objectContaining({id: "stick", grabbedByPersonId: "bob"})]);
+        expect(await getStorage().collection("trades").get(tradeId)).toBeNull();
+        const entries = await getStorage().collection("ledgerEntries").query([]);
+        expect(entries.map(({data}) => data)).toEqual([expect.objectContaining({
+            from: "alice",
+            to: "bob",
+            amount: 100,
+            reason: ELedgerReason.TRADE,
+            referenceId: tradeId
+        })]);
+    });
+
+    it("does not complete the trade when the persons moved apart", async () => {
+        const tradeId = await propose();
+        await confirm("alice", tradeId);
+        await getStorage().collection("persons").merge("bob", {x: tradeDistance + 1});
+
+        expect(await confirm("bob", tradeId)).toMatchObject({statusCode: 409});
+        expect(await getTrade(tradeId)).not.toBeNull();
+    });
+});
+
+describe("handleTradeOffer", () => {
+    it("clears the confirmation of both sides when an offer changes", async () => {
+        const tradeId = await propose();
+        await offer("alice", tradeId, ["stick"], 0);
+        await confirm("alice", tradeId);
+        expect((await getTrade(tradeId)).sides.map(side => side.confirmed)).toEqual([true, false]);
+
+        await offer("bob", tradeId, [], 50);
+        expect((await getTrade(tradeId)).sides).toEqual([
+            {personId: "alice", objectIds: ["stick"], cash: 0, confirmed: false},
+            {personId: "bob", objectIds: [], cash: 50, confirmed: false}
+        ]);
+
+        // bob confirming alone does not complete the trade anymore
+        expect(await confirm("bob", tradeId)).toEqual({statusCode: 200, body: {completed: false}});
+        expect((await getPerson("bob")).inventory.slots).toEqual([expect.objectContaining({id: "wood"})]);
+    });
+
+    it("rejects an item which is not in the inventory of the person", async () => {
+        const tradeId = await propose();
+        expect(await offer("alice", tradeId, ["wood"], 0)).toMatchObject({statusCode: 404});
+    });
+});
+
+describe("cancelTradesOutOfRange", () => {
+    it("cancels the trade when a person walked out of range", async () => {
+        const tradeId = await propose();
+        await getStorage().collection("persons").merge("bob", {x: 1000});
+
+        await cancelTradesOutOfRange("bob");
+        expect(await getStorage().collection("trades").get(tradeId)).toBeNull();
+    });
+
+    it("keeps the trade while the persons are in range", async () => {
+        const tradeId = await propose();
+        await getStorage().collection("persons").merge("bob", {x: tradeDistance});
+
+        await cancelTradesOutOfRange("bob");
+        expect(await getTrade(tradeId)).not.toBeNull();
+    });
+});
@@ -0,0 +1,352 @@
+import * as admin from "firebase-admin";
+import * as express from "express";
+import * as crypto from "crypto";
+import {IObject, IPerson} from "persons-game-common/lib/types/GameTypes";
+import {InventoryController} from "persons-game-common/lib/inventory";
+import {IPersonDatabase, ITradeDatabase, ITradeSideDatabase} from "./types/database";
+import {
+    EApiErrorCode,
+    ELedgerReason,
+    IApiPersonsTradeIdPost,
+    IApiPersonsTradeOfferPost,
+    IApiPersonsTradeProposePost,
+    IApiTrade
+} from "./types/api";
+import {ApiError} from "./errors";
+import {addCashPayment, applyCashChanges, createCashChanges, getAvailableCash} from "./cash";
+import {networkObjectClientToDatabase, personClientToDatabase, personDatabaseToClient} from "./common";
+import {tradeDistance} from "./config";
+import {getStorage, IStorageTransaction, where} from "./storage";
+
+/**
+ * Trading between two nearby persons. One person proposes a trade, then each side offers inventory slots and cash.
+ * Changing an offer clears the confirmation of both sides so nobody accepts a deal they have not seen. Once both sides
+ * confirm, the items and cash are swapped by one transaction. A trade is cancelled when the persons walk out of range.
+ */
+
+/**
+ * If two persons are close enough to trade.
+ * @param a The first person.
+ * @param b The second person.
+ */
+const isWithinTradeDistance = (a: IObject, b: IObject): boolean => {
+    return Math.abs(a.x - b.x) <= tradeDistance && Math.abs(a.y - b.y) <= tradeDistance;
+};
+
+/**
+ * Convert a trade from the database into the API format.
+ * @param id The id of the trade.
+ * @param trade The trade to convert.
+ */
+const tradeDatabaseToClient = (id: string, trade: ITradeDatabase): IApiTrade => ({
+    id,
+    sides: trade.sides,
+    createdAt: trade.createdAt.toDate().toISOString()
+});
+
+/**
+ * Get the open trade of a person.
+ * @param personId The person to find the trade of.
+ */
+export const getTradeOfPerson = async (personId: string): Promise<IApiTrade | null> => {
+    const documents = await getStorage().collection("trades").query([
+        where("personIds", "array-contains", personId)
+    ], {limit: 1});
+    return documents.length > 0 ? tradeDatabaseToClient(documents[0].id, documents[0].data) : null;
+};
+
+/**
+ * Read a trade of a person inside a transaction.
+ * @param transaction The transaction to read with.
+ * @param tradeId The trade to read.
+ * @param personId The person who must be a side of the trade.
+ */
+const getTradeOfSide = async (
+    transaction: IStorageTransaction,
+    tradeId: string,
+    personId: string
+): Promise<ITradeDatabase> => {
+    const trade = await transaction.collection("trades").get(tradeId);
+    if (!trade) {
+        throw new ApiError(404, EApiErrorCode.NOT_FOUND, `Trade ${tradeId} does not exist`);
+    }
+    if (!trade.personIds.includes(personId)) {
+        throw new ApiError(403, EApiErrorCode.FORBIDDEN, "Only the persons of the trade can change it");
+    }
+    return trade;
+};
+
+/**
+ * Read both persons of a trade inside a transaction.
+ * @param transaction The transaction to read with.
+ * @param personIds The persons of the trade.
+ */
+const getTradePersons = async (
+    transaction: IStorageTransaction,
+    personIds: string[]
+): Promise<Map<string, IPersonDatabase>> => {
+    const personDocuments = await transaction.collection("persons").getAll(personIds);
+    const persons = new Map<string, IPersonDatabase>();
+    personIds.forEach((personId, index) => {
+        const personData = personDocuments[index];
+        if (!personData) {
+            throw new ApiError(404, EApiErrorCode.NOT_FOUND, `Person ${personId} does not exist`);
+        }
+        persons.set(personId, personData);
+    });
+    return persons;
+};
+
+/**
+ * Handle POST /persons/trade/propose. Open a trade with a nearby person.
+ * @param req
+ * @param res
+ * @param next
+ */
+export const handleTradePropose = (req: express.Request, res: express.Response, next: express.NextFunction) => {
+    (async () => {
+        const {personId, otherPersonId} = req.body as IApiPersonsTradeProposePost;
+        if (typeof otherPersonId !== "string" || otherPersonId === personId) {
+            throw new ApiError(400, EApiErrorCode.INVALID_REQUEST, "Require an otherPersonId of another person");
+        }
+        const tradeId = `trade-${crypto.randomBytes(8).toString("hex")}`;
+        await getStorage().runTransaction(async (transaction) => {
+            const persons = await getTradePersons(transaction, [personId, otherPersonId]);
+            const openTrades = await transaction.collection("trades").query([
+                where("personIds", "array-contains-any", [personId, otherPersonId])
+            ], {limit: 1});
+            const personData = persons.get(personId) as IPersonDatabase;
+            const otherPersonData = persons.get(otherPersonId) as IPersonDatabase;
+            if (personData.deathTime || otherPersonData.deathTime) {
+                throw new ApiError(409, EApiErrorCode.CONFLICT, "Dead persons cannot trade");
+            }
+            if (!isWithinTradeDistance(personData, otherPersonData)) {
+                throw new ApiError(409, EApiErrorCode.CONFLICT, "The other person is too far away to trade");
+            }
+            if (openTrades.length > 0) {
+                throw new ApiError(409, EApiErrorCode.CONFLICT, "One of the persons is already trading");
+            }
+
+            const emptySide = (sidePersonId: string): ITradeSideDatabase => ({
+                personId: sidePersonId,
+                objectIds: [],
+                cash: 0,
+                confirmed: false
+            });
+            const trade: ITradeDatabase = {
+                personIds: [personId, otherPersonId],
+                sides: [emptySide(personId), emptySide(otherPersonId)],
+                createdAt: admin.firestore.Timestamp.now()
+            };
+            transaction.collection("trades").set(tradeId, trade);
+        });
+        res.status(201).json({tradeId});
+    })().catch((err) => next(err));
+};
+
+/**
+ * Handle POST /persons/trade/offer. Replace the items and cash the person gives in a trade.
+ * @param req
+ * @param res
+ * @param next
+ */
+export const handleTradeOffer = (req: express.Request, res: express.Response, next: express.NextFunction) => {
+    (async () => {
+        const {personId, tradeId, objectIds, cash} = req.body as IApiPersonsTradeOfferPost;
+        if (typeof tradeId !== "string" || !Array.isArray(objectIds) || objectIds.some(id => typeof id !== "string") ||
+            typeof cash !== "number" || !isFinite(cash) || cash < 0) {
+            throw new ApiError(400, EApiErrorCode.INVALID_REQUEST, "Require a tradeId, a list of objectIds and cash of at least 0");
+        }
+        await getStorage().runTransaction(async (transaction) => {
+            const trade = await getTradeOfSide(transaction, tradeId, personId);
+            const persons = await getTradePersons(transaction, [personId]);
+            const personData = persons.get(personId) as IPersonDatabase;
+            const uniqueObjectIds = Array.from(new Set(objectIds));
+            const missingObjectId = uniqueObjectIds.find(id => !personData.inventory.slots.some(slot => slot.id === id));
+            if (missingObjectId) {
+                throw new ApiError(404, EApiErrorCode.NOT_FOUND, `Object ${missingObjectId} is not in the inventory`);
+            }
+            if (cash > getAvailableCash(personData)) {
+                throw new ApiError(402, EApiErrorCode.INSUFFICIENT_FUNDS, `Person ${personId} does not have enough cash or credit`);
+            }
+
+            // a changed offer has to be confirmed again by both sides
+            const newTradeData: Partial<ITradeDatabase> = {
+                sides: trade.sides.map(side => side.personId === personId ? {
+                    personId,
+                    objectIds: uniqueObjectIds,
+                    cash,
+                    confirmed: false
+                } : {
+                    ...side,
+                    confirmed: false
+                })
+            };
+            transaction.collection("trades").merge(tradeId, newTradeData);
+        });
+        res.sendStatus(200);
+    })().catch((err) => next(err));
+};
+
+/**
+ * Confirm a trade for one side. The second confirmation swaps the items and cash of both sides and closes the trade.
+ * @param tradeId The trade to confirm.
+ * @param personId The person confirming.
+ * @return If the trade was completed.
+ */
+const confirmTrade = async ({tradeId, personId}: IApiPersonsTradeIdPost): Promise<boolean> => {
+    return await getStorage().runTransaction(async (transaction): Promise<boolean> => {
+        const trade = await getTradeOfSide(transaction, tradeId, personId);
+        const persons = await getTradePersons(transaction, trade.personIds);
+        const sides = trade.sides.map(side => side.personId === personId ? {...side, confirmed: true} : side);
+        if (!sides.every(side => side.confirmed)) {
+            // wait for the other side
+            const newTradeData: Partial<ITradeDatabase> = {
+                sides
+            };
+            transaction.collection("trades").merge(tradeId, newTradeData);
+            return false;
+        }
+
+        const [firstPersonData, secondPersonData] = trade.personIds.map(id => persons.get(id) as IPersonDatabase);
+        if (!isWithinTradeDistance(firstPersonData, secondPersonData)) {
+            throw new ApiError(409, EApiErrorCode.CONFLICT, "The other person is too far away to trade");
+        }
+
+        // remove the given items from both inventories first, so the received items can use the freed slots
+        const personsClient = new Map<string, IPerson>();
+        const controllers = new Map<string, InventoryController<IPerson>>();
+        persons.forEach((personData, id) => {
+            const personDataClient = personDatabaseToClient(personData);
+            personsClient.set(id, personDataClient);
+            controllers.set(id, new InventoryController(personDataClient));
+        });
+        const givenItems = sides.map(side => {
+            const controller = controllers.get(side.personId) as InventoryController<IPerson>;
+            return side.objectIds.map(objectId => {
+                const slot = controller.getInventory().slots.find(s => s.id === objectId);
+                if (!slot) {
+                    throw new ApiError(409, EApiErrorCode.CONFLICT, `Object ${objectId} is no longer in the inventory`);
+                }
+                return controller.dropItem(slot).updatedItem;
+            });
+        });
+
+        // add the given items to the inventory of the other side
+        sides.forEach((side, index) => {
+            const receiverId = sides[1 - index].personId;
+            const controller = controllers.get(receiverId) as InventoryController<IPerson>;
+            for (const item of givenItems[index]) {
+                if (!item) {
+                    continue;
+                }
+                let result;
+                try {
+                    result = controller.pickUpItem(item);
+                } catch (err) {
+                    throw new ApiError(409, EApiErrorCode.CONFLICT, `The inventory of person ${receiverId} is full`);
+                }
+                const {updatedItem, stackableSlots} = result;
+                if (updatedItem) {
+                    transaction.collection("objects").set(updatedItem.id, networkObjectClientToDatabase(updatedItem));
+                } else {
+                    // the item was stacked onto an existing slot
+                    transaction.collection("objects").delete(item.id);
+                }
+                if (stackableSlots[0]) {
+                    transaction.collection("objects").merge(stackableSlots[0].id, networkObjectClientToDatabase(stackableSlots[0]));
+                }
+            }
+        });
+        controllers.forEach((controller, id) => {
+            const {inventory} = personClientToDatabase({
+                ...personsClient.get(id) as IPerson,
+                inventory: controller.getInventory()
+            });
+            const newPersonData: Partial<IPersonDatabase> = {
+                inventory,
+                lastUpdate: admin.firestore.Timestamp.now()
+            };
+            transaction.collection("persons").merge(id, newPersonData);
+        });
+
+        // pay the cash of both sides, checking the cash and credit of each payer
+        const changes = createCashChanges();
+        sides.forEach((side, index) => {
+            if (side.cash > 0) {
+                addCashPayment(changes, {
+                    from: side.personId,
+                    to: sides[1 - index].personId,
+                    amount: side.cash,
+                    reason: ELedgerReason.TRADE,
+                    referenceId: tradeId
+                });
+            }
+        });
+        applyCashChanges(transaction, persons, changes);
+
+        transaction.collection("trades").delete(tradeId);
+        return true;
+    });
+};
+
+/**
+ * Handle POST /persons/trade/confirm. Accept the current offers of a trade.
+ * @param req
+ * @param res
+ * @param next
+ */
+export const handleTradeConfirm = (req: express.Request, res: express.Response, next: express.NextFunction) => {
+    (async () => {
+        const {personId, tradeId} = req.body as IApiPersonsTradeIdPost;
+        if (typeof tradeId !== "string") {
+            throw new ApiError(400, EApiErrorCode.INVALID_REQUEST, "Require a tradeId");
+        }
+        const completed = await confirmTrade({personId, tradeId});
+        res.status(200).json({completed});
+    })().catch((err) => next(err));
+};
+
+/**
+ * Handle POST /persons/trade/cancel. Close a trade without swapping anything.
+ * @param req
+ * @param res
+ * @param next
+ */
+export const handleTradeCancel = (req: express.Request, res: express.Response, next: express.NextFunction) => {
+    (async () => {
+        const {personId, tradeId} = req.body as IApiPersonsTradeIdPost;
+        if (typeof tradeId !== "string") {
+            throw new ApiError(400, EApiErrorCode.INVALID_REQUEST, "Require a tradeId");
+        }
+        await getStorage().runTransaction(async (transaction) => {
+            await getTradeOfSide(transaction, tradeId, personId);
+            transaction.collection("trades").delete(tradeId);
+        });
+        res.sendStatus(200);
+    })().catch((err) => next(err));
+};
+
+/**
+ * Cancel the trades of a person who walked out of range of the other person.
+ * @param personId The person who moved.
+ */
+export const cancelTradesOutOfRange = async (personId: string) => {
+    const documents = await getStorage().collection("trades").query([
+        where("personIds", "array-contains", personId)
+    ]);
+    for (const {id} of documents) {
+        await getStorage().runTransaction(async (transaction) => {
+            const trade = await transaction.collection("trades").get(id);
+            if (!trade) {
+                // already completed or cancelled
+                return;
+            }
+            const personDocuments = await transaction.collection("persons").getAll(trade.personIds);
+            const [firstPersonData, secondPersonData] = personDocuments;
+            if (!firstPersonData || !secondPersonData || !isWithinTradeDistance(firstPersonData, secondPersonData)) {
+                transaction.collection("trades").delete(id);
+            }
+        });
+    }
+};
@@ -1,18 +1,54 @@
 import {
     ECarDirection,
     ELotZone,
-    ENetworkObjectType, IInventoryState,
+    ELotZoneIndustrialType,
+    IApiLotsBuyPost,
+    ENetworkObjectType, ICity, ICraftingRecipeItem, IFloor, IHouse, IInventoryState,
     ILot,
     INetworkObject, INetworkObjectState, INpcJob,
     INpcPathPoint, INpcSchedule,
-    IObjectHealth, IOwner, IResource, IResourceSpawn
+    IObject, IObjectHealth, IOwner, IResource, IResourceSpawn, IRoad, IStockpile, IStockpileTile,
+    IVendorInventoryItem, IWall
 } from "persons-game-common/lib/types/GameTypes";
 import * as admin from "firebase-admin";
 import * as seedrandom from "seedrandom";
+import {ELedgerReason, IApiVendingMachine} from "./api";
 
-export interface ILotFillerLotAndObjects {
-    lot: ILot;
+/**
+ * The buildings and objects which a lot filler places on a lot.
+ */
+export interface ILotContents {
     objects: INetworkObject[];
+    houses: IHouse[];
+    floors: IFloor[];
+    walls: IWall[];
+    stockpiles: IStockpile[];
+    stockpileTiles: IStockpileTile[];
+    vendingMachines: IApiVendingMachine[];
+}
+
+export interface ILotFillerLotAndObjects extends ILotContents {
+    lot: ILot;
+}
+
+/**
+ * A generated city with the contents of its lots.
+ */
+export interface IGeneratedCity extends ICity, ILotContents {}
+
+/**
+ * The ASCII map a city was generated from, so the city can be generated again.
+ */
+export interface ICityMapDatabase {
+    /**
+     * The ASCII map of the zones and roads of the city.
+     */
+    format: string;
+    /**
+     * The world position of the top left corner of the map.
+     */
+    offset: IObject;
+    createdAt: admin.firestore.Timestamp;
 }
 
 /**
@@ -83,6 +119,31 @@ export interface INetworkObjectDatabase extends INetworkObjectBaseDatabase {
     state: INetworkObjectState<INetworkObject>[];
 }
 
+/**
+ * An item sold by a vending machine inside the database.
+ */
+export interface IVendingMachineItemDatabase extends IVendorInventoryItem {
+    /**
+     * How many more of the item the vending machine can sell.
+     */
+    stock: number;
+}
+
+/**
+ * A vending machine inside the database.
+ */
+export interface IVendingMachineDatabase extends INetworkObjectBaseDatabase {
+    /**
+     * The person who owns the vending machine, null for a vending machine of the city.
+     */
+    ownerId: string | null;
+    inventory: IVendingMachineItemDatabase[];
+    /**
+     * The cash from sales which the owner has not collected yet.
+     */
+    revenue: number;
+}
+
 export interface IPersonsInventoryDatabase {
     rows: number;
     columns: number;
@@ -93,13 +154,33 @@ export interface IPersonDatabase extends INetworkObjectBaseDatabase {
     shirtColor: string;
     pantColor: string;
     carId: string | null;
+    /**
+     * The salted password hash, formatted as "sha256$<salt>$<hash>". Older records store the plaintext password which
+     * is replaced with a hash on the next successful login.
+     */
     password: string;
     objectType: ENetworkObjectType.PERSON;
     cash: number;
     creditLimit: number;
+    /**
+     * The cash held for open buy offers. It cannot be spent until the offer is accepted, cancelled or rejected.
+     */
+    escrow?: number;
+    /**
+     * The unpaid balance of the loan of the person. It uses up the credit limit until it is repaid.
+     */
+    loanBalance?: number;
     inventory: IPersonsInventoryDatabase;
     craftingSeed: string;
     craftingState: seedrandom.State | true;
+    /**
+     * When the person died, null or missing while alive. A dead person cannot move until they respawn.
+     */
+    deathTime?: admin.firestore.Timestamp | null;
+    /**
+     * When the dead person respawns, null or missing while alive.
+     */
+    respawnTime?: admin.firestore.Timestamp | null;
 }
 
 export interface INpcDatabase extends IPersonDatabase {
@@ -116,6 +197,10 @@ export interface INpcDatabase extends IPersonDatabase {
 export interface ICarDatabase extends INetworkObjectBaseDatabase {
     direction: ECarDirection;
     objectType: ENetworkObjectType;
+    /**
+     * The recent path of the car, used to draw smoke trails.
+     */
+    path?: INpcPathPoint[];
 }
 
 export interface IResourceDatabase extends INetworkObjectBaseDatabase {
@@ -183,4 +268,278 @@ export interface IStockpileTileDatabase extends INetworkObjectBaseDatabase, IOwn
 export interface ICellLockDatabase {
     cell: string;
     pauseDate: admin.firestore.Timestamp;
-}
\ No newline at end of file
+}
+
+/**
+ * A login session of a person. The document id is the hash of the session token so a leaked database does not leak
+ * usable tokens.
+ */
+export interface ISessionDatabase {
+    /**
+     * The id of the person who logged in.
+     */
+    personId: string;
+    /**
+     * When the session was created.
+     */
+    createdAt: admin.firestore.Timestamp;
+    /**
+     * When the session token stops working.
+     */
+    expiresAt: admin.firestore.Timestamp;
+}
+
+/**
+ * A lot inside the database.
+ */
+export interface ILotDatabase extends ILot {
+    /**
+     * The cells the lot overlaps, lots can be larger than a cell.
+     */
+    cells: string[];
+    /**
+     * When the lot, or the offers on the lot, last changed. Used to send lot changes to clients.
+     */
+    lastUpdate?: admin.firestore.Timestamp;
+    /**
+     * When the owner first could not pay the tax of the lot, null or missing while the tax is paid.
+     */
+    taxUnpaidSince?: admin.firestore.Timestamp | null;
+    /**
+     * The specialization of an industrial lot, null or missing if the lot produces nothing.
+     */
+    industryType?: ELotZoneIndustrialType | null;
+}
+
+/**
+ * An open offer to buy or sell a lot inside the database. The price of a buy offer is held in escrow on the buyer.
+ */
+export interface ILotOfferDatabase extends IApiLotsBuyPost {
+    /**
+     * When the offer was made. Missing on offers made before offers expired.
+     */
+    createdAt?: admin.firestore.Timestamp;
+    /**
+     * When the offer closes by itself. Missing on offers made before offers expired, they stay open.
+     */
+    expiresAt?: admin.firestore.Timestamp;
+}
+
+/**
+ * A timed auction of a lot inside the database. The highest bid is held in escrow on the bidder until they are outbid
+ * or the auction settles.
+ */
+export interface ILotAuctionDatabase {
+    /**
+     * The lot being auctioned.
+     */
+    lotId: string;
+    /**
+     * The owner of the lot who started the auction.
+     */
+    personId: string;
+    /**
+     * The lowest bid which can win the auction.
+     */
+    reservePrice: number;
+    /**
+     * When the auction was started.
+     */
+    createdAt: admin.firestore.Timestamp;
+    /**
+     * When the auction closes and settles.
+     */
+    endTime: admin.firestore.Timestamp;
+    /**
+     * The highest bid, null without bids.
+     */
+    highBid: number | null;
+    /**
+     * The person with the highest bid, null without bids.
+     */
+    highBidderId: string | null;
+}
+
+/**
+ * An immutable record of cash moving between persons, or between a person and the city.
+ */
+export interface ILedgerEntryDatabase {
+    /**
+     * The person paying, null if the cash came from the city.
+     */
+    from: string | null;
+    /**
+     * The person receiving, null if the cash went to the city.
+     */
+    to: string | null;
+    /**
+     * The persons of the entry, used to query the history of a person.
+     */
+    personIds: string[];
+    amount: number;
+    reason: ELedgerReason;
+    /**
+     * The id of the thing paid for, such as a lot id.
+     */
+    referenceId: string | null;
+    createdAt: admin.firestore.Timestamp;
+}
+
+/**
+ * The loan of a person inside the database, stored with the person id as the document id. The loan is deleted once it
+ * is repaid.
+ */
+export interface ILoanDatabase {
+    personId: string;
+    /**
+     * The borrowed cash and interest which is not repaid yet.
+     */
+    balance: number;
+    /**
+     * The scheduled payment chosen by the person, 0 to pay the minimum payment.
+     */
+    paymentAmount: number;
+    /**
+     * When the next scheduled payment is collected.
+     */
+    nextPaymentAt: admin.firestore.Timestamp;
+    /**
+     * The scheduled payments in a row which the person could not pay.
+     */
+    missedPayments: number;
+    /**
+     * When interest was last added to the balance.
+     */
+    interestAccruedAt: admin.firestore.Timestamp;
+    createdAt: admin.firestore.Timestamp;
+}
+
+/**
+ * A warning to a lot owner who cannot pay their next lot tax, stored with the person id as the document id. The
+ * warning is deleted once the owner can pay again.
+ */
+export interface ITaxWarningDatabase {
+    personId: string;
+    /**
+     * The tax of every lot of the owner on the next lot tax tick.
+     */
+    amountDue: number;
+    /**
+     * The lots with unpaid tax.
+     */
+    unpaidLotIds: string[];
+    /**
+     * When the first unpaid lot is repossessed, null if every lot is paid.
+     */
+    repossessAt: admin.firestore.Timestamp | null;
+    createdAt: admin.firestore.Timestamp;
+}
+
+/**
+ * The production of an industrial lot on the last lot production tick, stored with the lot id as the document id. The
+ * production is deleted once the lot stops producing.
+ */
+export interface ILotProductionDatabase {
+    lotId: string;
+    /**
+     * The owner of the lot, who is shown the production.
+     */
+    ownerId: string;
+    industryType: ELotZoneIndustrialType;
+    /**
+     * The stockpile on the lot which the inputs are taken from and the outputs are deposited in.
+     */
+    stockpileId: string | null;
+    /**
+     * How many times the lot crafts each of its recipes on a lot production tick.
+     */
+    rate: number;
+    produced: ICraftingRecipeItem[];
+    /**
+     * The inputs missing from the stockpile to craft every recipe at the full rate.
+     */
+    shortages: ICraftingRecipeItem[];
+    isStockpileFull: boolean;
+    updatedAt: admin.firestore.Timestamp;
+}
+
+/**
+ * One side of a trade session inside the database.
+ */
+export interface ITradeSideDatabase {
+    personId: string;
+    /**
+     * The inventory slots the person gives.
+     */
+    objectIds: string[];
+    /**
+     * The cash the person gives.
+     */
+    cash: number;
+    /**
+     * If the person accepted the current offers of both sides.
+     */
+    confirmed: boolean;
+}
+
+/**
+ * A trade session between two persons inside the database. The trade is deleted when it completes or is cancelled.
+ */
+export interface ITradeDatabase {
+    /**
+     * The persons of both sides, used to find the trade of a person.
+     */
+    personIds: string[];
+    /**
+     * The person who proposed the trade and the other person.
+     */
+    sides: ITradeSideDatabase[];
+    createdAt: admin.firestore.Timestamp;
+}
+
+/**
+ * A record of a document which was removed from a cell. Clients which are syncing changes remove the document from
+ * their copy of the cell.
+ */
+export interface ITombstoneDatabase {
+    /**
+     * The id of the removed document.
+     */
+    id: string;
+    /**
+     * The collection of the removed document.
+     */
+    collectionName: string;
+    /**
+     * The cell the document was removed from.
+     */
+    cell: string;
+    /**
+     * When the document was removed.
+     */
+    deletedAt: admin.firestore.Timestamp;
+}
+
+/**
+ * A road inside the database.
+ */
+export interface IRoadDatabase extends IRoad {
+    /**
+     * The cell the road is in.
+     */
+    cell: string;
+    /**
+     * When the road last changed. Used to send road changes to clients.
+     */
+    lastUpdate?: admin.firestore.Timestamp;
+}
+
+/**
+ * The global sync state, stored in the "reset" document of the syncState collection.
+ */
+export interface ISyncStateDatabase {
+    /**
+     * When whole collections were last deleted without tombstones.
+     */
+    resetAt: admin.firestore.Timestamp;
+}
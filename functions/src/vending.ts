@@ -0,0 +1,448 @@
+import * as admin from "firebase-admin";
+import * as express from "express";
+import * as crypto from "crypto";
+import {ENetworkObjectType, EOwnerType} from "persons-game-common/lib/types/GameTypes";
+import {InventoryController} from "persons-game-common/lib/inventory";
+import {getNetworkObjectCellString} from "persons-game-common/lib/cell";
+import {
+    INetworkObjectDatabase,
+    IPersonDatabase,
+    IStockpileDatabase,
+    IVendingMachineDatabase,
+    IVendingMachineItemDatabase
+} from "./types/database";
+import {
+    EApiErrorCode,
+    ELedgerReason,
+    IApiPersonsVendMachinePost,
+    IApiVendingMachineBuildPost,
+    IApiVendingMachinePricePost,
+    IApiVendingMachineRestockPost,
+    IApiVendingMachineWithdrawPost
+} from "./types/api";
+import {ApiError} from "./errors";
+import {addCashPayment, applyCashChanges, createCashChanges} from "./cash";
+import {
+    networkObjectClientToDatabase,
+    networkObjectDatabaseToClient,
+    personClientToDatabase,
+    personDatabaseToClient,
+    stockpileClientToDatabase,
+    stockpileDatabaseToClient
+} from "./common";
+import {cityVendingMachineInventory, defaultObjectHealthObject, grabDistance, vendingMachinePrice} from "./config";
+import {getStorage, IStorageTransaction, where} from "./storage";
+
+/**
+ * Buying items from vending machines. A vending machine sells a list of item types, each with a price and a stock.
+ * The buyer has to be within reach of the vending machine and the new item goes straight into their inventory. Vending
+ * machines of the city pay the city, vending machines built by a person collect the sales as revenue which the owner
+ * withdraws later. Only the owner can restock a vending machine and change its prices, the vending machines of the city
+ * are restocked by the vending machine restock tick.
+ */
+
+/**
+ * If the price is a valid price of an item.
+ * @param price The price to check.
+ */
+const isValidPrice = (price: any): price is number => {
+    return typeof price === "number" && isFinite(price) && price >= 0;
+};
+
+/**
+ * Read a vending machine owned by a person inside a transaction.
+ * @param transaction The transaction to read with.
+ * @param vendingMachineId The vending machine to read.
+ * @param personId The person who must own the vending machine.
+ */
+const getOwnedVendingMachine = async (
+    transaction: IStorageTransaction,
+    vendingMachineId: string,
+    personId: string
+): Promise<IVendingMachineDatabase> => {
+    const machine = await transaction.collection("vendingMachines").get(vendingMachineId);
+    if (!machine) {
+        throw new ApiError(404, EApiErrorCode.NOT_FOUND, `Vending machine ${vendingMachineId} does not exist`);
+    }
+    if (machine.ownerId !== personId) {
+        throw new ApiError(403, EApiErrorCode.FORBIDDEN, "Only the owner can manage the vending machine");
+    }
+    return machine;
+};
+
+/**
+ * Buy one item from a vending machine.
+ * @param vendingMachineId The vending machine selling the item.
+ * @param personId The person buying the item.
+ * @param objectType The type of item to buy.
+ * @param price The price the person expects to pay.
+ */
+const vendItem = async ({vendingMachineId, personId, objectType, price}: IApiPersonsVendMachinePost) => {
+    await getStorage().runTransaction(async (transaction) => {
+        const machine = await transaction.collection("vendingMachines").get(vendingMachineId);
+        const personData = await transaction.collection("persons").get(personId);
+        if (!machine) {
+            throw new ApiError(404, EApiErrorCode.NOT_FOUND, `Vending machine ${vendingMachineId} does not exist`);
+        }
+        if (!personData) {
+            throw new ApiError(404, EApiErrorCode.NOT_FOUND, `Person ${personId} does not exist`);
+        }
+        if (Math.abs(machine.x - personData.x) > grabDistance || Math.abs(machine.y - personData.y) > grabDistance) {
+            throw new ApiError(409, EApiErrorCode.CONFLICT, "The vending machine is too far away");
+        }
+        const item = machine.inventory.find(i => i.objectType === objectType);
+        if (!item) {
+            throw new ApiError(404, EApiErrorCode.NOT_FOUND, `The vending machine does not sell ${objectType}`);
+        }
+        if (item.price !== price) {
+            throw new ApiError(409, EApiErrorCode.CONFLICT, "The vending machine changed its price");
+        }
+        if (item.stock <= 0) {
+            throw new ApiError(409, EApiErrorCode.OUT_OF_STOCK, `The vending machine is out of ${objectType}`);
+        }
+
+        // create the item in the inventory of the buyer
+        const personDataClient = personDatabaseToClient(personData);
+        const controller = new InventoryController(personDataClient);
+        let result;
+        try {
+            result = controller.addItem(controller.createItemType(objectType));
+        } catch (err) {
+            throw new ApiError(409, EApiErrorCode.CONFLICT, "The inventory is full");
+        }
+        const {updatedItem: updatedItemClient, stackableSlots: stackableSlotsClient} = result;
+        const updatedItem: INetworkObjectDatabase | null = updatedItemClient ? networkObjectClientToDatabase(updatedItemClient) : null;
+        const stackableSlot: INetworkObjectDatabase | null = stackableSlotsClient[0] ? networkObjectClientToDatabase(stackableSlotsClient[0]) : null;
+        const {inventory, craftingState} = personClientToDatabase({
+            ...personDataClient,
+            ...controller.getState()
+        });
+
+        // pay the city, checking the cash and credit of the buyer. The owner of the vending machine withdraws the
+        // revenue later, so the vending machine keeps it until then
+        const changes = createCashChanges();
+        addCashPayment(changes, {
+            from: personId,
+            to: null,
+            amount: price,
+            reason: ELedgerReason.VENDING,
+            referenceId: vendingMachineId
+        });
+        applyCashChanges(transaction, new Map([[personId, personData]]), changes);
+
+        const newPersonData: Partial<IPersonDatabase> = {
+            inventory,
+            craftingState,
+            lastUpdate: admin.firestore.Timestamp.now()
+        };
+        transaction.collection("persons").merge(personId, newPersonData);
+        if (updatedItem) {
+            transaction.collection("objects").merge(updatedItem.id, updatedItem);
+        }
+        if (stackableSlot) {
+            transaction.collection("objects").merge(stackableSlot.id, stackableSlot);
+        }
+
+        // remove one item from the stock of the vending machine
+        const machineUpdate: Partial<IVendingMachineDatabase> = {
+            inventory: machine.inventory.map(i => i === item ? {...i, stock: i.stock - 1} : i),
+            revenue: machine.ownerId ? (machine.revenue || 0) + price : 0,
+            lastUpdate: admin.firestore.Timestamp.now()
+        };
+        transaction.collection("vendingMachines").merge(vendingMachineId, machineUpdate);
+    });
+};
+
+/**
+ * Handle POST /persons/vend. Buy an item from a vending machine.
+ * @param req
+ * @param res
+ * @param next
+ */
+export const handlePersonsVend = (req: express.Request, res: express.Response, next: express.NextFunction) => {
+    (async () => {
+        const {vendingMachineId, personId, objectType, price} = req.body as IApiPersonsVendMachinePost;
+        if (typeof vendingMachineId !== "string" || typeof objectType !== "string" || !isValidPrice(price)) {
+            throw new ApiError(400, EApiErrorCode.INVALID_REQUEST, "Require a vendingMachineId, an objectType and a price of at least 0");
+        }
+        await vendItem({vendingMachineId, personId, objectType, price});
+        res.sendStatus(200);
+    })().catch((err) => next(err));
+};
+
+/**
+ * Handle POST /persons/vending/build. Build a vending machine where the person stands, paid to the city.
+ * @param req
+ * @param res
+ * @param next
+ */
+export const handleVendingMachineBuild = (req: express.Request, res: express.Response, next: express.NextFunction) => {
+    (async () => {
+        const {personId} = req.body as IApiVendingMachineBuildPost;
+        const vendingMachineId = `vending-machine-${crypto.randomBytes(8).toString("hex")}`;
+        await getStorage().runTransaction(async (transaction) => {
+            const personData = await transaction.collection("persons").get(personId);
+            if (!personData) {
+                throw new ApiError(404, EApiErrorCode.NOT_FOUND, `Person ${personId} does not exist`);
+            }
+
+            const changes = createCashChanges();
+            addCashPayment(changes, {
+                from: personId,
+                to: null,
+                amount: vendingMachinePrice,
+                reason: ELedgerReason.VENDING_MACHINE,
+                referenceId: vendingMachineId
+            });
+            applyCashChanges(transaction, new Map([[personId, personData]]), changes);
+
+            const position = {
+                x: personData.x,
+                y: personData.y
+            };
+            const machine: IVendingMachineDatabase = {
+                id: vendingMachineId,
+                ...position,
+                objectType: ENetworkObjectType.VENDING_MACHINE,
+                lastUpdate: admin.firestore.Timestamp.now(),
+                health: defaultObjectHealthObject,
+                cell: getNetworkObjectCellString(position),
+                ownerId: personId,
+                inventory: [],
+                revenue: 0
+            };
+            transaction.collection("vendingMachines").set(vendingMachineId, machine);
+        });
+        res.status(201).json({vendingMachineId});
+    })().catch((err) => next(err));
+};
+
+/**
+ * Load a stack of items into a vending machine. The stack comes from the inventory of the owner or from a stockpile of
+ * the owner and is removed from the world.
+ * @param personId The owner of the vending machine.
+ * @param vendingMachineId The vending machine to restock.
+ * @param objectId The stack of items to load.
+ * @param stockpileId The stockpile holding the stack, the inventory of the owner if missing.
+ * @param price The price of the item, required for a new item.
+ */
+const restockVendingMachine = async ({
+    personId,
+    vendingMachineId,
+    objectId,
+    stockpileId,
+    price
+}: IApiVendingMachineRestockPost) => {
+    await getStorage().runTransaction(async (transaction) => {
+        const machine = await getOwnedVendingMachine(transaction, vendingMachineId, personId);
+        const objectData = await transaction.collection("objects").get(objectId);
+        if (!objectData) {
+            throw new ApiError(404, EApiErrorCode.NOT_FOUND, `Object ${objectId} does not exist`);
+        }
+        const stockpileData: IStockpileDatabase | null = stockpileId ?
+            await transaction.collection("stockpiles").get(stockpileId) :
+            null;
+        const personData: IPersonDatabase | null = stockpileId ?
+            null :
+            await transaction.collection("persons").get(personId);
+
+        const existingItem = machine.inventory.find(i => i.objectType === objectData.objectType);
+        if (!existingItem && price === undefined) {
+            throw new ApiError(400, EApiErrorCode.INVALID_REQUEST, `Require a price to sell ${objectData.objectType}`);
+        }
+
+        let amount: number;
+        if (stockpileId) {
+            // take the stack out of a stockpile of the owner
+            if (!stockpileData) {
+                throw new ApiError(404, EApiErrorCode.NOT_FOUND, `Stockpile ${stockpileId} does not exist`);
+            }
+            if (stockpileData.ownerType !== EOwnerType.PERSON || stockpileData.ownerId !== personId) {
+                throw new ApiError(403, EApiErrorCode.FORBIDDEN, "Only the owner of the stockpile can withdraw from it");
+            }
+            const stockpileDataClient = stockpileDatabaseToClient(stockpileData);
+            const controller = new InventoryController(stockpileDataClient);
+            let result;
+            try {
+                result = controller.withdrawFromStockpile(networkObjectDatabaseToClient(objectData), objectData.amount);
+            } catch (err) {
+                throw new ApiError(404, EApiErrorCode.NOT_FOUND, `Object ${objectId} is not in the stockpile`);
+            }
+            amount = result.updatedItem ? result.updatedItem.amount : 0;
+            const newStockpileData: Partial<IStockpileDatabase> = stockpileClientToDatabase({
+                ...stockpileDataClient,
+                inventory: controller.getInventory(),
+                lastUpdate: new Date().toISOString()
+            });
+            transaction.collection("stockpiles").merge(stockpileId, newStockpileData);
+            for (const modifiedSlot of result.modifiedSlots) {
+                transaction.collection("objects").merge(modifiedSlot.id, networkObjectClientToDatabase(modifiedSlot));
+            }
+            for (const deletedSlot of result.deletedSlots) {
+                transaction.collection("objects").delete(deletedSlot);
+            }
+        } else {
+            // take the stack out of the inventory of the owner
+            if (!personData) {
+                throw new ApiError(404, EApiErrorCode.NOT_FOUND, `Person ${personId} does not exist`);
+            }
+            if (!personData.inventory.slots.some(slot => slot.id === objectId)) {
+                throw new ApiError(404, EApiErrorCode.NOT_FOUND, `Object ${objectId} is not in the inventory`);
+            }
+            amount = objectData.amount;
+            const newPersonData: Partial<IPersonDatabase> = {
+                inventory: {
+                    ...personData.inventory,
+                    slots: personData.inventory.slots.filter(slot => slot.id !== objectId)
+                },
+                lastUpdate: admin.firestore.Timestamp.now()
+            };
+            transaction.collection("persons").merge(personId, newPersonData);
+            transaction.collection("objects").delete(objectId);
+        }
+
+        // add the stack to the stock of the vending machine
+        const inventory: IVendingMachineItemDatabase[] = existingItem ?
+            machine.inventory.map(i => i === existingItem ? {
+                ...i,
+                stock: i.stock + amount,
+                price: price === undefined ? i.price : price
+            } : i) :
+            [...machine.inventory, {
+                objectType: objectData.objectType,
+                price: price as number,
+                stock: amount
+            }];
+        const machineUpdate: Partial<IVendingMachineDatabase> = {
+            inventory,
+            lastUpdate: admin.firestore.Timestamp.now()
+        };
+        transaction.collection("vendingMachines").merge(vendingMachineId, machineUpdate);
+    });
+};
+
+/**
+ * Handle POST /persons/vending/restock. Load a stack of items into a vending machine.
+ * @param req
+ * @param res
+ * @param next
+ */
+export const handleVendingMachineRestock = (req: express.Request, res: express.Response, next: express.NextFunction) => {
+    (async () => {
+        const {personId, vendingMachineId, objectId, stockpileId, price} = req.body as IApiVendingMachineRestockPost;
+        if (typeof vendingMachineId !== "string" || typeof objectId !== "string" ||
+            (stockpileId !== undefined && typeof stockpileId !== "string") ||
+            (price !== undefined && !isValidPrice(price))) {
+            throw new ApiError(400, EApiErrorCode.INVALID_REQUEST, "Require a vendingMachineId, an objectId and an optional stockpileId and price of at least 0");
+        }
+        await restockVendingMachine({personId, vendingMachineId, objectId, stockpileId, price});
+        res.sendStatus(200);
+    })().catch((err) => next(err));
+};
+
+/**
+ * Handle POST /persons/vending/price. Change the price of an item sold by a vending machine.
+ * @param req
+ * @param res
+ * @param next
+ */
+export const handleVendingMachinePrice = (req: express.Request, res: express.Response, next: express.NextFunction) => {
+    (async () => {
+        const {personId, vendingMachineId, objectType, price} = req.body as IApiVendingMachinePricePost;
+        if (typeof vendingMachineId !== "string" || typeof objectType !== "string" || !isValidPrice(price)) {
+            throw new ApiError(400, EApiErrorCode.INVALID_REQUEST, "Require a vendingMachineId, an objectType and a price of at least 0");
+        }
+        await getStorage().runTransaction(async (transaction) => {
+            const machine = await getOwnedVendingMachine(transaction, vendingMachineId, personId);
+            if (!machine.inventory.some(i => i.objectType === objectType)) {
+                throw new ApiError(404, EApiErrorCode.NOT_FOUND, `The vending machine does not sell ${objectType}`);
+            }
+            const machineUpdate: Partial<IVendingMachineDatabase> = {
+                inventory: machine.inventory.map(i => i.objectType === objectType ? {...i, price} : i),
+                lastUpdate: admin.firestore.Timestamp.now()
+            };
+            transaction.collection("vendingMachines").merge(vendingMachineId, machineUpdate);
+        });
+        res.sendStatus(200);
+    })().catch((err) => next(err));
+};
+
+/**
+ * Handle POST /persons/vending/withdraw. Pay the revenue of a vending machine to its owner.
+ * @param req
+ * @param res
+ * @param next
+ */
+export const handleVendingMachineWithdraw = (req: express.Request, res: express.Response, next: express.NextFunction) => {
+    (async () => {
+        const {personId, vendingMachineId} = req.body as IApiVendingMachineWithdrawPost;
+        if (typeof vendingMachineId !== "string") {
+            throw new ApiError(400, EApiErrorCode.INVALID_REQUEST, "Require a vendingMachineId");
+        }
+        await getStorage().runTransaction(async (transaction) => {
+            const machine = await getOwnedVendingMachine(transaction, vendingMachineId, personId);
+            const personData = await transaction.collection("persons").get(personId);
+            if (!personData) {
+                throw new ApiError(404, EApiErrorCode.NOT_FOUND, `Person ${personId} does not exist`);
+            }
+            if (!machine.revenue) {
+                // nothing to withdraw
+                return;
+            }
+
+            const changes = createCashChanges();
+            addCashPayment(changes, {
+                from: null,
+                to: personId,
+                amount: machine.revenue,
+                reason: ELedgerReason.VENDING_REVENUE,
+                referenceId: vendingMachineId
+            });
+            applyCashChanges(transaction, new Map([[personId, personData]]), changes);
+
+            const machineUpdate: Partial<IVendingMachineDatabase> = {
+                revenue: 0,
+                lastUpdate: admin.firestore.Timestamp.now()
+            };
+            transaction.collection("vendingMachines").merge(vendingMachineId, machineUpdate);
+        });
+        res.sendStatus(200);
+    })().catch((err) => next(err));
+};
+
+/**
+ * Fill the items of a vending machine of the city back up to the stock of the city vending machines.
+ * @param vendingMachineId The vending machine to restock.
+ */
+const restockCityVendingMachine = async (vendingMachineId: string) => {
+    await getStorage().runTransaction(async (transaction) => {
+        const machine = await transaction.collection("vendingMachines").get(vendingMachineId);
+        if (!machine || machine.ownerId) {
+            return;
+        }
+        const getFullStock = (objectType: ENetworkObjectType): number => {
+            const cityItem = cityVendingMachineInventory.find(i => i.objectType === objectType);
+            return cityItem ? cityItem.stock : 0;
+        };
+        if (machine.inventory.every(i => i.stock >= getFullStock(i.objectType))) {
+            // nothing was sold since the last restock
+            return;
+        }
+
+        const machineUpdate: Partial<IVendingMachineDatabase> = {
+            inventory: machine.inventory.map(i => ({...i, stock: Math.max(i.stock, getFullStock(i.objectType))})),
+            lastUpdate: admin.firestore.Timestamp.now()
+        };
+        transaction.collection("vendingMachines").merge(vendingMachineId, machineUpdate);
+    });
+};
+
+/**
+ * Restock every vending machine of the city. Vending machines built by a person are restocked by their owner.
+ */
+export const restockCityVendingMachines = async () => {
+    const machines = await getStorage().collection("vendingMachines").query([where("ownerId", "==", null)]);
+    for (const {id} of machines) {
+        await restockCityVendingMachine(id);
+    }
+};
@@ -1,10 +1,10 @@
-import * as admin from "firebase-admin";
 import {
     IApiPersonsVoiceAnswerMessage,
     IApiPersonsVoiceCandidateMessage,
     IApiPersonsVoiceOfferMessage
 } from "persons-game-common/lib/types/GameTypes";
 import * as express from "express";
+import {getStorage, where} from "./storage";
 
 /**
  * Handle WebRTC signaling messages with HTTP posts. WebRTC requires some messages to be passed around to begin a voice
@@ -17,6 +17,30 @@ import * as express from "express";
  * with an Answer message.
  */
 
+/**
+ * The collections of voice messages.
+ */
+export type TVoiceMessageCollectionName = "voiceCandidates" | "voiceOffers" | "voiceAnswers";
+
+/**
+ * Delete a voice message so it is only delivered once. The HTTP poll and the realtime stream both deliver voice
+ * messages, only the one which deletes the message delivers it.
+ * @param collectionName The collection of the voice message.
+ * @param id The id of the voice message to delete.
+ * @return If the message was deleted by this call.
+ */
+export const claimVoiceMessage = async (collectionName: TVoiceMessageCollectionName, id: string): Promise<boolean> => {
+    return await getStorage().runTransaction(async (transaction): Promise<boolean> => {
+        const message = await transaction.collection(collectionName).get(id);
+        if (!message) {
+            // already delivered by another request
+            return false;
+        }
+        transaction.collection(collectionName).delete(id);
+        return true;
+    });
+};
+
 /**
  * Get voice related messages for WebRTC voice chat.
  */
@@ -27,46 +51,34 @@ export const getVoiceMessages = async (id: string | null) => {
 
     // a list of WebRTC ICE candidates to add
     if (id) {
-        const querySnapshot = await admin.firestore().collection("voiceCandidates")
-            .where("to", "==", id)
-            .get();
-
-        for (const documentSnapshot of querySnapshot.docs) {
-            const message = documentSnapshot.data() as IApiPersonsVoiceCandidateMessage;
+        const documents = await getStorage().collection("voiceCandidates").query([where("to", "==", id)]);
 
-            await documentSnapshot.ref.delete();
-
-            candidates.push(message);
+        for (const {id: messageId, data: message} of documents) {
+            if (await claimVoiceMessage("voiceCandidates", messageId)) {
+                candidates.push(message);
+            }
         }
     }
 
     // list of WebRTC socket descriptions to add
     if (id) {
-        const querySnapshot = await admin.firestore().collection("voiceOffers")
-            .where("to", "==", id)
-            .get();
-
-        for (const documentSnapshot of querySnapshot.docs) {
-            const message = documentSnapshot.data() as IApiPersonsVoiceOfferMessage;
+        const documents = await getStorage().collection("voiceOffers").query([where("to", "==", id)]);
 
-            await documentSnapshot.ref.delete();
-
-            offers.push(message);
+        for (const {id: messageId, data: message} of documents) {
+            if (await claimVoiceMessage("voiceOffers", messageId)) {
+                offers.push(message);
+            }
         }
     }
 
     // list of WebRTC socket descriptions to add
     if (id) {
-        const querySnapshot = await admin.firestore().collection("voiceAnswers")
-            .where("to", "==", id)
-            .get();
-
-        for (const documentSnapshot of querySnapshot.docs) {
-            const message = documentSnapshot.data() as IApiPersonsVoiceAnswerMessage;
-
-            await documentSnapshot.ref.delete();
+        const documents = await getStorage().collection("voiceAnswers").query([where("to", "==", id)]);
 
-            answers.push(message);
+        for (const {id: messageId, data: message} of documents) {
+            if (await claimVoiceMessage("voiceAnswers", messageId)) {
+                answers.push(message);
+            }
         }
     }
 
@@ -79,21 +91,21 @@ export const getVoiceMessages = async (id: string | null) => {
 
 export const handleVoiceMessageCandidate = (req: express.Request, res: express.Response, next: express.NextFunction) => {
     (async () => {
-        await admin.firestore().collection("voiceCandidates").add(req.body);
+        await getStorage().collection("voiceCandidates").add(req.body);
         res.sendStatus(201);
     })().catch((err) => next(err));
 };
 
 export const handleVoiceMessageOffer = (req: express.Request, res: express.Response, next: express.NextFunction) => {
     (async () => {
-        await admin.firestore().collection("voiceOffers").add(req.body);
+        await getStorage().collection("voiceOffers").add(req.body);
         res.sendStatus(201);
     })().catch((err) => next(err));
 };
 
 export const handleVoiceMessageAnswer = (req: express.Request, res: express.Response, next: express.NextFunction) => {
     (async () => {
-        await admin.firestore().collection("voiceAnswers").add(req.body);
+        await getStorage().collection("voiceAnswers").add(req.body);
         res.sendStatus(201);
     })().catch((err) => next(err));
 };
@@ -6,14 +6,15 @@ import {
     EBiomeType,
     ECarDirection,
     EDrawableType,
+    ELotZone,
+    ELotZoneIndustrialType,
     ENetworkObjectType,
     ENpcJobType,
     IApiLotsBuyPost,
     IApiLotsSellPost,
-    IApiPersonsGetResponse,
+    IApiPersonsConstructionStockpilePost,
     IApiPersonsNpcJobPost,
     IApiPersonsPut,
-    IApiPersonsVendPost,
     IApiPersonsVoiceAnswerMessage,
     IApiPersonsVoiceAnswerPost,
     IApiPersonsVoiceCandidateMessage,
@@ -23,6 +24,7 @@ import {
     IArea,
     ICar, ICellLock,
     ICraftingRecipe,
+    ICraftingRecipeItem,
     IDrawable,
     IFloor,
     IGameTutorials,
@@ -46,8 +48,51 @@ import {
     IWall
 } from "persons-game-common/lib/types/GameTypes";
 import {PersonsLogin} from "./PersonsLogin";
+import {
+    EApiStreamEvent,
+    EConstructionType,
+    IApiErrorResponse,
+    IApiLedgerEntry,
+    IApiLot,
+    IApiLotAuction,
+    IApiLotOffer,
+    IApiLotProduction,
+    IApiLotsAuctionPost,
+    IApiLotsBidPost,
+    IApiLotsIndustryPost,
+    IApiLotsOfferIdPost,
+    IApiPersonsConstructionBuildingPost,
+    IApiPersonsDeath,
+    IApiLoan,
+    IApiTaxWarning,
+    IApiPersonsGetSyncResponse,
+    IApiPersonsLedgerResponse,
+    IApiPersonsLoanBorrowPost,
+    IApiPersonsLoanRepayPost,
+    IApiPersonsVendMachinePost,
+    IApiPersonsPutResponse,
+    IApiPersonsStreamSubscribed,
+    IApiPersonsStreamUpdate,
+    IApiPersonsTradeIdPost,
+    IApiPersonsTradeOfferPost,
+    IApiPersonsTradeProposePost,
+    IApiTrade,
+    IApiTradeSide,
+    IApiVendingMachine,
+    IApiVendingMachineBuildPost,
+    IApiVendingMachineItem,
+    IApiVendingMachinePricePost,
+    IApiVendingMachineRestockPost,
+    IApiVendingMachineWithdrawPost
+} from "./types/api";
 import {IPersonsDrawablesProps, IPersonsDrawablesState, PersonsDrawables} from "./PersonsDrawables";
-import {applyAudioFilters, PUBLIC_API_URL, rtcPeerConnectionConfiguration, userMediaConfig} from "./config";
+import {
+    applyAudioFilters,
+    PUBLIC_API_URL,
+    PUBLIC_STREAM_URL,
+    rtcPeerConnectionConfiguration,
+    userMediaConfig
+} from "./config";
 import {HarvestResourceController} from "persons-game-common/lib/resources";
 import {getMaxStackSize, InventoryController, listOfRecipes} from "persons-game-common/lib/inventory";
 import {ConstructionController} from "persons-game-common/lib/construction";
@@ -63,6 +108,7 @@ import {
     terrainTileSize
 } from "persons-game-common/lib/terrain";
 import {
+    cellSize,
     getNetworkObjectCellString,
     networkObjectCellPositionToCellString
 } from "persons-game-common/lib/cell";
@@ -88,6 +134,10 @@ interface IPersonsState extends IPersonsDrawablesState {
      * to a previous position.
      */
     lastUpdate: string;
+    /**
+     * The sync cursor of the last network update. Sent with the next network update to only receive changes.
+     */
+    syncCursor: string | null;
     /**
      * A list of nearest persons for voice audio chat.
      */
@@ -96,6 +146,50 @@ interface IPersonsState extends IPersonsDrawablesState {
      * The lot price for buying or selling a lot.
      */
     lotPrice: number | null;
+    /**
+     * The error message of the last failed lot request, such as not having enough cash.
+     */
+    lotErrorMessage: string;
+    /**
+     * The price for selling an item from a vending machine.
+     */
+    vendingPrice: number | null;
+    /**
+     * The error message of the last failed vending machine request.
+     */
+    vendingErrorMessage: string;
+    /**
+     * The open trade of the current person, null if the person is not trading.
+     */
+    trade: IApiTrade | null;
+    /**
+     * The cash the current person offers in the open trade.
+     */
+    tradeCash: number | null;
+    /**
+     * The error message of the last failed trade request.
+     */
+    tradeErrorMessage: string;
+    /**
+     * The loan of the current person, null if the person has no loan.
+     */
+    loan: IApiLoan | null;
+    /**
+     * The amount to borrow or repay.
+     */
+    loanAmount: number | null;
+    /**
+     * The error message of the last failed loan request.
+     */
+    loanErrorMessage: string;
+    /**
+     * The lot tax warning of the current person, null if the person can pay their next lot tax.
+     */
+    taxWarning: IApiTaxWarning | null;
+    /**
+     * The production of the industrial lots of the current person.
+     */
+    lotProductions: IApiLotProduction[];
     /**
      * The inventory for the current person.
      */
@@ -108,6 +202,10 @@ interface IPersonsState extends IPersonsDrawablesState {
      * The error message of the last global error.
      */
     errorMessage: string;
+    /**
+     * The death of the current person, null while the person is alive.
+     */
+    death: IApiPersonsDeath | null;
     /**
      * The time of the error message of the last global error.
      */
@@ -116,10 +214,30 @@ interface IPersonsState extends IPersonsDrawablesState {
      * If stockpile editing should be enabled.
      */
     showStockpile: boolean;
+    /**
+     * The kind of building to construct, which has to be allowed by the zone of the lot.
+     */
+    constructionType: EConstructionType;
+    /**
+     * The error message of the last failed construction, such as building on a lot of another person.
+     */
+    constructionErrorMessage: string;
     /**
      * If the NPCs screen should be shown.
      */
     showNpcs: boolean;
+    /**
+     * If the wallet screen with the cash history should be shown.
+     */
+    showWallet: boolean;
+    /**
+     * The loaded pages of the cash history of the current person, newest first.
+     */
+    ledgerEntries: IApiLedgerEntry[];
+    /**
+     * The cursor of the next page of the cash history, null if every page is loaded.
+     */
+    ledgerNextCursor: string | null;
     /**
      * If the map screen should be drawn.
      */
@@ -203,6 +321,32 @@ export class Persons extends PersonsDrawables<IPersonsProps, IPersonsState> {
      */
     gameRefreshSpeed: number = 2000;
 
+    /**
+     * How often GET /persons/data is polled while the realtime stream is open. The stream pushes persons, objects, npcs,
+     * cell locks and voice messages, the poll still fetches everything else.
+     */
+    streamingFetchSpeed: number = 10000;
+
+    /**
+     * The realtime stream of changes around the current person. Null when polling is used instead.
+     */
+    eventSource: EventSource | null = null;
+
+    /**
+     * The cells the realtime stream is subscribed to.
+     */
+    streamCells: string[] = [];
+
+    /**
+     * The last time the realtime stream failed. The stream is retried after [[streamingFetchSpeed]].
+     */
+    streamErrorTime: number = 0;
+
+    /**
+     * The last time GET /persons/data was fetched.
+     */
+    lastFetchTime: number = 0;
+
     /**
      * The terrain refresh rate. 1000 means 1 second. Decreasing the value will update the terrain more often, but terrain
      * updates can be costly.
@@ -225,6 +369,16 @@ export class Persons extends PersonsDrawables<IPersonsProps, IPersonsState> {
      */
     audioChatPeerData: {[id: string]: IAudioChatPeerData} = {};
 
+    /**
+     * The axios interceptor which adds the session token to each request.
+     */
+    sessionRequestInterceptor: number | null = null;
+
+    /**
+     * The axios interceptor which asks the user to login again when the session is rejected.
+     */
+    sessionResponseInterceptor: number | null = null;
+
     /**
      * The instance of handle key down. The normal window handler instance.
      */
@@ -268,13 +422,27 @@ export class Persons extends PersonsDrawables<IPersonsProps, IPersonsState> {
         loadedTerrainTiles: [] as ITerrainTilePosition[],
         cellLocks: [] as ICellLock[],
         lastUpdate: new Date().toISOString(),
+        syncCursor: null as string | null,
         fetchTime: new Date(),
         vendingInventory: [] as IVendorInventoryItem[],
+        vendingMachineId: null as string | null,
         nearestPersons: [] as string[],
         connectedVoiceChats: [] as string[],
         npc: null as INpc | null,
         lot: null as ILot | null,
         lotPrice: null as number | null,
+        lotErrorMessage: "",
+        vendingPrice: null as number | null,
+        vendingErrorMessage: "",
+        trade: null as IApiTrade | null,
+        tradeCash: null as number | null,
+        tradeErrorMessage: "",
+        loan: null as IApiLoan | null,
+        loanAmount: null as number | null,
+        loanErrorMessage: "",
+        taxWarning: null as IApiTaxWarning | null,
+        lotProductions: [] as IApiLotProduction[],
+        vendingMachines: [] as IApiVendingMachine[],
         resources: [] as IResource[],
         stockpiles: [] as IStockpile[],
         stockpileTiles: [] as IStockpileTile[],
@@ -282,9 +450,15 @@ export class Persons extends PersonsDrawables<IPersonsProps, IPersonsState> {
         showInventory: false,
         showConstruction: false,
         showStockpile: false,
+        constructionType: EConstructionType.HOUSE,
+        constructionErrorMessage: "",
         showNpcs: false,
+        showWallet: false,
+        ledgerEntries: [] as IApiLedgerEntry[],
+        ledgerNextCursor: null as string | null,
         showMap: false,
         errorMessage: "",
+        death: null as IApiPersonsDeath | null,
         errorTime: new Date(),
         areas: [] as IArea[],
         lastAreaId: null as string | null,
@@ -318,6 +492,29 @@ export class Persons extends PersonsDrawables<IPersonsProps, IPersonsState> {
     componentDidMount(): void {
         this.beginGameLoop();
         window.addEventListener("error", this.globalErrorHandler);
+
+        // send the session token with each request so the server knows who is making the request
+        this.sessionRequestInterceptor = axios.interceptors.request.use((config) => {
+            const sessionToken = localStorage.getItem("sessionToken");
+            if (sessionToken) {
+                config.headers = {
+                    ...config.headers,
+                    Authorization: `Bearer ${sessionToken}`
+                };
+            }
+            return config;
+        });
+        // the session expired or is invalid, login again
+        this.sessionResponseInterceptor = axios.interceptors.response.use(undefined, (error) => {
+            if (error.response && error.response.status === 401) {
+                localStorage.removeItem("sessionToken");
+                localStorage.removeItem("sessionExpiresAt");
+                if (this.loginRef.current) {
+                    this.loginRef.current.open();
+                }
+            }
+            return Promise.reject(error);
+        });
     }
 
     componentDidUpdate(prevProps: Readonly<IPersonsProps>, prevState: Readonly<IPersonsState>, snapshot?: any): void {
@@ -362,7 +559,16 @@ export class Persons extends PersonsDrawables<IPersonsProps, IPersonsState> {
      */
     componentWillUnmount(): void {
         this.endGameLoop();
+        this.closeStream();
         window.removeEventListener("error", this.globalErrorHandler);
+        if (this.sessionRequestInterceptor !== null) {
+            axios.interceptors.request.eject(this.sessionRequestInterceptor);
+            this.sessionRequestInterceptor = null;
+        }
+        if (this.sessionResponseInterceptor !== null) {
+            axios.interceptors.response.eject(this.sessionResponseInterceptor);
+            this.sessionResponseInterceptor = null;
+        }
     }
 
     /**
@@ -675,18 +881,332 @@ export class Persons extends PersonsDrawables<IPersonsProps, IPersonsState> {
      */
     vendInventoryItem = (inventoryItem: IVendorInventoryItem) => {
         const currentPerson = this.getCurrentPerson();
-        if (currentPerson) {
+        if (currentPerson && this.state.vendingMachineId) {
             const personId = currentPerson.id;
-            const data: IApiPersonsVendPost = {
-                ...inventoryItem,
-                personId
+            const data: IApiPersonsVendMachinePost = {
+                objectType: inventoryItem.objectType,
+                price: inventoryItem.price,
+                personId,
+                vendingMachineId: this.state.vendingMachineId
             };
             axios.post(`${PUBLIC_API_URL}persons/vend`, data).then(() => {
-                this.setState({vendingInventory: []});
+                this.setState({vendingInventory: [], vendingMachineId: null});
             }).catch((err) => console.log(err));
         }
     };
 
+    /**
+     * Handle the price input of a vending machine.
+     * @param event The key pressed.
+     */
+    handleVendingPrice = (event: React.KeyboardEvent) => {
+        const key = event.key;
+        const previousVendingPrice: string = typeof this.state.vendingPrice === "number" ? this.state.vendingPrice.toString() : "";
+        if (/[0-9]/.test(key)) {
+            this.setState({
+                vendingPrice: Number(`${previousVendingPrice}${key}`)
+            });
+        } else if (key === "Backspace") {
+            this.setState({
+                vendingPrice: Number(previousVendingPrice.substr(0, previousVendingPrice.length - 1))
+            });
+        }
+    };
+
+    /**
+     * Send a vending machine request and show the error message of the server if it fails.
+     * @param url The vending machine API route.
+     * @param data The request body.
+     */
+    sendVendingRequest = async (
+        url: string,
+        data: IApiVendingMachineBuildPost | IApiVendingMachineRestockPost | IApiVendingMachinePricePost | IApiVendingMachineWithdrawPost
+    ) => {
+        try {
+            await axios.post(`${PUBLIC_API_URL}persons/vending/${url}`, data);
+            this.setState({
+                vendingErrorMessage: ""
+            });
+        } catch (e) {
+            const errorResponse: IApiErrorResponse | undefined = e.response && e.response.data;
+            this.setState({
+                vendingErrorMessage: errorResponse && errorResponse.message ? errorResponse.message : "The vending machine request failed"
+            });
+        }
+    };
+
+    /**
+     * Build a vending machine where the current person stands.
+     */
+    buildVendingMachine = async () => {
+        if (!this.state.currentPersonId) {
+            return;
+        }
+        const data: IApiVendingMachineBuildPost = {
+            personId: this.state.currentPersonId
+        };
+        await this.sendVendingRequest("build", data);
+    };
+
+    /**
+     * Load an item of the inventory into the selected vending machine.
+     * @param slot The inventory item to load.
+     */
+    restockVendingMachine = (slot: INetworkObject) => async () => {
+        if (!this.state.currentPersonId || !this.state.vendingMachineId) {
+            return;
+        }
+        const data: IApiVendingMachineRestockPost = {
+            personId: this.state.currentPersonId,
+            vendingMachineId: this.state.vendingMachineId,
+            objectId: slot.id
+        };
+        if (typeof this.state.vendingPrice === "number") {
+            data.price = this.state.vendingPrice;
+        }
+        await this.sendVendingRequest("restock", data);
+    };
+
+    /**
+     * Change the price of an item of the selected vending machine.
+     * @param inventoryItem The item to change the price of.
+     */
+    setVendingMachinePrice = (inventoryItem: IVendorInventoryItem) => async () => {
+        if (!this.state.currentPersonId || !this.state.vendingMachineId) {
+            return;
+        }
+        if (typeof this.state.vendingPrice === "number") {
+            const data: IApiVendingMachinePricePost = {
+                personId: this.state.currentPersonId,
+                vendingMachineId: this.state.vendingMachineId,
+                objectType: inventoryItem.objectType,
+                price: this.state.vendingPrice
+            };
+            await this.sendVendingRequest("price", data);
+        }
+    };
+
+    /**
+     * Collect the revenue of the selected vending machine.
+     */
+    withdrawVendingMachineRevenue = async () => {
+        if (!this.state.currentPersonId || !this.state.vendingMachineId) {
+            return;
+        }
+        const data: IApiVendingMachineWithdrawPost = {
+            personId: this.state.currentPersonId,
+            vendingMachineId: this.state.vendingMachineId
+        };
+        await this.sendVendingRequest("withdraw", data);
+    };
+
+    /**
+     * Send a trade request and show the error message of the server if it fails.
+     * @param url The trade API route.
+     * @param data The request body.
+     */
+    sendTradeRequest = async (
+        url: string,
+        data: IApiPersonsTradeProposePost | IApiPersonsTradeOfferPost | IApiPersonsTradeIdPost
+    ) => {
+        try {
+            await axios.post(`${PUBLIC_API_URL}persons/trade/${url}`, data);
+            this.setState({
+                tradeErrorMessage: ""
+            });
+        } catch (e) {
+            const errorResponse: IApiErrorResponse | undefined = e.response && e.response.data;
+            this.setState({
+                tradeErrorMessage: errorResponse && errorResponse.message ? errorResponse.message : "The trade request failed"
+            });
+        }
+    };
+
+    /**
+     * Propose a trade to the nearest person.
+     */
+    proposeTrade = async () => {
+        const otherPersonId = this.state.nearestPersons[0];
+        if (!this.state.currentPersonId || !otherPersonId) {
+            return;
+        }
+        const data: IApiPersonsTradeProposePost = {
+            personId: this.state.currentPersonId,
+            otherPersonId
+        };
+        await this.sendTradeRequest("propose", data);
+    };
+
+    /**
+     * Handle the cash input of a trade.
+     * @param event The key pressed.
+     */
+    handleTradeCash = (event: React.KeyboardEvent) => {
+        const key = event.key;
+        const previousTradeCash: string = typeof this.state.tradeCash === "number" ? this.state.tradeCash.toString() : "";
+        if (/[0-9]/.test(key)) {
+            this.setState({
+                tradeCash: Number(`${previousTradeCash}${key}`)
+            });
+        } else if (key === "Backspace") {
+            this.setState({
+                tradeCash: Number(previousTradeCash.substr(0, previousTradeCash.length - 1))
+            });
+        }
+    };
+
+    /**
+     * Replace the side of the current person in the open trade.
+     * @param objectIds The inventory slots to give.
+     * @param cash The cash to give.
+     */
+    offerTrade = async (objectIds: string[], cash: number) => {
+        if (!this.state.currentPersonId || !this.state.trade) {
+            return;
+        }
+        const data: IApiPersonsTradeOfferPost = {
+            personId: this.state.currentPersonId,
+            tradeId: this.state.trade.id,
+            objectIds,
+            cash
+        };
+        await this.sendTradeRequest("offer", data);
+    };
+
+    /**
+     * Add an inventory slot to the open trade, or remove it if it is already offered.
+     * @param trade The open trade.
+     * @param side The side of the current person.
+     */
+    toggleTradeObject = (trade: IApiTrade, side: IApiTradeSide) => async (inventoryObject: INetworkObject) => {
+        const objectIds = side.objectIds.includes(inventoryObject.id) ?
+            side.objectIds.filter(id => id !== inventoryObject.id) :
+            [...side.objectIds, inventoryObject.id];
+        await this.offerTrade(objectIds, side.cash);
+    };
+
+    /**
+     * Confirm or cancel the open trade.
+     * @param url The trade API route, confirm or cancel.
+     */
+    closeTrade = (url: "confirm" | "cancel") => async () => {
+        if (!this.state.currentPersonId || !this.state.trade) {
+            return;
+        }
+        const data: IApiPersonsTradeIdPost = {
+            personId: this.state.currentPersonId,
+            tradeId: this.state.trade.id
+        };
+        await this.sendTradeRequest(url, data);
+    };
+
+    /**
+     * Draw the trade window, what each person gives side by side above the inventory of the current person.
+     * @param currentPerson The person viewing the trade.
+     * @param trade The open trade.
+     */
+    drawTradeWindow = (currentPerson: IPerson, trade: IApiTrade) => {
+        const ownSide = trade.sides.find(side => side.personId === currentPerson.id);
+        const otherSide = trade.sides.find(side => side.personId !== currentPerson.id);
+        if (!ownSide || !otherSide) {
+            return null;
+        }
+        const otherPerson = this.state.persons.find(person => person.id === otherSide.personId);
+        const getOfferedInventory = (side: IApiTradeSide, person?: IPerson): IPersonsInventory => ({
+            ...currentPerson.inventory,
+            slots: person ? person.inventory.slots.filter(slot => side.objectIds.includes(slot.id)) : []
+        });
+        const getSideText = (side: IApiTradeSide): string => {
+            return `gives $${side.cash}${side.confirmed ? ", confirmed" : ""}`;
+        };
+        return (
+            <g>
+                <rect x="0" y="0" width={this.state.width} height={this.state.height} fill="white" opacity="0.3"/>
+                <text x="20" y="40" fontSize="24">Trade with {otherSide.personId}</text>
+                <text x="20" y="80" fontSize="18">You {getSideText(ownSide)}</text>
+                <g transform="translate(0, 90) scale(0.5)">
+                    {
+                        this.drawInventory(getOfferedInventory(ownSide, currentPerson), false, this.toggleTradeObject(trade, ownSide))
+                    }
+                </g>
+                <text x={this.state.width / 2} y="80" fontSize="18">They {getSideText(otherSide)}</text>
+                <g transform={`translate(${this.state.width / 2}, 90) scale(0.5)`}>
+                    {
+                        this.drawInventory(getOfferedInventory(otherSide, otherPerson), false, () => undefined)
+                    }
+                </g>
+                <text x="20" y="240" fontSize="18">Your Inventory, click an item to offer it</text>
+                <g transform="translate(0, 250)">
+                    {
+                        this.drawInventory(currentPerson.inventory, false, this.toggleTradeObject(trade, ownSide))
+                    }
+                </g>
+                <foreignObject x="20" y="400" width="150" height="40">
+                    <div>
+                        <input onKeyUp={this.handleTradeCash} value={`Cash: ${this.state.tradeCash}`}/>
+                    </div>
+                </foreignObject>
+                <text x="200" y="420" fontSize="18" onClick={() => this.offerTrade(ownSide.objectIds, this.state.tradeCash || 0)}>Offer Cash</text>
+                <text x="320" y="420" fontSize="18" onClick={this.closeTrade("confirm")}>Confirm</text>
+                <text x="420" y="420" fontSize="18" onClick={this.closeTrade("cancel")}>Cancel</text>
+                <text x="20" y="460" fontSize="18" fill="red">{this.state.tradeErrorMessage}</text>
+            </g>
+        );
+    };
+
+    /**
+     * Draw the buy list of the selected vending machine, with the management controls for its owner.
+     * @param currentPerson The person viewing the vending machine.
+     */
+    drawVendingMachinePanel = (currentPerson: IPerson) => {
+        const vendingMachine = this.state.vendingMachines.find(m => m.id === this.state.vendingMachineId);
+        const inventory: IVendorInventoryItem[] = vendingMachine ? vendingMachine.inventory : this.state.vendingInventory;
+        const isOwner = !!vendingMachine && vendingMachine.ownerId === currentPerson.id;
+        return (
+            <g>
+                <rect x="0" y="0" width={this.state.width} height={this.state.height} fill="white" opacity="0.3"/>
+                {
+                    inventory.map((inventoryItem, index) => {
+                        const stock = (inventoryItem as Partial<IApiVendingMachineItem>).stock;
+                        return (
+                            <g key={`inventory-item-${index}`}>
+                                <text x="20" y={100 + index * 40} fontSize="24" onClick={() => {
+                                    this.vendInventoryItem(inventoryItem);
+                                }}>{inventoryItem.objectType} ${inventoryItem.price}{typeof stock === "number" ? ` (${stock} left)` : ""}</text>
+                                {
+                                    isOwner ? (
+                                        <text x="400" y={100 + index * 40} fontSize="18" onClick={this.setVendingMachinePrice(inventoryItem)}>Set Price</text>
+                                    ) : null
+                                }
+                            </g>
+                        );
+                    })
+                }
+                {
+                    vendingMachine && isOwner ? (
+                        <g transform={`translate(0, ${120 + inventory.length * 40})`}>
+                            <text x="20" y="0" fontSize="18" onClick={this.withdrawVendingMachineRevenue}>Withdraw ${vendingMachine.revenue}</text>
+                            <foreignObject x="200" y="-20" width="150" height="40">
+                                <div>
+                                    <input onKeyUp={this.handleVendingPrice} value={`Price: ${this.state.vendingPrice}`}/>
+                                </div>
+                            </foreignObject>
+                            <text x="20" y="40" fontSize="18">Restock from your inventory</text>
+                            {
+                                currentPerson.inventory.slots.map((slot, index) => (
+                                    <text key={`restock-${slot.id}`} x="20" y={80 + index * 30} fontSize="18" onClick={this.restockVendingMachine(slot)}>
+                                        {slot.objectType} x{slot.amount}
+                                    </text>
+                                ))
+                            }
+                        </g>
+                    ) : null
+                }
+                <text x="400" y="60" fontSize="18" fill="red">{this.state.vendingErrorMessage}</text>
+            </g>
+        );
+    };
+
     /**
      * Begin the login process.
      */
@@ -703,8 +1223,12 @@ export class Persons extends PersonsDrawables<IPersonsProps, IPersonsState> {
     handleLoginSuccess = (username: string) => {
         this.setState({
             currentPersonId: username,
-            currentNpcId: null
+            currentNpcId: null,
+            // the inventory of the new person has to be loaded, reload everything
+            syncCursor: null
         });
+        // the stream belongs to the previous person
+        this.closeStream();
     };
 
     /**
@@ -751,15 +1275,37 @@ export class Persons extends PersonsDrawables<IPersonsProps, IPersonsState> {
         return this.state.nearbyObjects.length > 0 && this.state.tutorials.grabbing;
     };
 
+    /**
+     * Replace local network objects with corrected copies from the server.
+     * @param localArr The local copy of the network objects.
+     * @param corrections The corrected network objects from the server.
+     */
+    applyServerCorrections = <T extends INetworkObjectBase>(localArr: T[], corrections: T[]): T[] => {
+        if (corrections.length === 0) {
+            return localArr;
+        }
+        return localArr.map(localItem => corrections.find(correction => correction.id === localItem.id) || localItem);
+    };
+
     /**
      * Update the game in the database.
      */
     updateGame = async (data: IApiPersonsPut) => {
+        // only a logged in person can update the database
+        if (!this.state.currentPersonId) {
+            return;
+        }
+
         // person exist, update the database with the current copy of current person.
-        await axios.put(`${PUBLIC_API_URL}persons/data`, data);
+        const response = await axios.put<IApiPersonsPutResponse>(`${PUBLIC_API_URL}persons/data`, data);
+        // the server rejected some of the movement, replace local copies with the corrected server copies
+        const {persons = [], cars = [], objects = []} = response.data || {};
         // wait for [[state.lastUpdate]] to update after the network call.
         await new Promise((resolve) => {
             this.setState({
+                persons: this.applyServerCorrections(this.state.persons, persons),
+                cars: this.applyServerCorrections(this.state.cars, cars),
+                objects: this.applyServerCorrections(this.state.objects, objects),
                 lastUpdate: new Date().toISOString()
             }, () => {
                 resolve();
@@ -928,6 +1474,37 @@ export class Persons extends PersonsDrawables<IPersonsProps, IPersonsState> {
         }
     };
 
+    /**
+     * Merge a sync response into the local data. A full response replaces the local data. A delta response removes
+     * tombstoned items and items outside of the loaded cells, then adds or updates the changed items.
+     * @param localArr The local data.
+     * @param serverArr The data from the server.
+     * @param full If the server sent all data instead of changes.
+     * @param removedIds The ids of the items which were removed on the server.
+     * @param isLoaded If a local item is still in the loaded area.
+     * @param mergeItem Add a server item into the merged array, used to keep local changes.
+     */
+    mergeSyncedData = <T extends IObject & {id: string}>(localArr: T[], serverArr: T[], {
+        full,
+        removedIds,
+        isLoaded,
+        mergeItem = (local: T[], arr: T[], item: T) => [...arr, item]
+    }: {
+        full: boolean,
+        removedIds: string[],
+        isLoaded: (item: T) => boolean,
+        mergeItem?: (local: T[], arr: T[], item: T) => T[]
+    }): T[] => {
+        const unchangedLocalItems = full ? [] : localArr.filter(localItem => {
+            return !removedIds.includes(localItem.id) &&
+                !serverArr.some(serverItem => serverItem.id === localItem.id) &&
+                isLoaded(localItem);
+        });
+        return serverArr.reduce((arr: T[], serverItem: T): T[] => {
+            return mergeItem(localArr, arr, serverItem);
+        }, unchangedLocalItems);
+    };
+
     /**
      * Keep the person logged in by updating their last update timestamp every 25 seconds.
      */
@@ -935,6 +1512,118 @@ export class Persons extends PersonsDrawables<IPersonsProps, IPersonsState> {
         this.updatePersonProperty((person: IPerson) => person);
     };
 
+    /**
+     * The number of cells to load around the current person. Large screens load more cells so the edge of the screen
+     * is not empty.
+     */
+    getCellRadius = (): number => {
+        return Math.max(1, Math.ceil(Math.max(this.state.width, this.state.height) / cellSize));
+    };
+
+    /**
+     * Open the realtime stream of changes around the current person. The stream is closed when it fails and the game
+     * loop polls until the stream is retried.
+     */
+    openStream = () => {
+        this.closeStream();
+        const sessionToken = localStorage.getItem("sessionToken");
+        if (!sessionToken || typeof EventSource === "undefined") {
+            return;
+        }
+
+        const eventSource = new EventSource(
+            `${PUBLIC_STREAM_URL}persons/stream?token=${encodeURIComponent(sessionToken)}&radius=${this.getCellRadius()}`
+        );
+        eventSource.addEventListener(EApiStreamEvent.SUBSCRIBED, (event) => {
+            const {cells}: IApiPersonsStreamSubscribed = JSON.parse((event as MessageEvent).data);
+            this.streamCells = cells;
+        });
+        eventSource.addEventListener(EApiStreamEvent.UPDATE, (event) => {
+            this.handleStreamUpdate(JSON.parse((event as MessageEvent).data));
+        });
+        eventSource.onerror = () => {
+            // fall back to polling
+            this.streamErrorTime = +new Date();
+            this.closeStream();
+        };
+        this.eventSource = eventSource;
+    };
+
+    /**
+     * Close the realtime stream.
+     */
+    closeStream = () => {
+        if (this.eventSource) {
+            this.eventSource.close();
+            this.eventSource = null;
+        }
+        this.streamCells = [];
+    };
+
+    /**
+     * Open the realtime stream if it is not open, or reopen it if the current person moved into other cells.
+     * @param loadedCellStrings The cells loaded by the last poll.
+     */
+    updateStream = (loadedCellStrings: string[]) => {
+        if (!this.state.currentPersonId || +new Date() - this.streamErrorTime < this.streamingFetchSpeed) {
+            return;
+        }
+        const cellsChanged = this.streamCells.length > 0 && (
+            this.streamCells.length !== loadedCellStrings.length ||
+            this.streamCells.some(cell => !loadedCellStrings.includes(cell))
+        );
+        if (!this.eventSource || cellsChanged) {
+            this.openStream();
+        }
+    };
+
+    /**
+     * Merge changes pushed by the realtime stream into the game state.
+     * @param update The changes pushed by the server.
+     */
+    handleStreamUpdate = (update: IApiPersonsStreamUpdate) => {
+        const {
+            persons: serverPersons = [],
+            objects: serverObjects = [],
+            npcs: serverNpcs = [],
+            cellLocks,
+            voiceMessages,
+            tombstones = []
+        } = update;
+
+        // handle voice metadata messages
+        if (voiceMessages) {
+            voiceMessages.candidates.forEach(this.handleVoiceCandidateMessage);
+            voiceMessages.offers.forEach(this.handleVoiceOfferMessage);
+            voiceMessages.answers.forEach(this.handleVoiceAnswerMessage);
+        }
+
+        // the stream only contains changes, keep every other item
+        const mergeData = <T extends INetworkObjectBase>(localArr: T[], serverArr: T[], collectionName: string): T[] => {
+            return this.mergeSyncedData(localArr, serverArr, {
+                full: false,
+                removedIds: tombstones.filter(t => t.collectionName === collectionName).map(t => t.id),
+                isLoaded: () => true,
+                mergeItem: this.updateMergeLocalAndNetworkData
+            });
+        };
+        const persons = mergeData(this.state.persons, serverPersons, "persons");
+        const objects = mergeData(this.state.objects, serverObjects, "objects");
+        const npcs = [
+            ...this.state.npcs.filter(npc => !serverNpcs.some(serverNpc => serverNpc.id === npc.id)),
+            ...serverNpcs
+        ];
+        const newCurrentPerson = persons.find(person => person.id === this.state.currentPersonId);
+
+        this.setState({
+            persons,
+            objects,
+            npcs,
+            nearbyObjects: this.getNearbyObjects(newCurrentPerson, objects),
+            cellLocks: cellLocks || this.state.cellLocks
+        });
+    };
+
     /**
      * Update the state of the game.
      */
@@ -950,12 +1639,25 @@ export class Persons extends PersonsDrawables<IPersonsProps, IPersonsState> {
             objects: objectsToUpdate
         });
 
+        // the realtime stream pushes the most important changes, poll less often while it is open
+        if (this.eventSource && +new Date() - this.lastFetchTime < this.streamingFetchSpeed) {
+            this.intervalGameLoop = setTimeout(this.gameLoop, this.gameRefreshSpeed);
+            return;
+        }
+        this.lastFetchTime = +new Date();
+
         // get a list of persons from the database
         const getRequestUrlSearchParams = new URLSearchParams();
         if (this.state.currentPersonId) {
             getRequestUrlSearchParams.append("id", this.state.currentPersonId);
         }
-        const response = await axios.get<IApiPersonsGetResponse>(`https://us-central1-tyler-truong-demos.cloudfunctions.net/persons/data?${getRequestUrlSearchParams}`);
+        // only fetch changes since the previous fetch
+        if (this.state.syncCursor) {
+            getRequestUrlSearchParams.append("since", this.state.syncCursor);
+        }
+        // load more cells on large screens
+        getRequestUrlSearchParams.append("radius", String(this.getCellRadius()));
+        const response = await axios.get<IApiPersonsGetSyncResponse>(`https://us-central1-tyler-truong-demos.cloudfunctions.net/persons/data?${getRequestUrlSearchParams}`);
         if (response && response.data) {
             // get persons data from the server
             const {
@@ -966,6 +1668,7 @@ export class Persons extends PersonsDrawables<IPersonsProps, IPersonsState> {
                 resources: serverResources,
                 stockpiles: serverStockpiles,
                 stockpileTiles: serverStockpileTiles,
+                vendingMachines: serverVendingMachines = [],
                 houses: serverHouses,
                 floors: serverFloors,
                 walls: serverWalls,
@@ -974,13 +1677,21 @@ export class Persons extends PersonsDrawables<IPersonsProps, IPersonsState> {
                     offers,
                     answers
                 },
-                roads,
-                lots,
+                roads: serverRoads,
+                lots: serverLots,
                 currentPersonId,
                 currentNpcId,
                 loadedCells,
                 loadedTerrainTiles,
-                cellLocks
+                cellLocks,
+                cursor,
+                full,
+                tombstones = [],
+                death = null,
+                trade = null,
+                loan = null,
+                taxWarning = null,
+                lotProductions = []
             } = response.data;
 
             // handle voice metadata messages
@@ -992,33 +1703,52 @@ export class Persons extends PersonsDrawables<IPersonsProps, IPersonsState> {
             const fetchTime = new Date();
 
             // modify server data with local data, pick most up to date version of the data
-            const persons = serverPersons.reduce((arr: IPerson[], person: IPerson): IPerson[] => {
-                return this.updateMergeLocalAndNetworkData(this.state.persons, arr, person);
-            }, []);
-            const cars = serverCars.reduce((arr: ICar[], car: ICar): ICar[] => {
-                return this.updateMergeLocalAndNetworkData(this.state.cars, arr, car);
-            }, []);
-            const objects = serverObjects.reduce((arr: INetworkObject[], networkObject: INetworkObject): INetworkObject[] => {
-                return this.updateMergeLocalAndNetworkData(this.state.objects, arr, networkObject);
-            }, []);
-            const resources = serverResources.reduce((arr: IResource[], networkObject: IResource): IResource[] => {
-                return this.updateMergeLocalAndNetworkData(this.state.resources, arr, networkObject);
-            }, []);
-            const stockpiles = serverStockpiles.reduce((arr: IStockpile[], networkObject: IStockpile): IStockpile[] => {
-                return this.updateMergeLocalAndNetworkData(this.state.stockpiles, arr, networkObject);
-            }, []);
-            const stockpileTiles = serverStockpileTiles.reduce((arr: IStockpileTile[], networkObject: IStockpileTile): IStockpileTile[] => {
-                return this.updateMergeLocalAndNetworkData(this.state.stockpileTiles, arr, networkObject);
-            }, []);
-            const houses = serverHouses.reduce((arr: IHouse[], networkObject: IHouse): IHouse[] => {
-                return this.updateMergeLocalAndNetworkData(this.state.houses, arr, networkObject);
-            }, []);
-            const floors = serverFloors.reduce((arr: IFloor[], networkObject: IFloor): IFloor[] => {
-                return this.updateMergeLocalAndNetworkData(this.state.floors, arr, networkObject);
-            }, []);
-            const walls = serverWalls.reduce((arr: IWall[], networkObject: IWall): IWall[] => {
-                return this.updateMergeLocalAndNetworkData(this.state.walls, arr, networkObject);
-            }, []);
+            // a full response replaces everything, a delta response is merged into the local data
+            const loadedCellStrings = loadedCells.map(networkObjectCellPositionToCellString);
+            const isInLoadedCells = (networkObject: IObject): boolean => {
+                return loadedCellStrings.includes(getNetworkObjectCellString(networkObject));
+            };
+            const mergeData = <T extends INetworkObjectBase>(
+                localArr: T[],
+                serverArr: T[],
+                collectionName: string,
+                isLoaded: (item: T) => boolean = isInLoadedCells
+            ): T[] => {
+                return this.mergeSyncedData(localArr, serverArr, {
+                    full,
+                    removedIds: tombstones.filter(t => t.collectionName === collectionName).map(t => t.id),
+                    isLoaded,
+                    mergeItem: this.updateMergeLocalAndNetworkData
+                });
+            };
+            const persons = mergeData(this.state.persons, serverPersons, "persons", (person: IPerson) => {
+                // persons which stopped sending updates have logged out
+                return isInLoadedCells(person) && +fetchTime - Date.parse(person.lastUpdate) < 30 * 1000;
+            });
+            const cars = mergeData(this.state.cars, serverCars, "personalCars");
+            const objects = mergeData(this.state.objects, serverObjects, "objects", (networkObject: INetworkObject) => {
+                // the inventory of the current person is always sent in full
+                return !networkObject.isInInventory && isInLoadedCells(networkObject);
+            });
+            const resources = mergeData(this.state.resources, serverResources, "resources");
+            const stockpiles = mergeData(this.state.stockpiles, serverStockpiles, "stockpiles");
+            const stockpileTiles = mergeData(this.state.stockpileTiles, serverStockpileTiles, "stockpileTiles");
+            const vendingMachines = mergeData(this.state.vendingMachines, serverVendingMachines, "vendingMachines");
+            const houses = mergeData(this.state.houses, serverHouses, "houses");
+            const floors = mergeData(this.state.floors, serverFloors, "floors");
+            const walls = mergeData(this.state.walls, serverWalls, "walls");
+            const roads = this.mergeSyncedData(this.state.roads, serverRoads, {
+                full,
+                removedIds: tombstones.filter(t => t.collectionName === "roads").map(t => t.id),
+                isLoaded: isInLoadedCells
+            });
+            const lots = this.mergeSyncedData(this.state.lots, serverLots, {
+                full,
+                removedIds: tombstones.filter(t => t.collectionName === "lots").map(t => t.id),
+                // lots can be larger than a cell, keep lots which overlap a loaded cell
+                isLoaded: (lot: ILot & {cells?: string[]}) => (lot.cells || [getNetworkObjectCellString(lot)])
+                    .some(cell => loadedCellStrings.includes(cell))
+            });
             const newCurrentPerson = persons.find(person => person.id === this.state.currentPersonId);
             const nearbyObjects = this.getNearbyObjects(newCurrentPerson, objects);
             const nearestPersons = this.getCurrentPerson() ?
@@ -1054,12 +1784,22 @@ export class Persons extends PersonsDrawables<IPersonsProps, IPersonsState> {
                 inventory,
                 stockpiles,
                 stockpileTiles,
+                vendingMachines,
                 currentPersonId,
                 currentNpcId,
                 loadedCells,
                 loadedTerrainTiles,
-                cellLocks
+                cellLocks,
+                syncCursor: cursor,
+                death,
+                trade,
+                loan,
+                taxWarning,
+                lotProductions
             });
+
+            // receive changes around the current person in realtime
+            this.updateStream(loadedCellStrings);
         }
 
         // schedule next game loop
@@ -1340,6 +2080,7 @@ export class Persons extends PersonsDrawables<IPersonsProps, IPersonsState> {
                 stateUpdates.push({
                     // close vending inventory list
                     vendingInventory: [],
+                    vendingMachineId: null,
                     // close npc viewer
                     npc: null,
                     // close lot viewer
@@ -1745,6 +2486,28 @@ export class Persons extends PersonsDrawables<IPersonsProps, IPersonsState> {
         }
     };
 
+    /**
+     * Send a lot request and show the error message of the server if it fails.
+     * @param url The lots API route.
+     * @param data The request body.
+     */
+    sendLotRequest = async (
+        url: string,
+        data: IApiLotsBuyPost | IApiLotsSellPost | IApiLotsOfferIdPost | IApiLotsAuctionPost | IApiLotsBidPost | IApiLotsIndustryPost
+    ) => {
+        try {
+            await axios.post(`${PUBLIC_API_URL}lots/${url}`, data);
+            this.setState({
+                lotErrorMessage: ""
+            });
+        } catch (e) {
+            const errorResponse: IApiErrorResponse | undefined = e.response && e.response.data;
+            this.setState({
+                lotErrorMessage: errorResponse && errorResponse.message ? errorResponse.message : "The lot request failed"
+            });
+        }
+    };
+
     /**
      * Create a buy offer for a lot.
      */
@@ -1758,7 +2521,7 @@ export class Persons extends PersonsDrawables<IPersonsProps, IPersonsState> {
                 price: this.state.lotPrice,
                 personId: this.state.currentPersonId
             };
-            await axios.post(`${PUBLIC_API_URL}lots/buy`, data);
+            await this.sendLotRequest("buy", data);
         }
     };
 
@@ -1775,22 +2538,228 @@ export class Persons extends PersonsDrawables<IPersonsProps, IPersonsState> {
                 price: this.state.lotPrice,
                 personId: this.state.currentPersonId
             };
-            await axios.post(`${PUBLIC_API_URL}lots/sell`, data);
+            await this.sendLotRequest("sell", data);
         }
     };
 
     /**
-     * Accept buy offer.
+     * Accept a buy offer on a lot the current person owns, selling the lot.
      */
     acceptBuyOffer = (offer: IApiLotsBuyPost) => async () => {
-        await axios.post(`${PUBLIC_API_URL}lots/buy/accept`, offer)
+        await this.sendLotRequest("buy/accept", offer);
     };
 
     /**
-     * Accept sell offer.
+     * Accept the sell offer of a lot, buying the lot.
      */
     acceptSellOffer = (offer: IApiLotsSellPost) => async () => {
-        await axios.post(`${PUBLIC_API_URL}lots/sell/accept`, offer)
+        await this.sendLotRequest("sell/accept", offer);
+    };
+
+    /**
+     * Cancel a buy offer of the current person, releasing the escrow.
+     */
+    cancelBuyOffer = (offer: IApiLotOffer) => async () => {
+        const data: IApiLotsOfferIdPost = {
+            offerId: offer.id
+        };
+        await this.sendLotRequest("buy/cancel", data);
+    };
+
+    /**
+     * Reject a buy offer on a lot the current person owns.
+     */
+    rejectBuyOffer = (offer: IApiLotOffer) => async () => {
+        const data: IApiLotsOfferIdPost = {
+            offerId: offer.id
+        };
+        await this.sendLotRequest("buy/reject", data);
+    };
+
+    /**
+     * Cancel the sell offer of a lot the current person owns.
+     */
+    cancelSellOffer = (offer: IApiLotOffer) => async () => {
+        const data: IApiLotsOfferIdPost = {
+            offerId: offer.id
+        };
+        await this.sendLotRequest("sell/cancel", data);
+    };
+
+    /**
+     * Put a lot up for auction for an hour, using the lot price as the reserve price.
+     */
+    auctionLot = (lot: ILot) => async () => {
+        if (typeof this.state.lotPrice === "number") {
+            const data: IApiLotsAuctionPost = {
+                lotId: lot.id,
+                reservePrice: this.state.lotPrice,
+                endTime: new Date(+new Date() + 60 * 60 * 1000).toISOString()
+            };
+            await this.sendLotRequest("auction", data);
+        }
+    };
+
+    /**
+     * Bid the lot price on an auction.
+     */
+    bidOnLot = (auction: IApiLotAuction) => async () => {
+        if (typeof this.state.lotPrice === "number") {
+            const data: IApiLotsBidPost = {
+                auctionId: auction.id,
+                amount: this.state.lotPrice
+            };
+            await this.sendLotRequest("auction/bid", data);
+        }
+    };
+
+    /**
+     * Choose what an industrial lot of the current person produces, null stops the production.
+     */
+    setLotIndustry = (lot: ILot, industryType: ELotZoneIndustrialType | null) => async () => {
+        const data: IApiLotsIndustryPost = {
+            lotId: lot.id,
+            industryType
+        };
+        await this.sendLotRequest("industry", data);
+    };
+
+    /**
+     * Draw the industry of an industrial lot. The owner can choose the industry and sees what the lot produced on the
+     * last lot production tick and which inputs it was short of.
+     * @param lot The lot to draw the industry of.
+     */
+    drawLotIndustry = (lot: ILot) => {
+        if (lot.zone !== ELotZone.INDUSTRIAL) {
+            return null;
+        }
+        const {industryType} = lot as IApiLot;
+        const isOwner = lot.owner === this.state.currentPersonId;
+        const production = this.state.lotProductions.find(p => p.lotId === lot.id);
+        const getItemsText = (items: ICraftingRecipeItem[]) => items.map(({item, quantity}) => `${quantity} ${item}`).join(", ");
+        const industryTypes: Array<ELotZoneIndustrialType | null> = [null, ...Object.values(ELotZoneIndustrialType)];
+        return (
+            <g>
+                <text x="700" y="60" fontSize="18">Industry: {industryType || "none"}</text>
+                {
+                    isOwner ? industryTypes.map((type, index) => {
+                        return (
+                            <text key={type || "none"} x="700" y={80 + index * 20} fontSize="14"
+                                  fill={type === industryType ? "blue" : "black"} onClick={this.setLotIndustry(lot, type)}>
+                                {type || "none"}
+                            </text>
+                        );
+                    }) : null
+                }
+                {
+                    production ? (
+                        <g>
+                            <text x="900" y="60" fontSize="18">
+                                Produced: {getItemsText(production.produced) || "nothing"}, {production.rate} per recipe
+                            </text>
+                            {
+                                !production.stockpileId ? (
+                                    <text x="900" y="80" fontSize="18" fill="red">Build a stockpile on the lot to produce</text>
+                                ) : null
+                            }
+                            {
+                                production.shortages.length > 0 ? (
+                                    <text x="900" y="100" fontSize="18" fill="red">Short of: {getItemsText(production.shortages)}</text>
+                                ) : null
+                            }
+                            {
+                                production.isStockpileFull ? (
+                                    <text x="900" y="120" fontSize="18" fill="red">The stockpile is full</text>
+                                ) : null
+                            }
+                        </g>
+                    ) : null
+                }
+            </g>
+        );
+    };
+
+    /**
+     * Draw the running auction of a lot with the highest bid and the time left.
+     * @param lot The lot to draw the auction of.
+     */
+    drawLotAuction = (lot: ILot) => {
+        const {auction} = lot as IApiLot;
+        if (!auction) {
+            return null;
+        }
+        const secondsLeft = Math.max(0, Math.floor((Date.parse(auction.endTime) - +new Date()) / 1000));
+        const countdown = `${Math.floor(secondsLeft / 60)}:${secondsLeft % 60 < 10 ? "0" : ""}${secondsLeft % 60}`;
+        const highBid = auction.highBid !== null ? `${auction.highBid} by ${auction.highBidderId}` : "no bids";
+        return (
+            <g>
+                <text x="20" y="140" fontSize="18">Auction: {highBid}, reserve {auction.reservePrice}, ends in {countdown}</text>
+                {
+                    lot.owner !== this.state.currentPersonId ? (
+                        <text x="500" y="140" fontSize="18" onClick={this.bidOnLot(auction)}>Bid</text>
+                    ) : null
+                }
+            </g>
+        );
+    };
+
+    /**
+     * Draw the open offers of a lot. The owner can cancel their sell offer, accept or reject buy offers. Other persons
+     * can accept the sell offer and cancel their own buy offer.
+     * @param lot The lot to draw the offers of.
+     */
+    drawLotOffers = (lot: ILot) => {
+        const isOwner = lot.owner === this.state.currentPersonId;
+        const sellOffer = lot.sellOffers && lot.sellOffers[0] as IApiLotOffer | undefined;
+        // the owner sees every buy offer, others only see their own
+        const buyOffers = ((lot.buyOffers || []) as IApiLotOffer[]).filter((offer) => {
+            return isOwner || offer.personId === this.state.currentPersonId;
+        });
+        return (
+            <g>
+                {
+                    sellOffer ? (
+                        <g>
+                            <text x="20" y="140" fontSize="18">{sellOffer.personId} {sellOffer.price} {this.getLotOfferExpiryText(sellOffer)}</text>
+                            {
+                                isOwner ? (
+                                    <text x="500" y="140" fontSize="18" onClick={this.cancelSellOffer(sellOffer)}>Cancel</text>
+                                ) : (
+                                    <text x="500" y="140" fontSize="18" onClick={this.acceptSellOffer(sellOffer)}>Buy</text>
+                                )
+                            }
+                        </g>
+                    ) : null
+                }
+                {
+                    buyOffers.map((offer, i) => {
+                        return (
+                            <g key={offer.id}>
+                                <text x="20" y={180 + i * 20} fontSize="18">{offer.personId} {offer.price} {this.getLotOfferExpiryText(offer)}</text>
+                                {
+                                    isOwner ? (
+                                        <g>
+                                            <text x="500" y={180 + i * 20} fontSize="18" onClick={this.acceptBuyOffer(offer)}>Sell</text>
+                                            <text x="560" y={180 + i * 20} fontSize="18" onClick={this.rejectBuyOffer(offer)}>Reject</text>
+                                        </g>
+                                    ) : (
+                                        <text x="500" y={180 + i * 20} fontSize="18" onClick={this.cancelBuyOffer(offer)}>Cancel</text>
+                                    )
+                                }
+                            </g>
+                        );
+                    })
+                }
+            </g>
+        );
+    };
+
+    /**
+     * Describe when a lot offer expires.
+     * @param offer The offer to describe.
+     */
+    getLotOfferExpiryText = (offer: IApiLotOffer): string => {
+        return offer.expiresAt ? `expires ${new Date(offer.expiresAt).toLocaleString()}` : "";
     };
 
     /**
@@ -2140,6 +3109,14 @@ export class Persons extends PersonsDrawables<IPersonsProps, IPersonsState> {
         this.setState({showConstruction: !this.state.showConstruction});
     };
 
+    /**
+     * Choose the kind of building to construct.
+     * @param event The change event of the construction type select.
+     */
+    selectConstructionType = (event: React.ChangeEvent<HTMLSelectElement>) => {
+        this.setState({constructionType: event.target.value as EConstructionType});
+    };
+
     showStockpile = () => {
         this.setState({showStockpile: !this.state.showStockpile});
     };
@@ -2152,6 +3129,108 @@ export class Persons extends PersonsDrawables<IPersonsProps, IPersonsState> {
         this.setState({showMap: !this.state.showMap});
     };
 
+    showWallet = async () => {
+        const showWallet = !this.state.showWallet;
+        this.setState({
+            showWallet,
+            ledgerEntries: [],
+            ledgerNextCursor: null
+        });
+        if (showWallet) {
+            await this.loadLedgerPage(null);
+        }
+    };
+
+    /**
+     * Load a page of the cash history of the current person.
+     * @param after The cursor of the previous page, null for the first page.
+     */
+    loadLedgerPage = async (after: string | null) => {
+        const response = await axios.get<IApiPersonsLedgerResponse>(`${PUBLIC_API_URL}persons/ledger`, {
+            params: after ? {after} : {}
+        });
+        this.setState({
+            ledgerEntries: [...(after ? this.state.ledgerEntries : []), ...response.data.entries],
+            ledgerNextCursor: response.data.nextCursor
+        });
+    };
+
+    /**
+     * Handle the amount input of a loan.
+     * @param event The key pressed.
+     */
+    handleLoanAmount = (event: React.KeyboardEvent) => {
+        const key = event.key;
+        const previousLoanAmount: string = typeof this.state.loanAmount === "number" ? this.state.loanAmount.toString() : "";
+        if (/[0-9]/.test(key)) {
+            this.setState({
+                loanAmount: Number(`${previousLoanAmount}${key}`)
+            });
+        } else if (key === "Backspace") {
+            this.setState({
+                loanAmount: Number(previousLoanAmount.substr(0, previousLoanAmount.length - 1))
+            });
+        }
+    };
+
+    /**
+     * Borrow or repay the loan amount and show the error message of the server if it fails.
+     * @param url The loan API route, borrow or repay.
+     */
+    sendLoanRequest = (url: "borrow" | "repay") => async () => {
+        if (!this.state.currentPersonId || typeof this.state.loanAmount !== "number") {
+            return;
+        }
+        const data: IApiPersonsLoanBorrowPost | IApiPersonsLoanRepayPost = {
+            personId: this.state.currentPersonId,
+            amount: this.state.loanAmount
+        };
+        try {
+            await axios.post(`${PUBLIC_API_URL}persons/loan/${url}`, data);
+            this.setState({
+                loanErrorMessage: ""
+            });
+        } catch (e) {
+            const errorResponse: IApiErrorResponse | undefined = e.response && e.response.data;
+            this.setState({
+                loanErrorMessage: errorResponse && errorResponse.message ? errorResponse.message : "The loan request failed"
+            });
+        }
+    };
+
+    /**
+     * Describe a cash history entry from the point of view of the current person.
+     * @param entry The ledger entry to describe.
+     */
+    getLedgerEntryText = (entry: IApiLedgerEntry): string => {
+        const received = entry.to === this.state.currentPersonId;
+        const otherParty = (received ? entry.from : entry.to) || "the city";
+        return `${received ? "+" : "-"}${entry.amount} ${received ? "from" : "to"} ${otherParty} ` +
+            `for ${entry.reason} ${entry.referenceId || ""} at ${new Date(entry.createdAt).toLocaleString()}`;
+    };
+
+    /**
+     * Send a construction request, keeping the error message of a failed request for the construction screen.
+     * @param url The construction API route.
+     * @param data The request body.
+     * @return If the construction succeeded.
+     */
+    sendConstructionRequest = async (url: string, data: IApiPersonsConstructionBuildingPost | IApiPersonsConstructionStockpilePost): Promise<boolean> => {
+        try {
+            await axios.post(`${PUBLIC_API_URL}${url}`, data);
+            this.setState({
+                constructionErrorMessage: ""
+            });
+            return true;
+        } catch (e) {
+            const errorResponse: IApiErrorResponse | undefined = e.response && e.response.data;
+            this.setState({
+                constructionErrorMessage: errorResponse && errorResponse.message ? errorResponse.message : "The construction failed"
+            });
+            return false;
+        }
+    };
+
     /**
      * Construct a stockpile at a location.
      */
@@ -2173,7 +3252,9 @@ export class Persons extends PersonsDrawables<IPersonsProps, IPersonsState> {
             } = controller.constructStockpile({location});
 
             const postData = controller.getConstructionStockpileRequest(location);
-            await axios.post(`${PUBLIC_API_URL}persons/construction/stockpile`, postData);
+            if (!await this.sendConstructionRequest("persons/construction/stockpile", postData)) {
+                return;
+            }
 
             // update local state with the changes
             const stockpiles: IStockpile[] = [
@@ -2235,8 +3316,13 @@ export class Persons extends PersonsDrawables<IPersonsProps, IPersonsState> {
                 stackableSlots
             } = controller.constructBuilding({location});
 
-            const postData = controller.getConstructionRequest(location);
-            await axios.post(`${PUBLIC_API_URL}persons/construction`, postData);
+            const postData: IApiPersonsConstructionBuildingPost = {
+                ...controller.getConstructionRequest(location),
+                constructionType: this.state.constructionType
+            };
+            if (!await this.sendConstructionRequest("persons/construction", postData)) {
+                return;
+            }
 
             // update local state with the changes
             const houses = [
@@ -2280,7 +3366,11 @@ export class Persons extends PersonsDrawables<IPersonsProps, IPersonsState> {
         }
     };
 
-    drawInventory = (inventory: IPersonsInventory, showCraftingRecipes: boolean): JSX.Element => (
+    drawInventory = (
+        inventory: IPersonsInventory,
+        showCraftingRecipes: boolean,
+        onSlotClick: (inventoryObject: INetworkObject) => void = this.dropObject
+    ): JSX.Element => (
         <g>
             <rect x="0" y="0" width={this.state.width} height={this.state.height} fill="white" opacity="0.3"/>
             {
@@ -2302,7 +3392,7 @@ export class Persons extends PersonsDrawables<IPersonsProps, IPersonsState> {
                                 <rect x={50 + 80 * columnIndex} y={50 + 80 * rowIndex} width={60} height={60} fill="tan" opacity={0.3}/>
                                 {
                                     inventoryRender ? (
-                                        <g transform={`translate(${50 + 80 * columnIndex + 30},${50 + 80 * rowIndex + 60})`} onClick={inventoryObject ? () => this.dropObject(inventoryObject) : undefined}>
+                                        <g transform={`translate(${50 + 80 * columnIndex + 30},${50 + 80 * rowIndex + 60})`} onClick={inventoryObject ? () => onSlotClick(inventoryObject) : undefined}>
                                             {inventoryRender}
                                         </g>
                                     ) : null
@@ -2443,7 +3533,7 @@ export class Persons extends PersonsDrawables<IPersonsProps, IPersonsState> {
         let worldFilter = "";
 
         // blur the world if the inventory screen is open or if viewing an NPC
-        if (this.state.vendingInventory.length > 0 || this.state.npc) {
+        if (this.state.vendingMachineId || this.state.npc) {
             worldFilter = "url(#blur)";
         }
 
@@ -2482,13 +3572,33 @@ export class Persons extends PersonsDrawables<IPersonsProps, IPersonsState> {
                     <button onClick={this.beginLogin}>Login</button>
                     <button onClick={this.showInventory}>Inventory</button>
                     <button onClick={this.showConstruction}>Construction</button>
+                    {
+                        this.state.showConstruction ? (
+                            <select value={this.state.constructionType} onChange={this.selectConstructionType}>
+                                <option value={EConstructionType.HOUSE}>House (residential)</option>
+                                <option value={EConstructionType.SHOP}>Shop (commercial)</option>
+                                <option value={EConstructionType.WORKSHOP}>Workshop (industrial)</option>
+                            </select>
+                        ) : null
+                    }
                     <button onClick={this.showStockpile}>Stockpile</button>
                     <button onClick={this.showNpcs}>NPCs</button>
+                    <button onClick={this.showWallet}>Wallet</button>
+                    <button onClick={this.buildVendingMachine}>Build Vending Machine</button>
+                    <button onClick={this.proposeTrade}>Trade</button>
                     <button onClick={this.showMap}>Map</button>
                 </div>
                 <div style={{backgroundColor: "red", color: "white"}}>
                     {this.state.errorMessage}
                 </div>
+                {
+                    this.state.death ? (
+                        <div style={{backgroundColor: "black", color: "white"}}>
+                            You died. Your items were dropped where you fell. You will respawn at your house, or the starting point,
+                            after {new Date(this.state.death.respawnAt).toLocaleTimeString()}.
+                        </div>
+                    ) : null
+                }
                 <svg className="game" width={this.state.width} height={this.state.height} style={{border: "1px solid black"}}>
                     <defs>
                         {
@@ -2778,23 +3888,51 @@ export class Persons extends PersonsDrawables<IPersonsProps, IPersonsState> {
                             <g>
                                 <text x="20" y={this.state.height - 40} fill="black" fontSize={18}>Cash: {currentPerson.cash}</text>
                                 <text x="20" y={this.state.height - 20} fill="black" fontSize={18}>Credit: {currentPerson?.creditLimit}</text>
-                            </g>
-                        ) : null
-                    }
-                    {
-                        currentPerson && this.state.vendingInventory.length > 0 ? (
-                            <g>
-                                <rect x="0" y="0" width={this.state.width} height={this.state.height} fill="white" opacity="0.3"/>
                                 {
-                                    this.state.vendingInventory.map((inventoryItem, index) => {
-                                        return <text key={`inventory-item-${index}`} x="20" y={100 + index * 40} fontSize="24" onClick={() => {
-                                            this.vendInventoryItem(inventoryItem);
-                                        }}>{inventoryItem.objectType} ${inventoryItem.price}</text>;
-                                    })
+                                    this.state.loan ? (
+                                        <>
+                                            <text x="200" y={this.state.height - 40} fill="black" fontSize={18}>Loan: {this.state.loan.balance}</text>
+                                            <text x="200" y={this.state.height - 20} fill="black" fontSize={18}>
+                                                Next payment: {this.state.loan.nextPaymentAmount} at {new Date(this.state.loan.nextPaymentAt).toLocaleTimeString()}
+                                            </text>
+                                        </>
+                                    ) : null
+                                }
+                                {
+                                    this.state.lotProductions.some(production => production.shortages.length > 0 || !production.stockpileId) ? (
+                                        <text x="800" y={this.state.height - 40} fill="red" fontSize={18}>
+                                            Lots short of inputs: {this.state.lotProductions.filter(production => production.shortages.length > 0 || !production.stockpileId).length}
+                                        </text>
+                                    ) : null
+                                }
+                                {
+                                    (this.state.showConstruction || this.state.showStockpile) && this.state.constructionErrorMessage ? (
+                                        <text x="500" y={this.state.height - 60} fill="red" fontSize={18}>{this.state.constructionErrorMessage}</text>
+                                    ) : null
+                                }
+                                {
+                                    this.state.taxWarning ? (
+                                        <>
+                                            <text x="500" y={this.state.height - 40} fill="red" fontSize={18}>Lot tax due: {this.state.taxWarning.amountDue}</text>
+                                            <text x="500" y={this.state.height - 20} fill="red" fontSize={18}>
+                                                {
+                                                    this.state.taxWarning.repossessAt ?
+                                                        `${this.state.taxWarning.unpaidLotIds.length} unpaid lots repossessed at ${new Date(this.state.taxWarning.repossessAt).toLocaleTimeString()}` :
+                                                        "Not enough cash for the next lot tax"
+                                                }
+                                            </text>
+                                        </>
+                                    ) : null
                                 }
                             </g>
                         ) : null
                     }
+                    {
+                        currentPerson && this.state.vendingMachineId ? this.drawVendingMachinePanel(currentPerson) : null
+                    }
+                    {
+                        currentPerson && this.state.trade ? this.drawTradeWindow(currentPerson, this.state.trade) : null
+                    }
                     {
                         npc ? (
                             <g>
@@ -2824,22 +3962,32 @@ export class Persons extends PersonsDrawables<IPersonsProps, IPersonsState> {
                                 <text x="20" y="100" fontSize="18" onClick={
                                     this.state.lot.owner === this.state.currentPersonId ? this.sellLot(this.state.lot) : this.buyLot(this.state.lot)
                                 }>{this.state.lot.owner === this.state.currentPersonId ? "Sell Offer" : "Buy Offer"}</text>
+                                {
+                                    this.state.lot.owner === this.state.currentPersonId && !(this.state.lot as IApiLot).auction ? (
+                                        <text x="20" y="120" fontSize="18" onClick={this.auctionLot(this.state.lot)}>Auction</text>
+                                    ) : null
+                                }
                                 <foreignObject x="100" y="80" width="150" height="40">
                                     <div>
                                         <input onKeyUp={this.handleLotPrice} value={`Amount: ${this.state.lotPrice}`}/>
                                     </div>
                                 </foreignObject>
+                                <text x="300" y="100" fontSize="18" fill="red">{this.state.lotErrorMessage}</text>
                                 {
-                                    this.state.lot.sellOffers && this.state.lot.sellOffers[0] ? (
-                                        <text x="20" y="140" fontSize="18" onClick={this.acceptBuyOffer(this.state.lot.sellOffers[0])}>{this.state.lot.sellOffers[0].personId} {this.state.lot.sellOffers[0].price} Buy</text>
+                                    (this.state.lot as IApiLot).taxUnpaidSince ? (
+                                        <text x="300" y="60" fontSize="18" fill="red">
+                                            Tax unpaid since {new Date((this.state.lot as IApiLot).taxUnpaidSince as string).toLocaleString()}
+                                        </text>
                                     ) : null
                                 }
                                 {
-                                    this.state.lot.buyOffers ? (
-                                        this.state.lot.buyOffers.map((offer, i) => {
-                                            return <text x="20" y={180 + i * 20} fontSize="18" onClick={this.acceptSellOffer(offer)}>{offer.personId} {offer.price} Sell</text>
-                                        })
-                                    ) : null
+                                    this.drawLotAuction(this.state.lot)
+                                }
+                                {
+                                    this.drawLotIndustry(this.state.lot)
+                                }
+                                {
+                                    this.drawLotOffers(this.state.lot)
                                 }
                             </g>
                         ) : null
@@ -2866,6 +4014,39 @@ export class Persons extends PersonsDrawables<IPersonsProps, IPersonsState> {
                             </g>
                         ) : null
                     }
+                    {
+                        this.state.showWallet ? (
+                            <g>
+                                <rect x="0" y="0" width={this.state.width} height={this.state.height} fill="white" opacity="0.8"/>
+                                <text x={20} y={20} fontSize={18}>Wallet: {currentPerson ? currentPerson.cash : 0} cash</text>
+                                <text x={400} y={20} fontSize={18}>Loan: {this.state.loan ? this.state.loan.balance : 0}</text>
+                                <foreignObject x={400} y={30} width={150} height={40}>
+                                    <div>
+                                        <input onKeyUp={this.handleLoanAmount} value={`Amount: ${this.state.loanAmount}`}/>
+                                    </div>
+                                </foreignObject>
+                                <text x={560} y={50} fontSize={18} onClick={this.sendLoanRequest("borrow")}>Borrow</text>
+                                <text x={640} y={50} fontSize={18} onClick={this.sendLoanRequest("repay")}>Repay</text>
+                                <text x={400} y={90} fontSize={14} fill="red">{this.state.loanErrorMessage}</text>
+                                {
+                                    this.state.ledgerEntries.map((entry, index) => {
+                                        return (
+                                            <text key={entry.id} x={20} y={60 + index * 20} fontSize={14}
+                                                  fill={entry.to === this.state.currentPersonId ? "green" : "red"}>
+                                                {this.getLedgerEntryText(entry)}
+                                            </text>
+                                        );
+                                    })
+                                }
+                                {
+                                    this.state.ledgerNextCursor ? (
+                                        <text x={20} y={60 + this.state.ledgerEntries.length * 20} fontSize={14}
+                                              onClick={() => this.loadLedgerPage(this.state.ledgerNextCursor)}>More</text>
+                                    ) : null
+                                }
+                            </g>
+                        ) : null
+                    }
                 </svg>
                 <div>
                     <p>Select a custom shirt color for your character.</p>
@@ -29,6 +29,7 @@ import React from "react";
 import seedrandom from "seedrandom";
 import {applyPathToNpc, applyStateToNetworkObject, applyStateToResource} from "persons-game-common/lib/npc";
 import {getNetworkObjectCellString} from "persons-game-common/lib/cell";
+import {IApiVendingMachine} from "./types/api";
 
 /**
  * Represent a leaf on a tree.
@@ -107,6 +108,10 @@ export interface IPersonsDrawablesState {
      * A list of stockpile tiles. Adding more tiles will increase the number of slots in a stockpile.
      */
     stockpileTiles: IStockpileTile[];
+    /**
+     * A list of vending machines. Vending machines sell items to anyone and can be owned by a person.
+     */
+    vendingMachines: IApiVendingMachine[];
     /**
      * The randomly generated ID of the current person shown.
      */
@@ -158,6 +163,10 @@ export interface IPersonsDrawablesState {
      * The inventory to render.
      */
     vendingInventory: IVendorInventoryItem[];
+    /**
+     * The vending machine of the inventory to render.
+     */
+    vendingMachineId: string | null;
     /**
      * A list of persons that are connected by voice chat.
      */
@@ -639,27 +648,29 @@ export abstract class PersonsDrawables<P extends IPersonsDrawablesProps, S exten
             </g>
         );
     };
-    //
-    // /**
-    //  * Open the inventory of a vendor.
-    //  * @param vendor The vendor to check inventory for.
-    //  */
-    // selectVendingOption = (vendor: IVendor) => () => {
-    //     this.setState({
-    //         vendingInventory: vendor.inventory
-    //     });
-    // };
+
+    /**
+     * Open the inventory of a vending machine.
+     * @param vendingMachine The vending machine to check inventory for.
+     */
+    selectVendingOption = (vendingMachine: IApiVendingMachine) => () => {
+        this.setState({
+            vendingInventory: vendingMachine.inventory,
+            vendingMachineId: vendingMachine.id
+        });
+    };
 
     /**
      * Draw a vending machine.
-     * @param drawable The position of the vending machine to draw.
+     * @param vendingMachine The vending machine from the sync response to draw.
      * @param filter An SVG filter to apply to the vending machine.
      * @param previousNetworkObject The previous position of the vending machine used for interpolation.
      */
-    drawVendingMachine = (drawable: INetworkObject, filter: string, previousNetworkObject?: INetworkObject) => {
-        const {x, y} = this.interpolateObjectPosition(drawable, previousNetworkObject);
+    drawVendingMachine = (vendingMachine: IApiVendingMachine, filter: string, previousNetworkObject?: INetworkObjectBase) => {
+        const {x, y} = this.interpolateObjectPosition<INetworkObjectBase>(vendingMachine, previousNetworkObject);
         return (
-            <g key={`chair-${drawable.id}`} transform={`translate(${x - 50},${y - 200})`} filter={filter}>
+            <g key={`vending-machine-${vendingMachine.id}`} transform={`translate(${x - 50},${y - 200})`} filter={filter}
+               onClick={this.selectVendingOption(vendingMachine)}>
                 <polygon fill="blue" stroke="black" strokeWidth={2} points="-50,-100 50,-100 50,100, -50,100"/>
                 <polygon fill="black" points="-30,20 30,20, 30,40 -30,40"/>
                 <polygon fill="white" stroke="black" strokeWidth={2} points="20,-40 40,-40 40,-30 20,-30"/>
@@ -947,14 +958,18 @@ export abstract class PersonsDrawables<P extends IPersonsDrawablesProps, S exten
                 break;
             }
             case ENetworkObjectType.VENDING_MACHINE: {
-                drawables.push({
-                    x: networkObject.x,
-                    y: networkObject.y,
-                    type: EDrawableType.OBJECT,
-                    draw() {
-                        return component.drawVendingMachine(networkObject, filter, previousNetworkObject);
-                    }
-                });
+                // draw the vending machine with the inventory from the sync response
+                const vendingMachine = component.state.vendingMachines.find(m => m.id === networkObject.id);
+                if (vendingMachine) {
+                    drawables.push({
+                        x: networkObject.x,
+                        y: networkObject.y,
+                        type: EDrawableType.OBJECT,
+                        draw() {
+                            return component.drawVendingMachine(vendingMachine, filter, previousNetworkObject);
+                        }
+                    });
+                }
                 break;
             }
             case ENetworkObjectType.WOOD: {
@@ -1698,6 +1713,15 @@ export abstract class PersonsDrawables<P extends IPersonsDrawablesProps, S exten
                 ];
             }, []),
 
+            // for each vending machine
+            ...this.state.vendingMachines.filter(this.isNearWorldView(worldOffset)).map(vendingMachine => ({
+                draw(this: IDrawable) {
+                    return component.drawVendingMachine(vendingMachine, "");
+                },
+                type: EDrawableType.OBJECT,
+                ...vendingMachine
+            })),
+
             // for each resource object
             ...this.state.resources.map(resource => {
                 const cellLock: ICellLock | null = this.state.cellLocks.find(cellLock => cellLock.cell === getNetworkObjectCellString(resource)) || null;
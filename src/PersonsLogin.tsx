@@ -2,6 +2,7 @@ import * as React from "react";
 import axios from "axios";
 import {IApiPersonsLoginPost} from "persons-game-common/lib/types/GameTypes";
 import {PUBLIC_API_URL} from "./config";
+import {IApiPersonsLoginResponse} from "./types/api";
 
 /**
  * The props for [[PersonsLogin]].
@@ -67,12 +68,13 @@ export class PersonsLogin extends React.Component<IPersonsLoginProps, IPersonsLo
     }
 
     /**
-     * Get username and password, which could be saved in local storage.
+     * Get the username, which could be saved in local storage. The password is never saved, only the session token.
      */
     getCredentialsFromLocalStorage = () => {
         const username = localStorage.getItem("username") || "";
-        const password = localStorage.getItem("password") || "";
-        this.setState({username, password});
+        // remove plaintext passwords saved by older versions of the login
+        localStorage.removeItem("password");
+        this.setState({username, password: ""});
     };
 
     /**
@@ -107,15 +109,18 @@ export class PersonsLogin extends React.Component<IPersonsLoginProps, IPersonsLo
                 id: this.state.username,
                 password: this.state.password
             };
-            await axios.post(`${PUBLIC_API_URL}persons/login`, data);
+            const response = await axios.post<IApiPersonsLoginResponse>(`${PUBLIC_API_URL}persons/login`, data);
 
-            // save credentials to local storage
+            // save username and session token to local storage
             localStorage.setItem("username", this.state.username);
-            localStorage.setItem("password", this.state.password);
+            localStorage.setItem("sessionToken", response.data.token);
+            localStorage.setItem("sessionExpiresAt", response.data.expiresAt);
+            localStorage.removeItem("password");
 
             // close modal
             this.setState({
                 visible: false,
+                password: "",
                 loginAttempt: false
             });
 
@@ -137,6 +142,13 @@ export class PersonsLogin extends React.Component<IPersonsLoginProps, IPersonsLo
         this.setState({visible: !this.state.visible});
     };
 
+    /**
+     * Open the modal if it is not already open.
+     */
+    open = () => {
+        this.setState({visible: true});
+    };
+
     /**
      * Close the modal.
      */
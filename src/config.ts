@@ -4,6 +4,13 @@
 export const PUBLIC_API_URL = "https://us-central1-tyler-truong-demos.cloudfunctions.net/";
 //export const PUBLIC_API_URL = "http://localhost:5001/tyler-truong-demos/us-central1/";
 
+/**
+ * Realtime stream server url. Cloud Functions buffer responses, run functions/src/server.ts for realtime updates. The
+ * game falls back to polling when the stream does not work.
+ */
+export const PUBLIC_STREAM_URL = PUBLIC_API_URL;
+//export const PUBLIC_STREAM_URL = "http://localhost:5000/";
+
 /**
  * Global user media configuration. The app uses voice only so only audio with advanced audio features is enabled.
  */
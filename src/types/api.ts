@@ -0,0 +1,904 @@
+import {
+    ELotZone,
+    ELotZoneIndustrialType,
+    ENetworkObjectType,
+    ERoadDirection,
+    IApiLotsBuyPost,
+    IApiPersonsConstructionPost,
+    IApiPersonsGetResponse,
+    IApiPersonsVendPost,
+    ICar,
+    ICellLock,
+    ICraftingRecipeItem,
+    IFloor,
+    IHouse,
+    ILot,
+    INetworkObject,
+    INpc,
+    IObject,
+    IPerson,
+    IRoad,
+    IStockpile,
+    IStockpileTile,
+    IVendor,
+    IVendorInventoryItem,
+    IWall
+} from "persons-game-common/lib/types/GameTypes";
+
+/**
+ * HTTP API request and response types which are not part of the persons-game-common package. The Firebase functions keep
+ * the original of these types in functions/src/types/api.ts.
+ */
+
+/**
+ * The HTTP POST /persons/login response.
+ */
+export interface IApiPersonsLoginResponse {
+    /**
+     * The id of the person that logged in.
+     */
+    personId: string;
+    /**
+     * The session token. Send it as a bearer token to prove who is making a request.
+     */
+    token: string;
+    /**
+     * An ISO Date string of when the session token expires.
+     */
+    expiresAt: string;
+}
+
+/**
+ * A document which was removed from a cell since the previous sync.
+ */
+export interface IApiTombstone {
+    /**
+     * The id of the removed document.
+     */
+    id: string;
+    /**
+     * The collection of the removed document, for example "objects" or "personalCars".
+     */
+    collectionName: string;
+    /**
+     * An ISO Date string of when the document was removed.
+     */
+    deletedAt: string;
+}
+
+/**
+ * The HTTP GET /persons/data response. Pass the cursor as the "since" query parameter of the next request to only
+ * receive changes.
+ */
+export interface IApiPersonsGetSyncResponse extends IApiPersonsGetResponse {
+    /**
+     * The cursor of this response.
+     */
+    cursor: string;
+    /**
+     * If the response contains every document. If false, the response only contains changes since the cursor and
+     * must be merged into the previous data.
+     */
+    full: boolean;
+    /**
+     * Documents removed since the cursor. Always empty on a full response.
+     */
+    tombstones: IApiTombstone[];
+    /**
+     * The death of the current person, null while the person is alive.
+     */
+    death: IApiPersonsDeath | null;
+    /**
+     * Vending machines around the current person.
+     */
+    vendingMachines: IApiVendingMachine[];
+    /**
+     * The open trade of the current person, null if the person is not trading.
+     */
+    trade: IApiTrade | null;
+    /**
+     * The loan of the current person, null if the person has no loan.
+     */
+    loan: IApiLoan | null;
+    /**
+     * The lot tax warning of the current person, null if the person can pay their next lot tax.
+     */
+    taxWarning: IApiTaxWarning | null;
+    /**
+     * The production of the industrial lots of the current person.
+     */
+    lotProductions: IApiLotProduction[];
+}
+
+/**
+ * The death of the current person.
+ */
+export interface IApiPersonsDeath {
+    /**
+     * An ISO Date string of when the person died.
+     */
+    diedAt: string;
+    /**
+     * An ISO Date string of when the person respawns. The respawn happens on the first persons tick after this time.
+     */
+    respawnAt: string;
+}
+
+/**
+ * The HTTP PUT /persons/data response. The server checks each movement against the stored record. Anything which moved
+ * too fast or which the caller is not allowed to move is returned with its authoritative state so the client can
+ * correct its copy.
+ */
+export interface IApiPersonsPutResponse {
+    /**
+     * Persons that were corrected.
+     */
+    persons: IPerson[];
+    /**
+     * Cars that were corrected.
+     */
+    cars: ICar[];
+    /**
+     * Objects that were corrected.
+     */
+    objects: INetworkObject[];
+}
+
+/**
+ * The names of the Server-Sent Events sent by GET /persons/stream.
+ */
+export enum EApiStreamEvent {
+    /**
+     * Sent once when the stream starts with an [[IApiPersonsStreamSubscribed]].
+     */
+    SUBSCRIBED = "subscribed",
+    /**
+     * Sent with an [[IApiPersonsStreamUpdate]] each time something changes in the subscribed cells.
+     */
+    UPDATE = "update",
+}
+
+/**
+ * The data of the subscribed event. The stream only pushes changes in these cells, open a new stream when the person
+ * moves into other cells.
+ */
+export interface IApiPersonsStreamSubscribed {
+    /**
+     * The person the stream belongs to.
+     */
+    personId: string;
+    /**
+     * The cells the stream is subscribed to.
+     */
+    cells: string[];
+}
+
+/**
+ * The data of an update event. Only the changed items are included and must be merged into the data from
+ * GET /persons/data.
+ */
+export interface IApiPersonsStreamUpdate {
+    /**
+     * Persons that changed.
+     */
+    persons?: IPerson[];
+    /**
+     * Objects that changed.
+     */
+    objects?: INetworkObject[];
+    /**
+     * NPCs that changed their path.
+     */
+    npcs?: INpc[];
+    /**
+     * Every cell lock in the subscribed cells. Replaces the previous cell locks.
+     */
+    cellLocks?: ICellLock[];
+    /**
+     * New WebRTC signaling messages for the person.
+     */
+    voiceMessages?: IApiPersonsGetResponse["voiceMessages"];
+    /**
+     * Documents removed from the subscribed cells.
+     */
+    tombstones?: IApiTombstone[];
+}
+
+/**
+ * The HTTP POST /lots/buy and POST /lots/sell request. The same as [[IApiLotsBuyPost]] with an expiry time.
+ */
+export interface IApiLotsOfferPost extends IApiLotsBuyPost {
+    /**
+     * An ISO Date string of when the offer closes by itself. Defaults to a day after the offer is made.
+     */
+    expiresAt?: string;
+}
+
+/**
+ * An open offer to buy or sell a lot.
+ */
+export interface IApiLotOffer extends IApiLotsBuyPost {
+    /**
+     * The id of the offer, used to cancel or reject it.
+     */
+    id: string;
+    /**
+     * An ISO Date string of when the offer closes by itself, null if it stays open.
+     */
+    expiresAt: string | null;
+}
+
+/**
+ * The HTTP POST /lots/buy/cancel, POST /lots/sell/cancel and POST /lots/buy/reject request.
+ */
+export interface IApiLotsOfferIdPost {
+    /**
+     * The offer to close.
+     */
+    offerId: string;
+}
+
+/**
+ * The HTTP GET /lots/offers response. The open offers of the current person.
+ */
+export interface IApiLotsOffersResponse {
+    buyOffers: IApiLotOffer[];
+    sellOffers: IApiLotOffer[];
+}
+
+/**
+ * The HTTP POST /lots/auction request. Put an owned lot up for auction.
+ */
+export interface IApiLotsAuctionPost {
+    lotId: string;
+    /**
+     * The lowest bid which can win the auction.
+     */
+    reservePrice: number;
+    /**
+     * An ISO Date string of when the auction closes and settles.
+     */
+    endTime: string;
+}
+
+/**
+ * The HTTP POST /lots/industry request. Specialize an owned industrial lot, null stops the production of the lot.
+ */
+export interface IApiLotsIndustryPost {
+    lotId: string;
+    industryType: ELotZoneIndustrialType | null;
+}
+
+/**
+ * The production of an industrial lot on the last lot production tick, only sent to the owner of the lot.
+ */
+export interface IApiLotProduction {
+    lotId: string;
+    industryType: ELotZoneIndustrialType;
+    /**
+     * The stockpile on the lot which the inputs are taken from and the outputs are deposited in, null if the lot has no
+     * stockpile.
+     */
+    stockpileId: string | null;
+    /**
+     * How many times the lot crafts each of its recipes on a lot production tick.
+     */
+    rate: number;
+    /**
+     * The outputs deposited into the stockpile.
+     */
+    produced: ICraftingRecipeItem[];
+    /**
+     * The inputs missing from the stockpile to craft every recipe at the full rate.
+     */
+    shortages: ICraftingRecipeItem[];
+    /**
+     * The stockpile had no room for more outputs.
+     */
+    isStockpileFull: boolean;
+    /**
+     * An ISO Date string of the last lot production tick.
+     */
+    updatedAt: string;
+}
+
+/**
+ * The HTTP POST /lots/auction/bid request. The bid is held in escrow until the bidder is outbid.
+ */
+export interface IApiLotsBidPost {
+    auctionId: string;
+    amount: number;
+}
+
+/**
+ * A running auction of a lot.
+ */
+export interface IApiLotAuction {
+    id: string;
+    lotId: string;
+    /**
+     * The owner of the lot who started the auction.
+     */
+    personId: string;
+    reservePrice: number;
+    /**
+     * An ISO Date string of when the auction closes and settles.
+     */
+    endTime: string;
+    /**
+     * The highest bid, null without bids.
+     */
+    highBid: number | null;
+    /**
+     * The person with the highest bid, null without bids.
+     */
+    highBidderId: string | null;
+}
+
+/**
+ * A lot returned by HTTP GET /persons/data, with its running auction.
+ */
+export interface IApiLot extends ILot {
+    auction: IApiLotAuction | null;
+    /**
+     * An ISO Date string of when the owner first could not pay the tax of the lot, null while the tax is paid.
+     */
+    taxUnpaidSince: string | null;
+    /**
+     * The specialization of an industrial lot, null if the lot produces nothing.
+     */
+    industryType: ELotZoneIndustrialType | null;
+    /**
+     * The price the city sells the lot for while the lot has no owner.
+     */
+    cityPrice: number;
+}
+
+/**
+ * The HTTP POST /persons/vend request. Buy an item from a vending machine.
+ */
+export interface IApiPersonsVendMachinePost extends IApiPersonsVendPost {
+    /**
+     * The vending machine selling the item.
+     */
+    vendingMachineId: string;
+}
+
+/**
+ * An item sold by a vending machine.
+ */
+export interface IApiVendingMachineItem extends IVendorInventoryItem {
+    /**
+     * How many more of the item the vending machine can sell.
+     */
+    stock: number;
+}
+
+/**
+ * A vending machine. Anyone can buy from it, only the owner can restock it, change prices and collect the revenue.
+ */
+export interface IApiVendingMachine extends IVendor {
+    /**
+     * The person who owns the vending machine, null for a vending machine of the city.
+     */
+    ownerId: string | null;
+    inventory: IApiVendingMachineItem[];
+    /**
+     * The cash from sales which the owner has not collected yet.
+     */
+    revenue: number;
+}
+
+/**
+ * The HTTP POST /persons/vending/build request. Build a vending machine where the person stands.
+ */
+export interface IApiVendingMachineBuildPost {
+    personId: string;
+}
+
+/**
+ * The HTTP POST /persons/vending/restock request. Load a stack of items into a vending machine.
+ */
+export interface IApiVendingMachineRestockPost {
+    personId: string;
+    vendingMachineId: string;
+    /**
+     * The stack of items to load.
+     */
+    objectId: string;
+    /**
+     * The stockpile holding the stack, the inventory of the person if missing.
+     */
+    stockpileId?: string;
+    /**
+     * The price of the item, required when the vending machine does not sell the item yet.
+     */
+    price?: number;
+}
+
+/**
+ * The HTTP POST /persons/vending/price request. Change the price of an item.
+ */
+export interface IApiVendingMachinePricePost {
+    personId: string;
+    vendingMachineId: string;
+    objectType: ENetworkObjectType;
+    price: number;
+}
+
+/**
+ * The HTTP POST /persons/vending/withdraw request. Collect the revenue of a vending machine.
+ */
+export interface IApiVendingMachineWithdrawPost {
+    personId: string;
+    vendingMachineId: string;
+}
+
+/**
+ * One side of a trade, what one person gives to the other person.
+ */
+export interface IApiTradeSide {
+    personId: string;
+    /**
+     * The inventory slots the person gives.
+     */
+    objectIds: string[];
+    /**
+     * The cash the person gives.
+     */
+    cash: number;
+    /**
+     * If the person accepted the current offers of both sides. Changing an offer clears the confirmation of both sides.
+     */
+    confirmed: boolean;
+}
+
+/**
+ * A trade session between two nearby persons. The items and cash of both sides are swapped once both sides confirm.
+ */
+export interface IApiTrade {
+    id: string;
+    /**
+     * The person who proposed the trade and the other person.
+     */
+    sides: IApiTradeSide[];
+    /**
+     * An ISO Date string of when the trade was proposed.
+     */
+    createdAt: string;
+}
+
+/**
+ * The HTTP POST /persons/trade/propose request. Propose a trade to a nearby person.
+ */
+export interface IApiPersonsTradeProposePost {
+    personId: string;
+    /**
+     * The person to trade with.
+     */
+    otherPersonId: string;
+}
+
+/**
+ * The HTTP POST /persons/trade/offer request. Replace the side of the person in a trade.
+ */
+export interface IApiPersonsTradeOfferPost {
+    personId: string;
+    tradeId: string;
+    /**
+     * The inventory slots to give.
+     */
+    objectIds: string[];
+    /**
+     * The cash to give.
+     */
+    cash: number;
+}
+
+/**
+ * The HTTP POST /persons/trade/confirm and /persons/trade/cancel requests. Confirm or cancel a trade.
+ */
+export interface IApiPersonsTradeIdPost {
+    personId: string;
+    tradeId: string;
+}
+
+/**
+ * A loan of the city to a person. Interest is added to the balance over time and a payment is collected from the cash
+ * of the person on a schedule.
+ */
+export interface IApiLoan {
+    personId: string;
+    /**
+     * The borrowed cash and interest which is not repaid yet.
+     */
+    balance: number;
+    /**
+     * The amount the next scheduled payment will collect.
+     */
+    nextPaymentAmount: number;
+    /**
+     * An ISO Date string of when the next scheduled payment is collected.
+     */
+    nextPaymentAt: string;
+    /**
+     * The scheduled payments in a row which the person could not pay. Each one lowers the credit limit, too many lead
+     * to a lot being repossessed.
+     */
+    missedPayments: number;
+    /**
+     * An ISO Date string of when the loan was first taken.
+     */
+    createdAt: string;
+}
+
+/**
+ * The HTTP POST /persons/loan/borrow request. Borrow cash from the city, adding to the loan of the person.
+ */
+export interface IApiPersonsLoanBorrowPost {
+    personId: string;
+    amount: number;
+    /**
+     * The amount to pay on each scheduled payment, the minimum payment is collected if it is lower or missing.
+     */
+    paymentAmount?: number;
+}
+
+/**
+ * The HTTP POST /persons/loan/repay request. Pay back part of the loan from the cash of the person.
+ */
+export interface IApiPersonsLoanRepayPost {
+    personId: string;
+    amount: number;
+}
+
+/**
+ * The HTTP GET /persons/loan response.
+ */
+export interface IApiPersonsLoanResponse {
+    /**
+     * The loan of the current person, null if the person has no loan.
+     */
+    loan: IApiLoan | null;
+    creditLimit: number;
+    /**
+     * The credit limit which is not used by the loan yet.
+     */
+    availableCredit: number;
+}
+
+/**
+ * A warning to a lot owner who cannot pay their next lot tax. Lots with tax unpaid for too long are repossessed.
+ */
+export interface IApiTaxWarning {
+    /**
+     * The tax of every lot of the owner on the next lot tax tick.
+     */
+    amountDue: number;
+    /**
+     * The lots with unpaid tax.
+     */
+    unpaidLotIds: string[];
+    /**
+     * An ISO Date string of when the first unpaid lot is repossessed, null if every lot is paid.
+     */
+    repossessAt: string | null;
+}
+
+/**
+ * The HTTP POST /generate/city request.
+ */
+export interface IApiGenerateCityPost {
+    /**
+     * The ASCII map of the city, R, C and I for residential, commercial and industrial lots, | and - for vertical and
+     * horizontal roads. Missing to generate the map from the layout, or to regenerate the city from the stored city map.
+     */
+    format?: string;
+    /**
+     * Generate the ASCII map of the city from a seed instead of sending the format.
+     */
+    layout?: IApiCityLayout;
+    /**
+     * The world position of the top left corner of the map, the stored or zero offset if missing.
+     */
+    offset?: IObject;
+}
+
+/**
+ * The options of a procedurally generated city map. The same options always generate the same map.
+ */
+export interface IApiCityLayout {
+    seed: string;
+    /**
+     * The number of tiles across the map.
+     */
+    columns: number;
+    /**
+     * The number of tiles down the map.
+     */
+    rows: number;
+    /**
+     * The share of the blocks of each zone, such as 3 residential to 1 commercial. Missing zones use the default ratios.
+     */
+    zoning?: Partial<Record<ELotZone, number>>;
+}
+
+/**
+ * A lot of a city file.
+ */
+export interface IApiCityFileLot {
+    id: string;
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+    zone: ELotZone;
+    owner: string | null;
+}
+
+/**
+ * The JSON file of a city, used to move cities in and out of the game with the HTTP GET /generate/city/export and POST
+ * /generate/city/import routes. Every id starts with the city map id, city1, followed by a dash.
+ */
+export interface IApiCityFile {
+    /**
+     * The version of the city file format, files of other versions cannot be imported.
+     */
+    version: number;
+    /**
+     * The ASCII map of the zones and roads of the city, in the format of HTTP POST /generate/city.
+     */
+    format: string;
+    /**
+     * The world position of the top left corner of the map.
+     */
+    offset: IObject;
+    roads: IRoad[];
+    lots: IApiCityFileLot[];
+    /**
+     * The contents of the lots.
+     */
+    objects: INetworkObject[];
+    houses: IHouse[];
+    floors: IFloor[];
+    walls: IWall[];
+    stockpiles: IStockpile[];
+    stockpileTiles: IStockpileTile[];
+    vendingMachines: IApiVendingMachine[];
+}
+
+/**
+ * A turn of the turn by turn directions of a road route.
+ */
+export enum ERouteTurn {
+    /**
+     * Start driving along the road.
+     */
+    DEPART = "DEPART",
+    LEFT = "LEFT",
+    RIGHT = "RIGHT",
+    /**
+     * The road nearest to the destination.
+     */
+    ARRIVE = "ARRIVE",
+}
+
+/**
+ * A step of the turn by turn directions of a road route.
+ */
+export interface IApiRouteStep {
+    turn: ERouteTurn;
+    /**
+     * The heading after the turn, NORTH, SOUTH, EAST or WEST, null when arriving or when the route has one road.
+     */
+    heading: ERoadDirection | null;
+    /**
+     * The center of the road where the turn happens.
+     */
+    location: IObject;
+    roadId: string;
+    /**
+     * How far to drive until the next step.
+     */
+    distance: number;
+}
+
+/**
+ * The HTTP GET /persons/route response.
+ */
+export interface IApiPersonsRouteResponse {
+    /**
+     * The length of the route along the roads in pixels.
+     */
+    distance: number;
+    /**
+     * The points to travel through, from the start point along the center of each road to the end point.
+     */
+    path: IObject[];
+    steps: IApiRouteStep[];
+}
+
+/**
+ * Why cash moved between persons or between a person and the city.
+ */
+export enum ELedgerReason {
+    /**
+     * A lot was bought or sold, the reference is the lot id.
+     */
+    LOT_TRADE = "LOT_TRADE",
+    /**
+     * An item was bought from a vending machine, the reference is the vending machine id.
+     */
+    VENDING = "VENDING",
+    /**
+     * The owner of a vending machine collected its revenue, the reference is the vending machine id.
+     */
+    VENDING_REVENUE = "VENDING_REVENUE",
+    /**
+     * A person built a vending machine, the reference is the vending machine id.
+     */
+    VENDING_MACHINE = "VENDING_MACHINE",
+    /**
+     * Two persons traded with each other, the reference is the trade id.
+     */
+    TRADE = "TRADE",
+    /**
+     * A person borrowed cash from the city, the reference is the person id of the loan.
+     */
+    LOAN = "LOAN",
+    /**
+     * A person paid back part of their loan, the reference is the person id of the loan.
+     */
+    LOAN_REPAYMENT = "LOAN_REPAYMENT",
+    /**
+     * A repossessed lot paid back part of a loan at its city price, the reference is the lot id.
+     */
+    LOAN_REPOSSESSION = "LOAN_REPOSSESSION",
+    /**
+     * The owner of a lot paid the lot tax, the reference is the lot id.
+     */
+    LOT_TAX = "LOT_TAX",
+}
+
+/**
+ * A single cash movement in the history of a person.
+ */
+export interface IApiLedgerEntry {
+    id: string;
+    /**
+     * The person paying, null if the cash came from the city.
+     */
+    from: string | null;
+    /**
+     * The person receiving, null if the cash went to the city.
+     */
+    to: string | null;
+    amount: number;
+    reason: ELedgerReason;
+    /**
+     * The id of the thing paid for, such as a lot id.
+     */
+    referenceId: string | null;
+    /**
+     * An ISO Date string of when the cash moved.
+     */
+    createdAt: string;
+}
+
+/**
+ * The HTTP GET /persons/ledger response. One page of the cash history of the current person, newest first.
+ */
+export interface IApiPersonsLedgerResponse {
+    entries: IApiLedgerEntry[];
+    /**
+     * Pass as the "after" query parameter to get the next page, null on the last page.
+     */
+    nextCursor: string | null;
+}
+
+/**
+ * What a person constructs. Each kind of construction can only be built on lots of its zone.
+ */
+export enum EConstructionType {
+    /**
+     * A building on a residential lot.
+     */
+    HOUSE = "HOUSE",
+    /**
+     * A building on a commercial lot.
+     */
+    SHOP = "SHOP",
+    /**
+     * A building on an industrial lot.
+     */
+    WORKSHOP = "WORKSHOP",
+    /**
+     * A stockpile on an industrial lot.
+     */
+    STOCKPILE = "STOCKPILE",
+}
+
+/**
+ * The HTTP POST /persons/construction request. Construct part of a building at a location.
+ */
+export interface IApiPersonsConstructionBuildingPost extends IApiPersonsConstructionPost {
+    /**
+     * The kind of building, HOUSE, SHOP or WORKSHOP. Defaults to HOUSE.
+     */
+    constructionType?: EConstructionType;
+}
+
+/**
+ * A machine readable code for each kind of API error response.
+ */
+export enum EApiErrorCode {
+    /**
+     * The request did not include a valid session token.
+     */
+    UNAUTHENTICATED = "UNAUTHENTICATED",
+    /**
+     * The session token is valid but the caller is not allowed to perform the request.
+     */
+    FORBIDDEN = "FORBIDDEN",
+    /**
+     * The request body is missing fields or has invalid values.
+     */
+    INVALID_REQUEST = "INVALID_REQUEST",
+    /**
+     * Something the request refers to does not exist.
+     */
+    NOT_FOUND = "NOT_FOUND",
+    /**
+     * The person does not have enough cash and credit for the request.
+     */
+    INSUFFICIENT_FUNDS = "INSUFFICIENT_FUNDS",
+    /**
+     * The request is based on an old state, for example an offer which changed price.
+     */
+    CONFLICT = "CONFLICT",
+    /**
+     * The vending machine has no more of the requested item.
+     */
+    OUT_OF_STOCK = "OUT_OF_STOCK",
+    /**
+     * The zone of the lot does not allow the requested construction, for example a stockpile on a residential lot.
+     */
+    ZONING_VIOLATION = "ZONING_VIOLATION",
+}
+
+/**
+ * The JSON body of an error response.
+ */
+export interface IApiErrorResponse {
+    /**
+     * The machine readable error code.
+     */
+    code: EApiErrorCode;
+    /**
+     * A human readable message describing the error.
+     */
+    message: string;
+    /**
+     * Each problem of an invalid request, such as each bad character of a city format.
+     */
+    details?: IApiErrorDetail[];
+}
+
+/**
+ * One problem of an invalid request.
+ */
+export interface IApiErrorDetail {
+    message: string;
+    /**
+     * The request field with the problem, such as lots[2].zone.
+     */
+    field?: string;
+    /**
+     * The row of a bad character in a city format, starting at 1.
+     */
+    row?: number;
+    /**
+     * The column of a bad character in a city format, starting at 1.
+     */
+    column?: number;
+}